@@ -6,7 +6,9 @@ import { HomePage } from '@/pages/HomePage';
 import { Login } from '@/pages/Login';
 import { Signup } from '@/pages/Signup';
 import MagicLink from '@/pages/MagicLink';
+import { ParentLogin } from '@/pages/ParentLogin';
 import SimpleAuth from '@/pages/SimpleAuth';
+import { ResetPassword } from '@/pages/ResetPassword';
 import { Dashboard } from '@/pages/Dashboard';
 import { FranchiseeDashboard } from '@/pages/FranchiseeDashboard';
 import SchoolAdminDashboard from '@/pages/SchoolAdminDashboard';
@@ -20,6 +22,9 @@ import { ParentPortal } from '@/pages/ParentPortal';
 import { FranchiseAgreement } from '@/pages/FranchiseAgreement';
 import { AgreementPage } from '@/pages/AgreementPage';
 import { Franchisees } from '@/pages/Franchisees';
+import { SecuritySettings } from '@/pages/SecuritySettings';
+import { RecycleBin } from '@/pages/RecycleBin';
+import { DuplicateReviews } from '@/pages/DuplicateReviews';
 import NotFound from '@/pages/not-found';
 import { AuthProvider, useAuth } from '@/lib/auth.tsx';
 
@@ -44,6 +49,8 @@ function AppRoutes() {
         <Route path="/login" component={Login} />
         <Route path="/signup" component={Signup} />
         <Route path="/auth/magic-link" component={MagicLink} />
+        <Route path="/auth/reset-password" component={ResetPassword} />
+        <Route path="/parent-login" component={ParentLogin} />
         <Route path="/auth/simple-auth" component={SimpleAuth} />
         <Route path="/auth/agreements" component={AgreementPage} />
         <Route path="/franchise/agreement/:token" component={FranchiseAgreement} />
@@ -88,6 +95,9 @@ function AppRoutes() {
         <Route path="/parent-portal" component={ParentPortal} />
         <Route path="/content" component={Content} />
         <Route path="/content/:slug" component={Content} /> {/* Reuse for now or new component */}
+        <Route path="/security" component={SecuritySettings} />
+        <Route path="/recycle-bin" component={RecycleBin} />
+        <Route path="/duplicates" component={DuplicateReviews} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { GitBranch, MapPin, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface BranchesDialogProps {
+  school: { id: number; name: string };
+  onClose: () => void;
+}
+
+const EMPTY_BRANCH = { name: '', branchCode: '', address: '', city: '', state: '', pincode: '' };
+
+export function BranchesDialog({ school, onClose }: BranchesDialogProps) {
+  const [newBranch, setNewBranch] = useState(EMPTY_BRANCH);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const branchesKey = ['/api/schools', school.id, 'branches'];
+  const { data: branches = [], isLoading } = useQuery({
+    queryKey: branchesKey,
+    queryFn: () => apiRequest(`/schools/${school.id}/branches`),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: branchesKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/schools'] });
+  };
+
+  const createBranchMutation = useMutation({
+    mutationFn: () => {
+      // Only send the fields that were filled in
+      const payload = Object.fromEntries(
+        Object.entries(newBranch).map(([key, value]) => [key, value.trim()]).filter(([, value]) => value)
+      );
+      return apiRequest(`/schools/${school.id}/branches`, {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      setNewBranch(EMPTY_BRANCH);
+      toast({ title: 'Success', description: 'Branch added successfully' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to add branch', variant: 'destructive' });
+    },
+  });
+
+  const deleteBranchMutation = useMutation({
+    mutationFn: (branchId: number) => apiRequest(`/branches/${branchId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Success', description: 'Branch deleted successfully' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete branch', variant: 'destructive' });
+    },
+  });
+
+  const setField = (field: keyof typeof EMPTY_BRANCH) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setNewBranch(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Branches of {school.name}</DialogTitle>
+          <DialogDescription>
+            Each branch has its own address, students and camps. School views include every branch.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading branches...</p>
+          ) : branches.length === 0 ? (
+            <p className="text-sm text-gray-500">No branches yet.</p>
+          ) : (
+            branches.map((branch: any) => (
+              <div key={branch.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <div className="text-sm font-medium flex items-center gap-2">
+                    <GitBranch className="h-4 w-4 text-blue-600" />
+                    {branch.name}
+                    {branch.metadata?.branchCode && (
+                      <span className="text-xs text-gray-500">({branch.metadata.branchCode})</span>
+                    )}
+                  </div>
+                  {branch.metadata?.city && (
+                    <div className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                      <MapPin className="h-3 w-3" />
+                      {[branch.metadata.address, branch.metadata.city, branch.metadata.state].filter(Boolean).join(', ')}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-600"
+                  onClick={() => deleteBranchMutation.mutate(branch.id)}
+                  disabled={deleteBranchMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <h4 className="text-sm font-medium">Add Branch</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <Input placeholder="Branch name *" value={newBranch.name} onChange={setField('name')} />
+            <Input placeholder="Branch code" value={newBranch.branchCode} onChange={setField('branchCode')} />
+            <Input className="col-span-2" placeholder="Address" value={newBranch.address} onChange={setField('address')} />
+            <Input placeholder="City" value={newBranch.city} onChange={setField('city')} />
+            <Input placeholder="State" value={newBranch.state} onChange={setField('state')} />
+            <Input placeholder="Pincode" value={newBranch.pincode} onChange={setField('pincode')} maxLength={6} />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button
+              onClick={() => createBranchMutation.mutate()}
+              disabled={!newBranch.name.trim() || createBranchMutation.isPending}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Branch
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
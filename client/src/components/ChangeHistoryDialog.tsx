@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query';
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest } from '@/lib/queryClient';
+
+interface ChangeHistoryEntry {
+  id: number;
+  recordType: 'ENTITY' | 'USER' | 'MEMBERSHIP';
+  changes: Record<string, { from: unknown; to: unknown }>;
+  changedAt: string;
+  actor: { id: number; name: string } | null;
+  label?: string | null;
+}
+
+interface ChangeHistoryDialogProps {
+  // Path of the history endpoint, e.g. /entities/12/history or /users/4/history
+  path: string;
+  title: string;
+  onClose: () => void;
+}
+
+// metadata.contactEmail -> Contact email
+function fieldLabel(field: string) {
+  const name = field.replace(/^metadata\./, '').replace(/([A-Z])/g, ' $1').toLowerCase();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function ChangeHistoryDialog({ path, title, onClose }: ChangeHistoryDialogProps) {
+  const { data: history = [], isLoading } = useQuery<ChangeHistoryEntry[]>({
+    queryKey: [`/api${path}`],
+    queryFn: () => apiRequest(path),
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History: {title}</DialogTitle>
+          <DialogDescription>Every change to these details, newest first.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {history.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                <div className="text-xs text-gray-500 flex items-center gap-2">
+                  {new Date(entry.changedAt).toLocaleString()} • {entry.actor?.name ?? 'System'}
+                  {entry.label && <Badge variant="secondary">{entry.label}</Badge>}
+                </div>
+                <div className="mt-1 space-y-1">
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <div key={field} className="text-sm flex flex-wrap items-center gap-1">
+                      <span className="font-medium">{fieldLabel(field)}:</span>
+                      <span className="text-gray-500 line-through">{formatValue(change.from)}</span>
+                      <ArrowRight className="h-3 w-3 text-gray-400" />
+                      <span>{formatValue(change.to)}</span>
+                    </div>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
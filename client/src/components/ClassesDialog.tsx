@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2, UserMinus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface ClassesDialogProps {
+  school: { id: number; name: string };
+  onClose: () => void;
+}
+
+// Academic years run April to March, so 2025-26 starts in April 2025; used until the school's own year loads
+function currentAcademicYear() {
+  const now = new Date();
+  const start = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+function className(cls: any) {
+  return `Grade ${cls.grade}${cls.section ? ` ${cls.section}` : ''} (${cls.academicYear})`;
+}
+
+export function ClassesDialog({ school, onClose }: ClassesDialogProps) {
+  const [newClass, setNewClass] = useState({ academicYear: currentAcademicYear(), grade: '', section: '' });
+  const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
+  const [studentsToAdd, setStudentsToAdd] = useState<number[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const classesKey = ['/api/schools', school.id, 'classes'];
+  const { data: classes = [], isLoading } = useQuery({
+    queryKey: classesKey,
+    queryFn: () => apiRequest(`/schools/${school.id}/classes`),
+  });
+
+  // A school that has rolled over early is already in its next year
+  const { data: academicYears = [] } = useQuery({
+    queryKey: ['/api/schools', school.id, 'academic-years'],
+    queryFn: () => apiRequest(`/schools/${school.id}/academic-years`),
+  });
+  const schoolYear = academicYears.find((year: any) => year.isCurrent)?.label;
+  useEffect(() => {
+    if (schoolYear) setNewClass((current) => ({ ...current, academicYear: schoolYear }));
+  }, [schoolYear]);
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ['/api/schools', school.id, 'branches'],
+    queryFn: () => apiRequest(`/schools/${school.id}/branches`),
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['/api/users'],
+    queryFn: () => apiRequest('/users'),
+  });
+
+  const { data: schoolStudents = [] } = useQuery({
+    queryKey: ['/api/schools', school.id, 'students'],
+    queryFn: () => apiRequest(`/schools/${school.id}/students`),
+    enabled: !!selectedClassId,
+  });
+
+  const { data: classTeachers = [] } = useQuery({
+    queryKey: ['/api/classes', selectedClassId, 'teachers'],
+    queryFn: () => apiRequest(`/classes/${selectedClassId}/teachers`),
+    enabled: !!selectedClassId,
+  });
+
+  const { data: classStudents = [] } = useQuery({
+    queryKey: ['/api/classes', selectedClassId, 'students'],
+    queryFn: () => apiRequest(`/classes/${selectedClassId}/students`),
+    enabled: !!selectedClassId,
+  });
+
+  // Teachers of this school or any of its branches
+  const unitIds = [school.id, ...branches.map((branch: any) => branch.id)];
+  const schoolTeachers = users.filter((u: any) =>
+    u.memberships?.some((m: any) => m.role === 'TEACHER' && unitIds.includes(m.entityId)) &&
+    !classTeachers.some((t: any) => t.id === u.id)
+  );
+  const unplacedStudents = schoolStudents.filter((s: any) => !classStudents.some((c: any) => c.id === s.id));
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ title: 'Error', description: error.message || fallback, variant: 'destructive' });
+  };
+
+  const refreshClass = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/classes', selectedClassId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/students'] });
+  };
+
+  const createClassMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/schools/${school.id}/classes`, {
+        method: 'POST',
+        body: JSON.stringify({
+          academicYear: newClass.academicYear.trim(),
+          grade: newClass.grade.trim(),
+          ...(newClass.section.trim() ? { section: newClass.section.trim() } : {}),
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: classesKey });
+      setNewClass(prev => ({ ...prev, grade: '', section: '' }));
+      toast({ title: 'Success', description: 'Class created successfully' });
+    },
+    onError: onError('Failed to create class'),
+  });
+
+  const deleteClassMutation = useMutation({
+    mutationFn: (classId: number) => apiRequest(`/classes/${classId}`, { method: 'DELETE' }),
+    onSuccess: (_, classId) => {
+      queryClient.invalidateQueries({ queryKey: classesKey });
+      if (selectedClassId === classId) setSelectedClassId(null);
+      toast({ title: 'Success', description: 'Class deleted successfully' });
+    },
+    onError: onError('Failed to delete class'),
+  });
+
+  const assignTeacherMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest(`/classes/${selectedClassId}/teachers`, { method: 'POST', body: JSON.stringify({ userId }) }),
+    onSuccess: refreshClass,
+    onError: onError('Failed to assign teacher'),
+  });
+
+  const unassignTeacherMutation = useMutation({
+    mutationFn: (userId: number) => apiRequest(`/classes/${selectedClassId}/teachers/${userId}`, { method: 'DELETE' }),
+    onSuccess: refreshClass,
+    onError: onError('Failed to remove teacher'),
+  });
+
+  const assignStudentsMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/classes/${selectedClassId}/students`, {
+        method: 'POST',
+        body: JSON.stringify({ studentIds: studentsToAdd }),
+      }),
+    onSuccess: () => {
+      refreshClass();
+      setStudentsToAdd([]);
+      toast({ title: 'Success', description: 'Students added to class' });
+    },
+    onError: onError('Failed to add students'),
+  });
+
+  const removeStudentMutation = useMutation({
+    mutationFn: (studentId: number) => apiRequest(`/classes/${selectedClassId}/students/${studentId}`, { method: 'DELETE' }),
+    onSuccess: refreshClass,
+    onError: onError('Failed to remove student'),
+  });
+
+  const selectedClass = classes.find((cls: any) => cls.id === selectedClassId);
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Classes of {school.name}</DialogTitle>
+          <DialogDescription>
+            Teachers see only the students of the classes they are assigned to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {isLoading ? (
+                <p className="text-sm text-gray-500">Loading classes...</p>
+              ) : classes.length === 0 ? (
+                <p className="text-sm text-gray-500">No classes yet.</p>
+              ) : (
+                classes.map((cls: any) => (
+                  <div
+                    key={cls.id}
+                    className={`flex items-center justify-between rounded-md border p-2 cursor-pointer ${cls.id === selectedClassId ? 'border-blue-500 bg-blue-50' : ''}`}
+                    onClick={() => {
+                      setSelectedClassId(cls.id);
+                      setStudentsToAdd([]);
+                    }}
+                  >
+                    <span className="text-sm font-medium">{className(cls)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-red-600"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteClassMutation.mutate(cls.id);
+                      }}
+                      disabled={deleteClassMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2 border-t pt-3">
+              <h4 className="text-sm font-medium">Add Class</h4>
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  placeholder="2025-26"
+                  value={newClass.academicYear}
+                  onChange={(e) => setNewClass(prev => ({ ...prev, academicYear: e.target.value }))}
+                />
+                <Input
+                  placeholder="Grade *"
+                  value={newClass.grade}
+                  onChange={(e) => setNewClass(prev => ({ ...prev, grade: e.target.value }))}
+                />
+                <Input
+                  placeholder="Section"
+                  value={newClass.section}
+                  onChange={(e) => setNewClass(prev => ({ ...prev, section: e.target.value }))}
+                />
+              </div>
+              <Button
+                size="sm"
+                onClick={() => createClassMutation.mutate()}
+                disabled={!newClass.grade.trim() || !newClass.academicYear.trim() || createClassMutation.isPending}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Class
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {!selectedClass ? (
+              <p className="text-sm text-gray-500">Select a class to manage its teachers and students.</p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Teachers</h4>
+                  {classTeachers.map((teacher: any) => (
+                    <div key={teacher.id} className="flex items-center justify-between text-sm">
+                      <span>{teacher.name}</span>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => unassignTeacherMutation.mutate(teacher.id)}>
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {schoolTeachers.length > 0 && (
+                    <Select value="" onValueChange={(value) => assignTeacherMutation.mutate(parseInt(value))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Assign a teacher" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {schoolTeachers.map((teacher: any) => (
+                          <SelectItem key={teacher.id} value={teacher.id.toString()}>
+                            {teacher.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+
+                <div className="space-y-2 border-t pt-3">
+                  <h4 className="text-sm font-medium flex items-center gap-2">
+                    <Users className="h-4 w-4" />
+                    Students ({classStudents.length})
+                  </h4>
+                  <div className="space-y-1 max-h-32 overflow-y-auto">
+                    {classStudents.map((student: any) => (
+                      <div key={student.id} className="flex items-center justify-between text-sm">
+                        <span>{student.name}</span>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeStudentMutation.mutate(student.id)}>
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+
+                  {unplacedStudents.length > 0 && (
+                    <>
+                      <div className="text-xs text-gray-500">Add students; they leave any other class for {selectedClass.academicYear}</div>
+                      <div className="space-y-1 max-h-40 overflow-y-auto rounded-md border p-2">
+                        {unplacedStudents.map((student: any) => (
+                          <label key={student.id} className="flex items-center space-x-2 text-sm">
+                            <Checkbox
+                              checked={studentsToAdd.includes(student.id)}
+                              onCheckedChange={() => setStudentsToAdd(prev =>
+                                prev.includes(student.id) ? prev.filter(id => id !== student.id) : [...prev, student.id]
+                              )}
+                            />
+                            <span>{student.name}{student.metadata?.grade ? ` • Grade ${student.metadata.grade}` : ''}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={() => assignStudentsMutation.mutate()}
+                        disabled={studentsToAdd.length === 0 || assignStudentsMutation.isPending}
+                      >
+                        Add {studentsToAdd.length || ''} Student{studentsToAdd.length !== 1 ? 's' : ''}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
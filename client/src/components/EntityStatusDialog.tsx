@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+export type EntityTransition = 'activate' | 'suspend' | 'reinstate' | 'archive' | 'restore';
+
+const TRANSITION_COPY: Record<EntityTransition, { title: string; description: string; requiresReason: boolean }> = {
+  activate: { title: 'Activate', description: 'Make this entity live.', requiresReason: false },
+  suspend: {
+    title: 'Suspend',
+    description: 'Everything beneath it is suspended too: camps cannot progress and staff cannot sign in until it is reinstated.',
+    requiresReason: true,
+  },
+  reinstate: { title: 'Reinstate', description: 'Lift the suspension and restore access.', requiresReason: false },
+  archive: {
+    title: 'Archive',
+    description: 'It and everything beneath it become read-only.',
+    requiresReason: true,
+  },
+  restore: { title: 'Restore', description: 'Bring this entity back from the archive.', requiresReason: false },
+};
+
+// The transitions open to an entity in each status, in menu order
+export const TRANSITIONS_BY_STATUS: Record<string, EntityTransition[]> = {
+  DRAFT: ['activate', 'archive'],
+  ACTIVE: ['suspend', 'archive'],
+  SUSPENDED: ['reinstate', 'archive'],
+  ARCHIVED: ['restore'],
+};
+
+export function transitionLabel(transition: EntityTransition) {
+  return TRANSITION_COPY[transition].title;
+}
+
+interface EntityStatusDialogProps {
+  entity: { id: number; name: string };
+  transition: EntityTransition;
+  invalidateKeys: string[];
+  onClose: () => void;
+}
+
+export function EntityStatusDialog({ entity, transition, invalidateKeys, onClose }: EntityStatusDialogProps) {
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const copy = TRANSITION_COPY[transition];
+
+  const transitionMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/entities/${entity.id}/${transition}`, {
+        method: 'POST',
+        body: JSON.stringify(reason.trim() ? { reason: reason.trim() } : {}),
+      }),
+    onSuccess: () => {
+      invalidateKeys.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+      toast({
+        title: 'Success',
+        description: `${entity.name}: ${copy.title.toLowerCase()} complete`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${transition} ${entity.name}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{copy.title} {entity.name}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <label className="text-sm font-medium">Reason{copy.requiresReason ? ' *' : ' (optional)'}</label>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Recorded in the audit trail"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={transition === 'suspend' || transition === 'archive' ? 'destructive' : 'default'}
+            onClick={() => transitionMutation.mutate()}
+            disabled={(copy.requiresReason && !reason.trim()) || transitionMutation.isPending}
+          >
+            {copy.title}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+// Positions a school has exactly one holder of; they change hands rather than being added
+export const SINGLE_HOLDER_ROLES = ['PRINCIPAL', 'SCHOOL_ADMIN'];
+
+interface HandOverRoleDialogProps {
+  user: any;
+  users: any[];
+  onClose: () => void;
+}
+
+export function HandOverRoleDialog({ user, users, onClose }: HandOverRoleDialogProps) {
+  const positions = (user.memberships || []).filter((m: any) => SINGLE_HOLDER_ROLES.includes(m.role));
+  const [membershipId, setMembershipId] = useState<number | null>(positions[0]?.id ?? null);
+  const [toUserId, setToUserId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: entities } = useQuery({
+    queryKey: ['/api/entities'],
+    queryFn: () => apiRequest('/entities'),
+  });
+
+  const handOverMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/memberships/${membershipId}/handover`, {
+        method: 'POST',
+        body: JSON.stringify({ userId: toUserId }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: 'Success',
+        description: 'Role handed over',
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to hand over role',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const entityName = (entityId: number) =>
+    entities?.find((entity: any) => entity.id === entityId)?.name || `Entity #${entityId}`;
+
+  const candidates = users.filter((u: any) => u.id !== user.id && u.status !== 'SUSPENDED');
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Hand Over Role</DialogTitle>
+          <DialogDescription>
+            Move a position held by {user.name} to another user. {user.name} loses the role and is signed out.
+          </DialogDescription>
+        </DialogHeader>
+
+        {positions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">This user holds no principal or school admin position.</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Position</label>
+              <Select
+                value={membershipId ? membershipId.toString() : ''}
+                onValueChange={(value) => setMembershipId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a position" />
+                </SelectTrigger>
+                <SelectContent>
+                  {positions.map((membership: any) => (
+                    <SelectItem key={membership.id} value={membership.id.toString()}>
+                      {membership.role.replace('_', ' ')} at {entityName(membership.entityId)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">New Holder</label>
+              <Select
+                value={toUserId ? toUserId.toString() : ''}
+                onValueChange={(value) => setToUserId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((candidate: any) => (
+                    <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                      {candidate.name} ({candidate.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => handOverMutation.mutate()}
+            disabled={!membershipId || !toUserId || handOverMutation.isPending}
+          >
+            Hand Over
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Send, Ban } from 'lucide-react';
+
+const invitationStatusColors = {
+  PENDING: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  ACCEPTED: 'bg-green-100 text-green-800 border-green-200',
+  REVOKED: 'bg-red-100 text-red-800 border-red-200',
+  EXPIRED: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+const kindLabels = {
+  INVITE: 'User invite',
+  FRANCHISE_AGREEMENT: 'Franchise agreement',
+  SCHOOL_AGREEMENT: 'School agreement',
+};
+
+const isOpen = (invitation: any) => invitation.status === 'PENDING' || invitation.status === 'EXPIRED';
+
+export function InvitationsTable() {
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [invitationToRevoke, setInvitationToRevoke] = useState<any | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invitations, isLoading } = useQuery({
+    queryKey: ['/api/invitations'],
+    queryFn: () => apiRequest('/invitations'),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/invitations/${id}/resend`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+      toast({
+        title: 'Success',
+        description: 'Invitation resent',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to resend invitation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/invitations/${id}/revoke`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      setInvitationToRevoke(null);
+      toast({
+        title: 'Success',
+        description: 'Invitation revoked',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to revoke invitation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filteredInvitations = (invitations || []).filter(
+    (invitation: any) => statusFilter === 'all' || invitation.status === statusFilter
+  );
+
+  if (isLoading) {
+    return <div className="py-8 text-center text-gray-500">Loading invitations...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            <SelectItem value="PENDING">Pending</SelectItem>
+            <SelectItem value="ACCEPTED">Accepted</SelectItem>
+            <SelectItem value="EXPIRED">Expired</SelectItem>
+            <SelectItem value="REVOKED">Revoked</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-3 px-4">Invitee</th>
+              <th className="text-left py-3 px-4">Invitation</th>
+              <th className="text-left py-3 px-4">Invited By</th>
+              <th className="text-left py-3 px-4">Status</th>
+              <th className="text-right py-3 px-4">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredInvitations.length === 0 && (
+              <tr>
+                <td colSpan={5} className="py-8 text-center text-gray-500">No invitations found</td>
+              </tr>
+            )}
+            {filteredInvitations.map((invitation: any) => (
+              <tr key={invitation.id} className="border-b hover:bg-gray-50">
+                <td className="py-3 px-4">
+                  <div className="font-medium text-gray-900">{invitation.name}</div>
+                  <div className="text-sm text-gray-500">{invitation.email}</div>
+                </td>
+                <td className="py-3 px-4">
+                  <div className="text-sm">{kindLabels[invitation.kind as keyof typeof kindLabels]}</div>
+                  <div className="text-xs text-gray-500">
+                    {invitation.role.replace('_', ' ')} at {invitation.entityName || `Entity #${invitation.entityId}`}
+                  </div>
+                </td>
+                <td className="py-3 px-4">
+                  <div className="text-sm">{invitation.inviter?.name || 'System'}</div>
+                  <div className="text-xs text-gray-500">{new Date(invitation.createdAt).toLocaleDateString()}</div>
+                </td>
+                <td className="py-3 px-4">
+                  <Badge className={invitationStatusColors[invitation.status as keyof typeof invitationStatusColors]}>
+                    {invitation.status}
+                  </Badge>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {invitation.status === 'ACCEPTED' && `Accepted ${new Date(invitation.acceptedAt).toLocaleDateString()}`}
+                    {invitation.status === 'REVOKED' && `Revoked ${new Date(invitation.revokedAt).toLocaleDateString()}`}
+                    {isOpen(invitation) && `${invitation.status === 'EXPIRED' ? 'Expired' : 'Expires'} ${new Date(invitation.expiresAt).toLocaleString()}`}
+                  </div>
+                  {invitation.sendCount > 1 && (
+                    <div className="text-xs text-gray-500">Sent {invitation.sendCount} times</div>
+                  )}
+                </td>
+                <td className="py-3 px-4 text-right">
+                  {isOpen(invitation) && (
+                    <div className="flex justify-end space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resendMutation.mutate(invitation.id)}
+                        disabled={resendMutation.isPending}
+                      >
+                        <Send className="w-4 h-4 mr-2" />
+                        Resend
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => setInvitationToRevoke(invitation)}
+                      >
+                        <Ban className="w-4 h-4 mr-2" />
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <AlertDialog open={!!invitationToRevoke} onOpenChange={(open) => !open && setInvitationToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Invitation</AlertDialogTitle>
+            <AlertDialogDescription>
+              The link sent to {invitationToRevoke?.email} will stop working and the{' '}
+              {invitationToRevoke?.role.replace('_', ' ')} access it granted will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeMutation.mutate(invitationToRevoke.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
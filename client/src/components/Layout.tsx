@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'wouter';
-import { Smile, Bell, User, LogOut, Menu, ChevronDown } from 'lucide-react';
+import { Smile, Bell, User, LogOut, Menu, ChevronDown, ShieldCheck, Eye } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
@@ -11,7 +11,7 @@ interface LayoutProps {
 }
 
 export function Layout({ children }: LayoutProps) {
-  const { user, activeRole, activeMembership, memberships, logout, switchRole, switchMembership } = useAuth();
+  const { user, activeRole, activeMembership, memberships, logout, switchRole, switchMembership, stopImpersonation } = useAuth();
   const [location, setLocation] = useLocation();
 
   // Role display names
@@ -84,6 +84,8 @@ export function Layout({ children }: LayoutProps) {
       colorScheme: 'users', // Fallback
       children: [
         { name: 'Users', href: '/users', icon: 'user-cog', adminOnly: true },
+        { name: 'Recycle Bin', href: '/recycle-bin', icon: 'trash-2', adminOnly: true },
+        { name: 'Duplicate Review', href: '/duplicates', icon: 'copy', adminOnly: true },
         { name: 'Twinky Corner', href: '/content', icon: 'smile', colorScheme: 'reports' },
         { name: 'Reports', href: '/reports', icon: 'file-text', colorScheme: 'reports' }
       ]
@@ -106,7 +108,7 @@ export function Layout({ children }: LayoutProps) {
 
     // 1. Check strict adminOnly flag
     if (item.adminOnly) {
-      if (item.name === 'Users' && !hasRole('SYSTEM_ADMIN')) return false;
+      if ((item.name === 'Users' || item.name === 'Recycle Bin') && !hasRole('SYSTEM_ADMIN')) return false;
       if (item.name === 'Franchisees' && !hasAnyRole(['SYSTEM_ADMIN', 'ORG_ADMIN'])) return false;
       // Generic admin check
       if (!hasAnyRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN'])) return false;
@@ -193,6 +195,31 @@ export function Layout({ children }: LayoutProps) {
 
   return (
     <div className="min-h-screen bg-[#F9F7F4]">
+      {/* Impersonation banner */}
+      {user?.impersonator && (
+        <div className="bg-amber-500 text-white">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between text-sm">
+            <div className="flex items-center gap-2">
+              <Eye className="h-4 w-4" />
+              <span>
+                Viewing as <strong>{user.name}</strong> ({user.email}). Changes are disabled.
+              </span>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="bg-white text-amber-700 hover:bg-amber-50 h-7"
+              onClick={async () => {
+                await stopImpersonation();
+                setLocation('/dashboard');
+              }}
+            >
+              Exit View
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -266,6 +293,12 @@ export function Layout({ children }: LayoutProps) {
                   </DropdownMenu>
                 )}
 
+                <Link href="/security">
+                  <Button variant="ghost" size="icon" title="Security settings">
+                    <ShieldCheck className="h-4 w-4" />
+                  </Button>
+                </Link>
+
                 <Button variant="ghost" size="icon" onClick={logout}>
                   <LogOut className="h-4 w-4" />
                 </Button>
@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Save } from 'lucide-react';
+
+interface MembershipWindowsDialogProps {
+  user: any;
+  onClose: () => void;
+}
+
+interface WindowDraft {
+  validFrom: string;
+  validTo: string;
+}
+
+// yyyy-mm-dd in local time, as a date input expects
+const toDateInput = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+export function getMembershipState(membership: any, now: Date = new Date()) {
+  if (membership.validFrom && new Date(membership.validFrom) > now) return 'UPCOMING';
+  if (membership.validTo && new Date(membership.validTo) <= now) return 'EXPIRED';
+  return 'ACTIVE';
+}
+
+const stateColors = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  UPCOMING: 'bg-blue-100 text-blue-800',
+  EXPIRED: 'bg-gray-100 text-gray-800',
+};
+
+export function MembershipWindowsDialog({ user, onClose }: MembershipWindowsDialogProps) {
+  const [drafts, setDrafts] = useState<Record<number, WindowDraft>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: entities } = useQuery({
+    queryKey: ['/api/entities'],
+    queryFn: () => apiRequest('/entities'),
+  });
+
+  useEffect(() => {
+    const initial: Record<number, WindowDraft> = {};
+    (user.memberships || []).forEach((membership: any) => {
+      initial[membership.id] = {
+        validFrom: toDateInput(membership.validFrom),
+        validTo: toDateInput(membership.validTo),
+      };
+    });
+    setDrafts(initial);
+  }, [user]);
+
+  const updateWindowMutation = useMutation({
+    mutationFn: ({ id, draft }: { id: number; draft: WindowDraft }) =>
+      apiRequest(`/memberships/${id}/window`, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          // Windows start at the beginning of the first day and run to the end of the last
+          validFrom: draft.validFrom ? new Date(`${draft.validFrom}T00:00:00`).toISOString() : null,
+          validTo: draft.validTo ? new Date(`${draft.validTo}T23:59:59`).toISOString() : null,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: 'Success',
+        description: 'Access window updated',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update access window',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const entityName = (entityId: number) =>
+    entities?.find((entity: any) => entity.id === entityId)?.name || `Entity #${entityId}`;
+
+  const setDraft = (id: number, field: keyof WindowDraft, value: string) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const memberships = user.memberships || [];
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Access Windows for {user.name}</DialogTitle>
+          <DialogDescription>
+            A role only applies between its start and end dates. Leave a date empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {memberships.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">This user has no memberships.</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            {memberships.map((membership: any) => {
+              const draft = drafts[membership.id] || { validFrom: '', validTo: '' };
+              const state = getMembershipState(membership);
+              return (
+                <div key={membership.id} className="border rounded-md p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">{membership.role.replace('_', ' ')}</div>
+                      <div className="text-sm text-gray-500">{entityName(membership.entityId)}</div>
+                    </div>
+                    <Badge className={stateColors[state]}>{state}</Badge>
+                  </div>
+                  <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                    <div>
+                      <label className="text-xs font-medium text-gray-600">Valid From</label>
+                      <Input
+                        type="date"
+                        value={draft.validFrom}
+                        onChange={(e) => setDraft(membership.id, 'validFrom', e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs font-medium text-gray-600">Valid To</label>
+                      <Input
+                        type="date"
+                        value={draft.validTo}
+                        onChange={(e) => setDraft(membership.id, 'validTo', e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => updateWindowMutation.mutate({ id: membership.id, draft })}
+                      disabled={updateWindowMutation.isPending}
+                    >
+                      <Save className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
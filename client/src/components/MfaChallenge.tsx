@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { ShieldCheck, Loader2, AlertCircle, Copy } from 'lucide-react';
+
+interface MfaChallengeProps {
+  mfaToken: string;
+  mode: 'verify' | 'enroll';
+  onComplete: (result: any) => void;
+  onCancel: () => void;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+export function MfaChallenge({ mfaToken, mode, onComplete, onCancel }: MfaChallengeProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingResult, setPendingResult] = useState<any>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (mode === 'enroll') {
+      startEnrollment();
+    }
+  }, [mode, mfaToken]);
+
+  const post = async (url: string, body: any) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const startEnrollment = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const data = await post('/api/auth/mfa/challenge/enroll/start', { mfaToken });
+      setEnrollment(data);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitCode = async (value: string = code) => {
+    if (!value) {
+      setError('Please enter your authentication code');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      if (mode === 'enroll') {
+        const data = await post('/api/auth/mfa/challenge/enroll/confirm', { mfaToken, code: value });
+        // Hold the login result until the user has saved their recovery codes
+        setRecoveryCodes(data.recoveryCodes);
+        setPendingResult(data);
+      } else {
+        const data = await post('/api/auth/mfa/verify', { mfaToken, code: value });
+        onComplete(data);
+      }
+    } catch (error: any) {
+      setCode('');
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (pendingResult) {
+    return (
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2">
+            <ShieldCheck className="h-6 w-6" />
+            Save Your Recovery Codes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Each code can be used once to sign in if you lose access to your authenticator app.
+            They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 bg-gray-50 p-4 rounded font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Codes
+          </Button>
+          <Button className="w-full" onClick={() => onComplete(pendingResult)}>
+            I've Saved My Codes
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2">
+          <ShieldCheck className="h-6 w-6" />
+          {mode === 'enroll' ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mode === 'enroll' ? (
+          <>
+            <p className="text-sm text-gray-600 text-center">
+              Your role requires two-factor authentication. Scan this QR code with an authenticator app,
+              then enter the 6-digit code it shows.
+            </p>
+            {enrollment && (
+              <div className="flex flex-col items-center gap-2">
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-48 h-48" />
+                <p className="text-xs text-gray-500">
+                  Or enter this key manually: <span className="font-mono">{enrollment.secret}</span>
+                </p>
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-600 text-center">
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        )}
+
+        {useRecoveryCode ? (
+          <Input
+            placeholder="XXXXX-XXXXX"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && submitCode()}
+          />
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={6}
+              value={code}
+              onChange={setCode}
+              onComplete={submitCode}
+            >
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map((index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          onClick={() => submitCode()}
+          disabled={loading || !code}
+          className="w-full"
+        >
+          {loading ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            'Verify'
+          )}
+        </Button>
+
+        <div className="flex gap-2">
+          {mode === 'verify' && (
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+                setError('');
+              }}
+            >
+              {useRecoveryCode ? 'Use Authenticator Code' : 'Use a Recovery Code'}
+            </Button>
+          )}
+          <Button variant="outline" className="flex-1" onClick={onCancel}>
+            Back to Login
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
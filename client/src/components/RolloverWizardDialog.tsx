@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface RolloverWizardDialogProps {
+  school: { id: number; name: string };
+  onClose: () => void;
+}
+
+type FinalGradeAction = 'GRADUATE' | 'ARCHIVE';
+
+interface RolloverPreview {
+  fromYear: string;
+  toYear: string;
+  promotions: { fromGrade: string; toGrade: string; students: { id: number; name: string }[] }[];
+  leaving: { grade: string; action: FinalGradeAction; students: { id: number; name: string }[] };
+  unrecognized: { id: number; name: string; grade: string | null }[];
+  classes: { from: string; to: string }[];
+}
+
+export function RolloverWizardDialog({ school, onClose }: RolloverWizardDialogProps) {
+  const [finalGrade, setFinalGrade] = useState('12');
+  const [finalGradeAction, setFinalGradeAction] = useState<FinalGradeAction>('GRADUATE');
+  const [preview, setPreview] = useState<RolloverPreview | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: academicYears = [] } = useQuery({
+    queryKey: ['/api/schools', school.id, 'academic-years'],
+    queryFn: () => apiRequest(`/schools/${school.id}/academic-years`),
+  });
+  const currentYear = academicYears.find((year: any) => year.isCurrent)?.label;
+
+  const options = () => JSON.stringify({ finalGrade: finalGrade.trim(), finalGradeAction });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message || 'Failed to roll over academic year', variant: 'destructive' });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () => apiRequest(`/schools/${school.id}/rollover/preview`, { method: 'POST', body: options() }),
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const rolloverMutation = useMutation({
+    mutationFn: () => apiRequest(`/schools/${school.id}/rollover`, { method: 'POST', body: options() }),
+    onSuccess: (result: any) => {
+      // Grades, statuses and classes change across the school
+      queryClient.invalidateQueries();
+      toast({
+        title: 'Success',
+        description: `${school.name} moved to ${result.toYear}: ${result.promoted} promoted, ${result.graduated + result.archived} left the final grade`,
+      });
+      onClose();
+    },
+    onError,
+  });
+
+  const promotedCount = preview?.promotions.reduce((total, group) => total + group.students.length, 0) ?? 0;
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Year Rollover: {school.name}</DialogTitle>
+          <DialogDescription>
+            Promote every student of the school and its branches by one grade and start the next academic year.
+            Screenings keep the grade the student was in when they were taken.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-3 py-2">
+            <div className="text-sm">
+              Current academic year: <span className="font-medium">{currentYear ?? '...'}</span>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Final grade *</label>
+              <Input value={finalGrade} onChange={(e) => setFinalGrade(e.target.value)} placeholder="e.g. 10 or 12" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Students in the final grade</label>
+              <Select value={finalGradeAction} onValueChange={(value) => setFinalGradeAction(value as FinalGradeAction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="GRADUATE">Graduate (kept on the school's books as alumni)</SelectItem>
+                  <SelectItem value="ARCHIVE">Archive (removed from the school)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={() => previewMutation.mutate()} disabled={!finalGrade.trim() || previewMutation.isPending}>
+                Preview
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {preview.fromYear}
+              <ArrowRight className="h-4 w-4" />
+              {preview.toYear}
+            </div>
+
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">Promotions ({promotedCount})</h4>
+              {preview.promotions.length === 0 ? (
+                <p className="text-xs text-gray-500">No students to promote.</p>
+              ) : (
+                preview.promotions.map((group) => (
+                  <div key={group.fromGrade} className="text-sm flex items-center gap-2">
+                    Grade {group.fromGrade}
+                    <ArrowRight className="h-3 w-3 text-gray-400" />
+                    Grade {group.toGrade}
+                    <Badge variant="secondary">{group.students.length}</Badge>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">
+                {preview.leaving.action === 'GRADUATE' ? 'Graduating' : 'Archived'} from Grade {preview.leaving.grade} ({preview.leaving.students.length})
+              </h4>
+              <p className="text-xs text-gray-500">
+                {preview.leaving.students.map((student) => student.name).join(', ') || 'None'}
+              </p>
+            </div>
+
+            {preview.classes.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium">Classes carried into {preview.toYear}</h4>
+                {preview.classes.map((cls) => (
+                  <div key={cls.from} className="text-xs text-gray-600 flex items-center gap-1">
+                    {cls.from}
+                    <ArrowRight className="h-3 w-3" />
+                    {cls.to}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {preview.unrecognized.length > 0 && (
+              <div className="space-y-1 rounded-md border border-amber-200 bg-amber-50 p-3">
+                <h4 className="text-sm font-medium text-amber-800">Left unchanged ({preview.unrecognized.length})</h4>
+                <p className="text-xs text-amber-700">
+                  Their grade could not be read; fix it and promote them by hand:{' '}
+                  {preview.unrecognized.map((student) => `${student.name} (${student.grade || 'no grade'})`).join(', ')}
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                Back
+              </Button>
+              <Button onClick={() => rolloverMutation.mutate()} disabled={rolloverMutation.isPending}>
+                Roll over to {preview.toYear}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Plus, KeyRound, Ban, Copy } from 'lucide-react';
+
+// Roles a service account may hold; matches createServiceAccountSchema
+const serviceAccountRoles = ['ORG_ADMIN', 'FRANCHISE_ADMIN', 'FRANCHISE_STAFF', 'PRINCIPAL', 'SCHOOL_ADMIN', 'TEACHER', 'DENTIST', 'TECHNICIAN'];
+
+const keyState = (key: any) => {
+  if (key.revokedAt) return 'REVOKED';
+  if (new Date(key.expiresAt) <= new Date()) return 'EXPIRED';
+  return 'ACTIVE';
+};
+
+const keyStateColors = {
+  ACTIVE: 'bg-green-100 text-green-800 border-green-200',
+  EXPIRED: 'bg-gray-100 text-gray-800 border-gray-200',
+  REVOKED: 'bg-red-100 text-red-800 border-red-200',
+};
+
+export function ServiceAccountsPanel() {
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [accountName, setAccountName] = useState('');
+  const [accountRole, setAccountRole] = useState('');
+  const [accountEntityId, setAccountEntityId] = useState<number | null>(null);
+  const [keyAccount, setKeyAccount] = useState<any | null>(null);
+  const [keyName, setKeyName] = useState('');
+  const [keyPermissions, setKeyPermissions] = useState<string[]>(['READ']);
+  const [keyExpiresInDays, setKeyExpiresInDays] = useState('90');
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [keyToRevoke, setKeyToRevoke] = useState<any | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: accounts, isLoading } = useQuery({
+    queryKey: ['/api/service-accounts'],
+    queryFn: () => apiRequest('/service-accounts'),
+  });
+
+  const { data: grantable } = useQuery<Record<string, string[]>>({
+    queryKey: ['/api/memberships/grantable'],
+    queryFn: () => apiRequest('/memberships/grantable'),
+  });
+
+  const { data: entities } = useQuery({
+    queryKey: ['/api/entities'],
+    queryFn: () => apiRequest('/entities'),
+  });
+
+  const roleOptions = serviceAccountRoles.filter(role => grantable?.[role]);
+  const entityOptions = (entities || []).filter((entity: any) => grantable?.[accountRole]?.includes(entity.type));
+
+  const entityName = (entityId: number) =>
+    entities?.find((entity: any) => entity.id === entityId)?.name || `Entity #${entityId}`;
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const createAccountMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('/service-accounts', {
+        method: 'POST',
+        body: JSON.stringify({ name: accountName, role: accountRole, entityId: accountEntityId }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-accounts'] });
+      setShowCreateDialog(false);
+      setAccountName('');
+      setAccountRole('');
+      setAccountEntityId(null);
+      toast({
+        title: 'Success',
+        description: 'Service account created',
+      });
+    },
+    onError: onError('Failed to create service account'),
+  });
+
+  const createKeyMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/service-accounts/${keyAccount.id}/keys`, {
+        method: 'POST',
+        body: JSON.stringify({ name: keyName, permissions: keyPermissions, expiresInDays: parseInt(keyExpiresInDays) }),
+      }),
+    onSuccess: (result: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-accounts'] });
+      setKeyAccount(null);
+      setKeyName('');
+      setKeyPermissions(['READ']);
+      setKeyExpiresInDays('90');
+      setIssuedKey(result.key);
+    },
+    onError: onError('Failed to create API key'),
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api-keys/${id}/revoke`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-accounts'] });
+      setKeyToRevoke(null);
+      toast({
+        title: 'Success',
+        description: 'API key revoked',
+      });
+    },
+    onError: onError('Failed to revoke API key'),
+  });
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setKeyPermissions(prev => checked ? [...prev, permission] : prev.filter(p => p !== permission));
+  };
+
+  const copyIssuedKey = async () => {
+    if (!issuedKey) return;
+    await navigator.clipboard.writeText(issuedKey);
+    toast({
+      title: 'Copied',
+      description: 'API key copied to clipboard',
+    });
+  };
+
+  if (isLoading) {
+    return <div className="py-8 text-center text-gray-500">Loading service accounts...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Service Account
+        </Button>
+      </div>
+
+      {(accounts || []).length === 0 && (
+        <div className="py-8 text-center text-gray-500">No service accounts yet</div>
+      )}
+
+      {(accounts || []).map((account: any) => (
+        <div key={account.id} className="border rounded-md p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="font-medium text-gray-900">{account.name}</div>
+              <div className="text-sm text-gray-500">
+                {account.memberships.map((m: any) => `${m.role.replace('_', ' ')} at ${entityName(m.entityId)}`).join(', ')}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setKeyAccount(account)}>
+              <KeyRound className="w-4 h-4 mr-2" />
+              New Key
+            </Button>
+          </div>
+
+          {account.keys.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 px-2">Key</th>
+                  <th className="text-left py-2 px-2">Permissions</th>
+                  <th className="text-left py-2 px-2">Expires</th>
+                  <th className="text-left py-2 px-2">Last Used</th>
+                  <th className="text-left py-2 px-2">Status</th>
+                  <th className="text-right py-2 px-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {account.keys.map((key: any) => {
+                  const state = keyState(key);
+                  return (
+                    <tr key={key.id} className="border-b last:border-0">
+                      <td className="py-2 px-2">
+                        <div className="font-medium">{key.name}</div>
+                        <div className="text-xs text-gray-500 font-mono">{key.keyPrefix}…</div>
+                      </td>
+                      <td className="py-2 px-2">{key.permissions.join(', ')}</td>
+                      <td className="py-2 px-2">{new Date(key.expiresAt).toLocaleDateString()}</td>
+                      <td className="py-2 px-2">
+                        {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'Never'}
+                        {key.lastUsedIp && <div className="text-xs text-gray-500">{key.lastUsedIp}</div>}
+                      </td>
+                      <td className="py-2 px-2">
+                        <Badge className={keyStateColors[state]}>{state}</Badge>
+                      </td>
+                      <td className="py-2 px-2 text-right">
+                        {state === 'ACTIVE' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => setKeyToRevoke(key)}
+                          >
+                            <Ban className="w-4 h-4 mr-2" />
+                            Revoke
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+
+      {/* New Service Account Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New Service Account</DialogTitle>
+            <DialogDescription>
+              The account sees and changes only what its role allows on the chosen entity and everything beneath it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                placeholder="e.g. BI nightly export"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Role</label>
+              <Select value={accountRole} onValueChange={(role) => {
+                setAccountRole(role);
+                setAccountEntityId(null);
+              }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roleOptions.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {role.replace('_', ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {accountRole && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Entity</label>
+                <Select
+                  value={accountEntityId?.toString() || ''}
+                  onValueChange={(value) => setAccountEntityId(parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select entity" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {entityOptions.map((entity: any) => (
+                      <SelectItem key={entity.id} value={entity.id.toString()}>
+                        {entity.name} ({entity.type.toLowerCase()})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createAccountMutation.mutate()}
+              disabled={!accountName || !accountRole || !accountEntityId || createAccountMutation.isPending}
+            >
+              Create
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* New API Key Dialog */}
+      <Dialog open={!!keyAccount} onOpenChange={(open) => !open && setKeyAccount(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New API Key for {keyAccount?.name}</DialogTitle>
+            <DialogDescription>
+              Read keys can only make GET requests. Add write permission for integrations that change data.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Key Name</label>
+              <Input
+                placeholder="e.g. Production"
+                value={keyName}
+                onChange={(e) => setKeyName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Permissions</label>
+              {['READ', 'WRITE'].map((permission) => (
+                <div key={permission} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`permission-${permission}`}
+                    checked={keyPermissions.includes(permission)}
+                    onCheckedChange={(checked) => togglePermission(permission, !!checked)}
+                  />
+                  <label htmlFor={`permission-${permission}`} className="text-sm">
+                    {permission === 'READ' ? 'Read' : 'Write'}
+                  </label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Expires In (days)</label>
+              <Input
+                type="number"
+                min={1}
+                max={365}
+                value={keyExpiresInDays}
+                onChange={(e) => setKeyExpiresInDays(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setKeyAccount(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createKeyMutation.mutate()}
+              disabled={!keyName || keyPermissions.length === 0 || !parseInt(keyExpiresInDays) || createKeyMutation.isPending}
+            >
+              Create Key
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Issued Key Dialog - the only time the key is shown */}
+      <Dialog open={!!issuedKey} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>API Key Created</DialogTitle>
+            <DialogDescription>
+              Copy this key now. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center space-x-2 py-2">
+            <Input readOnly value={issuedKey || ''} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={copyIssuedKey}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => setIssuedKey(null)}>Done</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!keyToRevoke} onOpenChange={(open) => !open && setKeyToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+            <AlertDialogDescription>
+              Integrations using {keyToRevoke?.name} ({keyToRevoke?.keyPrefix}…) will stop working immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeKeyMutation.mutate(keyToRevoke.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
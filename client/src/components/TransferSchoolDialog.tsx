@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface TransferSchoolDialogProps {
+  school: { id: number; name: string; franchiseId?: number; parentId?: number };
+  onClose: () => void;
+}
+
+export function TransferSchoolDialog({ school, onClose }: TransferSchoolDialogProps) {
+  const [targetFranchiseeId, setTargetFranchiseeId] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(new Date().toISOString().slice(0, 10));
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const currentFranchiseeId = school.franchiseId ?? school.parentId;
+
+  const { data: franchisees = [] } = useQuery({
+    queryKey: ['/api/entities', 'FRANCHISEE'],
+    queryFn: () => apiRequest('/entities?type=FRANCHISEE'),
+  });
+
+  const transfersKey = ['/api/schools', school.id, 'transfers'];
+  const { data: transfers = [] } = useQuery({
+    queryKey: transfersKey,
+    queryFn: () => apiRequest(`/schools/${school.id}/transfers`),
+  });
+
+  const franchiseeName = (id: number) => franchisees.find((f: any) => f.id === id)?.name || `Franchise #${id}`;
+
+  const transferMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/schools/${school.id}/transfer`, {
+        method: 'POST',
+        body: JSON.stringify({
+          targetFranchiseeId: parseInt(targetFranchiseeId),
+          effectiveAt: new Date(effectiveDate).toISOString(),
+          ...(reason.trim() ? { reason: reason.trim() } : {}),
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/franchises'] });
+      toast({ title: 'Success', description: `${school.name} moved to ${franchiseeName(parseInt(targetFranchiseeId))}` });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to transfer school', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Transfer {school.name}</DialogTitle>
+          <DialogDescription>
+            Its branches, students, staff and upcoming camps move with it. Camps that started before the
+            effective date stay with {currentFranchiseeId ? franchiseeName(currentFranchiseeId) : 'the current franchise'} in reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">New franchise *</label>
+            <Select value={targetFranchiseeId} onValueChange={setTargetFranchiseeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select franchise" />
+              </SelectTrigger>
+              <SelectContent>
+                {franchisees
+                  .filter((f: any) => f.id !== currentFranchiseeId)
+                  .map((f: any) => (
+                    <SelectItem key={f.id} value={f.id.toString()}>
+                      {f.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Effective date</label>
+            <Input type="date" value={effectiveDate} max={new Date().toISOString().slice(0, 10)} onChange={(e) => setEffectiveDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Reason (optional)</label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Franchise closed" />
+          </div>
+        </div>
+
+        {transfers.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <h4 className="text-sm font-medium">History</h4>
+            {transfers.map((transfer: any) => (
+              <div key={transfer.id} className="text-xs text-gray-600 flex items-center gap-1">
+                {new Date(transfer.effectiveAt).toLocaleDateString()}: {franchiseeName(transfer.fromParentId)}
+                <ArrowRight className="h-3 w-3" />
+                {franchiseeName(transfer.toParentId)}
+                {transfer.reason && <span className="text-gray-400">({transfer.reason})</span>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => transferMutation.mutate()}
+            disabled={!targetFranchiseeId || !effectiveDate || transferMutation.isPending}
+          >
+            Transfer
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
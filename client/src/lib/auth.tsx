@@ -1,5 +1,6 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { apiRequest } from '@/lib/queryClient';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiRequest, refreshAccessToken, ACTIVE_MEMBERSHIP_KEY, TOKEN_REFRESHED_EVENT } from '@/lib/queryClient';
 
 interface User {
   id: number;
@@ -7,6 +8,12 @@ interface User {
   name: string;
   roles: string[];
   status: string;
+  // Set while a system admin is viewing the app as this user
+  impersonator?: {
+    id: number;
+    name: string;
+    email: string;
+  } | null;
 }
 
 interface Membership {
@@ -31,8 +38,11 @@ interface AuthContextType {
   activeRole: string | null;
   activeMembership: Membership | null;
   memberships: Membership[];
-  login: (token: string, user: User) => void;
+  login: (token: string, user: User, refreshToken?: string) => void;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
+  startImpersonation: (userId: number) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
   switchRole: (role: string) => void;
   switchMembership: (membershipId: number) => void;
   isLoading: boolean;
@@ -47,33 +57,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [activeMembership, setActiveMembership] = useState<Membership | null>(null);
   const [memberships, setMemberships] = useState<Membership[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
+  // Token obtained by a silent refresh; the session is unchanged so it needs no re-verification
+  const refreshedToken = useRef<string | null>(null);
+  const impersonating = useRef(false);
+
+  // Keep the context token in step with refreshes done by apiRequest
+  useEffect(() => {
+    const onTokenRefreshed = () => {
+      const newToken = localStorage.getItem('token');
+      // A refresh always yields the admin's own token, so an impersonated view must be reloaded
+      refreshedToken.current = impersonating.current ? null : newToken;
+      setToken(newToken);
+    };
+    window.addEventListener(TOKEN_REFRESHED_EVENT, onTokenRefreshed);
+    return () => window.removeEventListener(TOKEN_REFRESHED_EVENT, onTokenRefreshed);
+  }, []);
 
   useEffect(() => {
+    if (token && token === refreshedToken.current) {
+      return;
+    }
+
     if (token) {
-      // Verify token and get user info
-      fetch('/api/auth/me', {
-        method: 'GET',
-        headers: { Authorization: `Bearer ${token}` }
-      })
-        .then(async res => {
-          if (!res.ok) {
-            throw new Error('Token verification failed');
-          }
-          return res.json();
-        })
+      // Verify token and get user info (apiRequest refreshes an expired access token)
+      apiRequest('/auth/me')
         .then(async (userData) => {
           setUser(userData);
+          impersonating.current = !!userData.impersonator;
           
           // Fetch detailed memberships with entity information
-          const membershipsResponse = await fetch('/api/auth/memberships', {
-            headers: { Authorization: `Bearer ${token}` }
-          });
-          
           let userMemberships: Membership[] = [];
-          if (membershipsResponse.ok) {
-            const membershipsData = await membershipsResponse.json();
-            userMemberships = membershipsData;
+          try {
+            userMemberships = await apiRequest('/auth/memberships');
             setMemberships(userMemberships);
+          } catch (error) {
+            console.warn('Failed to load memberships:', error);
           }
           
           // Set active role if not already set or if stored role is not in user's roles
@@ -89,20 +108,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             setActiveRole(storedRole);
           }
           
-          // Set active membership based on active role
+          // Restore the active membership, or pick one matching the active role
           if (userMemberships.length > 0) {
-            const currentMembership = userMemberships.find(m => 
-              m.role === (storedRole || getPrimaryRole(userData.roles || []))
-            );
+            const storedMembershipId = Number(localStorage.getItem(ACTIVE_MEMBERSHIP_KEY));
+            const currentMembership = userMemberships.find(m => m.id === storedMembershipId) ||
+              userMemberships.find(m =>
+                m.role === (storedRole || getPrimaryRole(userData.roles || []))
+              );
             if (currentMembership) {
-              setActiveMembership(currentMembership);
+              selectMembership(currentMembership);
+              setActiveRole(currentMembership.role);
+              localStorage.setItem('activeRole', currentMembership.role);
             }
           }
         })
         .catch((error) => {
           console.warn('Token verification failed:', error);
-          // Token is invalid
+          // Token is invalid and could not be refreshed
           localStorage.removeItem('token');
+          localStorage.removeItem('refreshToken');
           setToken(null);
         })
         .finally(() => {
@@ -113,12 +137,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [token]);
 
-  const login = (token: string, user: User) => {
+  const login = (token: string, user: User, refreshToken?: string) => {
     setToken(token);
     setUser(user);
     localStorage.setItem('token', token);
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
     
-    // Set default active role
+    // A new login starts from the default role; its membership is picked once memberships load
+    localStorage.removeItem(ACTIVE_MEMBERSHIP_KEY);
     const defaultRole = getPrimaryRole(user.roles || []);
     setActiveRole(defaultRole);
     if (defaultRole) {
@@ -126,24 +154,77 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
+  const clearSession = () => {
     setUser(null);
     setToken(null);
     setActiveRole(null);
     setActiveMembership(null);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('activeRole');
+    localStorage.removeItem(ACTIVE_MEMBERSHIP_KEY);
+  };
+
+  const logout = () => {
+    // Revoke the server-side session; local state is cleared regardless of the outcome
+    apiRequest('/auth/logout', { method: 'POST' }).catch(() => {});
+    clearSession();
+  };
+
+  const logoutEverywhere = async () => {
+    await apiRequest('/auth/logout-all', { method: 'POST' });
+    clearSession();
+  };
+
+  const startImpersonation = async (userId: number) => {
+    const data = await apiRequest('/auth/impersonate', {
+      method: 'POST',
+      body: JSON.stringify({ userId }),
+    });
+
+    // The refresh token stays the admin's; only the access token is swapped
+    queryClient.clear();
+    localStorage.setItem('token', data.token);
+    localStorage.removeItem('activeRole');
+    localStorage.removeItem(ACTIVE_MEMBERSHIP_KEY);
+    setActiveMembership(null);
+    setToken(data.token);
+  };
+
+  const stopImpersonation = async () => {
+    await apiRequest('/auth/impersonate/stop', { method: 'POST' }).catch(() => {});
+
+    queryClient.clear();
+    localStorage.removeItem('activeRole');
+    localStorage.removeItem(ACTIVE_MEMBERSHIP_KEY);
+    setActiveMembership(null);
+    if (!(await refreshAccessToken())) {
+      clearSession();
+    }
+  };
+
+  // Record the membership the server should scope requests to
+  const selectMembership = (membership: Membership) => {
+    setActiveMembership(membership);
+    localStorage.setItem(ACTIVE_MEMBERSHIP_KEY, String(membership.id));
+  };
+
+  // Cached data was fetched under the previous membership
+  const changeMembership = (membership: Membership) => {
+    selectMembership(membership);
+    setActiveRole(membership.role);
+    localStorage.setItem('activeRole', membership.role);
+    queryClient.invalidateQueries();
   };
 
   const switchRole = (role: string) => {
     if (user?.roles?.includes(role)) {
-      setActiveRole(role);
-      localStorage.setItem('activeRole', role);
-      
-      // Update active membership when role changes
       const newMembership = memberships.find(m => m.role === role);
       if (newMembership) {
-        setActiveMembership(newMembership);
+        changeMembership(newMembership);
+      } else {
+        setActiveRole(role);
+        localStorage.setItem('activeRole', role);
       }
     }
   };
@@ -151,14 +232,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const switchMembership = (membershipId: number) => {
     const membership = memberships.find(m => m.id === membershipId);
     if (membership) {
-      setActiveMembership(membership);
-      setActiveRole(membership.role);
-      localStorage.setItem('activeRole', membership.role);
+      changeMembership(membership);
     }
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, activeRole, activeMembership, memberships, login, logout, switchRole, switchMembership, isLoading }}>
+    <AuthContext.Provider value={{ user, token, activeRole, activeMembership, memberships, login, logout, logoutEverywhere, startImpersonation, stopImpersonation, switchRole, switchMembership, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
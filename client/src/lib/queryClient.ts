@@ -19,19 +19,87 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export const TOKEN_REFRESHED_EVENT = 'auth:token-refreshed';
+
+// Shared so that concurrent 401s trigger a single refresh
+let refreshPromise: Promise<boolean> | null = null;
+
+// Rotate the stored refresh token for a fresh access token. Resolves false when the session is gone.
+export async function refreshAccessToken(): Promise<boolean> {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) return false;
+
+  if (!refreshPromise) {
+    refreshPromise = fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          localStorage.removeItem('token');
+          localStorage.removeItem('refreshToken');
+          return false;
+        }
+        const data = await res.json();
+        localStorage.setItem('token', data.token);
+        localStorage.setItem('refreshToken', data.refreshToken);
+        window.dispatchEvent(new Event(TOKEN_REFRESHED_EVENT));
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
+// Membership chosen in the role switcher; the server scopes each request to it
+export const ACTIVE_MEMBERSHIP_KEY = 'activeMembershipId';
+
+// fetch with the stored access token, retrying once after a refresh if the session has expired
+async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const token = localStorage.getItem('token');
+    const activeMembershipId = localStorage.getItem(ACTIVE_MEMBERSHIP_KEY);
+    return fetch(url, {
+      ...options,
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...(activeMembershipId && { 'X-Active-Membership': activeMembershipId }),
+        ...(options.headers || {}),
+      },
+    });
+  };
+
+  const res = await send();
+  if (res.status === 401 && await refreshAccessToken()) {
+    return send();
+  }
+  // The stored membership was removed or has expired; fall back to all memberships
+  if (res.status === 403 && localStorage.getItem(ACTIVE_MEMBERSHIP_KEY)) {
+    const body = await res.clone().json().catch(() => null);
+    if (body?.code === 'INVALID_ACTIVE_MEMBERSHIP') {
+      localStorage.removeItem(ACTIVE_MEMBERSHIP_KEY);
+      return send();
+    }
+  }
+  return res;
+}
+
 export async function apiRequest(
   url: string,
   options?: RequestInit,
 ): Promise<any> {
-  const token = localStorage.getItem('token');
   const headers: HeadersInit = {
     // Don't set Content-Type for FormData - let browser set it with boundary
     ...(!(options?.body instanceof FormData) && { 'Content-Type': 'application/json' }),
-    ...(token && { Authorization: `Bearer ${token}` }),
     ...(options?.headers || {}),
   };
 
-  const res = await fetch(`/api${url}`, {
+  const res = await fetchWithAuth(`/api${url}`, {
     method: 'GET',
     credentials: 'include',
     ...options,
@@ -65,14 +133,8 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem('token');
-    const headers: HeadersInit = {
-      ...(token && { Authorization: `Bearer ${token}` }),
-    };
-
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetchWithAuth(queryKey[0] as string, {
       credentials: "include",
-      headers,
     });
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
@@ -91,6 +91,8 @@ export function AgreementPage() {
       if (response.ok) {
         // Clear pending data
         localStorage.removeItem('pendingToken');
+        const refreshToken = localStorage.getItem('pendingRefreshToken') || undefined;
+        localStorage.removeItem('pendingRefreshToken');
         localStorage.removeItem('pendingUser');
         localStorage.removeItem('pendingAgreements');
 
@@ -99,7 +101,7 @@ export function AgreementPage() {
         localStorage.setItem('user', JSON.stringify(user));
 
         // Update auth context
-        login(token, user);
+        login(token, user, refreshToken);
 
         toast({
           title: 'Agreements Accepted',
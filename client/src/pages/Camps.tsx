@@ -23,6 +23,7 @@ export function Camps() {
   const [selectedCamp, setSelectedCamp] = useState<any>(null);
   const [showEnrollmentView, setShowEnrollmentView] = useState(false);
   const [selectedStudents, setSelectedStudents] = useState<number[]>([]);
+  const [selectedClasses, setSelectedClasses] = useState<number[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
@@ -146,6 +147,12 @@ export function Camps() {
     enabled: !!(selectedCamp?.id && showEnrollmentView),
   });
 
+  const { data: campClasses = [] } = useQuery({
+    queryKey: ['/api/schools', selectedCamp?.schoolEntityId, 'classes'],
+    queryFn: () => apiRequest(`/schools/${selectedCamp.schoolEntityId}/classes`),
+    enabled: !!(selectedCamp?.schoolEntityId && showEnrollmentView),
+  });
+
   const createCampMutation = useMutation({
     mutationFn: (campData: any) => {
       return apiRequest('/camps', {
@@ -174,11 +181,11 @@ export function Camps() {
 
   // Enrollment mutations
   const enrollStudentsMutation = useMutation({
-    mutationFn: ({ campId, studentIds }: { campId: number; studentIds: number[] }) => {
+    mutationFn: ({ campId, studentIds, classIds }: { campId: number; studentIds: number[]; classIds: number[] }) => {
       return apiRequest(`/camps/${campId}/enrollments`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ studentIds }),
+        body: JSON.stringify({ studentIds, classIds }),
       });
     },
     onSuccess: (data) => {
@@ -189,6 +196,7 @@ export function Camps() {
         description: data.message || 'Students enrolled successfully',
       });
       setSelectedStudents([]);
+      setSelectedClasses([]);
     },
     onError: (error: any) => {
       toast({
@@ -313,12 +321,14 @@ export function Camps() {
     setSelectedCamp(camp);
     setShowEnrollmentView(true);
     setSelectedStudents([]);
+    setSelectedClasses([]);
   };
 
   const closeEnrollmentView = () => {
     setSelectedCamp(null);
     setShowEnrollmentView(false);
     setSelectedStudents([]);
+    setSelectedClasses([]);
   };
 
   const toggleStudentSelection = (studentId: number) => {
@@ -329,11 +339,20 @@ export function Camps() {
     );
   };
 
+  const toggleClassSelection = (classId: number) => {
+    setSelectedClasses(prev =>
+      prev.includes(classId)
+        ? prev.filter(id => id !== classId)
+        : [...prev, classId]
+    );
+  };
+
   const enrollSelectedStudents = () => {
-    if (selectedStudents.length === 0 || !selectedCamp) return;
+    if ((selectedStudents.length === 0 && selectedClasses.length === 0) || !selectedCamp) return;
     enrollStudentsMutation.mutate({
       campId: selectedCamp.id,
-      studentIds: selectedStudents
+      studentIds: selectedStudents,
+      classIds: selectedClasses
     });
   };
 
@@ -441,18 +460,37 @@ export function Camps() {
                   <UserPlus className="h-5 w-5 text-blue-600" />
                   <span>Available Students ({availableStudents.length})</span>
                 </div>
-                {selectedStudents.length > 0 && (
+                {(selectedStudents.length > 0 || selectedClasses.length > 0) && (
                   <Button
                     onClick={enrollSelectedStudents}
                     disabled={enrollStudentsMutation.isPending}
                     className="bg-blue-600 hover:bg-blue-700"
                   >
-                    Enroll {selectedStudents.length} Student{selectedStudents.length !== 1 ? 's' : ''}
+                    Enroll {[
+                      selectedClasses.length > 0 && `${selectedClasses.length} Class${selectedClasses.length !== 1 ? 'es' : ''}`,
+                      selectedStudents.length > 0 && `${selectedStudents.length} Student${selectedStudents.length !== 1 ? 's' : ''}`,
+                    ].filter(Boolean).join(' + ')}
                   </Button>
                 )}
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {campClasses.length > 0 && (
+                <div className="mb-4 pb-4 border-b">
+                  <div className="text-sm font-medium text-gray-700 mb-2">Whole classes</div>
+                  <div className="flex flex-wrap gap-3">
+                    {campClasses.map((cls: any) => (
+                      <label key={cls.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={selectedClasses.includes(cls.id)}
+                          onCheckedChange={() => toggleClassSelection(cls.id)}
+                        />
+                        <span>Grade {cls.grade}{cls.section ? ` ${cls.section}` : ''} ({cls.academicYear})</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
               {availableLoading ? (
                 <div className="flex justify-center p-4">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
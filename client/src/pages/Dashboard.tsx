@@ -123,13 +123,13 @@ export function Dashboard() {
       parentId: 1,
       metadata: {
         region: '',
-        franchiseContactPerson: '',
-        franchiseContactEmail: '',
-        franchiseContactPhone: '',
-        franchiseAddress: '',
-        franchiseCity: '',
-        franchiseState: '',
-        franchisePincode: ''
+        contactPerson: '',
+        contactEmail: '',
+        contactPhone: '',
+        address: '',
+        city: '',
+        state: '',
+        pincode: ''
       }
     },
   });
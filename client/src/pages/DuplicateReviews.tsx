@@ -0,0 +1,137 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, Merge } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/lib/auth.tsx';
+import { apiRequest } from '@/lib/queryClient';
+
+interface DuplicateRecord {
+  id: number;
+  name: string;
+  details: string[];
+}
+
+interface DuplicateReview {
+  id: number;
+  recordType: 'SCHOOL' | 'STUDENT' | 'PARENT';
+  score: number;
+  reasons: string[];
+  createdAt: string;
+  record: DuplicateRecord | null;
+  match: DuplicateRecord | null;
+}
+
+const RECORD_TYPE_LABELS: Record<DuplicateReview['recordType'], string> = {
+  SCHOOL: 'School',
+  STUDENT: 'Student',
+  PARENT: 'Parent',
+};
+
+function RecordSummary({ title, record }: { title: string; record: DuplicateRecord | null }) {
+  return (
+    <div className="flex-1 rounded-md border p-3">
+      <div className="text-xs uppercase text-gray-400">{title}</div>
+      {record ? (
+        <>
+          <div className="text-sm font-medium">{record.name}</div>
+          <div className="text-xs text-gray-500">{record.details.join(' • ')}</div>
+        </>
+      ) : (
+        <div className="text-sm text-gray-500">No longer exists</div>
+      )}
+    </div>
+  );
+}
+
+export function DuplicateReviews() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const isOrgAdmin = user?.roles?.some(role => ['SYSTEM_ADMIN', 'ORG_ADMIN'].includes(role));
+
+  const { data: reviews = [], isLoading } = useQuery<DuplicateReview[]>({
+    queryKey: ['/api/duplicates'],
+    queryFn: () => apiRequest('/duplicates'),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, action, keepId }: { id: number; action: 'DISTINCT' | 'MERGE'; keepId?: number }) =>
+      apiRequest(`/duplicates/${id}/resolve`, { method: 'POST', body: JSON.stringify({ action, keepId }) }),
+    onSuccess: (_result, { action }) => {
+      // A merge moves students, parents and staff between records
+      queryClient.invalidateQueries();
+      toast({ title: 'Success', description: action === 'MERGE' ? 'Records merged' : 'Marked as not a duplicate' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to resolve duplicate', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Duplicate Review</h1>
+        <p className="text-gray-600">
+          Schools, students and parents that look like an existing record. Keep both if they are different, or merge
+          the new one into the existing one; the merged record goes to the recycle bin.
+        </p>
+      </div>
+
+      <Card className="max-w-4xl">
+        <CardHeader>
+          <CardTitle>Suspected duplicates</CardTitle>
+          <CardDescription>Highest similarity first.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : reviews.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing to review.</p>
+          ) : (
+            reviews.map((review) => {
+              const canMerge = !!review.record && !!review.match && (review.recordType === 'STUDENT' || isOrgAdmin);
+              return (
+                <div key={review.id} className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="secondary">{RECORD_TYPE_LABELS[review.recordType]}</Badge>
+                    <span className="text-sm font-medium">{review.score}% similar</span>
+                    {review.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">{reason}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-3">
+                    <RecordSummary title="New" record={review.record} />
+                    <RecordSummary title="Existing" record={review.match} />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resolveMutation.mutate({ id: review.id, action: 'DISTINCT' })}
+                      disabled={resolveMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-2" />
+                      Not a duplicate
+                    </Button>
+                    {canMerge && (
+                      <Button
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ id: review.id, action: 'MERGE', keepId: review.match!.id })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Merge className="h-4 w-4 mr-2" />
+                        Merge into existing
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Edit, Mail, Phone, MapPin, Building2, Users, CheckCircle, Clock, AlertCircle, Trash2, MoreVertical, Search, School } from 'lucide-react';
+import { Plus, Edit, Mail, Phone, MapPin, Building2, Users, CheckCircle, Clock, AlertCircle, Trash2, MoreVertical, Power, Search, School, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
@@ -17,6 +17,8 @@ import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/lib/auth.tsx';
 import { colorSchemes } from '@/lib/colorSchemes';
+import { EntityStatusDialog, EntityTransition, TRANSITIONS_BY_STATUS, transitionLabel } from '@/components/EntityStatusDialog';
+import { ChangeHistoryDialog } from '@/components/ChangeHistoryDialog';
 
 export function Franchisees() {
   const { user, token } = useAuth();
@@ -28,6 +30,8 @@ export function Franchisees() {
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [statusChange, setStatusChange] = useState<{ franchise: any; transition: EntityTransition } | null>(null);
+  const [historyFranchise, setHistoryFranchise] = useState<any>(null);
 
   // Only system admins can access this page
   if (!user?.roles?.includes('SYSTEM_ADMIN')) {
@@ -139,13 +143,13 @@ export function Franchisees() {
         parentId: 1, // Assume parent is Smile Stars India organization
         metadata: {
           region: data.region,
-          franchiseContactPerson: data.franchiseContactPerson,
-          franchiseContactEmail: data.franchiseContactEmail,
-          franchiseContactPhone: data.franchiseContactPhone,
-          franchiseAddress: data.franchiseAddress,
-          franchiseCity: data.franchiseCity,
-          franchiseState: data.franchiseState,
-          franchisePincode: data.franchisePincode,
+          contactPerson: data.franchiseContactPerson,
+          contactEmail: data.franchiseContactEmail,
+          contactPhone: data.franchiseContactPhone,
+          address: data.franchiseAddress,
+          city: data.franchiseCity,
+          state: data.franchiseState,
+          pincode: data.franchisePincode,
         }
       };
 
@@ -210,21 +214,20 @@ export function Franchisees() {
 
   const updateFranchiseMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: FranchiseFormData }) => {
-      // Transform the form data to entity format
+      // Transform the form data to entity format; status changes go through the lifecycle actions
       const entityData = {
         type: 'FRANCHISEE',
         name: data.name,
-        status: 'ACTIVE',
         parentId: 1,
         metadata: {
           region: data.region,
-          franchiseContactPerson: data.franchiseContactPerson,
-          franchiseContactEmail: data.franchiseContactEmail,
-          franchiseContactPhone: data.franchiseContactPhone,
-          franchiseAddress: data.franchiseAddress,
-          franchiseCity: data.franchiseCity,
-          franchiseState: data.franchiseState,
-          franchisePincode: data.franchisePincode,
+          contactPerson: data.franchiseContactPerson,
+          contactEmail: data.franchiseContactEmail,
+          contactPhone: data.franchiseContactPhone,
+          address: data.franchiseAddress,
+          city: data.franchiseCity,
+          state: data.franchiseState,
+          pincode: data.franchisePincode,
         }
       };
 
@@ -268,13 +271,13 @@ export function Franchisees() {
       form.reset({
         name: editingFranchise.name || '',
         region: editingFranchise.metadata?.region || '',
-        franchiseContactPerson: editingFranchise.metadata?.franchiseContactPerson || '',
-        franchiseContactEmail: editingFranchise.metadata?.franchiseContactEmail || '',
-        franchiseContactPhone: editingFranchise.metadata?.franchiseContactPhone || '',
-        franchiseAddress: editingFranchise.metadata?.franchiseAddress || '',
-        franchiseCity: editingFranchise.metadata?.franchiseCity || '',
-        franchiseState: editingFranchise.metadata?.franchiseState || '',
-        franchisePincode: editingFranchise.metadata?.franchisePincode || '',
+        franchiseContactPerson: editingFranchise.metadata?.contactPerson || '',
+        franchiseContactEmail: editingFranchise.metadata?.contactEmail || '',
+        franchiseContactPhone: editingFranchise.metadata?.contactPhone || '',
+        franchiseAddress: editingFranchise.metadata?.address || '',
+        franchiseCity: editingFranchise.metadata?.city || '',
+        franchiseState: editingFranchise.metadata?.state || '',
+        franchisePincode: editingFranchise.metadata?.pincode || '',
       });
     } else {
       form.reset({
@@ -727,6 +730,16 @@ export function Franchisees() {
                             <Edit className="h-4 w-4 mr-2" />
                             Edit Franchise
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setHistoryFranchise(franchise)}>
+                            <History className="h-4 w-4 mr-2" />
+                            History
+                          </DropdownMenuItem>
+                          {(TRANSITIONS_BY_STATUS[franchise.status] || []).map((transition) => (
+                            <DropdownMenuItem key={transition} onClick={() => setStatusChange({ franchise, transition })}>
+                              <Power className="h-4 w-4 mr-2" />
+                              {transitionLabel(transition)}
+                            </DropdownMenuItem>
+                          ))}
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-red-600 focus:text-red-600">
@@ -738,8 +751,8 @@ export function Franchisees() {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  This action cannot be undone. This will permanently delete the franchise
-                                  "{franchise.name}" and all associated data.
+                                  The franchise "{franchise.name}" moves to the recycle bin. A system admin
+                                  can restore it until it is purged after 30 days.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
                               <AlertDialogFooter>
@@ -874,6 +887,19 @@ export function Franchisees() {
           </CardContent>
         </Card>
       )}
+
+      {statusChange && (
+        <EntityStatusDialog
+          entity={statusChange.franchise}
+          transition={statusChange.transition}
+          invalidateKeys={['/api/franchises', '/api/schools']}
+          onClose={() => setStatusChange(null)}
+        />
+      )}
+
+      {historyFranchise && (
+        <ChangeHistoryDialog path={`/entities/${historyFranchise.id}/history`} title={historyFranchise.name} onClose={() => setHistoryFranchise(null)} />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -9,6 +9,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/lib/auth.tsx';
 import { useToast } from '@/hooks/use-toast';
+import { MfaChallenge } from '@/components/MfaChallenge';
 import { Eye, EyeOff, Mail, Lock, AlertCircle, ArrowLeft } from 'lucide-react';
 
 const loginSchema = z.object({
@@ -23,6 +24,7 @@ export function Login() {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [mfa, setMfa] = useState<{ token: string; mode: 'verify' | 'enroll' } | null>(null);
   const { login } = useAuth();
   const { toast } = useToast();
 
@@ -34,6 +36,29 @@ export function Login() {
     },
   });
 
+  const completeLogin = (result: any) => {
+    if (result.user.status === 'PENDING' && result.requiresAgreements) {
+      localStorage.setItem('pendingToken', result.token);
+      localStorage.setItem('pendingRefreshToken', result.refreshToken);
+      localStorage.setItem('pendingUser', JSON.stringify(result.user));
+      localStorage.setItem('pendingAgreements', JSON.stringify(result.pendingAgreements));
+      setLocation('/auth/agreements');
+      return;
+    }
+
+    localStorage.setItem('token', result.token);
+    localStorage.setItem('user', JSON.stringify(result.user));
+
+    login(result.token, result.user, result.refreshToken);
+
+    toast({
+      title: 'Welcome back!',
+      description: `Logged in successfully as ${result.user.name}`,
+    });
+
+    setLocation('/dashboard');
+  };
+
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true);
     setError('');
@@ -50,30 +75,21 @@ export function Login() {
       const result = await response.json();
 
       if (response.ok) {
-        if (result.user.status === 'PENDING' && result.requiresAgreements) {
-          localStorage.setItem('pendingToken', result.token);
-          localStorage.setItem('pendingUser', JSON.stringify(result.user));
-          localStorage.setItem('pendingAgreements', JSON.stringify(result.pendingAgreements));
-          setLocation('/auth/agreements');
+        if (result.mfaRequired || result.mfaEnrollmentRequired) {
+          setMfa({ token: result.mfaToken, mode: result.mfaRequired ? 'verify' : 'enroll' });
           return;
         }
 
-        localStorage.setItem('token', result.token);
-        localStorage.setItem('user', JSON.stringify(result.user));
-
-        login(result.token, result.user);
-
-        toast({
-          title: 'Welcome back!',
-          description: `Logged in successfully as ${result.user.name}`,
-        });
-
-        setLocation('/dashboard');
+        completeLogin(result);
       } else {
         if (result.status === 'SUSPENDED') {
           setError(`${result.error}: ${result.message}`);
         } else if (result.requiresMagicLink) {
           setError(result.error + ' Please contact your administrator.');
+        } else if (response.status === 429 && result.retryAfter) {
+          setError(`${result.error} (${Math.ceil(result.retryAfter / 60)} min)`);
+        } else if (result.captchaRequired) {
+          setError(`${result.error}. Further failed attempts will temporarily lock this account.`);
         } else {
           setError(result.error || 'Login failed');
         }
@@ -149,106 +165,119 @@ export function Login() {
             </div>
           </div>
 
-          <div className="space-y-2">
-            <h2 className="text-3xl font-serif font-bold text-gray-900">Welcome back</h2>
-            <p className="text-muted-foreground">
-              Please enter your details to sign in.
-            </p>
-          </div>
+          {mfa ? (
+            <MfaChallenge
+              mfaToken={mfa.token}
+              mode={mfa.mode}
+              onComplete={completeLogin}
+              onCancel={() => setMfa(null)}
+            />
+          ) : (
+            <>
+              <div className="space-y-2">
+                <h2 className="text-3xl font-serif font-bold text-gray-900">Welcome back</h2>
+                <p className="text-muted-foreground">
+                  Please enter your details to sign in.
+                </p>
+              </div>
 
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          placeholder="name@example.com"
-                          className="pl-9 h-11 bg-muted/30 border-muted-foreground/20 focus:border-primary focus:ring-primary rounded-xl"
-                          disabled={isLoading}
-                          {...field}
-                        />
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              placeholder="name@example.com"
+                              className="pl-9 h-11 bg-muted/30 border-muted-foreground/20 focus:border-primary focus:ring-primary rounded-xl"
+                              disabled={isLoading}
+                              {...field}
+                            />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <div className="flex items-center justify-between">
-                      <FormLabel>Password</FormLabel>
-                      <Button variant="link" size="sm" className="px-0 font-normal text-muted-foreground hover:text-primary h-auto">
-                        Forgot password?
-                      </Button>
-                    </div>
-                    <FormControl>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          type={showPassword ? 'text' : 'password'}
-                          placeholder="Enter your password"
-                          className="pl-9 pr-10 h-11 bg-muted/30 border-muted-foreground/20 focus:border-primary focus:ring-primary rounded-xl"
-                          disabled={isLoading}
-                          {...field}
-                        />
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground"
-                          onClick={() => setShowPassword(!showPassword)}
-                          disabled={isLoading}
-                        >
-                          {showPassword ? (
-                            <EyeOff className="h-4 w-4" />
-                          ) : (
-                            <Eye className="h-4 w-4" />
-                          )}
-                        </Button>
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Password</FormLabel>
+                          <Link href="/auth/reset-password">
+                            <Button type="button" variant="link" size="sm" className="px-0 font-normal text-muted-foreground hover:text-primary h-auto">
+                              Forgot password?
+                            </Button>
+                          </Link>
+                        </div>
+                        <FormControl>
+                          <div className="relative">
+                            <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              type={showPassword ? 'text' : 'password'}
+                              placeholder="Enter your password"
+                              className="pl-9 pr-10 h-11 bg-muted/30 border-muted-foreground/20 focus:border-primary focus:ring-primary rounded-xl"
+                              disabled={isLoading}
+                              {...field}
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="absolute right-0 top-0 h-full px-3 hover:bg-transparent text-muted-foreground hover:text-foreground"
+                              onClick={() => setShowPassword(!showPassword)}
+                              disabled={isLoading}
+                            >
+                              {showPassword ? (
+                                <EyeOff className="h-4 w-4" />
+                              ) : (
+                                <Eye className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-              {error && (
-                <Alert variant="destructive" className="bg-destructive/5 text-destructive border-destructive/20 rounded-xl">
-                  <AlertCircle className="h-4 w-4" />
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
+                  {error && (
+                    <Alert variant="destructive" className="bg-destructive/5 text-destructive border-destructive/20 rounded-xl">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
 
-              <div className="space-y-4">
-                <Button
-                  type="submit"
-                  disabled={isLoading}
-                  className="w-full h-11 bg-primary hover:bg-primary/90 text-white rounded-full text-base font-semibold shadow-lg hover:shadow-primary/20 transition-all font-serif"
-                >
-                  {isLoading ? 'Signing in...' : 'Sign In'}
-                </Button>
+                  <div className="space-y-4">
+                    <Button
+                      type="submit"
+                      disabled={isLoading}
+                      className="w-full h-11 bg-primary hover:bg-primary/90 text-white rounded-full text-base font-semibold shadow-lg hover:shadow-primary/20 transition-all font-serif"
+                    >
+                      {isLoading ? 'Signing in...' : 'Sign In'}
+                    </Button>
 
-                <div className="text-center text-sm text-muted-foreground">
-                  Don't have an account?{' '}
-                  <Link href="/signup">
-                    <span className="font-semibold text-primary hover:text-primary/80 cursor-pointer">
-                      Sign up for free
-                    </span>
-                  </Link>
-                </div>
-              </div>
-            </form>
-          </Form>
+                    <div className="text-center text-sm text-muted-foreground">
+                      Don't have an account?{' '}
+                      <Link href="/signup">
+                        <span className="font-semibold text-primary hover:text-primary/80 cursor-pointer">
+                          Sign up for free
+                        </span>
+                      </Link>
+                    </div>
+                  </div>
+                </form>
+              </Form>
+            </>
+          )}
 
           {/* Development Hint - Hidden behind logic or minimalized */}
           {/* Keeping it simple and minimal as requested */}
@@ -5,7 +5,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Mail, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { Mail, Loader2, CheckCircle, AlertCircle, KeyRound } from 'lucide-react';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useAuth } from '@/lib/auth.tsx';
+import { MfaChallenge } from '@/components/MfaChallenge';
 
 interface User {
   id: number;
@@ -23,13 +26,16 @@ interface Agreement {
 
 export default function MagicLink() {
   const [, setLocation] = useLocation();
-  const [step, setStep] = useState<'request' | 'consume' | 'agreements'>('request');
+  const { login } = useAuth();
+  const [step, setStep] = useState<'request' | 'consume' | 'code' | 'mfa' | 'agreements'>('request');
   const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
   const [user, setUser] = useState<User | null>(null);
   const [pendingAgreements, setPendingAgreements] = useState<Agreement[]>([]);
+  const [mfa, setMfa] = useState<{ token: string; mode: 'verify' | 'enroll' } | null>(null);
 
   // Check for token in URL
   useEffect(() => {
@@ -41,6 +47,28 @@ export default function MagicLink() {
     }
   }, []);
 
+  // Returns true when the server wants a second factor before issuing a JWT
+  const requiresMfa = (data: any) => {
+    if (!data.mfaRequired && !data.mfaEnrollmentRequired) return false;
+    setMfa({ token: data.mfaToken, mode: data.mfaRequired ? 'verify' : 'enroll' });
+    setStep('mfa');
+    return true;
+  };
+
+  const completeLogin = (data: any) => {
+    setUser(data.user);
+    localStorage.setItem('token', data.token);
+    localStorage.setItem('refreshToken', data.refreshToken);
+
+    if (data.requiresAgreements && data.pendingAgreements.length > 0) {
+      setPendingAgreements(data.pendingAgreements);
+      setStep('agreements');
+    } else {
+      login(data.token, data.user, data.refreshToken);
+      setLocation('/dashboard');
+    }
+  };
+
   const requestMagicLink = async () => {
     if (!email) {
       setError('Please enter your email address');
@@ -74,6 +102,74 @@ export default function MagicLink() {
     }
   };
 
+  const requestCode = async () => {
+    if (!email) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/auth/otp/request', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, channel: 'EMAIL' }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setCode('');
+        setStep('code');
+      } else {
+        setError(data.error || 'Failed to send login code');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyCode = async (value: string = code) => {
+    if (value.length !== 6) {
+      setError('Please enter the 6-digit code');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/otp/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, code: value }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        if (requiresMfa(data)) return;
+        completeLogin(data);
+      } else {
+        setCode('');
+        setError(data.error || 'Invalid or expired code');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const consumeMagicLink = async (token: string) => {
     setLoading(true);
     setError('');
@@ -90,10 +186,13 @@ export default function MagicLink() {
       const data = await response.json();
 
       if (response.ok) {
+        if (requiresMfa(data)) return;
+
         setUser(data.user);
         
-        // Store JWT token
+        // Store JWT and refresh tokens
         localStorage.setItem('token', data.token);
+        localStorage.setItem('refreshToken', data.refreshToken);
         
         if (data.requiresAgreements && data.pendingAgreements.length > 0) {
           setPendingAgreements(data.pendingAgreements);
@@ -203,9 +302,19 @@ export default function MagicLink() {
             'Send Magic Link'
           )}
         </Button>
+
+        <Button
+          variant="outline"
+          onClick={requestCode}
+          disabled={loading}
+          className="w-full"
+        >
+          <KeyRound className="h-4 w-4 mr-2" />
+          Email Me a Login Code
+        </Button>
         
         <div className="text-center text-sm text-gray-600">
-          Enter your email to receive a secure login link
+          Enter your email to receive a secure login link or a 6-digit code
         </div>
       </CardContent>
     </Card>
@@ -249,6 +358,77 @@ export default function MagicLink() {
     </Card>
   );
 
+  const renderCodeStep = () => (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2">
+          <KeyRound className="h-6 w-6" />
+          Enter Your Code
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-center text-gray-600">
+          We've sent a 6-digit code to <strong>{email}</strong>
+        </p>
+
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={verifyCode}
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          onClick={() => verifyCode()}
+          disabled={loading || code.length !== 6}
+          className="w-full"
+        >
+          {loading ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            'Verify Code'
+          )}
+        </Button>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={requestCode}
+            disabled={loading}
+            className="flex-1"
+          >
+            Resend Code
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setStep('request')}
+            className="flex-1"
+          >
+            Try Different Email
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   const renderAgreementsStep = () => (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
@@ -305,6 +485,15 @@ export default function MagicLink() {
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
       {step === 'request' && renderRequestStep()}
       {step === 'consume' && renderConsumeStep()}
+      {step === 'code' && renderCodeStep()}
+      {step === 'mfa' && mfa && (
+        <MfaChallenge
+          mfaToken={mfa.token}
+          mode={mfa.mode}
+          onComplete={completeLogin}
+          onCancel={() => setStep('request')}
+        />
+      )}
       {step === 'agreements' && renderAgreementsStep()}
     </div>
   );
@@ -1,44 +1,115 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
 import { Link, useLocation } from 'wouter';
-import { Smile, Heart, Mail, Lock } from 'lucide-react';
+import { Smile, Heart, Mail, MessageSquare, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useAuth } from '@/lib/auth.tsx';
 import { useToast } from '@/hooks/use-toast';
-import { loginSchema, type LoginData } from '@shared/schema';
+import { MfaChallenge } from '@/components/MfaChallenge';
+
+const parentLoginSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+type ParentLoginData = z.infer<typeof parentLoginSchema>;
 
 export function ParentLogin() {
   const { login } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState<'request' | 'code' | 'mfa'>('request');
+  const [email, setEmail] = useState('');
+  const [channel, setChannel] = useState<'EMAIL' | 'SMS'>('EMAIL');
+  const [code, setCode] = useState('');
+  const [mfa, setMfa] = useState<{ token: string; mode: 'verify' | 'enroll' } | null>(null);
   const [, setLocation] = useLocation();
 
-  const form = useForm<LoginData>({
-    resolver: zodResolver(loginSchema),
+  const form = useForm<ParentLoginData>({
+    resolver: zodResolver(parentLoginSchema),
     defaultValues: {
-      email: 'parent@example.com',
-      password: '12345',
+      email: '',
     },
   });
 
-  const onSubmit = async (data: LoginData) => {
+  const requestCode = async (targetEmail: string, targetChannel: 'EMAIL' | 'SMS') => {
     setIsLoading(true);
     try {
-      await login(data.email, data.password);
+      const response = await fetch('/api/auth/otp/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: targetEmail, channel: targetChannel }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send login code');
+      }
+
+      setEmail(targetEmail);
+      setChannel(targetChannel);
+      setCode('');
+      setStep('code');
       toast({
-        title: 'Welcome to Parent Portal',
-        description: 'You can now view your child\'s dental health information.',
+        title: 'Code sent',
+        description: targetChannel === 'SMS'
+          ? 'Check your phone for a 6-digit login code.'
+          : 'Check your email for a 6-digit login code.',
       });
-      // Redirect to parent portal dashboard after successful login
-      setLocation('/parent-portal');
-    } catch (error) {
+    } catch (error: any) {
+      toast({
+        title: 'Could not send code',
+        description: error.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const completeLogin = (data: any) => {
+    login(data.token, data.user, data.refreshToken);
+    toast({
+      title: 'Welcome to Parent Portal',
+      description: 'You can now view your child\'s dental health information.',
+    });
+    // Redirect to parent portal dashboard after successful login
+    setLocation('/parent-portal');
+  };
+
+  const verifyCode = async (value: string = code) => {
+    if (value.length !== 6) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/otp/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, code: value }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Invalid or expired code');
+      }
+
+      if (data.mfaRequired || data.mfaEnrollmentRequired) {
+        setMfa({ token: data.mfaToken, mode: data.mfaRequired ? 'verify' : 'enroll' });
+        setStep('mfa');
+        return;
+      }
+
+      completeLogin(data);
+    } catch (error: any) {
+      setCode('');
       toast({
         title: 'Login Failed',
-        description: 'Please check your credentials and try again.',
+        description: error.message || 'Please check your code and try again.',
         variant: 'destructive',
       });
     } finally {
@@ -59,77 +130,128 @@ export function ParentLogin() {
         </div>
 
         <div className="max-w-md mx-auto">
-          <Card className="shadow-xl">
-            <CardHeader className="bg-pink-600 text-white rounded-t-lg">
-              <div className="flex items-center">
-                <Heart className="h-6 w-6 mr-2" />
-                <div>
-                  <CardTitle>Parent Portal Login</CardTitle>
-                  <CardDescription className="text-pink-100">
-                    Access your child's dental screening reports
-                  </CardDescription>
+          {step === 'mfa' && mfa ? (
+            <MfaChallenge
+              mfaToken={mfa.token}
+              mode={mfa.mode}
+              onComplete={completeLogin}
+              onCancel={() => setStep('request')}
+            />
+          ) : (
+            <Card className="shadow-xl">
+              <CardHeader className="bg-pink-600 text-white rounded-t-lg">
+                <div className="flex items-center">
+                  <Heart className="h-6 w-6 mr-2" />
+                  <div>
+                    <CardTitle>Parent Portal Login</CardTitle>
+                    <CardDescription className="text-pink-100">
+                      Access your child's dental screening reports
+                    </CardDescription>
+                  </div>
                 </div>
-              </div>
-            </CardHeader>
-            
-            <CardContent className="p-6">
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <FormField
-                    control={form.control}
-                    name="email"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="flex items-center">
-                          <Mail className="h-4 w-4 mr-1" />
-                          Parent Email
-                        </FormLabel>
-                        <FormControl>
-                          <Input
-                            type="email"
-                            placeholder="parent@example.com"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="flex items-center">
-                          <Lock className="h-4 w-4 mr-1" />
-                          Password
-                        </FormLabel>
-                        <FormControl>
-                          <Input
-                            type="password"
-                            placeholder="Enter your password"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <Button type="submit" className="w-full bg-pink-600 hover:bg-pink-700" disabled={isLoading}>
-                    {isLoading ? 'Signing in...' : 'Access Parent Portal'}
-                  </Button>
-
-                  <div className="text-center">
-                    <Link href="/login" className="text-sm text-pink-600 hover:text-pink-800">
-                      ← Back to main login
-                    </Link>
+              </CardHeader>
+              
+              <CardContent className="p-6">
+                {step === 'request' ? (
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit((data) => requestCode(data.email, 'EMAIL'))} className="space-y-6">
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="flex items-center">
+                              <Mail className="h-4 w-4 mr-1" />
+                              Parent Email
+                            </FormLabel>
+                            <FormControl>
+                              <Input
+                                type="email"
+                                placeholder="parent@example.com"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <Button type="submit" className="w-full bg-pink-600 hover:bg-pink-700" disabled={isLoading}>
+                        <Mail className="h-4 w-4 mr-2" />
+                        {isLoading ? 'Sending code...' : 'Email Me a Login Code'}
+                      </Button>
+
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        disabled={isLoading}
+                        onClick={form.handleSubmit((data) => requestCode(data.email, 'SMS'))}
+                      >
+                        <MessageSquare className="h-4 w-4 mr-2" />
+                        Text Me a Login Code
+                      </Button>
+
+                      <div className="text-center">
+                        <Link href="/login" className="text-sm text-pink-600 hover:text-pink-800">
+                          ← Back to main login
+                        </Link>
+                      </div>
+                    </form>
+                  </Form>
+                ) : (
+                  <div className="space-y-6">
+                    <p className="text-center text-gray-600">
+                      Enter the 6-digit code we sent {channel === 'SMS' ? 'to the phone number on file for' : 'to'} <strong>{email}</strong>
+                    </p>
+
+                    <div className="flex justify-center">
+                      <InputOTP
+                        maxLength={6}
+                        value={code}
+                        onChange={setCode}
+                        onComplete={verifyCode}
+                        disabled={isLoading}
+                      >
+                        <InputOTPGroup>
+                          {[0, 1, 2, 3, 4, 5].map((index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+
+                    <Button
+                      className="w-full bg-pink-600 hover:bg-pink-700"
+                      disabled={isLoading || code.length !== 6}
+                      onClick={() => verifyCode()}
+                    >
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      {isLoading ? 'Verifying...' : 'Access Parent Portal'}
+                    </Button>
+
+                    <div className="flex justify-between text-sm">
+                      <button
+                        type="button"
+                        className="text-pink-600 hover:text-pink-800"
+                        disabled={isLoading}
+                        onClick={() => requestCode(email, channel)}
+                      >
+                        Resend code
+                      </button>
+                      <button
+                        type="button"
+                        className="text-pink-600 hover:text-pink-800"
+                        onClick={() => setStep('request')}
+                      >
+                        Use a different email
+                      </button>
+                    </div>
                   </div>
-                </form>
-              </Form>
-            </CardContent>
-          </Card>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,150 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Building2, RotateCcw, Users as UsersIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+interface DeletedItem {
+  id: number;
+  name: string;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface RecycleBinContents {
+  retentionDays: number;
+  entities: (DeletedItem & { type: string })[];
+  users: (DeletedItem & { email: string })[];
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString();
+}
+
+export function RecycleBin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<RecycleBinContents>({
+    queryKey: ['/api/recycle-bin'],
+    queryFn: () => apiRequest('/recycle-bin'),
+  });
+
+  const onRestored = (result: { message: string }) => {
+    // Restored items reappear across the app
+    queryClient.invalidateQueries();
+    toast({ title: 'Restored', description: result.message });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message || 'Failed to restore', variant: 'destructive' });
+  };
+
+  const restoreEntityMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/recycle-bin/entities/${id}/restore`, { method: 'POST' }),
+    onSuccess: onRestored,
+    onError,
+  });
+
+  const restoreUserMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/recycle-bin/users/${id}/restore`, { method: 'POST' }),
+    onSuccess: onRestored,
+    onError,
+  });
+
+  const entities = data?.entities ?? [];
+  const users = data?.users ?? [];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Recycle Bin</h1>
+        <p className="text-gray-600">
+          Deleted franchises, schools, branches, students and users. Each can be restored until it is
+          permanently purged {data?.retentionDays ?? 30} days after deletion.
+        </p>
+      </div>
+
+      <div className="space-y-6 max-w-4xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Entities
+            </CardTitle>
+            <CardDescription>Restore a parent before anything that was deleted beneath it.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : entities.length === 0 ? (
+              <p className="text-sm text-gray-500">No deleted entities.</p>
+            ) : (
+              entities.map((entity) => (
+                <div key={entity.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <div className="text-sm font-medium flex items-center gap-2">
+                      {entity.name}
+                      <Badge variant="secondary">{entity.type}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Deleted {formatDate(entity.deletedAt)} • Purged on {formatDate(entity.purgeAt)}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreEntityMutation.mutate(entity.id)}
+                    disabled={restoreEntityMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UsersIcon className="h-5 w-5" />
+              Users
+            </CardTitle>
+            <CardDescription>Restored users come back without roles; grant them again from Users.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : users.length === 0 ? (
+              <p className="text-sm text-gray-500">No deleted users.</p>
+            ) : (
+              users.map((deletedUser) => (
+                <div key={deletedUser.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <div className="text-sm font-medium">{deletedUser.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {deletedUser.email} • Deleted {formatDate(deletedUser.deletedAt)} • Purged on {formatDate(deletedUser.purgeAt)}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreUserMutation.mutate(deletedUser.id)}
+                    disabled={restoreUserMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, CheckCircle, AlertCircle, KeyRound, Mail } from 'lucide-react';
+
+// Mirrors the server policy so most mistakes are caught before submitting
+const passwordHints = [
+  { label: 'At least 10 characters', test: (value: string) => value.length >= 10 },
+  { label: 'A lowercase letter', test: (value: string) => /[a-z]/.test(value) },
+  { label: 'An uppercase letter', test: (value: string) => /[A-Z]/.test(value) },
+  { label: 'A number', test: (value: string) => /[0-9]/.test(value) },
+];
+
+export function ResetPassword() {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+
+  const requestReset = async () => {
+    if (!email) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/password-reset/request', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(data.message);
+        setDone(true);
+      } else {
+        setError(data.error || 'Failed to request password reset');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetPassword = async () => {
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(data.message);
+        setDone(true);
+      } else {
+        setError(data.error || 'Failed to reset password');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderAlerts = () => (
+    <>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {message && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+
+  const renderRequestStep = () => (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2">
+          <Mail className="h-6 w-6" />
+          Forgot Your Password?
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!done && (
+          <div className="space-y-2">
+            <Label htmlFor="email">Email Address</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="Enter your email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && requestReset()}
+            />
+          </div>
+        )}
+
+        {renderAlerts()}
+
+        {!done && (
+          <Button
+            onClick={requestReset}
+            disabled={loading}
+            className="w-full"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Sending Reset Link...
+              </>
+            ) : (
+              'Send Reset Link'
+            )}
+          </Button>
+        )}
+
+        <div className="text-center text-sm">
+          <Link href="/login">
+            <span className="text-primary hover:text-primary/80 cursor-pointer">Back to sign in</span>
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderResetStep = () => (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2">
+          <KeyRound className="h-6 w-6" />
+          Choose a New Password
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!done && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="password">New Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <ul className="text-xs space-y-1">
+                {passwordHints.map((hint) => (
+                  <li key={hint.label} className={hint.test(password) ? 'text-green-600' : 'text-gray-500'}>
+                    {hint.label}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && resetPassword()}
+              />
+            </div>
+          </>
+        )}
+
+        {renderAlerts()}
+
+        {done ? (
+          <Link href="/login">
+            <Button className="w-full">Sign In</Button>
+          </Link>
+        ) : (
+          <Button
+            onClick={resetPassword}
+            disabled={loading || !password || !confirmPassword}
+            className="w-full"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Resetting Password...
+              </>
+            ) : (
+              'Reset Password'
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      {token ? renderResetStep() : renderRequestStep()}
+    </div>
+  );
+}
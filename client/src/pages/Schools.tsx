@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Edit, MapPin, Phone, Mail, Building2, Users, GitBranch, Trash2, MoreVertical, CheckCircle, Clock, XCircle, GraduationCap } from 'lucide-react';
+import { Plus, Edit, MapPin, Phone, Mail, Building2, Users, GitBranch, Trash2, MoreVertical, Power, ArrowRightLeft, History, CheckCircle, Clock, XCircle, GraduationCap } from 'lucide-react';
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,12 +20,19 @@ import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/lib/auth.tsx';
 import { colorSchemes } from '@/lib/colorSchemes';
+import { BranchesDialog } from '@/components/BranchesDialog';
+import { ClassesDialog } from '@/components/ClassesDialog';
+import { TransferSchoolDialog } from '@/components/TransferSchoolDialog';
+import { RolloverWizardDialog } from '@/components/RolloverWizardDialog';
+import { ChangeHistoryDialog } from '@/components/ChangeHistoryDialog';
+import { EntityStatusDialog, EntityTransition, TRANSITIONS_BY_STATUS, transitionLabel } from '@/components/EntityStatusDialog';
 
 // School form schema
 const schoolFormSchema = z.object({
   name: z.string().min(1, 'School name is required'),
   address: z.string().min(1, 'Address is required'),
   city: z.string().min(1, 'City is required'),
+  district: z.string().optional(),
   state: z.string().min(1, 'State is required'),
   pincode: z.string().min(6, 'Valid pincode is required'),
   contactPerson: z.string().min(1, 'Contact person is required'),
@@ -34,7 +41,6 @@ const schoolFormSchema = z.object({
   registrationNumber: z.string().optional(),
   franchiseId: z.number().optional(),
   hasSubBranches: z.boolean().default(false),
-  parentSchoolId: z.number().optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -53,6 +59,12 @@ export function Schools() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [franchiseeFilter, setFranchiseeFilter] = useState<number | null>(null);
   const [hasSubBranchesFilter, setHasSubBranchesFilter] = useState<string>('all');
+  const [statusChange, setStatusChange] = useState<{ school: any; transition: EntityTransition } | null>(null);
+  const [branchesSchool, setBranchesSchool] = useState<any>(null);
+  const [classesSchool, setClassesSchool] = useState<any>(null);
+  const [transferSchool, setTransferSchool] = useState<any>(null);
+  const [rolloverSchool, setRolloverSchool] = useState<any>(null);
+  const [historySchool, setHistorySchool] = useState<any>(null);
 
   // Auto-open dialog if coming from dashboard
   useEffect(() => {
@@ -113,7 +125,7 @@ export function Schools() {
         school.state?.toLowerCase().includes(term) ||
         school.contactPerson?.toLowerCase().includes(term) ||
         school.metadata?.contactPerson?.toLowerCase().includes(term) ||
-        school.metadata?.principalName?.toLowerCase().includes(term) ||
+        school.metadata?.contactPerson?.toLowerCase().includes(term) ||
         school.registrationNumber?.toLowerCase().includes(term) ||
         school.metadata?.registrationNumber?.toLowerCase().includes(term)
       );
@@ -144,15 +156,13 @@ export function Schools() {
     return { total, active, withSubBranches, totalStudents };
   }, [schools]);
 
-  // Parent schools are the same as schools for sub-branch selection
-  const parentSchools = schools;
-
   const form = useForm<SchoolFormData>({
     resolver: zodResolver(schoolFormSchema),
     defaultValues: {
       name: '',
       address: '',
       city: '',
+      district: '',
       state: '',
       pincode: '',
       contactPerson: '',
@@ -162,11 +172,28 @@ export function Schools() {
       franchiseId: user?.roles?.includes('FRANCHISE_ADMIN') ?
         user?.memberships?.find((m: any) => m.role === 'FRANCHISE_ADMIN')?.entityId : undefined,
       hasSubBranches: false,
-      parentSchoolId: undefined,
       isActive: true,
     },
   });
 
+  // Suggest the franchisee whose territory covers a new school's district and pincode
+  const [locationState, locationDistrict, locationPincode] = form.watch(['state', 'district', 'pincode']);
+  const { data: territoryOwner } = useQuery({
+    queryKey: ['/api/territories/resolve', locationState, locationDistrict, locationPincode],
+    queryFn: () => apiRequest(`/territories/resolve?${new URLSearchParams({
+      state: locationState,
+      pincode: locationPincode,
+      ...(locationDistrict?.trim() && { district: locationDistrict.trim() }),
+    })}`),
+    enabled: !editingSchool && !!locationState?.trim() && /^\d{6}$/.test(locationPincode || ''),
+  });
+
+  useEffect(() => {
+    if (territoryOwner && !form.getValues('franchiseId')) {
+      form.setValue('franchiseId', territoryOwner.franchiseeId);
+    }
+  }, [territoryOwner, form]);
+
   // Reset form when editing school changes or user data loads
   useEffect(() => {
     if (editingSchool) {
@@ -174,15 +201,15 @@ export function Schools() {
         name: editingSchool.name || '',
         address: editingSchool.address || editingSchool.metadata?.address || '',
         city: editingSchool.city || editingSchool.metadata?.city || '',
+        district: editingSchool.district || editingSchool.metadata?.district || '',
         state: editingSchool.state || editingSchool.metadata?.state || '',
         pincode: editingSchool.pincode || editingSchool.metadata?.pincode || '',
-        contactPerson: editingSchool.contactPerson || editingSchool.metadata?.contactPerson || editingSchool.metadata?.principalName || '',
-        contactPhone: editingSchool.contactPhone || editingSchool.metadata?.contactPhone || editingSchool.metadata?.schoolContactPhone || '',
-        contactEmail: editingSchool.contactEmail || editingSchool.metadata?.contactEmail || editingSchool.metadata?.principalEmail || editingSchool.metadata?.schoolContactEmail || '',
+        contactPerson: editingSchool.contactPerson || editingSchool.metadata?.contactPerson || '',
+        contactPhone: editingSchool.contactPhone || editingSchool.metadata?.contactPhone || '',
+        contactEmail: editingSchool.contactEmail || editingSchool.metadata?.contactEmail || '',
         registrationNumber: editingSchool.registrationNumber || editingSchool.metadata?.registrationNumber || '',
         franchiseId: editingSchool.franchiseId || editingSchool.parentId || undefined,
         hasSubBranches: editingSchool.hasSubBranches || editingSchool.metadata?.hasSubBranches || false,
-        parentSchoolId: editingSchool.parentSchoolId || editingSchool.metadata?.parentSchoolId || undefined,
         isActive: editingSchool.status === 'ACTIVE',
       });
     } else {
@@ -197,6 +224,7 @@ export function Schools() {
         name: '',
         address: '',
         city: '',
+        district: '',
         state: '',
         pincode: '',
         contactPerson: '',
@@ -205,7 +233,6 @@ export function Schools() {
         registrationNumber: '',
         franchiseId: defaultFranchiseId,
         hasSubBranches: false,
-        parentSchoolId: undefined,
         isActive: true,
       });
     }
@@ -215,26 +242,21 @@ export function Schools() {
     mutationFn: (schoolData: SchoolFormData) => {
       if (editingSchool) {
         // Update existing school - only send changed fields
+        // Status changes go through the lifecycle actions, not the edit form
         const updateData = {
           name: schoolData.name,
-          status: schoolData.isActive ? 'ACTIVE' : 'INACTIVE',
           metadata: {
             ...editingSchool.metadata,
             address: schoolData.address,
             city: schoolData.city,
+            district: schoolData.district || undefined,
             state: schoolData.state,
             pincode: schoolData.pincode,
             contactPerson: schoolData.contactPerson,
             contactPhone: schoolData.contactPhone,
             contactEmail: schoolData.contactEmail,
-            principalName: schoolData.contactPerson,
-            principalEmail: schoolData.contactEmail,
-            schoolContactPerson: schoolData.contactPerson,
-            schoolContactPhone: schoolData.contactPhone,
-            schoolContactEmail: schoolData.contactEmail,
             registrationNumber: schoolData.registrationNumber,
             hasSubBranches: schoolData.hasSubBranches,
-            parentSchoolId: schoolData.parentSchoolId,
           }
         };
 
@@ -253,16 +275,14 @@ export function Schools() {
           metadata: {
             address: schoolData.address,
             city: schoolData.city,
+            district: schoolData.district || undefined,
             state: schoolData.state,
             pincode: schoolData.pincode,
-            principalName: schoolData.contactPerson,
-            principalEmail: schoolData.contactEmail,
-            schoolContactPerson: schoolData.contactPerson,
-            schoolContactPhone: schoolData.contactPhone,
-            schoolContactEmail: schoolData.contactEmail,
+            contactPerson: schoolData.contactPerson,
+            contactPhone: schoolData.contactPhone,
+            contactEmail: schoolData.contactEmail,
             registrationNumber: schoolData.registrationNumber,
             hasSubBranches: schoolData.hasSubBranches,
-            parentSchoolId: schoolData.parentSchoolId,
           }
         };
 
@@ -279,12 +299,16 @@ export function Schools() {
         });
       }
     },
-    onSuccess: () => {
+    onSuccess: (result: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/schools'] });
       queryClient.invalidateQueries({ queryKey: ['/api/schools/list'] });
       toast({
         title: 'Success',
-        description: editingSchool ? 'School updated successfully' : 'School registered successfully',
+        description: editingSchool
+          ? 'School updated successfully'
+          : result?.suspectedDuplicates?.length
+            ? 'School registered. It looks like an existing school and has been queued for duplicate review.'
+            : 'School registered successfully',
       });
       setIsDialogOpen(false);
       setEditingSchool(null);
@@ -482,7 +506,7 @@ export function Schools() {
                             render={({ field }) => (
                               <FormItem>
                                 <FormLabel>Franchise</FormLabel>
-                                <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString()}>
+                                <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString()} disabled={!!editingSchool}>
                                   <FormControl>
                                     <SelectTrigger>
                                       <SelectValue placeholder="Select franchise" />
@@ -496,31 +520,15 @@ export function Schools() {
                                     ))}
                                   </SelectContent>
                                 </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            control={form.control}
-                            name="parentSchoolId"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Parent School (for sub-branches)</FormLabel>
-                                <Select onValueChange={(value) => field.onChange(value === "none" ? undefined : parseInt(value))} value={field.value?.toString() || "none"}>
-                                  <FormControl>
-                                    <SelectTrigger>
-                                      <SelectValue placeholder="Select parent school (optional)" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    <SelectItem value="none">No parent school</SelectItem>
-                                    {parentSchools.filter((s: any) => !s.parentSchoolId).map((school: any) => (
-                                      <SelectItem key={school.id} value={school.id.toString()}>
-                                        {school.name} - {school.city}
-                                      </SelectItem>
-                                    ))}
-                                  </SelectContent>
-                                </Select>
+                                {editingSchool ? (
+                                  <FormDescription>
+                                    Use Transfer to move this school to another franchise
+                                  </FormDescription>
+                                ) : territoryOwner && (
+                                  <FormDescription>
+                                    Pincode {locationPincode} is in {territoryOwner.franchiseeName}'s territory
+                                  </FormDescription>
+                                )}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -622,6 +630,19 @@ export function Schools() {
                             </FormItem>
                           )}
                         />
+                        <FormField
+                          control={form.control}
+                          name="district"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>District</FormLabel>
+                              <FormControl>
+                                <Input placeholder="District" {...field} value={field.value || ''} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                         <FormField
                           control={form.control}
                           name="state"
@@ -893,12 +914,6 @@ export function Schools() {
                         <div className="ml-4">
                           <div className="text-sm font-medium text-gray-900 flex items-center gap-2">
                             {school.name}
-                            {school.parentSchoolId && (
-                              <Badge variant="outline" className="text-xs">
-                                <GitBranch className="h-3 w-3 mr-1" />
-                                Branch
-                              </Badge>
-                            )}
                             {school.hasSubBranches && (
                               <Badge variant="secondary" className="text-xs">
                                 <Building2 className="h-3 w-3 mr-1" />
@@ -944,6 +959,34 @@ export function Schools() {
                               <Edit className="h-4 w-4 mr-2" />
                               Edit School
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setBranchesSchool(school)}>
+                              <GitBranch className="h-4 w-4 mr-2" />
+                              Manage Branches
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setClassesSchool(school)}>
+                              <Users className="h-4 w-4 mr-2" />
+                              Manage Classes
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setRolloverSchool(school)}>
+                              <GraduationCap className="h-4 w-4 mr-2" />
+                              Year Rollover
+                            </DropdownMenuItem>
+                            {user?.roles?.some(role => ['SYSTEM_ADMIN', 'ORG_ADMIN'].includes(role)) && (
+                              <DropdownMenuItem onClick={() => setTransferSchool(school)}>
+                                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                                Transfer
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem onClick={() => setHistorySchool(school)}>
+                              <History className="h-4 w-4 mr-2" />
+                              History
+                            </DropdownMenuItem>
+                            {(TRANSITIONS_BY_STATUS[school.status] || []).map((transition) => (
+                              <DropdownMenuItem key={transition} onClick={() => setStatusChange({ school, transition })}>
+                                <Power className="h-4 w-4 mr-2" />
+                                {transitionLabel(transition)}
+                              </DropdownMenuItem>
+                            ))}
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
                                 <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-red-600 focus:text-red-600">
@@ -955,8 +998,8 @@ export function Schools() {
                                 <AlertDialogHeader>
                                   <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                                   <AlertDialogDescription>
-                                    This action cannot be undone. This will permanently delete the school
-                                    "{school.name}" and all associated data.
+                                    The school "{school.name}" moves to the recycle bin. A system admin
+                                    can restore it until it is purged after 30 days.
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
@@ -1074,6 +1117,35 @@ export function Schools() {
           </CardContent>
         </Card>
       )}
+
+      {statusChange && (
+        <EntityStatusDialog
+          entity={statusChange.school}
+          transition={statusChange.transition}
+          invalidateKeys={['/api/schools', '/api/schools/list']}
+          onClose={() => setStatusChange(null)}
+        />
+      )}
+
+      {branchesSchool && (
+        <BranchesDialog school={branchesSchool} onClose={() => setBranchesSchool(null)} />
+      )}
+
+      {classesSchool && (
+        <ClassesDialog school={classesSchool} onClose={() => setClassesSchool(null)} />
+      )}
+
+      {rolloverSchool && (
+        <RolloverWizardDialog school={rolloverSchool} onClose={() => setRolloverSchool(null)} />
+      )}
+
+      {transferSchool && (
+        <TransferSchoolDialog school={transferSchool} onClose={() => setTransferSchool(null)} />
+      )}
+
+      {historySchool && (
+        <ChangeHistoryDialog path={`/entities/${historySchool.id}/history`} title={historySchool.name} onClose={() => setHistorySchool(null)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,389 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheck, ShieldOff, KeyRound, Copy, Monitor, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/lib/auth.tsx';
+
+interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface ActiveSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// Roles the MFA policy can be applied to
+const POLICY_ROLES = [
+  { value: 'SYSTEM_ADMIN', label: 'System Admin' },
+  { value: 'ORG_ADMIN', label: 'Org Admin' },
+  { value: 'DENTIST', label: 'Dentist' },
+  { value: 'FRANCHISE_ADMIN', label: 'Franchise Admin' },
+  { value: 'PRINCIPAL', label: 'Principal' },
+  { value: 'SCHOOL_ADMIN', label: 'School Admin' },
+];
+
+export function SecuritySettings() {
+  const { user, logoutEverywhere } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [manageCode, setManageCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [policyRoles, setPolicyRoles] = useState<string[]>([]);
+  const isSystemAdmin = user?.roles?.includes('SYSTEM_ADMIN') || false;
+
+  const { data: status } = useQuery<MfaStatus>({
+    queryKey: ['/api/auth/mfa/status'],
+    queryFn: () => apiRequest('/auth/mfa/status'),
+  });
+
+  const { data: sessions = [] } = useQuery<ActiveSession[]>({
+    queryKey: ['/api/auth/sessions'],
+    queryFn: () => apiRequest('/auth/sessions'),
+  });
+
+  const { data: policy } = useQuery<{ requiredRoles: string[] }>({
+    queryKey: ['/api/settings/mfa'],
+    queryFn: () => apiRequest('/settings/mfa'),
+    enabled: isSystemAdmin,
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setPolicyRoles(policy.requiredRoles);
+    }
+  }, [policy]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const startEnrollmentMutation = useMutation({
+    mutationFn: () => apiRequest('/auth/mfa/enroll/start', { method: 'POST' }),
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setCode('');
+    },
+    onError,
+  });
+
+  const confirmEnrollmentMutation = useMutation({
+    mutationFn: (value: string) =>
+      apiRequest('/auth/mfa/enroll/confirm', {
+        method: 'POST',
+        body: JSON.stringify({ code: value }),
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/status'] });
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: 'Two-factor authentication enabled',
+        description: 'Save your recovery codes somewhere safe.',
+      });
+    },
+    onError: (error: Error) => {
+      setCode('');
+      onError(error);
+    },
+  });
+
+  const regenerateCodesMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('/auth/mfa/recovery-codes', {
+        method: 'POST',
+        body: JSON.stringify({ code: manageCode }),
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/status'] });
+      setManageCode('');
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('/auth/mfa/disable', {
+        method: 'POST',
+        body: JSON.stringify({ code: manageCode }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/status'] });
+      setManageCode('');
+      setRecoveryCodes([]);
+      toast({
+        title: 'Two-factor authentication disabled',
+      });
+    },
+    onError,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/auth/sessions/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: 'Session signed out',
+      });
+    },
+    onError,
+  });
+
+  const logoutEverywhereMutation = useMutation({
+    mutationFn: () => logoutEverywhere(),
+    onError,
+  });
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: (requiredRoles: string[]) =>
+      apiRequest('/settings/mfa', {
+        method: 'PUT',
+        body: JSON.stringify({ requiredRoles }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/mfa'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa/status'] });
+      toast({
+        title: 'Success',
+        description: 'MFA policy updated',
+      });
+    },
+    onError,
+  });
+
+  const togglePolicyRole = (role: string, checked: boolean) => {
+    setPolicyRoles(checked ? [...policyRoles, role] : policyRoles.filter(r => r !== role));
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Security</h1>
+        <p className="text-gray-600">
+          Manage two-factor authentication and signed-in devices for your account.
+        </p>
+      </div>
+
+      <div className="space-y-6 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Two-Factor Authentication
+              </CardTitle>
+              {status && (
+                <Badge variant={status.enabled ? 'default' : 'secondary'}>
+                  {status.enabled ? 'Enabled' : 'Disabled'}
+                </Badge>
+              )}
+            </div>
+            <CardDescription>
+              Require a code from an authenticator app in addition to your usual sign-in.
+              {status?.required && ' Your role requires two-factor authentication.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {recoveryCodes.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  Recovery codes — each can be used once. They will not be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 bg-gray-50 p-4 rounded font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy Codes
+                </Button>
+              </div>
+            )}
+
+            {status && !status.enabled && !enrollment && (
+              <Button
+                onClick={() => startEnrollmentMutation.mutate()}
+                disabled={startEnrollmentMutation.isPending}
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                Set Up Authenticator App
+              </Button>
+            )}
+
+            {enrollment && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-48 h-48" />
+                <p className="text-xs text-gray-500">
+                  Or enter this key manually: <span className="font-mono">{enrollment.secret}</span>
+                </p>
+                <InputOTP
+                  maxLength={6}
+                  value={code}
+                  onChange={setCode}
+                  onComplete={(value) => confirmEnrollmentMutation.mutate(value)}
+                >
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => confirmEnrollmentMutation.mutate(code)}
+                    disabled={code.length !== 6 || confirmEnrollmentMutation.isPending}
+                  >
+                    Verify and Enable
+                  </Button>
+                  <Button variant="outline" onClick={() => setEnrollment(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {status?.enabled && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  {status.recoveryCodesRemaining} recovery codes remaining. Enter a current authenticator
+                  or recovery code to manage two-factor authentication.
+                </p>
+                <Input
+                  placeholder="Authentication code"
+                  value={manageCode}
+                  onChange={(e) => setManageCode(e.target.value)}
+                  className="max-w-xs"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateCodesMutation.mutate()}
+                    disabled={!manageCode || regenerateCodesMutation.isPending}
+                  >
+                    Regenerate Recovery Codes
+                  </Button>
+                  {!status.required && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => disableMutation.mutate()}
+                      disabled={!manageCode || disableMutation.isPending}
+                    >
+                      <ShieldOff className="h-4 w-4 mr-2" />
+                      Disable
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Monitor className="h-5 w-5" />
+                Active Sessions
+              </CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => logoutEverywhereMutation.mutate()}
+                disabled={logoutEverywhereMutation.isPending}
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Log Out Everywhere
+              </Button>
+            </div>
+            <CardDescription>
+              Devices currently signed in to your account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {session.userAgent || 'Unknown device'}
+                    {session.current && <Badge className="ml-2">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ipAddress || 'Unknown IP'} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeSessionMutation.mutate(session.id)}
+                    disabled={revokeSessionMutation.isPending}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {isSystemAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle>MFA Policy</CardTitle>
+              <CardDescription>
+                Users holding any selected role must set up two-factor authentication at their next sign-in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {POLICY_ROLES.map((role) => (
+                  <label key={role.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={policyRoles.includes(role.value)}
+                      onCheckedChange={(checked) => togglePolicyRole(role.value, checked === true)}
+                    />
+                    {role.label}
+                  </label>
+                ))}
+              </div>
+              <Button
+                onClick={() => updatePolicyMutation.mutate(policyRoles)}
+                disabled={updatePolicyMutation.isPending}
+              >
+                Save Policy
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Users, Search, Filter, Eye, FileText, X, UserPlus, Upload, Download, AlertTriangle, CheckCircle, MoreVertical, Trash2, Archive, ArrowRightLeft } from 'lucide-react';
+import { Plus, Users, Search, Filter, Eye, FileText, X, UserPlus, Upload, Download, AlertTriangle, CheckCircle, MoreVertical, Trash2, Archive, ArrowRightLeft, History } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,6 +14,7 @@ import { Separator } from '@/components/ui/separator';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { ScreeningForm } from '@/components/ScreeningForm';
+import { ChangeHistoryDialog } from '@/components/ChangeHistoryDialog';
 import { insertEntitySchema, type InsertEntity } from '@shared/schema';
 import { z } from 'zod';
 import { apiRequest } from '@/lib/queryClient';
@@ -43,6 +44,7 @@ const createStudentFormSchema = (userRoles: string[]) => {
     grade: z.string().min(1, 'Grade is required'),
     rollNumber: z.string().min(1, 'Roll number is required'),
     schoolId: z.number().min(1, 'School selection is required'),
+    branchId: z.number().optional(), // Enrol at one of the school's branches
     parents: z.array(parentSchema).min(1, 'At least one parent is required').max(4, 'Maximum 4 parents allowed'),
   });
 
@@ -81,6 +83,8 @@ export function Students() {
   // Advanced filtering for admin users
   const [filterFranchiseeId, setFilterFranchiseeId] = useState<number | null>(null);
   const [filterSchoolId, setFilterSchoolId] = useState<number | null>(null);
+  const [filterBranchId, setFilterBranchId] = useState<number | null>(null);
+  const [filterClassId, setFilterClassId] = useState<number | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(20);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
@@ -181,7 +185,9 @@ export function Students() {
       setUploadStep('complete');
       toast({
         title: 'Success',
-        description: data.message,
+        description: data.suspectedDuplicates
+          ? `${data.message}. ${data.suspectedDuplicates} possible duplicate(s) queued for review.`
+          : data.message,
       });
       // Auto-close after 2 seconds
       setTimeout(() => {
@@ -226,6 +232,8 @@ export function Students() {
       campId: selectedCamp !== 'all' ? selectedCamp : null,
       franchiseeId: filterFranchiseeId,
       schoolId: filterSchoolId,
+      branchId: filterBranchId,
+      classId: filterClassId,
       page: currentPage,
       pageSize: pageSize,
       search: searchTerm
@@ -235,6 +243,8 @@ export function Students() {
       if (selectedCamp !== 'all') params.append('campId', selectedCamp);
       if (filterFranchiseeId) params.append('franchiseeId', filterFranchiseeId.toString());
       if (filterSchoolId) params.append('schoolId', filterSchoolId.toString());
+      if (filterBranchId) params.append('branchId', filterBranchId.toString());
+      if (filterClassId) params.append('classId', filterClassId.toString());
       if (searchTerm.trim()) params.append('search', searchTerm.trim());
       params.append('page', currentPage.toString());
       params.append('pageSize', pageSize.toString());
@@ -279,6 +289,21 @@ export function Students() {
     },
   });
 
+  const { data: filterBranches = [] } = useQuery({
+    queryKey: ['/api/schools', filterSchoolId, 'branches'],
+    queryFn: () => apiRequest(`/schools/${filterSchoolId}/branches`),
+    enabled: !!filterSchoolId,
+  });
+
+  // Classes of the chosen school or branch; a teacher without a school chosen picks from their own classes
+  const isTeacher = user?.roles?.includes('TEACHER');
+  const classUnitId = filterBranchId || filterSchoolId;
+  const { data: filterClasses = [] } = useQuery({
+    queryKey: classUnitId ? ['/api/schools', classUnitId, 'classes'] : ['/api/classes/mine'],
+    queryFn: () => apiRequest(classUnitId ? `/schools/${classUnitId}/classes` : '/classes/mine'),
+    enabled: !!classUnitId || !!isTeacher,
+  });
+
   // Get dynamic form schema based on user roles
   const studentFormSchema = createStudentFormSchema(userRoles);
 
@@ -306,20 +331,29 @@ export function Students() {
     },
   });
 
+  const registrationSchoolId = form.watch('schoolId');
+  const { data: registrationBranches = [] } = useQuery({
+    queryKey: ['/api/schools', registrationSchoolId, 'branches'],
+    queryFn: () => apiRequest(`/schools/${registrationSchoolId}/branches`),
+    enabled: !!registrationSchoolId,
+  });
+
   const createStudentMutation = useMutation({
-    mutationFn: (studentData: StudentFormData) => {
-      // Send to new student registration endpoint that handles parents
+    mutationFn: ({ branchId, ...studentData }: StudentFormData) => {
+      // Send to new student registration endpoint that handles parents; a chosen branch takes the student
       return apiRequest('/students/register', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(studentData),
+        body: JSON.stringify({ ...studentData, schoolId: branchId || studentData.schoolId }),
       });
     },
-    onSuccess: () => {
+    onSuccess: (result: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/students'] });
       toast({
         title: 'Success',
-        description: 'Student registered successfully',
+        description: result?.suspectedDuplicates?.length
+          ? 'Student registered. Possible duplicates have been queued for review.'
+          : 'Student registered successfully',
       });
       setIsDialogOpen(false);
       form.reset();
@@ -344,6 +378,7 @@ export function Students() {
   const [archiveDialogOpen, setArchiveDialogOpen] = useState(false);
   const [moveDialogOpen, setMoveDialogOpen] = useState(false);
   const [actionStudent, setActionStudent] = useState<any>(null);
+  const [historyStudent, setHistoryStudent] = useState<any>(null);
   const [targetSchoolId, setTargetSchoolId] = useState<string>('');
 
   // Delete Mutation
@@ -634,6 +669,37 @@ export function Students() {
                           )}
                         />
 
+                        {registrationBranches.length > 0 && (
+                          <FormField
+                            control={form.control}
+                            name="branchId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Branch</FormLabel>
+                                <Select
+                                  value={field.value?.toString() || 'main'}
+                                  onValueChange={(value) => field.onChange(value === 'main' ? undefined : parseInt(value))}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Main campus" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="main">Main campus</SelectItem>
+                                    {registrationBranches.map((branch: any) => (
+                                      <SelectItem key={branch.id} value={branch.id.toString()}>
+                                        {branch.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+
                         {/* Parents Section */}
                         <div className="md:col-span-2">
                           <div className="flex items-center justify-between mb-4">
@@ -1031,6 +1097,8 @@ export function Students() {
                     const franchiseeId = e.target.value && e.target.value !== '0' ? parseInt(e.target.value) : null;
                     setFilterFranchiseeId(franchiseeId);
                     setFilterSchoolId(null); // Reset school filter
+                    setFilterBranchId(null);
+                    setFilterClassId(null);
                     setCurrentPage(1); // Reset to first page
                   }}
                   className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
@@ -1053,6 +1121,8 @@ export function Students() {
                 onChange={(e) => {
                   const schoolId = e.target.value && e.target.value !== '0' ? parseInt(e.target.value) : null;
                   setFilterSchoolId(schoolId);
+                  setFilterBranchId(null); // Reset branch filter
+                  setFilterClassId(null);
                   setCurrentPage(1); // Reset to first page
                 }}
                 className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
@@ -1066,6 +1136,53 @@ export function Students() {
               </select>
             </div>
 
+            {/* Branch Filter, once a school with branches is chosen */}
+            {filterBranches.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Branch</label>
+                <select
+                  value={filterBranchId || '0'}
+                  onChange={(e) => {
+                    const branchId = e.target.value && e.target.value !== '0' ? parseInt(e.target.value) : null;
+                    setFilterBranchId(branchId);
+                    setFilterClassId(null);
+                    setCurrentPage(1); // Reset to first page
+                  }}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="0">All Branches</option>
+                  {filterBranches.map((branch: any) => (
+                    <option key={branch.id} value={branch.id.toString()}>
+                      {branch.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Class Filter */}
+            {filterClasses.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Class</label>
+                <select
+                  value={filterClassId || '0'}
+                  onChange={(e) => {
+                    const classId = e.target.value && e.target.value !== '0' ? parseInt(e.target.value) : null;
+                    setFilterClassId(classId);
+                    setCurrentPage(1); // Reset to first page
+                  }}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="0">All Classes</option>
+                  {filterClasses.map((cls: any) => (
+                    <option key={cls.id} value={cls.id.toString()}>
+                      Grade {cls.grade}{cls.section ? ` ${cls.section}` : ''} ({cls.academicYear})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Camp Filter */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Camp</label>
@@ -1321,6 +1438,9 @@ export function Students() {
                               <DropdownMenuItem onClick={() => handleArchiveClick(student)}>
                                 <Archive className="mr-2 h-4 w-4" /> Archive
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setHistoryStudent(student)}>
+                                <History className="mr-2 h-4 w-4" /> History
+                              </DropdownMenuItem>
                               {(userRoles.includes('SYSTEM_ADMIN') || userRoles.includes('ORG_ADMIN')) && (
                                 <>
                                   <DropdownMenuSeparator />
@@ -1457,6 +1577,10 @@ export function Students() {
           }}
         />
       )}
+
+      {historyStudent && (
+        <ChangeHistoryDialog path={`/entities/${historyStudent.id}/history`} title={historyStudent.name} onClose={() => setHistoryStudent(null)} />
+      )}
     </div>
   );
 }
@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Plus, Edit, Trash2, UserCog, Save, X, ChevronLeft, ChevronRight, MoreVertical } from 'lucide-react';
+import { Plus, Edit, Trash2, UserCog, Save, X, ChevronLeft, ChevronRight, MoreVertical, CalendarClock, Eye, ArrowRightLeft, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,12 +14,18 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { type User, type InsertUser } from '@shared/schema';
 import { colorSchemes } from '@/lib/colorSchemes';
 import { useAuth } from '@/lib/auth.tsx';
 import { useLocation } from 'wouter';
+import { MembershipWindowsDialog, getMembershipState } from '@/components/MembershipWindowsDialog';
+import { InvitationsTable } from '@/components/InvitationsTable';
+import { HandOverRoleDialog, SINGLE_HOLDER_ROLES } from '@/components/HandOverRoleDialog';
+import { ServiceAccountsPanel } from '@/components/ServiceAccountsPanel';
+import { ChangeHistoryDialog } from '@/components/ChangeHistoryDialog';
 
 const userFormSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -48,6 +54,9 @@ const editUserFormSchema = z.object({
   studentSearchQuery: z.string().optional(),
 });
 
+// Roles offered in the user forms, narrowed to what the current admin may grant
+const assignableRoles = ['SYSTEM_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN', 'TEACHER', 'DENTIST', 'PARENT'];
+
 type UserFormData = z.infer<typeof userFormSchema>;
 type EditUserFormData = z.infer<typeof editUserFormSchema>;
 
@@ -71,7 +80,9 @@ const statusColors = {
 };
 
 export function Users() {
-  const { user } = useAuth();
+  const { user, startImpersonation } = useAuth();
+  const canManageServiceAccounts = user?.roles?.some(role => ['SYSTEM_ADMIN', 'ORG_ADMIN'].includes(role));
+  const canViewHistory = user?.roles?.some(role => ['SYSTEM_ADMIN', 'ORG_ADMIN'].includes(role));
   const [, setLocation] = useLocation();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -82,6 +93,11 @@ export function Users() {
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
   const [showAddRoleDialog, setShowAddRoleDialog] = useState(false);
   const [selectedUserForRole, setSelectedUserForRole] = useState<User | null>(null);
+  const [windowsUserId, setWindowsUserId] = useState<number | null>(null);
+  const [handOverUser, setHandOverUser] = useState<User | null>(null);
+  const [historyUser, setHistoryUser] = useState<User | null>(null);
+  const [newRole, setNewRole] = useState<string>('');
+  const [newRoleEntityId, setNewRoleEntityId] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const { toast } = useToast();
@@ -105,6 +121,19 @@ export function Users() {
     queryFn: () => apiRequest('/users'),
   });
 
+  // Roles this admin may grant, mapped to the entity types they can be granted on
+  const { data: grantable } = useQuery<Record<string, string[]>>({
+    queryKey: ['/api/memberships/grantable'],
+    queryFn: () => apiRequest('/memberships/grantable'),
+  });
+  const grantableRoles = assignableRoles.filter(role => grantable?.[role]);
+
+  const { data: allEntities } = useQuery({
+    queryKey: ['/api/entities'],
+    queryFn: () => apiRequest('/entities'),
+    enabled: showAddRoleDialog,
+  });
+
   // Fetch entities for dropdowns
   const { data: franchisees } = useQuery({
     queryKey: ['/api/entities', 'FRANCHISEE'],
@@ -237,6 +266,30 @@ export function Users() {
     },
   });
 
+  // Grant an additional role mutation
+  const addRoleMutation = useMutation({
+    mutationFn: ({ userId, role, entityId }: { userId: number; role: string; entityId: number }) =>
+      apiRequest('/memberships', {
+        method: 'POST',
+        body: JSON.stringify({ userId, role, entityId }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      setShowAddRoleDialog(false);
+      toast({
+        title: 'Success',
+        description: 'Role added successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to add role',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Update user status mutation
   const updateStatusMutation = useMutation({
     mutationFn: ({ id, status }: { id: number; status: string }) =>
@@ -296,9 +349,26 @@ export function Users() {
 
   const handleAddRole = (user: User) => {
     setSelectedUserForRole(user);
+    setNewRole('');
+    setNewRoleEntityId(null);
     setShowAddRoleDialog(true);
   };
 
+  const newRoleEntities = (allEntities || []).filter((entity: any) => grantable?.[newRole]?.includes(entity.type));
+
+  const handleViewAs = async (target: User) => {
+    try {
+      await startImpersonation(target.id);
+      setLocation('/dashboard');
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to view as user',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleStatusChange = (id: number, status: string) => {
     updateStatusMutation.mutate({ id, status });
   };
@@ -464,7 +534,7 @@ export function Users() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {['SYSTEM_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN', 'TEACHER', 'DENTIST', 'PARENT'].map((role) => (
+                          {grantableRoles.map((role) => (
                             <SelectItem key={role} value={role}>
                               {role.replace('_', ' ')}
                             </SelectItem>
@@ -607,158 +677,226 @@ export function Users() {
         </Dialog>
       </div>
 
-      {/* Users Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>All Users</CardTitle>
-          <CardDescription>
-            Manage all user accounts and their permissions
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b">
-                  <th className="text-left py-3 px-4">User</th>
-                  <th className="text-left py-3 px-4">Username</th>
-                  <th className="text-left py-3 px-4">Role</th>
-                  <th className="text-left py-3 px-4">Status</th>
-                  <th className="text-right py-3 px-4">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {paginatedUsers?.map((user: User) => (
-                  <tr key={user.id} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4">
-                      <div>
-                        <div className="font-medium text-gray-900">{user.name}</div>
-                        <div className="text-sm text-gray-500">{user.email}</div>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
-                        {user.email}
-                      </span>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="flex flex-wrap gap-1">
-                        {(user as any).roles?.map((role: string) => (
-                          <Badge key={role} className={roleColors[role as keyof typeof roleColors]}>
-                            {role.replace('_', ' ')}
-                          </Badge>
-                        )) || <Badge className="bg-gray-100 text-gray-800">No roles</Badge>}
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      {getStatusBadge(user.status)}
-                    </td>
-                    <td className="py-3 px-4 text-right">
-                      <div className="flex justify-end space-x-2">
+      <Tabs defaultValue="users">
+        <TabsList className="mb-4">
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="invitations">Invitations</TabsTrigger>
+          {canManageServiceAccounts && <TabsTrigger value="service-accounts">Service Accounts</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="users">
+          {/* Users Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle>All Users</CardTitle>
+              <CardDescription>
+                Manage all user accounts and their permissions
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-3 px-4">User</th>
+                      <th className="text-left py-3 px-4">Username</th>
+                      <th className="text-left py-3 px-4">Role</th>
+                      <th className="text-left py-3 px-4">Status</th>
+                      <th className="text-right py-3 px-4">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {paginatedUsers?.map((user: User) => (
+                      <tr key={user.id} className="border-b hover:bg-gray-50">
+                        <td className="py-3 px-4">
+                          <div>
+                            <div className="font-medium text-gray-900">{user.name}</div>
+                            <div className="text-sm text-gray-500">{user.email}</div>
+                          </div>
+                        </td>
+                        <td className="py-3 px-4">
+                          <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                            {user.email}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex flex-wrap gap-1">
+                            {(user as any).roles?.map((role: string) => (
+                              <Badge key={role} className={roleColors[role as keyof typeof roleColors]}>
+                                {role.replace('_', ' ')}
+                              </Badge>
+                            )) || <Badge className="bg-gray-100 text-gray-800">No roles</Badge>}
+                          </div>
+                          {(user as any).memberships?.filter((m: any) => m.validTo && getMembershipState(m) === 'ACTIVE').map((m: any) => (
+                            <div key={m.id} className="text-xs text-gray-500 mt-1">
+                              {m.role.replace('_', ' ')} until {new Date(m.validTo).toLocaleDateString()}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="py-3 px-4">
+                          {getStatusBadge(user.status)}
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(user)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="outline" size="sm">
+                                  <MoreVertical className="w-4 h-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  onClick={() => handleStatusChange(user.id, 'ACTIVE')}
+                                  disabled={user.status === 'ACTIVE'}
+                                >
+                                  Set Active
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => handleStatusChange(user.id, 'PENDING')}
+                                  disabled={user.status === 'PENDING'}
+                                >
+                                  Set Pending
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => handleStatusChange(user.id, 'SUSPENDED')}
+                                  disabled={user.status === 'SUSPENDED'}
+                                  className="text-red-600"
+                                >
+                                  Suspend User
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => handleAddRole(user)}
+                                  className="text-blue-600"
+                                >
+                                  <UserCog className="w-4 h-4 mr-2" />
+                                  Add Role
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => handleViewAs(user)}
+                                  disabled={user.status === 'SUSPENDED' || (user as any).roles?.includes('SYSTEM_ADMIN')}
+                                >
+                                  <Eye className="w-4 h-4 mr-2" />
+                                  View as User
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setWindowsUserId(user.id)}>
+                                  <CalendarClock className="w-4 h-4 mr-2" />
+                                  Access Windows
+                                </DropdownMenuItem>
+                                {(user as any).memberships?.some((m: any) => SINGLE_HOLDER_ROLES.includes(m.role)) && (
+                                  <DropdownMenuItem onClick={() => setHandOverUser(user)}>
+                                    <ArrowRightLeft className="w-4 h-4 mr-2" />
+                                    Hand Over Role
+                                  </DropdownMenuItem>
+                                )}
+                                {canViewHistory && (
+                                  <DropdownMenuItem onClick={() => setHistoryUser(user)}>
+                                    <History className="w-4 h-4 mr-2" />
+                                    History
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuItem
+                                  onClick={() => handleDeleteClick(user)}
+                                  className="text-red-600"
+                                >
+                                  <Trash2 className="w-4 h-4 mr-2" />
+                                  Delete User
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination Controls */}
+              {users && users.length > itemsPerPage && (
+                <div className="flex items-center justify-between px-4 py-3 border-t">
+                  <div className="flex items-center text-sm text-gray-700">
+                    <span>
+                      Showing {((currentPage - 1) * itemsPerPage) + 1} to{' '}
+                      {Math.min(currentPage * itemsPerPage, users.length)} of {users.length} users
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handlePreviousPage}
+                      disabled={currentPage === 1}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Previous
+                    </Button>
+                    <div className="flex items-center space-x-1">
+                      {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
                         <Button
-                          variant="outline"
+                          key={page}
+                          variant={currentPage === page ? "default" : "outline"}
                           size="sm"
-                          onClick={() => handleEdit(user)}
+                          onClick={() => goToPage(page)}
+                          className="w-8 h-8 p-0"
                         >
-                          <Edit className="w-4 h-4" />
+                          {page}
                         </Button>
-
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="outline" size="sm">
-                              <MoreVertical className="w-4 h-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem
-                              onClick={() => handleStatusChange(user.id, 'ACTIVE')}
-                              disabled={user.status === 'ACTIVE'}
-                            >
-                              Set Active
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleStatusChange(user.id, 'PENDING')}
-                              disabled={user.status === 'PENDING'}
-                            >
-                              Set Pending
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleStatusChange(user.id, 'SUSPENDED')}
-                              disabled={user.status === 'SUSPENDED'}
-                              className="text-red-600"
-                            >
-                              Suspend User
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleAddRole(user)}
-                              className="text-blue-600"
-                            >
-                              <UserCog className="w-4 h-4 mr-2" />
-                              Add Role
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleDeleteClick(user)}
-                              className="text-red-600"
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Delete User
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-
-          {/* Pagination Controls */}
-          {users && users.length > itemsPerPage && (
-            <div className="flex items-center justify-between px-4 py-3 border-t">
-              <div className="flex items-center text-sm text-gray-700">
-                <span>
-                  Showing {((currentPage - 1) * itemsPerPage) + 1} to{' '}
-                  {Math.min(currentPage * itemsPerPage, users.length)} of {users.length} users
-                </span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handlePreviousPage}
-                  disabled={currentPage === 1}
-                >
-                  <ChevronLeft className="h-4 w-4" />
-                  Previous
-                </Button>
-                <div className="flex items-center space-x-1">
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+                      ))}
+                    </div>
                     <Button
-                      key={page}
-                      variant={currentPage === page ? "default" : "outline"}
+                      variant="outline"
                       size="sm"
-                      onClick={() => goToPage(page)}
-                      className="w-8 h-8 p-0"
+                      onClick={handleNextPage}
+                      disabled={currentPage === totalPages}
                     >
-                      {page}
+                      Next
+                      <ChevronRight className="h-4 w-4" />
                     </Button>
-                  ))}
+                  </div>
                 </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleNextPage}
-                  disabled={currentPage === totalPages}
-                >
-                  Next
-                  <ChevronRight className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="invitations">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invitations</CardTitle>
+              <CardDescription>
+                Track sent invitations and agreement links, and resend or revoke them
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <InvitationsTable />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {canManageServiceAccounts && (
+          <TabsContent value="service-accounts">
+            <Card>
+              <CardHeader>
+                <CardTitle>Service Accounts</CardTitle>
+                <CardDescription>
+                  Accounts that integrations use to call the API with an API key
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ServiceAccountsPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
 
       {/* Edit User Dialog */}
       {editingUser && (
@@ -846,7 +984,7 @@ export function Users() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {['SYSTEM_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN', 'TEACHER', 'DENTIST', 'PARENT'].map((role) => (
+                          {grantableRoles.map((role) => (
                             <SelectItem key={role} value={role}>
                               {role.replace('_', ' ')}
                             </SelectItem>
@@ -875,6 +1013,28 @@ export function Users() {
         </Dialog>
       )}
 
+      {/* Membership Windows Dialog - read from the query so saved windows show immediately */}
+      {windowsUserId && users?.find((u: any) => u.id === windowsUserId) && (
+        <MembershipWindowsDialog
+          user={users.find((u: any) => u.id === windowsUserId)}
+          onClose={() => setWindowsUserId(null)}
+        />
+      )}
+
+      {/* Hand Over Role Dialog */}
+      {handOverUser && (
+        <HandOverRoleDialog
+          user={handOverUser}
+          users={users || []}
+          onClose={() => setHandOverUser(null)}
+        />
+      )}
+
+      {/* Change History Dialog */}
+      {historyUser && (
+        <ChangeHistoryDialog path={`/users/${historyUser.id}/history`} title={historyUser.name} onClose={() => setHistoryUser(null)} />
+      )}
+
       {/* Delete User Confirmation Dialog */}
       {userToDelete && (
         <AlertDialog open={!!userToDelete} onOpenChange={() => setUserToDelete(null)}>
@@ -882,7 +1042,7 @@ export function Users() {
             <AlertDialogHeader>
               <AlertDialogTitle>Delete User</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete {userToDelete.name}? This action cannot be undone.
+                Are you sure you want to delete {userToDelete.name}? They are signed out and lose their roles; a system admin can restore the account from the recycle bin for 30 days.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -905,7 +1065,7 @@ export function Users() {
             <DialogHeader>
               <DialogTitle>Add Role to {selectedUserForRole.name}</DialogTitle>
               <DialogDescription>
-                Select additional roles for this user.
+                Grant this user an additional role on an entity.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
@@ -922,33 +1082,54 @@ export function Users() {
 
               <div className="space-y-2">
                 <label className="text-sm font-medium">Add New Role:</label>
-                <Select onValueChange={(role) => {
-                  // Here you would implement the add role logic
-                  toast({
-                    title: 'Feature Coming Soon',
-                    description: 'Role management will be available in the next update.',
-                  });
-                  setShowAddRoleDialog(false);
+                <Select value={newRole} onValueChange={(role) => {
+                  setNewRole(role);
+                  setNewRoleEntityId(null);
                 }}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select role to add" />
                   </SelectTrigger>
                   <SelectContent>
-                    {['SYSTEM_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN', 'TEACHER', 'DENTIST', 'PARENT']
-                      .filter(role => !((selectedUserForRole as any).roles || []).includes(role))
-                      .map((role) => (
-                        <SelectItem key={role} value={role}>
-                          {role.replace('_', ' ')}
-                        </SelectItem>
-                      ))}
+                    {grantableRoles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role.replace('_', ' ')}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+
+              {newRole && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">On Entity:</label>
+                  <Select
+                    value={newRoleEntityId?.toString() || ''}
+                    onValueChange={(value) => setNewRoleEntityId(parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select entity" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {newRoleEntities.map((entity: any) => (
+                        <SelectItem key={entity.id} value={entity.id.toString()}>
+                          {entity.name} ({entity.type.toLowerCase()})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setShowAddRoleDialog(false)}>
                 Cancel
               </Button>
+              <Button
+                onClick={() => addRoleMutation.mutate({ userId: selectedUserForRole.id, role: newRole, entityId: newRoleEntityId! })}
+                disabled={!newRole || !newRoleEntityId || addRoleMutation.isPending}
+              >
+                Add Role
+              </Button>
             </div>
           </DialogContent>
         </Dialog>
@@ -4,7 +4,7 @@ import { db } from "../server/db";
 import { users } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { storage } from "../server/storage";
-import { authService } from "../server/services/auth";
+import { magicTokenService } from "../server/services/magicToken";
 
 async function createCredentials() {
     console.log("🔑 Creating Test Credentials...");
@@ -32,12 +32,10 @@ async function createCredentials() {
 
         // Generate Magic Link (simulating login)
         // In real app, we email it. Here we just print it.
-        const token = authService.generateToken();
         const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 mins
 
-        await storage.createMagicToken({
+        const { token } = await magicTokenService.issue({
             email,
-            token,
             purpose: 'LOGIN',
             expiresAt
         });
@@ -0,0 +1,25 @@
+import "dotenv/config";
+import { pool } from "../server/db";
+
+// Run once before `npm run db:push` when upgrading to hashed magic tokens.
+// Copies a SHA-256 of every stored token into token_hash so links that were
+// already sent keep working; the push then drops the plaintext column.
+async function hashMagicTokens() {
+    console.log("🔒 Hashing stored magic tokens...");
+
+    try {
+        await pool.query(`ALTER TABLE magic_tokens ADD COLUMN IF NOT EXISTS token_hash text`);
+        const result = await pool.query(
+            `UPDATE magic_tokens SET token_hash = encode(sha256(convert_to(token, 'UTF8')), 'hex') WHERE token_hash IS NULL`
+        );
+
+        console.log(`✅ Hashed ${result.rowCount} tokens. Run npm run db:push to drop the plaintext column.`);
+    } catch (error) {
+        console.error("❌ Hashing Failed:", error);
+        process.exit(1);
+    } finally {
+        await pool.end();
+    }
+}
+
+hashMagicTokens();
@@ -0,0 +1,48 @@
+import "dotenv/config";
+import { pool } from "../server/db";
+import { EntityType, entityMetadataSchemas, normalizeEntityMetadata } from "../shared/schema";
+
+// Run once when upgrading to typed entity metadata. Renames legacy aliases
+// (schoolCity, franchiseContactEmail, ...) to the canonical fields. Rows with
+// fields the entity's type does not declare, or whose values fail validation,
+// are left untouched and listed for review, so no data is deleted.
+async function normalizeEntityMetadataRows() {
+    console.log("🧹 Normalising entity metadata...");
+
+    try {
+        const { rows } = await pool.query(`SELECT id, type, name, metadata FROM entities ORDER BY id`);
+
+        let updated = 0;
+        const invalid: string[] = [];
+
+        for (const row of rows) {
+            const type = row.type as EntityType;
+            const normalized = normalizeEntityMetadata(row.metadata);
+            const result = entityMetadataSchemas[type].strict().safeParse(normalized);
+
+            if (!result.success) {
+                const issues = result.error.errors.map(issue => `${issue.path.join(".") || "metadata"}: ${issue.message}`);
+                invalid.push(`#${row.id} ${row.name} (${type}) - ${issues.join("; ")}`);
+                continue;
+            }
+
+            if (JSON.stringify(result.data) !== JSON.stringify(row.metadata ?? {})) {
+                await pool.query(`UPDATE entities SET metadata = $1 WHERE id = $2`, [JSON.stringify(result.data), row.id]);
+                updated++;
+            }
+        }
+
+        console.log(`✅ Normalised ${updated} of ${rows.length} entities.`);
+        if (invalid.length > 0) {
+            console.log(`⚠️  ${invalid.length} entities need manual fixes:`);
+            invalid.forEach(line => console.log(`   ${line}`));
+        }
+    } catch (error) {
+        console.error("❌ Normalisation Failed:", error);
+        process.exit(1);
+    } finally {
+        await pool.end();
+    }
+}
+
+normalizeEntityMetadataRows();
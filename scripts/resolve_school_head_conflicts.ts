@@ -0,0 +1,71 @@
+import "dotenv/config";
+import { pool } from "../server/db";
+
+// Run before `npm run db:push` when adding memberships_school_head_unique.
+// Lists schools holding more than one PRINCIPAL or SCHOOL_ADMIN membership,
+// which would make the push fail. With --fix, keeps one holder per school and
+// role (a currently valid primary membership first, then the most recent) and
+// deletes the others, recording each removal in the audit log.
+async function resolveSchoolHeadConflicts() {
+    const fix = process.argv.includes("--fix");
+    console.log("🏫 Checking for schools with more than one principal or school admin...");
+
+    try {
+        const { rows } = await pool.query(`
+            SELECT m.id, m.user_id, m.entity_id, m.role, e.name AS school_name, u.email
+            FROM memberships m
+            JOIN entities e ON e.id = m.entity_id
+            LEFT JOIN users u ON u.id = m.user_id
+            WHERE m.role IN ('PRINCIPAL', 'SCHOOL_ADMIN')
+              AND (m.entity_id, m.role) IN (
+                SELECT entity_id, role FROM memberships
+                WHERE role IN ('PRINCIPAL', 'SCHOOL_ADMIN')
+                GROUP BY entity_id, role HAVING count(*) > 1
+              )
+            ORDER BY m.entity_id, m.role,
+              (m.valid_from IS NULL OR m.valid_from <= now()) AND (m.valid_to IS NULL OR m.valid_to > now()) DESC,
+              m.is_primary DESC, m.created_at DESC, m.id DESC
+        `);
+
+        if (rows.length === 0) {
+            console.log("✅ No conflicts. npm run db:push can add the index.");
+            return;
+        }
+
+        // Rows arrive with the holder to keep first in each school and role
+        const groups = new Map<string, any[]>();
+        for (const row of rows) {
+            const key = `${row.entity_id}:${row.role}`;
+            groups.set(key, [...(groups.get(key) || []), row]);
+        }
+
+        let removed = 0;
+        for (const [keep, ...others] of Array.from(groups.values())) {
+            console.log(`   #${keep.entity_id} ${keep.school_name} ${keep.role}: keeping ${keep.email ?? `user #${keep.user_id}`} (membership #${keep.id})`);
+            for (const other of others) {
+                console.log(`      ${fix ? "removing" : "would remove"} ${other.email ?? `user #${other.user_id}`} (membership #${other.id})`);
+                if (!fix) continue;
+
+                await pool.query(`DELETE FROM memberships WHERE id = $1`, [other.id]);
+                await pool.query(
+                    `INSERT INTO audit_logs (action, entity_id, target_id, target_type, metadata) VALUES ($1, $2, $3, $4, $5)`,
+                    ["MEMBERSHIP_REMOVED_FOR_UNIQUE_HEAD", other.entity_id, other.user_id, "USER", JSON.stringify({ membershipId: other.id, role: other.role, keptMembershipId: keep.id })]
+                );
+                removed++;
+            }
+        }
+
+        if (fix) {
+            console.log(`✅ Removed ${removed} memberships. Run npm run db:push to add the index.`);
+        } else {
+            console.log(`⚠️  ${groups.size} conflicts found. Re-run with --fix to resolve them, or hand the roles over by hand first.`);
+        }
+    } catch (error) {
+        console.error("❌ Conflict Check Failed:", error);
+        process.exit(1);
+    } finally {
+        await pool.end();
+    }
+}
+
+resolveSchoolHeadConflicts();
@@ -4,10 +4,18 @@ import cors from "cors";
 import { createServer } from "http";
 import { setupVite, serveStatic, log } from "./vite";
 import apiRoutes from "./routes";
+import { schedulerService } from "./services/scheduler";
+import { membershipService } from "./services/membership";
+import { invitationService } from "./services/invitation";
+import { magicTokenService } from "./services/magicToken";
+import { recycleBinService } from "./services/recycleBin";
 
 const app = express();
 const server = createServer(app);
 
+// Behind a load balancer, set TRUST_PROXY_HOPS so req.ip reflects the client for rate limiting
+app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS) || false);
+
 // Middleware
 app.use(cors());
 app.use(express.urlencoded({ extended: true }));
@@ -35,3 +43,10 @@ if (process.env.NODE_ENV === "development") {
 server.listen(PORT, "0.0.0.0", () => {
   log(`Server running on port ${PORT}`);
 });
+
+// Background jobs
+schedulerService.register('membership-expiry-notices', 6 * 60 * 60 * 1000, () => membershipService.notifyExpiringMemberships());
+schedulerService.register('invitation-expiry', 60 * 60 * 1000, () => invitationService.expireInvitations());
+schedulerService.register('magic-token-cleanup', 6 * 60 * 60 * 1000, () => magicTokenService.cleanupExpiredTokens());
+schedulerService.register('recycle-bin-purge', 24 * 60 * 60 * 1000, () => recycleBinService.purgeExpired());
+schedulerService.start();
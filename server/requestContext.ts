@@ -0,0 +1,12 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Who is behind the current request, for code far from the route handler such as change history
+export interface RequestContext {
+  actorUserId: number;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestActorId(): number | null {
+  return requestContext.getStore()?.actorUserId ?? null;
+}
@@ -1,16 +1,17 @@
 import { Router, Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import crypto from "crypto";
-import bcrypt from "bcrypt";
 import nodemailer from 'nodemailer';
 import multer from 'multer';
 import * as XLSX from 'xlsx';
 import { storage } from "./storage";
+import { requestContext } from "./requestContext";
 import {
-  magicLinkRequestSchema, magicLinkConsumeSchema, acceptAgreementsSchema,
-  createUserSchema, createMembershipSchema, inviteUserSchema,
+  magicLinkRequestSchema, magicLinkConsumeSchema, acceptAgreementsSchema, otpRequestSchema, otpVerifySchema,
+  passwordResetRequestSchema, passwordResetSchema, mfaCodeSchema, mfaChallengeSchema, mfaPolicySchema, refreshTokenSchema,
+  createUserSchema, createMembershipSchema, createServiceAccountSchema, createApiKeySchema, inviteUserSchema, membershipWindowSchema, handOverRoleSchema, impersonateSchema,
+  createBranchSchema, createClassSchema, assignTeacherSchema, assignStudentsSchema, entityTransitionSchema, territoryClaimSchema, territoryLookupSchema, transferSchoolSchema, resolveDuplicateSchema, academicYearRolloverSchema,
   insertEntitySchema, insertCampSchema, insertScreeningSchema, insertReportSchema,
-  User, Entity, Membership, InsertParentStudentLink, InsertAuditLog
+  User, Entity, Membership, InsertParentStudentLink, InsertAuditLog, FranchiseeMetadata, SchoolMetadata, normalizeEntityMetadata
 } from "@shared/schema";
 import { authService } from "./services/auth";
 import { identityService } from "./services/identity";
@@ -21,6 +22,23 @@ import { screeningService } from "./services/screening";
 import { reportService } from "./services/report";
 import { contentService } from "./services/content";
 import { sendEmail } from "./services/email";
+import { mfaService } from "./services/mfa";
+import { sessionService, SessionContext } from "./services/session";
+import { throttleService, RATE_LIMITS } from "./services/throttle";
+import { accessService, resolveEntity } from "./services/access";
+import { membershipService, isMembershipActive } from "./services/membership";
+import { invitationService } from "./services/invitation";
+import { passwordService } from "./services/password";
+import { serviceAccountService } from "./services/serviceAccount";
+import { magicTokenService } from "./services/magicToken";
+import { territoryService } from "./services/territory";
+import { classService } from "./services/class";
+import { transferService } from "./services/transfer";
+import { recycleBinService } from "./services/recycleBin";
+import { changeHistoryService } from "./services/changeHistory";
+import { duplicateService } from "./services/duplicate";
+import { academicYearService } from "./services/academicYear";
+import { entityLifecycleService, ENTITY_TRANSITIONS } from "./services/entityLifecycle";
 
 // Extend Express Request type to include user
 interface AuthenticatedRequest extends Request {
@@ -29,11 +47,38 @@ interface AuthenticatedRequest extends Request {
     email: string;
     roles: string[];
     entityIds: number[];
+    memberships: Membership[]; // The memberships this request acts under
+    activeMembershipId?: number;
+    sessionId?: number;
+    impersonatorId?: number;
+    apiKeyId?: number; // Set when a service account authenticated with an API key
   };
 }
 
 const router = Router();
-const JWT_SECRET = process.env.JWT_SECRET || "dental-care-secret-key";
+
+// Pins a request to one of the caller's memberships, chosen with the client's role switcher
+const ACTIVE_MEMBERSHIP_HEADER = 'X-Active-Membership';
+
+// Integrations may send their API key here instead of as a bearer token
+const API_KEY_HEADER = 'X-API-Key';
+
+// Methods an API key with only READ permission may use
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Entities students can be enrolled at: a school or one of its branches
+const STUDENT_PARENT_TYPES: Entity['type'][] = ['SCHOOL', 'BRANCH'];
+
+// Requests still allowed while an admin is viewing as another user
+const IMPERSONATION_WRITE_ALLOWLIST = ['/auth/impersonate/stop', '/auth/logout'];
+
+// Client details recorded against a login session
+function getSessionContext(req: Request): SessionContext {
+  return {
+    userAgent: req.get('User-Agent') || undefined,
+    ipAddress: req.ip
+  };
+}
 
 // Configure multer for file uploads
 const upload = multer({
@@ -90,13 +135,14 @@ if (process.env.GMAIL_USER && process.env.GMAIL_APP_PASSWORD) {
 
 
 // Generate magic link URL
-router.post('/auth/magic-link/request', async (req: Request, res: Response) => {
+router.post('/auth/magic-link/request', throttleService.limitByIp(RATE_LIMITS.MAGIC_LINK_PER_IP), async (req: Request, res: Response) => {
   try {
     const { email } = magicLinkRequestSchema.parse(req.body);
-    await authService.requestMagicLink(email);
+    await authService.requestMagicLink(email, getSessionContext(req));
     res.json({ message: 'If an account exists with this email, a login link has been sent.' });
-  } catch (error) {
-    if (error.message === 'User not found') {
+  } catch (error: any) {
+    // Throttled addresses get the same answer so the limit does not reveal which accounts exist
+    if (error.message === 'User not found' || error.message === 'Too many requests for this email') {
       res.json({ message: 'If an account exists with this email, a login link has been sent.' });
     } else {
       console.error('Magic link request error:', error);
@@ -108,24 +154,420 @@ router.post('/auth/magic-link/request', async (req: Request, res: Response) => {
 router.post('/auth/magic-link/consume', async (req: Request, res: Response) => {
   try {
     const { token } = magicLinkConsumeSchema.parse(req.body);
-    const result = await authService.consumeMagicLink(token);
+    const result = await authService.consumeMagicLink(token, getSessionContext(req));
     res.json(result);
   } catch (error) {
     console.error('Magic link consume error:', error);
     res.status(401).json({ error: error.message || 'Invalid or expired token' });
   }
 });
+
+// Request a password reset link
+router.post('/auth/password-reset/request', throttleService.limitByIp(RATE_LIMITS.PASSWORD_RESET_PER_IP), async (req: Request, res: Response) => {
+  try {
+    const { email } = passwordResetRequestSchema.parse(req.body);
+    await authService.requestPasswordReset(email, getSessionContext(req));
+    res.json({ message: 'If an account exists with this email, a password reset link has been sent.' });
+  } catch (error: any) {
+    if (error.message === 'User not found' || error.message === 'Too many requests for this email') {
+      res.json({ message: 'If an account exists with this email, a password reset link has been sent.' });
+    } else if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'A valid email is required' });
+    } else {
+      console.error('Password reset request error:', error);
+      res.status(500).json({ error: 'Failed to request password reset' });
+    }
+  }
+});
+
+// Set a new password from a reset link
+router.post('/auth/password-reset', throttleService.limitByIp(RATE_LIMITS.PASSWORD_RESET_PER_IP), async (req: Request, res: Response) => {
+  try {
+    const { token, password } = passwordResetSchema.parse(req.body);
+    await authService.resetPassword(token, password, getSessionContext(req));
+    res.json({ message: 'Password has been reset. Please sign in with your new password.' });
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired token') {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+    }
+    if (error.message === 'Account suspended') {
+      return res.status(403).json({ error: 'Account suspended', status: 'SUSPENDED' });
+    }
+    if (error.message?.startsWith('Password')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+    console.error('Password reset error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Request a one-time login code (email or SMS)
+router.post('/auth/otp/request', throttleService.limitByIp(RATE_LIMITS.OTP_REQUEST_PER_IP), async (req: Request, res: Response) => {
+  try {
+    const { email, channel } = otpRequestSchema.parse(req.body);
+    await authService.requestOtp(email, channel, getSessionContext(req));
+    res.json({ message: 'If an account exists with this email, a login code has been sent.' });
+  } catch (error: any) {
+    // Throttled and too-soon requests get the same answer so neither reveals which accounts exist
+    if (['User not found', 'No phone number on file', 'Too many requests for this email', 'Please wait before requesting another code'].includes(error.message)) {
+      res.json({ message: 'If an account exists with this email, a login code has been sent.' });
+    } else if (error.message === 'SMS login codes are not available') {
+      res.status(400).json({ error: 'Login codes by SMS are not available. Please use email.' });
+    } else if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'A valid email is required' });
+    } else {
+      console.error('OTP request error:', error);
+      res.status(500).json({ error: 'Failed to request login code' });
+    }
+  }
+});
+
+router.post('/auth/otp/verify', throttleService.limitByIp(RATE_LIMITS.OTP_VERIFY_PER_IP), async (req: Request, res: Response) => {
+  try {
+    const { email, code } = otpVerifySchema.parse(req.body);
+    const result = await authService.verifyOtp(email, code, getSessionContext(req));
+    res.json(result);
+  } catch (error: any) {
+    if (error.message === 'Account suspended') {
+      return res.status(403).json({
+        error: 'Account suspended',
+        message: 'Your account has been suspended. Please contact admin@smilestarsindia.com for assistance.',
+        status: 'SUSPENDED'
+      });
+    }
+    if (error.message === 'Organization suspended') {
+      return res.status(403).json({
+        error: 'Organization suspended',
+        message: 'Your organization has been suspended. Please contact admin@smilestarsindia.com for assistance.',
+        status: 'SUSPENDED'
+      });
+    }
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Email and 6-digit code are required' });
+    }
+    console.error('OTP verify error:', error);
+    res.status(401).json({ error: error.message || 'Invalid or expired code' });
+  }
+});
+
+// ===== MULTI-FACTOR AUTHENTICATION ROUTES =====
+
+const MFA_CHALLENGE_ERRORS = [
+  'Invalid authentication code',
+  'Invalid or expired MFA session',
+  'MFA session has expired. Please log in again',
+  'Too many attempts. Please log in again'
+];
+
+// Second login step: exchange the mfaToken from login for a JWT
+router.post('/auth/mfa/verify', throttleService.limitByIp(RATE_LIMITS.MFA_VERIFY_PER_IP), async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, code } = mfaChallengeSchema.parse(req.body);
+    const result = await authService.verifyMfaChallenge(mfaToken, code, getSessionContext(req));
+    res.json(result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'MFA session and code are required' });
+    }
+    if (error.message === 'Account suspended' || error.message === 'Organization suspended') {
+      return res.status(403).json({ error: error.message, status: 'SUSPENDED' });
+    }
+    if (MFA_CHALLENGE_ERRORS.includes(error.message)) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('MFA verify error:', error);
+    res.status(500).json({ error: 'Failed to verify authentication code' });
+  }
+});
+
+// Forced enrollment during login (role requires MFA but user has none yet)
+router.post('/auth/mfa/challenge/enroll/start', throttleService.limitByIp(RATE_LIMITS.MFA_VERIFY_PER_IP), async (req: Request, res: Response) => {
+  try {
+    const { mfaToken } = req.body;
+    if (!mfaToken) {
+      return res.status(400).json({ error: 'MFA session is required' });
+    }
+
+    const enrollment = await authService.startMfaEnrollmentChallenge(mfaToken);
+    res.json(enrollment);
+  } catch (error: any) {
+    if (MFA_CHALLENGE_ERRORS.includes(error.message) || error.message === 'Account suspended') {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('MFA enrollment start error:', error);
+    res.status(500).json({ error: 'Failed to start MFA enrollment' });
+  }
+});
+
+router.post('/auth/mfa/challenge/enroll/confirm', throttleService.limitByIp(RATE_LIMITS.MFA_VERIFY_PER_IP), async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, code } = mfaChallengeSchema.parse(req.body);
+    const result = await authService.confirmMfaEnrollmentChallenge(mfaToken, code, getSessionContext(req));
+    res.json(result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'MFA session and code are required' });
+    }
+    if (MFA_CHALLENGE_ERRORS.includes(error.message) || error.message === 'Account suspended') {
+      return res.status(401).json({ error: error.message });
+    }
+    if (error.message === 'MFA enrollment has not been started' || error.message === 'MFA is already enabled') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('MFA enrollment confirm error:', error);
+    res.status(500).json({ error: 'Failed to confirm MFA enrollment' });
+  }
+});
+
+// Self-service MFA management for signed-in users
+router.get('/auth/mfa/status', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const status = await mfaService.getStatus(req.user!.id);
+    res.json(status);
+  } catch (error) {
+    console.error('MFA status error:', error);
+    res.status(500).json({ error: 'Failed to fetch MFA status' });
+  }
+});
+
+router.post('/auth/mfa/enroll/start', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const enrollment = await mfaService.beginEnrollment(req.user!.id);
+    res.json(enrollment);
+  } catch (error: any) {
+    if (error.message === 'MFA is already enabled') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('MFA enrollment start error:', error);
+    res.status(500).json({ error: 'Failed to start MFA enrollment' });
+  }
+});
+
+router.post('/auth/mfa/enroll/confirm', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = mfaCodeSchema.parse(req.body);
+    const result = await mfaService.confirmEnrollment(req.user!.id, code);
+    res.json(result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Authentication code is required' });
+    }
+    if (['Invalid authentication code', 'MFA enrollment has not been started', 'MFA is already enabled'].includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('MFA enrollment confirm error:', error);
+    res.status(500).json({ error: 'Failed to confirm MFA enrollment' });
+  }
+});
+
+router.post('/auth/mfa/recovery-codes', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = mfaCodeSchema.parse(req.body);
+    const result = await mfaService.regenerateRecoveryCodes(req.user!.id, code);
+    res.json(result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Authentication code is required' });
+    }
+    if (error.message === 'Invalid authentication code') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('MFA recovery codes error:', error);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+router.post('/auth/mfa/disable', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = mfaCodeSchema.parse(req.body);
+    await mfaService.disable(req.user!.id, code);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Authentication code is required' });
+    }
+    if (error.message === 'MFA is required for your role and cannot be disabled') {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message === 'Invalid authentication code' || error.message === 'MFA is not enabled') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('MFA disable error:', error);
+    res.status(500).json({ error: 'Failed to disable MFA' });
+  }
+});
+
+// MFA policy: which roles must enroll before they can sign in
+router.get('/settings/mfa', authenticateToken, requireRole(['SYSTEM_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const requiredRoles = await mfaService.getRequiredRoles();
+    res.json({ requiredRoles });
+  } catch (error) {
+    console.error('Get MFA policy error:', error);
+    res.status(500).json({ error: 'Failed to fetch MFA policy' });
+  }
+});
+
+router.put('/settings/mfa', authenticateToken, requireRole(['SYSTEM_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { requiredRoles } = mfaPolicySchema.parse(req.body);
+    const previousRoles = await mfaService.getRequiredRoles();
+    const updatedRoles = await mfaService.setRequiredRoles(req.user!.id, requiredRoles);
+
+    await storage.createAuditLog({
+      actorUserId: req.user!.id,
+      action: 'UPDATE_MFA_POLICY',
+      targetType: 'SETTING',
+      metadata: { previousRoles, requiredRoles: updatedRoles }
+    });
+
+    res.json({ requiredRoles: updatedRoles });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid role list', details: error.errors });
+    }
+    console.error('Update MFA policy error:', error);
+    res.status(500).json({ error: 'Failed to update MFA policy' });
+  }
+});
+
+// ===== SESSION ROUTES =====
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/auth/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+    const result = await sessionService.refresh(refreshToken, getSessionContext(req));
+    res.json(result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    if (error.message === 'Invalid refresh token' || error.message === 'Session expired') {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+router.post('/auth/logout', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (req.user!.sessionId) {
+      await sessionService.revokeSession(req.user!.id, req.user!.sessionId, 'LOGOUT');
+    }
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// Log out everywhere: revoke every session for the current user
+router.post('/auth/logout-all', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await sessionService.revokeAllSessions(req.user!.id, 'LOGOUT_ALL');
+
+    await storage.createAuditLog({
+      actorUserId: req.user!.id,
+      action: 'LOGOUT_ALL_SESSIONS',
+      targetId: req.user!.id,
+      targetType: 'USER'
+    });
+
+    res.json({ message: 'Logged out of all sessions' });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to log out of all sessions' });
+  }
+});
+
+router.get('/auth/sessions', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessions = await sessionService.getActiveSessions(req.user!.id);
+    res.json(sessions.map(session => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === req.user!.sessionId
+    })));
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+router.delete('/auth/sessions/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await sessionService.revokeSession(req.user!.id, parseInt(req.params.id), 'LOGOUT');
+    res.json({ message: 'Session revoked' });
+  } catch (error: any) {
+    if (error.message === 'Session not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// ===== IMPERSONATION ROUTES =====
+
+router.post('/auth/impersonate', authenticateToken, requireRole(['SYSTEM_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId } = impersonateSchema.parse(req.body);
+    const { token, user } = await sessionService.impersonate(req.user!.id, req.user!.sessionId!, userId);
+
+    res.json({
+      token,
+      user: { id: user.id, name: user.name, email: user.email }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid request data' });
+    }
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.startsWith('Cannot impersonate')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Impersonate error:', error);
+    res.status(500).json({ error: 'Failed to start impersonation' });
+  }
+});
+
+router.post('/auth/impersonate/stop', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user!.impersonatorId) {
+      return res.status(400).json({ error: 'Not impersonating' });
+    }
+
+    await sessionService.stopImpersonation(req.user!.impersonatorId, req.user!.id, req.user!.sessionId!);
+
+    res.json({ message: 'Impersonation ended' });
+  } catch (error) {
+    console.error('Stop impersonation error:', error);
+    res.status(500).json({ error: 'Failed to stop impersonation' });
+  }
+});
+
 router.get('/entities/:type', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { type } = req.params;
-    const validTypes = ['ORGANIZATION', 'FRANCHISEE', 'SCHOOL', 'STUDENT'];
+    const validTypes = ['ORGANIZATION', 'FRANCHISEE', 'SCHOOL', 'BRANCH', 'STUDENT'];
 
     if (!validTypes.includes(type.toUpperCase())) {
       return res.status(400).json({ error: 'Invalid entity type' });
     }
 
     const entities = await storage.getEntitiesByType(type.toUpperCase() as any);
-    res.json(entities);
+    const scope = await accessService.getRequestScope(req);
+    res.json(accessService.filter(scope, entities));
   } catch (error) {
     console.error('Error fetching entities:', error);
     res.status(500).json({ error: 'Failed to fetch entities' });
@@ -136,7 +578,8 @@ router.get('/entities/:type', authenticateToken, async (req: AuthenticatedReques
 router.get('/franchisees/list', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const franchisees = await storage.getEntitiesByType('FRANCHISEE');
-    res.json(franchisees);
+    const scope = await accessService.getRequestScope(req);
+    res.json(accessService.filter(scope, franchisees));
   } catch (error) {
     console.error('Get franchisees error:', error);
     res.status(500).json({ error: 'Failed to get franchisees' });
@@ -147,34 +590,12 @@ router.get('/franchisees/list', authenticateToken, requireRole(['SYSTEM_ADMIN',
 router.get('/schools/list', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { franchiseeId } = req.query;
-    let schools = await storage.getEntitiesByType('SCHOOL');
+    const scope = await accessService.getRequestScope(req);
+    let schools = accessService.filter(scope, await storage.getEntitiesByType('SCHOOL'));
 
-    // Filter schools based on user role and context
-    if (req.user!.roles.includes('SYSTEM_ADMIN') || req.user!.roles.includes('ORG_ADMIN')) {
-      // Admin can see all schools, optionally filtered by franchisee
-      if (franchiseeId) {
-        schools = schools.filter(school => school.parentId === parseInt(franchiseeId as string));
-      }
-    } else if (req.user!.roles.includes('FRANCHISE_ADMIN')) {
-      // Franchise admin can only see schools under their franchisee
-      const userMemberships = await storage.getMembershipsByUser(req.user!.id);
-      const franchiseeMembership = userMemberships.find(m => m.role === 'FRANCHISE_ADMIN');
-      if (franchiseeMembership) {
-        schools = schools.filter(school => school.parentId === franchiseeMembership.entityId);
-      } else {
-        schools = [];
-      }
-    } else if (req.user!.roles.includes('SCHOOL_ADMIN')) {
-      // School admin can only see their assigned school
-      const userMemberships = await storage.getMembershipsByUser(req.user!.id);
-      const schoolMembership = userMemberships.find(m => m.role === 'SCHOOL_ADMIN');
-      if (schoolMembership) {
-        schools = schools.filter(school => school.id === schoolMembership.entityId);
-      } else {
-        schools = [];
-      }
-    } else {
-      schools = [];
+    // Optionally narrow to one franchisee
+    if (franchiseeId) {
+      schools = schools.filter(school => school.parentId === parseInt(franchiseeId as string));
     }
 
     res.json(schools);
@@ -184,8 +605,68 @@ router.get('/schools/list', authenticateToken, async (req: AuthenticatedRequest,
   }
 });
 
+// Territory claims of a franchisee
+router.get('/franchisees/:franchiseeId/territories', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('franchiseeId')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryService.listForFranchisee(parseInt(req.params.franchiseeId)));
+  } catch (error: any) {
+    if (error.message === 'Franchisee not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get territories error:', error);
+    res.status(500).json({ error: 'Failed to get territories' });
+  }
+});
+
+router.post('/franchisees/:franchiseeId/territories', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const claim = territoryClaimSchema.parse(req.body);
+    const territory = await territoryService.claim(req.user!.id, parseInt(req.params.franchiseeId), claim);
+    res.status(201).json(territory);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid territory data', details: error.errors });
+    }
+    if (error.message === 'Franchisee not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Territory overlaps')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Claim territory error:', error);
+    res.status(500).json({ error: 'Failed to claim territory' });
+  }
+});
+
+router.delete('/territories/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await territoryService.release(req.user!.id, parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error.message === 'Territory not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Release territory error:', error);
+    res.status(500).json({ error: 'Failed to release territory' });
+  }
+});
+
+// Franchisee whose territory covers a location (?state=&district=&pincode=), or null
+router.get('/territories/resolve', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const owner = await territoryService.resolve(territoryLookupSchema.parse(req.query));
+    res.json(owner && { territory: owner.territory, franchiseeId: owner.franchisee.id, franchiseeName: owner.franchisee.name });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid location', details: error.errors });
+    }
+    console.error('Resolve territory error:', error);
+    res.status(500).json({ error: 'Failed to resolve territory' });
+  }
+});
+
 // Get schools by franchisee
-router.get('/franchisees/:franchiseeId/schools', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/franchisees/:franchiseeId/schools', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('franchiseeId')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const franchiseeId = parseInt(req.params.franchiseeId);
     const schools = await storage.getSchoolsByFranchisee(franchiseeId);
@@ -197,11 +678,13 @@ router.get('/franchisees/:franchiseeId/schools', authenticateToken, async (req:
 });
 
 // Get students by school
-router.get('/schools/:schoolId/students', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/schools/:schoolId/students', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('schoolId')), async (req: AuthenticatedRequest, res: Response) => {
   try {
+    // A school's students include those of its branches
     const schoolId = parseInt(req.params.schoolId);
-    const students = await storage.getStudentsBySchool(schoolId);
-    res.json(students);
+    const students = await storage.getEntitySubtree(schoolId, { type: 'STUDENT' });
+    const scope = await accessService.getRequestScope(req);
+    res.json(accessService.filter(scope, students));
   } catch (error) {
     console.error('Error fetching students:', error);
     res.status(500).json({ error: 'Failed to fetch students' });
@@ -220,39 +703,30 @@ router.post('/students/register', authenticateToken, requireRole(['SYSTEM_ADMIN'
 
     // Verify school exists and user has permission to register students there
     const school = await storage.getEntityById(schoolId);
-    if (!school || school.type !== 'SCHOOL') {
+    if (!school || !STUDENT_PARENT_TYPES.includes(school.type)) {
       return res.status(400).json({ error: 'Invalid school selected' });
     }
 
-    // Check permissions based on user role
-    const userMemberships = await storage.getMembershipsByUser(req.user!.id);
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, school.id)) {
+      return res.status(403).json({ error: 'You can only register students for schools within your scope' });
+    }
 
-    if (req.user!.roles.includes('SCHOOL_ADMIN')) {
-      // School admin can only register for their assigned school
-      const schoolMembership = userMemberships.find(m => m.role === 'SCHOOL_ADMIN');
-      if (!schoolMembership || schoolMembership.entityId !== schoolId) {
-        return res.status(403).json({ error: 'You can only register students for your assigned school' });
-      }
-    } else if (req.user!.roles.includes('FRANCHISE_ADMIN')) {
-      // Franchise admin can only register for schools under their franchisee
-      const franchiseeMembership = userMemberships.find(m => m.role === 'FRANCHISE_ADMIN');
-      if (!franchiseeMembership || school.parentId !== franchiseeMembership.entityId) {
-        return res.status(403).json({ error: 'You can only register students for schools under your franchisee' });
-      }
+    const block = await entityLifecycleService.getWriteBlock(school.id);
+    if (block) {
+      return res.status(403).json(block);
     }
-    // System admin and org admin can register for any school (no additional checks needed)
 
-    // Check for duplicate student (same name + school combination)
+    // A roll number identifies one student in a school; lookalike names are only flagged for review below
     const existingStudents = await storage.getStudentsBySchool(schoolId);
     const duplicateStudent = existingStudents.find(student =>
-      student.name.toLowerCase() === name.toLowerCase() ||
-      (student.metadata?.rollNumber && student.metadata.rollNumber === rollNumber)
+      student.metadata?.rollNumber && student.metadata.rollNumber === rollNumber
     );
 
     if (duplicateStudent) {
       return res.status(400).json({
         error: 'Student already exists',
-        message: `A student with the same name or roll number already exists in this school.`
+        message: `A student with the same roll number already exists in this school.`
       });
     }
 
@@ -274,6 +748,7 @@ router.post('/students/register', authenticateToken, requireRole(['SYSTEM_ADMIN'
 
     // Process each parent - create users and relationships
     const parentUsers = [];
+    const suspectedDuplicates = [];
     for (const parentData of parents) {
       const { name: parentName, email, phone, occupation, relationship, hasCustody, canPickup, emergencyContact, medicalDecisions } = parentData;
 
@@ -298,6 +773,8 @@ router.post('/students/register', authenticateToken, requireRole(['SYSTEM_ADMIN'
           role: 'PARENT',
           isPrimary: false
         });
+
+        suspectedDuplicates.push(...await duplicateService.flagParent(parentUser, schoolId));
       }
 
       // Create parent-student relationship
@@ -321,6 +798,8 @@ router.post('/students/register', authenticateToken, requireRole(['SYSTEM_ADMIN'
       });
     }
 
+    suspectedDuplicates.push(...await duplicateService.flagStudent(student, parents.map((p: any) => p.phone)));
+
     // Log the action
     await storage.createAuditLog({
       actorUserId: req.user!.id,
@@ -336,17 +815,21 @@ router.post('/students/register', authenticateToken, requireRole(['SYSTEM_ADMIN'
     res.json({
       student,
       parents: parentUsers,
+      suspectedDuplicates,
       message: `Student ${name} registered successfully with ${parents.length} parent(s).`
     });
 
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid student data', details: error.errors });
+    }
     console.error('Student registration error:', error);
     res.status(500).json({ error: 'Failed to register student' });
   }
 });
 
 // Archive student
-router.post('/students/:id/archive', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/students/:id/archive', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const studentId = parseInt(req.params.id);
     const student = await storage.getEntityById(studentId);
@@ -355,25 +838,6 @@ router.post('/students/:id/archive', authenticateToken, requireRole(['SYSTEM_ADM
       return res.status(404).json({ error: 'Student not found' });
     }
 
-    // Permission check
-    // userMemberships check logic similar to register/upload...
-    const userMemberships = await storage.getMembershipsByUser(req.user!.id);
-
-    if (req.user!.roles.includes('SCHOOL_ADMIN')) {
-      const schoolMembership = userMemberships.find(m => m.role === 'SCHOOL_ADMIN');
-      if (!schoolMembership || schoolMembership.entityId !== student.parentId) {
-        return res.status(403).json({ error: 'You can only archive students from your assigned school' });
-      }
-    } else if (req.user!.roles.includes('FRANCHISE_ADMIN')) {
-      const franchiseeMembership = userMemberships.find(m => m.role === 'FRANCHISE_ADMIN');
-      // Need to check if student's school belongs to this franchisee. 
-      // This might be expensive to query every time, but necessary for security.
-      const school = await storage.getEntityById(student.parentId!);
-      if (!franchiseeMembership || !school || school.parentId !== franchiseeMembership.entityId) {
-        return res.status(403).json({ error: 'You can only archive students from schools under your franchisee' });
-      }
-    }
-
     await storage.archiveStudent(studentId);
 
     // Log action
@@ -392,7 +856,7 @@ router.post('/students/:id/archive', authenticateToken, requireRole(['SYSTEM_ADM
 });
 
 // Move student to another school
-router.post('/students/:id/move', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/students/:id/move', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const studentId = parseInt(req.params.id);
     const { targetSchoolId } = req.body;
@@ -407,25 +871,19 @@ router.post('/students/:id/move', authenticateToken, requireRole(['SYSTEM_ADMIN'
     }
 
     const targetSchool = await storage.getEntityById(targetSchoolId);
-    if (!targetSchool || targetSchool.type !== 'SCHOOL') {
+    if (!targetSchool || !STUDENT_PARENT_TYPES.includes(targetSchool.type)) {
       return res.status(400).json({ error: 'Invalid target school' });
     }
 
-    // Permission check: User must have access to BOTH source and target schools? 
-    // Usually moving implies admin level control.
-    // Let's enforce that Franchise Admin can only move within their Franchisee.
-    const userMemberships = await storage.getMembershipsByUser(req.user!.id);
-
-    if (req.user!.roles.includes('FRANCHISE_ADMIN')) {
-      const franchiseeMembership = userMemberships.find(m => m.role === 'FRANCHISE_ADMIN');
-
-      const sourceSchool = await storage.getEntityById(student.parentId!);
+    // The student is checked by middleware; the destination must be in scope too
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, targetSchool.id)) {
+      return res.status(403).json({ error: 'You can only move students between schools within your scope' });
+    }
 
-      if (!franchiseeMembership ||
-        !sourceSchool || sourceSchool.parentId !== franchiseeMembership.entityId ||
-        targetSchool.parentId !== franchiseeMembership.entityId) {
-        return res.status(403).json({ error: 'You can only move students between schools within your franchisee' });
-      }
+    const block = await entityLifecycleService.getWriteBlock(targetSchool.id);
+    if (block) {
+      return res.status(403).json(block);
     }
 
     await storage.moveStudent(studentId, targetSchoolId);
@@ -459,20 +917,18 @@ router.delete('/students/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', '
       return res.status(404).json({ error: 'Student not found' });
     }
 
-    // Only System Admin or Org Admin can hard delete
-    // Already enforced by requireRole middleware above
-
-    await storage.deleteStudent(studentId);
+    // The student and their screening history stay in the recycle bin until purged
+    await recycleBinService.deleteEntity(req.user!.id, student);
 
     // Log action
     await storage.createAuditLog({
       actorUserId: req.user!.id,
       action: 'DELETE_STUDENT',
-      entityId: studentId, // Note: entity itself is gone, but ID remains in log
+      entityId: studentId,
       metadata: { studentName: student.name, deletedAt: new Date() }
     });
 
-    res.json({ message: 'Student deleted successfully' });
+    res.json({ message: 'Student moved to the recycle bin' });
   } catch (error) {
     console.error('Delete student error:', error);
     res.status(500).json({ error: 'Failed to delete student' });
@@ -695,11 +1151,10 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
 
     // Determine target school ID based on user role and request
     let targetSchoolId: number | null = null;
-    const userMemberships = await storage.getMembershipsByUser(req.user!.id);
 
     if (req.user!.roles.includes('SCHOOL_ADMIN')) {
       // School admin can only upload to their assigned school
-      const schoolMembership = userMemberships.find(m => m.role === 'SCHOOL_ADMIN');
+      const schoolMembership = req.user!.memberships.find(m => m.role === 'SCHOOL_ADMIN');
       if (schoolMembership) {
         targetSchoolId = schoolMembership.entityId;
       } else {
@@ -713,25 +1168,22 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
         return res.status(400).json({ error: 'School ID is required for bulk upload' });
       }
       targetSchoolId = parseInt(req.body.schoolId);
-
-      // Validate permissions for the specified school
-      if (req.user!.roles.includes('FRANCHISE_ADMIN')) {
-        const franchiseeMembership = userMemberships.find(m => m.role === 'FRANCHISE_ADMIN');
-        if (franchiseeMembership) {
-          const school = await storage.getEntityById(targetSchoolId);
-          if (!school || school.parentId !== franchiseeMembership.entityId) {
-            return res.status(403).json({ error: 'You can only upload students to schools under your franchisee' });
-          }
-        } else {
-          return res.status(403).json({ error: 'Franchise admin membership not found' });
-        }
-      }
     }
 
     if (!targetSchoolId) {
       return res.status(400).json({ error: 'Unable to determine target school for upload' });
     }
 
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, targetSchoolId)) {
+      return res.status(403).json({ error: 'You can only upload students to schools within your scope' });
+    }
+
+    const block = await entityLifecycleService.getWriteBlock(targetSchoolId);
+    if (block) {
+      return res.status(403).json(block);
+    }
+
     console.log('Target school ID:', targetSchoolId);
     console.log('Excel data rows:', jsonData.length);
 
@@ -878,14 +1330,13 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
       seen.add(key);
     });
 
-    // Check for duplicates in database
+    // Check for roll numbers already taken in the database; lookalike names are flagged for review after the upload
     const existingStudents = targetSchoolId ? await storage.getStudentsBySchool(targetSchoolId) : [];
     const duplicatesInDB: any[] = [];
 
     students.forEach(student => {
       const duplicate = existingStudents.find(existing =>
-        existing.name.toLowerCase() === student.name.toLowerCase() ||
-        (existing.metadata?.rollNumber && existing.metadata.rollNumber === student.rollNumber)
+        existing.metadata?.rollNumber && existing.metadata.rollNumber === student.rollNumber
       );
       if (duplicate) {
         duplicatesInDB.push({
@@ -910,6 +1361,7 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
 
     // Process all students
     const results: any[] = [];
+    let suspectedDuplicates = 0;
     for (const studentData of students) {
       try {
         // Create student using the same logic as individual registration
@@ -945,6 +1397,8 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
               role: 'PARENT',
               isPrimary: false
             });
+
+            suspectedDuplicates += (await duplicateService.flagParent(parentUser, studentData.schoolId)).length;
           }
 
           await storage.createParentStudentLink({
@@ -967,6 +1421,9 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
           });
         }
 
+        // Earlier rows of the same file are already saved, so they are compared too
+        suspectedDuplicates += (await duplicateService.flagStudent(student, studentData.parents.map((p: any) => p.phone))).length;
+
         results.push({
           student: {
             id: student.id,
@@ -994,6 +1451,7 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
       metadata: {
         totalUploaded: results.filter(r => !r.error).length,
         totalFailed: results.filter(r => r.error).length,
+        suspectedDuplicates,
         filename: req.file.originalname
       }
     });
@@ -1002,6 +1460,7 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
       success: true,
       message: `Successfully processed ${results.filter(r => !r.error).length} out of ${results.length} students`,
       results,
+      suspectedDuplicates,
       schoolId: targetSchoolId
     });
 
@@ -1012,17 +1471,29 @@ router.post('/students/bulk-upload', authenticateToken, requireRole(['SYSTEM_ADM
   }
 });
 
+// Entity ids under a ?branchId= or ?schoolId= list filter, or null when neither is given.
+// A school's ids include its branches, so school-level lists roll up across them.
+async function getSchoolUnitFilter(req: Request): Promise<Set<number> | null> {
+  const unitId = req.query.branchId || req.query.schoolId;
+  if (!unitId) return null;
+  return new Set(await storage.getEntitySubtreeIds([parseInt(unitId as string)]));
+}
+
 // Authentication middleware
 async function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+  const token = (authHeader && authHeader.split(' ')[1]) || req.get(API_KEY_HEADER);
 
   if (!token) {
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  if (serviceAccountService.isApiKey(token)) {
+    return authenticateApiKey(req, res, next, token);
+  }
+
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    const decoded = await sessionService.verifyAccessToken(token);
     const user = await storage.getUserById(decoded.id);
 
     if (!user) {
@@ -1030,24 +1501,97 @@ async function authenticateToken(req: AuthenticatedRequest, res: Response, next:
     }
 
     // Get user's memberships to determine roles and accessible entities
-    const memberships = await storage.getMembershipsByUser(user.id);
-    const roles = memberships.map(m => m.role);
-    const entityIds = memberships.map(m => m.entityId);
+    let memberships = await storage.getMembershipsByUser(user.id);
+
+    // With an active membership, roles and scope come from that membership alone
+    const activeMembershipHeader = req.get(ACTIVE_MEMBERSHIP_HEADER);
+    let activeMembershipId: number | undefined;
+    if (activeMembershipHeader) {
+      const activeMembership = memberships.find(m => m.id === parseInt(activeMembershipHeader));
+      if (!activeMembership) {
+        return res.status(403).json({ error: 'Active membership is not valid for this user', code: 'INVALID_ACTIVE_MEMBERSHIP' });
+      }
+      memberships = [activeMembership];
+      activeMembershipId = activeMembership.id;
+    }
 
     req.user = {
       id: user.id,
       email: user.email,
-      roles,
-      entityIds
+      roles: memberships.map(m => m.role),
+      entityIds: memberships.map(m => m.entityId),
+      memberships,
+      activeMembershipId,
+      sessionId: decoded.sid,
+      impersonatorId: decoded.impersonatorId
     };
 
-    next();
-  } catch (error) {
-    console.error('JWT verification error:', error);
-    return res.status(403).json({ error: 'Invalid or expired token' });
+    if (decoded.impersonatorId) {
+      // Record every impersonated request against both the admin and the user they are viewing as
+      storage.createAuditLog({
+        actorUserId: decoded.impersonatorId,
+        action: 'IMPERSONATED_REQUEST',
+        targetId: user.id,
+        targetType: 'USER',
+        metadata: { method: req.method, path: req.originalUrl, impersonatedUserId: user.id }
+      }).catch(error => console.error('Impersonation audit error:', error));
+
+      // Viewing as a user is read-only
+      if (req.method !== 'GET' && !IMPERSONATION_WRITE_ALLOWLIST.includes(req.path)) {
+        return res.status(403).json({ error: 'Changes are disabled while viewing as another user', code: 'IMPERSONATION_READ_ONLY' });
+      }
+    }
+
+    // Changes made while handling the request are attributed to this user in change history
+    requestContext.run({ actorUserId: user.id }, next);
+  } catch (error: any) {
+    // Expired or revoked sessions get 401 so the client knows to try its refresh token
+    if (error.name === 'TokenExpiredError' || error.message === 'Session revoked') {
+      return res.status(401).json({ error: 'Session expired', code: 'SESSION_EXPIRED' });
+    }
+    console.error('JWT verification error:', error);
+    return res.status(403).json({ error: 'Invalid or expired token' });
   }
 }
 
+// Service accounts act with the memberships of their account, limited by the key's permissions
+async function authenticateApiKey(req: AuthenticatedRequest, res: Response, next: NextFunction, key: string) {
+  try {
+    const { apiKey, user } = await serviceAccountService.authenticate(key, req.ip);
+
+    const permission = READ_ONLY_METHODS.includes(req.method) ? 'READ' : 'WRITE';
+    if (!apiKey.permissions.includes(permission)) {
+      return res.status(403).json({ error: `This API key does not have ${permission} permission`, code: 'API_KEY_PERMISSION_DENIED' });
+    }
+
+    const memberships = await storage.getMembershipsByUser(user.id);
+    req.user = {
+      id: user.id,
+      email: user.email,
+      roles: memberships.map(m => m.role),
+      entityIds: memberships.map(m => m.entityId),
+      memberships,
+      apiKeyId: apiKey.id
+    };
+
+    requestContext.run({ actorUserId: user.id }, next);
+  } catch (error: any) {
+    if (error.message === 'Invalid API key') {
+      return res.status(401).json({ error: 'Invalid or expired API key', code: 'INVALID_API_KEY' });
+    }
+    console.error('API key verification error:', error);
+    return res.status(500).json({ error: 'Failed to verify API key' });
+  }
+}
+
+// Keeps a leaked API key from minting further keys or accounts
+function requireSessionAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.user?.apiKeyId) {
+    return res.status(403).json({ error: 'This action cannot be performed with an API key' });
+  }
+  next();
+}
+
 // Authorization helper
 function requireRole(allowedRoles: string[]) {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -1066,19 +1610,38 @@ function requireRole(allowedRoles: string[]) {
 
 
 // Traditional password login (for existing users)
-router.post('/auth/login', async (req: Request, res: Response) => {
-  try {
-    const { email, password } = req.body;
+router.post('/auth/login', throttleService.limitByIp(RATE_LIMITS.LOGIN_PER_IP), async (req: Request, res: Response) => {
+  const { email, password, captchaToken } = req.body;
 
+  try {
     if (!email || !password) {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
-    const result = await authService.login(email, password);
+    // After repeated failures the client must solve a CAPTCHA before we check the password
+    const existingUser = await storage.getUserByEmail(email);
+    if (throttleService.isCaptchaRequired(email, existingUser) && !(await throttleService.verifyCaptcha(captchaToken, req.ip))) {
+      return res.status(400).json({ error: 'Please complete the CAPTCHA', captchaRequired: true });
+    }
+
+    const result = await authService.login(email, password, getSessionContext(req));
     res.json(result);
-  } catch (error) {
+  } catch (error: any) {
     if (error.message === 'Invalid email or password') {
-      return res.status(401).json({ error: 'Invalid email or password' });
+      const user = await storage.getUserByEmail(email).catch(() => null);
+      return res.status(401).json({
+        error: 'Invalid email or password',
+        captchaRequired: throttleService.isCaptchaRequired(email, user)
+      });
+    }
+    if (error.message === 'Account temporarily locked') {
+      const user = await storage.getUserByEmail(email).catch(() => null);
+      const retryAfter = throttleService.getLockoutRemaining(email, user);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        error: 'Too many failed login attempts. Please try again later or use a magic link.',
+        retryAfter
+      });
     }
     if (error.message === 'Account suspended') {
       return res.status(403).json({
@@ -1087,6 +1650,13 @@ router.post('/auth/login', async (req: Request, res: Response) => {
         status: 'SUSPENDED'
       });
     }
+    if (error.message === 'Organization suspended') {
+      return res.status(403).json({
+        error: 'Organization suspended',
+        message: 'Your organization has been suspended. Please contact admin@smilestarsindia.com for assistance.',
+        status: 'SUSPENDED'
+      });
+    }
     if (error.message.includes('magic link')) {
       return res.status(401).json({
         error: error.message,
@@ -1113,8 +1683,8 @@ router.post('/auth/accept-agreements', async (req: Request, res: Response) => {
 
     if (token) {
       // Handle franchise or school agreement flow with token
-      const magicToken = await storage.getMagicTokenByToken(token);
-      if (!magicToken || !['FRANCHISE_AGREEMENT', 'SCHOOL_AGREEMENT'].includes(magicToken.purpose)) {
+      const magicToken = await magicTokenService.find(token, ['FRANCHISE_AGREEMENT', 'SCHOOL_AGREEMENT']);
+      if (!magicToken) {
         return res.status(400).json({ error: 'Invalid agreement token' });
       }
 
@@ -1131,14 +1701,28 @@ router.post('/auth/accept-agreements', async (req: Request, res: Response) => {
       tokenType = magicToken.purpose;
       franchiseeId = magicToken.metadata?.franchiseeId || magicToken.metadata?.schoolId || null;
 
-      // Set password if provided
+      // Reject a bad password while the token can still be retried
       if (password) {
-        const hashedPassword = await bcrypt.hash(password, 10);
-        await storage.updateUser(userId, { password: hashedPassword });
+        try {
+          await passwordService.validatePassword(user, password);
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
       }
 
-      // Mark token as used now that we're processing the agreements
-      await storage.markMagicTokenUsed(token);
+      // Use up the token before changing anything; a replayed request stops here
+      if (!(await magicTokenService.consume(magicToken))) {
+        return res.status(400).json({ error: 'Invalid agreement token' });
+      }
+      await invitationService.markAccepted(magicToken.id);
+
+      if (password) {
+        try {
+          await passwordService.setPassword(user, password);
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
+      }
     } else {
       // Handle regular agreement flow with authentication
       const authHeader = req.headers.authorization;
@@ -1147,12 +1731,23 @@ router.post('/auth/accept-agreements', async (req: Request, res: Response) => {
       }
 
       const jwtToken = authHeader.split(' ')[1];
+      let decoded;
       try {
-        const decoded = jwt.verify(jwtToken, JWT_SECRET) as any;
-        userId = decoded.id;
+        decoded = await sessionService.verifyAccessToken(jwtToken);
       } catch (error) {
         return res.status(401).json({ error: 'Invalid token' });
       }
+
+      // Viewing as a user is read-only, and accepting agreements binds the user
+      if (decoded.impersonatorId) {
+        return res.status(403).json({ error: 'Changes are disabled while viewing as another user', code: 'IMPERSONATION_READ_ONLY' });
+      }
+      userId = decoded.id;
+    }
+
+    // A signed-in user may only activate an entity they administer
+    if (tokenType === 'REGULAR' && entityId && !(await accessService.isEntityAdmin(userId, Number(entityId)))) {
+      return res.status(403).json({ error: 'Access denied to this entity' });
     }
 
     // Create acceptance records for each agreement
@@ -1180,8 +1775,12 @@ router.post('/auth/accept-agreements', async (req: Request, res: Response) => {
       entityToUpdate = entityId;
     }
 
+    // Only a new entity goes live on acceptance; a suspended or archived one stays as it is
     if (entityToUpdate && (tokenType === 'FRANCHISE_AGREEMENT' || tokenType === 'SCHOOL_AGREEMENT' || (tokenType === 'REGULAR' && entityId))) {
-      await storage.updateEntity(entityToUpdate, { status: 'ACTIVE' });
+      const entity = await storage.getEntityById(entityToUpdate);
+      if (entity?.status === 'DRAFT') {
+        await entityLifecycleService.transition(userId, entity.id, 'activate');
+      }
     }
 
     // Log the action
@@ -1219,6 +1818,7 @@ router.get('/auth/me', authenticateToken, async (req: AuthenticatedRequest, res:
     const user = await storage.getUserById(req.user!.id);
     const memberships = await storage.getMembershipsByUser(req.user!.id);
     const roles = memberships.map(m => m.role);
+    const impersonator = req.user!.impersonatorId ? await storage.getUserById(req.user!.impersonatorId) : null;
 
     // Return user object with roles array that frontend expects
     res.json({
@@ -1227,7 +1827,9 @@ router.get('/auth/me', authenticateToken, async (req: AuthenticatedRequest, res:
       name: user.name,
       roles: roles,
       status: user.status,
-      entityIds: memberships.map(m => m.entityId)
+      entityIds: memberships.map(m => m.entityId),
+      activeMembershipId: req.user!.activeMembershipId ?? null,
+      impersonator: impersonator ? { id: impersonator.id, name: impersonator.name, email: impersonator.email } : null
     });
   } catch (error) {
     console.error('Get current user error:', error);
@@ -1264,6 +1866,69 @@ router.get('/auth/memberships', authenticateToken, async (req: AuthenticatedRequ
 
 // Get entities (with role-based filtering)
 // GET /entities/:id - return single entity by ID
+// An entity with its descendants (?depth levels, default 1) and descendant counts by type at every level
+router.get('/entities/:id/tree', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const depth = req.query.depth !== undefined ? parseInt(req.query.depth as string) || 0 : 1;
+    res.json(await organizationService.getTree(parseInt(req.params.id), depth));
+  } catch (error: any) {
+    if (error.message === 'Entity not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get entity tree error:', error);
+    res.status(500).json({ error: 'Failed to get entity tree' });
+  }
+});
+
+// Breadcrumb for an entity, from the highest ancestor the caller can see down to the entity
+router.get('/entities/:id/ancestors', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = await accessService.getRequestScope(req);
+    res.json(await organizationService.getBreadcrumb(parseInt(req.params.id), scope));
+  } catch (error: any) {
+    if (error.message === 'Entity not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get entity ancestors error:', error);
+    res.status(500).json({ error: 'Failed to get entity ancestors' });
+  }
+});
+
+// Lifecycle transitions: POST /entities/:id/activate, /suspend, /reinstate, /archive and /restore.
+// Suspending or archiving takes a reason and also blocks everything beneath the entity.
+for (const transition of ENTITY_TRANSITIONS) {
+  router.post(`/entities/:id/${transition}`, authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const entityId = parseInt(req.params.id);
+      const { reason } = entityTransitionSchema.parse(req.body ?? {});
+
+      // Nobody changes the status of the entity their own membership sits on
+      const scope = await accessService.getRequestScope(req);
+      if (!scope.unrestricted && req.user!.entityIds.includes(entityId)) {
+        return res.status(403).json({ error: 'You cannot change the status of your own organization' });
+      }
+
+      const entity = await entityLifecycleService.transition(req.user!.id, entityId, transition, reason);
+      res.json(entity);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid transition data', details: error.errors });
+      }
+      if (error.message === 'Entity not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message?.startsWith('A reason is required')) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error.message?.startsWith('Cannot') || error.message === 'The organization cannot be suspended or archived') {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Entity transition error:', error);
+      res.status(500).json({ error: `Failed to ${transition} entity` });
+    }
+  });
+}
+
 router.get('/entities/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const entityId = parseInt(req.params.id);
@@ -1273,14 +1938,8 @@ router.get('/entities/:id', authenticateToken, async (req: AuthenticatedRequest,
       return res.status(404).json({ error: 'Entity not found' });
     }
 
-    // Check if user has access to this entity
-    const accessibleEntityIds = req.user!.entityIds || [];
-    const hasAccess = req.user!.roles.includes('SYSTEM_ADMIN') ||
-      req.user!.roles.includes('ORG_ADMIN') ||
-      accessibleEntityIds.includes(entity.id) ||
-      accessibleEntityIds.includes(entity.parentId || 0);
-
-    if (!hasAccess) {
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, entity.id)) {
       return res.status(403).json({ error: 'Access denied to this entity' });
     }
 
@@ -1304,20 +1963,8 @@ router.get('/entities', authenticateToken, async (req: AuthenticatedRequest, res
       entities = await storage.getAllEntities();
     }
 
-    // Filter entities based on user's access
-    const accessibleEntityIds = req.user!.entityIds;
-    const filteredEntities = entities.filter(entity => {
-      // System admins and org admins can see all entities
-      if (req.user!.roles.includes('SYSTEM_ADMIN') || req.user!.roles.includes('ORG_ADMIN')) {
-        return true;
-      }
-
-      // Users can see entities they have access to or their children
-      return accessibleEntityIds.includes(entity.id) ||
-        accessibleEntityIds.includes(entity.parentId || 0);
-    });
-
-    res.json(filteredEntities);
+    const scope = await accessService.getRequestScope(req);
+    res.json(accessService.filter(scope, entities));
   } catch (error) {
     console.error('Get entities error:', error);
     res.status(500).json({ error: 'Failed to get entities' });
@@ -1328,6 +1975,17 @@ router.get('/entities', authenticateToken, async (req: AuthenticatedRequest, res
 router.post('/entities', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const entityData = insertEntitySchema.parse(req.body);
+
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, entityData.parentId)) {
+      return res.status(403).json({ error: 'You can only create entities within your scope' });
+    }
+
+    const block = await entityLifecycleService.getWriteBlock(entityData.parentId);
+    if (block) {
+      return res.status(403).json(block);
+    }
+
     const entity = await storage.createEntity(entityData);
 
     // Log the action
@@ -1339,7 +1997,10 @@ router.post('/entities', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_AD
     });
 
     res.json(entity);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid entity data', details: error.errors });
+    }
     console.error('Create entity error:', error);
     res.status(500).json({ error: 'Failed to create entity' });
   }
@@ -1350,7 +2011,17 @@ router.post('/auth/invite', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG
   try {
     const { email, name, targetEntityId, role } = inviteUserSchema.parse(req.body);
 
-    const user = await identityService.inviteUser(req.user!.id, email, name, targetEntityId, role);
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, targetEntityId)) {
+      return res.status(403).json({ error: 'You can only invite users to entities within your scope' });
+    }
+
+    const block = await entityLifecycleService.getWriteBlock(targetEntityId);
+    if (block) {
+      return res.status(403).json(block);
+    }
+
+    const user = await identityService.inviteUser(req.user!.id, email, name, targetEntityId, role, req.user!.memberships);
 
     // Log the action
     await storage.createAuditLog({
@@ -1371,31 +2042,85 @@ router.post('/auth/invite', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG
       }
     });
 
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message?.startsWith('Cannot grant')) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message === 'Entity not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Position already filled')) {
+      return res.status(409).json({ error: error.message });
+    }
     console.error('Invite user error:', error);
     res.status(500).json({ error: 'Failed to send invitation' });
   }
 });
 
+// ===== INVITATION ROUTES =====
+
+// List invitations within the caller's scope
+router.get('/invitations', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const invitations = await invitationService.list();
+    const scope = await accessService.getRequestScope(req);
+    res.json(accessService.filter(scope, invitations, invitation => invitation.entityId));
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ error: 'Failed to fetch invitations' });
+  }
+});
+
+// Resend an invitation with a fresh link and expiry
+router.post('/invitations/:id/resend', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.invitation('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const invitation = await invitationService.resend(req.user!.id, parseInt(req.params.id));
+    res.json({ message: 'Invitation resent', invitation });
+  } catch (error: any) {
+    console.error('Resend invitation error:', error);
+    if (error.message?.startsWith('Cannot resend')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to resend invitation' });
+  }
+});
+
+// Revoke an invitation so its link no longer works
+router.post('/invitations/:id/revoke', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.invitation('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const invitation = await invitationService.revoke(req.user!.id, parseInt(req.params.id));
+    res.json({ message: 'Invitation revoked', invitation });
+  } catch (error: any) {
+    console.error('Revoke invitation error:', error);
+    if (error.message?.startsWith('Cannot revoke')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to revoke invitation' });
+  }
+});
+
 // Get users
 router.get('/users', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const users = await storage.getAllUsers();
+    // Service accounts are managed on their own screen
+    const users = (await storage.getAllUsers()).filter(user => !user.isServiceAccount);
+    const scope = await accessService.getRequestScope(req);
 
     // Fetch memberships for each user to include roles
     const usersWithMemberships = await Promise.all(
       users.map(async (user) => {
         try {
-          const memberships = await storage.getMembershipsByUser(user.id);
+          // Include expired and upcoming memberships so their windows can be managed
+          const memberships = await storage.getAllMembershipsByUser(user.id);
           return {
-            ...user,
-            roles: memberships.map(m => m.role),
+            ...identityService.toPublicUser(user),
+            roles: memberships.filter(m => isMembershipActive(m)).map(m => m.role),
             memberships: memberships
           };
         } catch (error) {
           console.warn(`Failed to fetch memberships for user ${user.id}:`, error);
           return {
-            ...user,
+            ...identityService.toPublicUser(user),
             roles: [],
             memberships: []
           };
@@ -1403,7 +2128,10 @@ router.get('/users', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN'
       })
     );
 
-    res.json(usersWithMemberships);
+    // Only list users holding at least one membership inside the caller's scope
+    res.json(usersWithMemberships.filter(user =>
+      scope.unrestricted || user.memberships.some(m => accessService.canAccess(scope, m.entityId))
+    ));
   } catch (error) {
     console.error('Get users error:', error);
     res.status(500).json({ error: 'Failed to get users' });
@@ -1450,9 +2178,30 @@ router.put('/users/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_AD
       userUpdates.email = existingUser.email;
     }
 
-    // Hash and update password if provided
+    // Resolve and check every role grant before changing anything
+    const grants: { role: string; entityId: number }[] = [];
+    if (roles && roles.length > 0) {
+      try {
+        for (const role of roles) {
+          grants.push({ role, entityId: await membershipService.resolveGrantEntity(role, { franchiseeId, schoolId }) });
+        }
+        await membershipService.assertCanReplaceMemberships(req.user!.id, userId, grants, req.user!.memberships);
+      } catch (error: any) {
+        if (error.message.startsWith('Position already filled')) {
+          return res.status(409).json({ error: error.message });
+        }
+        return res.status(error.message.startsWith('Cannot grant') ? 403 : 400).json({ error: error.message });
+      }
+    }
+
+    // Set the new password first so a policy failure leaves the user untouched
     if (password && password.trim()) {
-      userUpdates.password = await bcrypt.hash(password.trim(), 10);
+      try {
+        await passwordService.setPassword(existingUser, password.trim());
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+      await sessionService.revokeAllSessions(userId, 'PASSWORD_CHANGED');
     }
 
     // Update user basic info
@@ -1460,37 +2209,35 @@ router.put('/users/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_AD
 
     // Update user memberships if roles are provided
     if (roles && roles.length > 0) {
+      // Remember existing windows so re-saving a user does not reset them
+      const previousWindows = new Map(
+        (await storage.getAllMembershipsByUser(userId)).map(m => [`${m.role}:${m.entityId}`, m])
+      );
+
       // Remove existing memberships
       await storage.deleteMembershipsByUser(userId);
+      await sessionService.revokeAllSessions(userId, 'MEMBERSHIP_CHANGED');
 
       // Add new memberships
-      for (const role of roles) {
-        let entityId = 1; // Default to root organization
-
-        // Determine entity ID based on role and provided IDs
-        if (role === 'FRANCHISE_ADMIN' && franchiseeId) {
-          entityId = franchiseeId;
-        } else if (['PRINCIPAL', 'SCHOOL_ADMIN', 'TEACHER'].includes(role) && schoolId) {
-          entityId = schoolId;
-        } else if (role === 'PARENT' && schoolId) {
-          entityId = schoolId;
-        }
-
+      for (const { role, entityId } of grants) {
+        const previous = previousWindows.get(`${role}:${entityId}`);
         await storage.createMembership({
           userId: userId,
           entityId: entityId,
           role: role as any,
           isPrimary: true,
-          validFrom: new Date(),
+          validFrom: previous ? previous.validFrom : new Date(),
+          validTo: previous ? previous.validTo : null,
+          expiryNotifiedAt: previous ? previous.expiryNotifiedAt : null,
         });
       }
     }
 
     // Get updated user with memberships
-    const memberships = await storage.getMembershipsByUser(userId);
+    const memberships = await storage.getAllMembershipsByUser(userId);
     const userWithRoles = {
-      ...updatedUser,
-      roles: memberships.map(m => m.role),
+      ...identityService.toPublicUser(updatedUser),
+      roles: memberships.filter(m => isMembershipActive(m)).map(m => m.role),
       memberships: memberships
     };
 
@@ -1541,11 +2288,16 @@ router.patch('/users/:id/status', authenticateToken, requireRole(['SYSTEM_ADMIN'
     // Update user status
     const updatedUser = await storage.updateUser(userId, { status });
 
+    // A suspended user's existing tokens must stop working immediately
+    if (status === 'SUSPENDED') {
+      await sessionService.revokeAllSessions(userId, 'SUSPENDED');
+    }
+
     // Get user with memberships for response
-    const memberships = await storage.getMembershipsByUser(userId);
+    const memberships = await storage.getAllMembershipsByUser(userId);
     const userWithRoles = {
-      ...updatedUser,
-      roles: memberships.map(m => m.role),
+      ...identityService.toPublicUser(updatedUser),
+      roles: memberships.filter(m => isMembershipActive(m)).map(m => m.role),
       memberships: memberships
     };
 
@@ -1586,37 +2338,176 @@ router.delete('/users/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG
       return res.status(400).json({ error: 'Cannot delete yourself' });
     }
 
-    // Delete user memberships first
-    await storage.deleteMembershipsByUser(userId);
-
-    // Delete the user
-    await storage.deleteUser(userId);
+    // Recoverable from the recycle bin until the retention period ends
+    await recycleBinService.deleteUser(req.user!.id, user);
 
-    // Log the action
-    await storage.createAuditLog({
-      actorUserId: req.user!.id,
-      action: 'DELETE_USER',
-      targetId: userId,
-      targetType: 'USER',
-      metadata: {
-        deletedUserEmail: user.email,
-        deletedUserName: user.name
-      }
-    });
-
-    res.json({ message: 'User deleted successfully' });
+    res.json({ message: 'User moved to the recycle bin' });
   } catch (error) {
     console.error('Delete user error:', error);
     res.status(500).json({ error: 'Failed to delete user' });
   }
 });
 
+// Roles the caller may grant, with the entity types each can be granted on
+router.get('/memberships/grantable', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(membershipService.getGrantableRoles(req.user!.memberships));
+  } catch (error) {
+    console.error('Get grantable roles error:', error);
+    res.status(500).json({ error: 'Failed to get grantable roles' });
+  }
+});
+
+// Grant a user an additional role on an entity
+router.post('/memberships', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = createMembershipSchema.parse(req.body);
+    const membership = await membershipService.createMembership(req.user!.id, input, req.user!.memberships);
+    res.status(201).json(membership);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid membership data', details: error.errors });
+    }
+    if (error.message?.startsWith('Cannot grant')) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message === 'Entity not found' || error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message === 'User already has this role on this entity' || error.message?.startsWith('Position already filled')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Create membership error:', error);
+    res.status(500).json({ error: 'Failed to create membership' });
+  }
+});
+
+// Move a membership, such as a school's principal, to another user
+router.post('/memberships/:id/handover', authenticateToken, accessService.requireEntityAccess(resolveEntity.membership('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId } = handOverRoleSchema.parse(req.body);
+    const membership = await membershipService.handOverRole(req.user!.id, parseInt(req.params.id), userId, req.user!.memberships);
+
+    res.json({ message: 'Role handed over', membership });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid handover data', details: error.errors });
+    }
+    if (error.message?.startsWith('Cannot grant')) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message === 'Membership not found' || error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message === 'User already has this role on this entity') {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message === 'Cannot hand over a role to a suspended user') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Hand over role error:', error);
+    res.status(500).json({ error: 'Failed to hand over role' });
+  }
+});
+
+// Set or extend a membership's validity window
+router.patch('/memberships/:id/window', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), accessService.requireEntityAccess(resolveEntity.membership('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const window = membershipWindowSchema.parse(req.body);
+    const membership = await membershipService.updateWindow(req.user!.id, parseInt(req.params.id), window);
+
+    res.json({ message: 'Membership window updated', membership });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: error.errors[0]?.message || 'Invalid window' });
+    }
+    if (error.message === 'Membership not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Update membership window error:', error);
+    res.status(500).json({ error: 'Failed to update membership window' });
+  }
+});
+
+// ===== SERVICE ACCOUNT ROUTES =====
+
+// List service accounts with their roles and keys
+router.get('/service-accounts', authenticateToken, requireSessionAuth, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await serviceAccountService.list());
+  } catch (error) {
+    console.error('Get service accounts error:', error);
+    res.status(500).json({ error: 'Failed to get service accounts' });
+  }
+});
+
+// Create a service account holding one role on an entity
+router.post('/service-accounts', authenticateToken, requireSessionAuth, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = createServiceAccountSchema.parse(req.body);
+    const account = await serviceAccountService.create(req.user!.id, input, req.user!.memberships);
+    res.status(201).json({ id: account.id, name: account.name, status: account.status });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid service account data', details: error.errors });
+    }
+    if (error.message?.startsWith('Cannot grant')) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message === 'Entity not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Create service account error:', error);
+    res.status(500).json({ error: 'Failed to create service account' });
+  }
+});
+
+// Issue an API key. The key is only ever returned in this response
+router.post('/service-accounts/:id/keys', authenticateToken, requireSessionAuth, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = createApiKeySchema.parse(req.body);
+    const result = await serviceAccountService.createKey(req.user!.id, parseInt(req.params.id), input);
+    res.status(201).json(result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid API key data', details: error.errors });
+    }
+    if (error.message === 'Service account not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Create API key error:', error);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+// Revoke an API key; requests using it fail immediately
+router.post('/api-keys/:id/revoke', authenticateToken, requireSessionAuth, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const apiKey = await serviceAccountService.revokeKey(req.user!.id, parseInt(req.params.id));
+    res.json({ message: 'API key revoked', apiKey });
+  } catch (error: any) {
+    if (error.message === 'API key not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message === 'API key already revoked') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
 // ===== DENTAL CAMP MANAGEMENT ROUTES =====
 
 // Get camps
 router.get('/camps', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const camps = await storage.getAllCamps();
+    const scope = await accessService.getRequestScope(req);
+    // Camps are listed under the franchisee credited with them, so a transferred school's past camps stay with its old franchisee
+    let camps = await transferService.filterCreditedCamps(scope, await storage.getAllCamps());
+
+    const unitIds = await getSchoolUnitFilter(req);
+    if (unitIds) camps = camps.filter(camp => unitIds.has(camp.schoolEntityId));
 
     // Add school information and enrolled students count to each camp
     const campsWithSchools = await Promise.all(
@@ -1647,8 +2538,7 @@ router.get('/camps', authenticateToken, async (req: AuthenticatedRequest, res: R
 router.get('/camps/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
     // Get user's school membership to find which school they manage
-    const memberships = await storage.getMembershipsByUser(req.user!.id);
-    const schoolMembership = memberships.find(m => m.role === 'SCHOOL_ADMIN');
+    const schoolMembership = req.user!.memberships.find(m => m.role === 'SCHOOL_ADMIN');
 
     if (!schoolMembership) {
       return res.status(404).json({ error: 'No school found for this admin' });
@@ -1656,9 +2546,10 @@ router.get('/camps/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN']),
 
     const schoolEntityId = schoolMembership.entityId;
 
-    // Get all camps and filter for this school
+    // Camps at the school and at any of its branches
+    const unitIds = new Set(await storage.getEntitySubtreeIds([schoolEntityId]));
     const allCamps = await storage.getAllCamps();
-    const schoolCamps = allCamps.filter(camp => camp.schoolEntityId === schoolEntityId);
+    const schoolCamps = allCamps.filter(camp => unitIds.has(camp.schoolEntityId));
 
     res.json(schoolCamps);
   } catch (error) {
@@ -1681,6 +2572,16 @@ router.post('/camps', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN
     const campData = insertCampSchema.parse(requestBody);
     campData.createdBy = req.user!.id;
 
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, campData.schoolEntityId)) {
+      return res.status(403).json({ error: 'Access denied to this school' });
+    }
+
+    const block = await entityLifecycleService.getWriteBlock(campData.schoolEntityId);
+    if (block) {
+      return res.status(403).json(block);
+    }
+
     const camp = await campService.createCamp(campData);
 
     // Log the action
@@ -1701,7 +2602,7 @@ router.post('/camps', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN
 });
 
 // Schedule camp
-router.patch('/camps/:id/schedule', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.patch('/camps/:id/schedule', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.campSchool('id')), entityLifecycleService.requireWritable(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
     const { startDate, endDate } = req.body;
@@ -1726,7 +2627,7 @@ router.patch('/camps/:id/schedule', authenticateToken, requireRole(['SYSTEM_ADMI
 });
 
 // Start Consent Collection
-router.patch('/camps/:id/start-consent', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.patch('/camps/:id/start-consent', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.campSchool('id')), entityLifecycleService.requireWritable(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
     const camp = await campService.startConsentCollection(campId);
@@ -1747,7 +2648,7 @@ router.patch('/camps/:id/start-consent', authenticateToken, requireRole(['SYSTEM
 });
 
 // Start Camp (Active)
-router.patch('/camps/:id/start', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN', 'PRINCIPAL']), async (req: AuthenticatedRequest, res: Response) => {
+router.patch('/camps/:id/start', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN', 'PRINCIPAL']), accessService.requireEntityAccess(resolveEntity.campSchool('id')), entityLifecycleService.requireWritable(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
     const camp = await campService.startCamp(campId);
@@ -1768,7 +2669,7 @@ router.patch('/camps/:id/start', authenticateToken, requireRole(['SYSTEM_ADMIN',
 });
 
 // Complete Camp
-router.patch('/camps/:id/complete', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.patch('/camps/:id/complete', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), accessService.requireEntityAccess(resolveEntity.campSchool('id')), entityLifecycleService.requireWritable(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
     const camp = await campService.completeCamp(campId);
@@ -1789,7 +2690,7 @@ router.patch('/camps/:id/complete', authenticateToken, requireRole(['SYSTEM_ADMI
 });
 
 // Cancel Camp
-router.patch('/camps/:id/cancel', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.patch('/camps/:id/cancel', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), accessService.requireEntityAccess(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
     const camp = await campService.cancelCamp(campId);
@@ -1813,7 +2714,7 @@ router.patch('/camps/:id/cancel', authenticateToken, requireRole(['SYSTEM_ADMIN'
 // ===== CAMP ENROLLMENT ROUTES =====
 
 // Get enrolled students for a camp
-router.get('/camps/:id/enrollments', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/camps/:id/enrollments', authenticateToken, accessService.requireEntityAccess(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
     const enrolledStudents = await storage.getEnrolledStudentsByCamp(campId);
@@ -1835,10 +2736,11 @@ router.get('/camps/:id/enrollments', authenticateToken, async (req: Authenticate
 });
 
 // Get available students for enrollment (from camp's school, not yet enrolled)
-router.get('/camps/:id/available-students', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/camps/:id/available-students', authenticateToken, accessService.requireEntityAccess(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
-    const availableStudents = await storage.getAvailableStudentsForCamp(campId);
+    const scope = await accessService.getRequestScope(req);
+    const availableStudents = accessService.filter(scope, await storage.getAvailableStudentsForCamp(campId));
 
     // Transform student data to include metadata fields at top level
     const transformedStudents = availableStudents.map(student => ({
@@ -1857,15 +2759,35 @@ router.get('/camps/:id/available-students', authenticateToken, async (req: Authe
 });
 
 // Add students to camp enrollment
-router.post('/camps/:id/enrollments', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/camps/:id/enrollments', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.campSchool('id')), entityLifecycleService.requireWritable(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
-    const { studentIds } = req.body;
+    const { classIds } = req.body;
+    let { studentIds } = req.body;
+
+    // Whole classes can be enrolled at once; their students join any listed individually
+    if (Array.isArray(classIds) && classIds.length > 0) {
+      const camp = await storage.getCampById(campId);
+      const campUnitIds = await storage.getEntitySubtreeIds([camp!.schoolEntityId]);
+      for (const classId of classIds) {
+        const found = await storage.getClassById(classId);
+        if (!found || !campUnitIds.includes(found.schoolEntityId)) {
+          return res.status(400).json({ error: `Class ${classId} is not at this camp's school` });
+        }
+      }
+      const classStudentIds = await classService.getStudentIdsForClasses(classIds);
+      studentIds = Array.from(new Set([...(Array.isArray(studentIds) ? studentIds : []), ...classStudentIds]));
+    }
 
     if (!Array.isArray(studentIds) || studentIds.length === 0) {
       return res.status(400).json({ error: 'Student IDs array is required' });
     }
 
+    const scope = await accessService.getRequestScope(req);
+    if (!studentIds.every((studentId: number) => accessService.canAccess(scope, studentId))) {
+      return res.status(403).json({ error: 'Access denied to one or more students' });
+    }
+
     const enrollments = [];
     for (const studentId of studentIds) {
       try {
@@ -1889,7 +2811,8 @@ router.post('/camps/:id/enrollments', authenticateToken, requireRole(['SYSTEM_AD
       entityId: campId,
       metadata: {
         enrolledStudents: enrollments.length,
-        requestedStudents: studentIds.length
+        requestedStudents: studentIds.length,
+        classIds
       }
     });
 
@@ -1905,7 +2828,7 @@ router.post('/camps/:id/enrollments', authenticateToken, requireRole(['SYSTEM_AD
 });
 
 // Remove student from camp enrollment
-router.delete('/camps/:id/enrollments/:studentId', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/camps/:id/enrollments/:studentId', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.campSchool('id')), entityLifecycleService.requireWritable(resolveEntity.campSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const campId = parseInt(req.params.id);
     const studentId = parseInt(req.params.studentId);
@@ -1934,7 +2857,12 @@ router.delete('/camps/:id/enrollments/:studentId', authenticateToken, requireRol
 // Get screenings
 router.get('/screenings', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const screenings = await screeningService.getAllScreenings();
+    const scope = await accessService.getRequestScope(req);
+    let screenings = accessService.filter(scope, await screeningService.getAllScreenings(), screening => screening.studentEntityId);
+
+    const unitIds = await getSchoolUnitFilter(req);
+    if (unitIds) screenings = screenings.filter(screening => unitIds.has(screening.studentEntityId));
+
     res.json(screenings);
   } catch (error) {
     console.error('Get screenings error:', error);
@@ -1948,6 +2876,16 @@ router.post('/screenings', authenticateToken, requireRole(['DENTIST']), async (r
   try {
     const screeningData = insertScreeningSchema.parse(req.body);
 
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, screeningData.studentEntityId)) {
+      return res.status(403).json({ error: 'Access denied to this student' });
+    }
+
+    const block = await entityLifecycleService.getWriteBlock(screeningData.studentEntityId);
+    if (block) {
+      return res.status(403).json(block);
+    }
+
     // Use service
     const screening = await screeningService.createScreening({
       ...screeningData,
@@ -1965,13 +2903,19 @@ router.post('/screenings', authenticateToken, requireRole(['DENTIST']), async (r
 
 router.get('/dashboard/stats', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const [users, entities, camps, screenings] = await Promise.all([
+    const scope = await accessService.getRequestScope(req);
+    const [allUsers, allEntities, allCamps, allScreenings] = await Promise.all([
       storage.getAllUsers(),
       storage.getAllEntities(),
       storage.getAllCamps(),
       storage.getAllScreenings()
     ]);
 
+    const entities = accessService.filter(scope, allEntities);
+    const camps = await transferService.filterCreditedCamps(scope, allCamps);
+    const screenings = transferService.filterCreditedScreenings(scope, allScreenings, camps);
+    const users = await accessService.filterUsers(scope, allUsers);
+
     const stats = {
       totalUsers: users.length,
       totalEntities: entities.length,
@@ -2008,16 +2952,8 @@ router.post('/login', async (req: Request, res: Response) => {
 // GET /api/franchises - return FRANCHISEE entities
 router.get('/franchises', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const franchisees = await storage.getEntitiesByType('FRANCHISEE');
-
-    // Filter based on user access
-    const accessibleEntityIds = req.user!.entityIds;
-    const filteredFranchisees = franchisees.filter(entity => {
-      if (req.user!.roles.includes('SYSTEM_ADMIN') || req.user!.roles.includes('ORG_ADMIN')) {
-        return true;
-      }
-      return accessibleEntityIds.includes(entity.id) || accessibleEntityIds.includes(entity.parentId || 0);
-    });
+    const scope = await accessService.getRequestScope(req);
+    const filteredFranchisees = accessService.filter(scope, await storage.getEntitiesByType('FRANCHISEE'));
 
     // Transform entities to include mapped properties and school counts
     const transformedFranchisees = await Promise.all(filteredFranchisees.map(async entity => {
@@ -2037,13 +2973,13 @@ router.get('/franchises', authenticateToken, async (req: AuthenticatedRequest, r
         updatedAt: entity.updatedAt,
         // Map metadata properties to flat structure for frontend compatibility
         region: metadata.region || '',
-        contactPerson: metadata.franchiseContactPerson || '',
-        contactEmail: metadata.franchiseContactEmail || '',
-        contactPhone: metadata.franchiseContactPhone || '',
-        address: metadata.franchiseAddress || '',
-        city: metadata.franchiseCity || '',
-        state: metadata.franchiseState || '',
-        pincode: metadata.franchisePincode || '',
+        contactPerson: metadata.contactPerson || '',
+        contactEmail: metadata.contactEmail || '',
+        contactPhone: metadata.contactPhone || '',
+        address: metadata.address || '',
+        city: metadata.city || '',
+        state: metadata.state || '',
+        pincode: metadata.pincode || '',
         // Additional computed properties
         schoolCount,
         isActive: entity.status === 'ACTIVE',
@@ -2065,8 +3001,8 @@ router.get('/franchises', authenticateToken, async (req: AuthenticatedRequest, r
 router.post('/franchises', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { metadata, ...entityData } = req.body;
-    const contactEmail = metadata?.franchiseContactEmail;
-    const contactPerson = metadata?.franchiseContactPerson;
+    // Older clients send franchiseContactEmail and friends; both spellings are accepted
+    const { contactEmail, contactPerson } = normalizeEntityMetadata(metadata) as FranchiseeMetadata;
 
     if (!contactEmail || !contactPerson) {
       return res.status(400).json({ error: 'Contact email and person name are required' });
@@ -2102,18 +3038,23 @@ router.post('/franchises', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_
       },
       message: 'Franchisee created successfully. Agreement email will be sent to the contact person.'
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid franchise data', details: error.errors });
+    }
     console.error('Create franchise error:', error);
     res.status(500).json({ error: error.message || 'Failed to create franchise' });
   }
 });
 
 // PUT /api/franchises/:id - update FRANCHISEE entity
-router.put('/franchises/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/franchises/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const entityId = parseInt(req.params.id);
+    // Status changes go through the lifecycle endpoints
+    const { status, statusReason, statusChangedAt, statusChangedBy, ...updates } = req.body;
     const entityData = {
-      ...req.body,
+      ...updates,
       type: 'FRANCHISEE' as const,
     };
 
@@ -2127,7 +3068,10 @@ router.put('/franchises/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'O
     });
 
     res.json({ message: 'Franchise updated successfully', entity });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid franchise data', details: error.errors });
+    }
     console.error('Update franchise error:', error);
     res.status(500).json({ error: 'Failed to update franchise' });
   }
@@ -2158,44 +3102,16 @@ router.delete('/franchises/:id', authenticateToken, requireRole(['SYSTEM_ADMIN',
 // GET /api/schools - return SCHOOL entities filtered by active entity context
 router.get('/schools', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const schools = await storage.getEntitiesByType('SCHOOL');
+    const scope = await accessService.getRequestScope(req);
+    let filteredSchools = accessService.filter(scope, await storage.getEntitiesByType('SCHOOL'));
 
     // Get active entity context from query parameter (sent by frontend role switcher)
     const activeEntityId = req.query.entityId ? parseInt(req.query.entityId as string) : null;
 
-    // Filter schools based on user's active entity context and roles
-    const filteredSchools = schools.filter(school => {
-      // System and Org Admins can see all schools
-      if (req.user!.roles.includes('SYSTEM_ADMIN') || req.user!.roles.includes('ORG_ADMIN')) {
-        return true;
-      }
-
-      // For franchise admins with active entity context, only show schools under that specific franchise
-      if (req.user!.roles.includes('FRANCHISE_ADMIN') && activeEntityId) {
-        // Verify user has access to the requested entity
-        const userEntityIds = req.user!.entityIds || [];
-        if (userEntityIds.includes(activeEntityId)) {
-          return school.parentId === activeEntityId;
-        }
-        return false;
-      }
-
-      // Fallback: For franchise admins without entity context, show schools from all their franchises
-      if (req.user!.roles.includes('FRANCHISE_ADMIN')) {
-        const userEntityIds = req.user!.entityIds || [];
-        return userEntityIds.includes(school.parentId || 0);
-      }
-
-      // For school admins, show only schools they are assigned to
-      if (req.user!.roles.includes('SCHOOL_ADMIN')) {
-        const accessibleEntityIds = req.user!.entityIds || [];
-        return accessibleEntityIds.includes(school.id);
-      }
-
-      // For other roles, allow access based on direct entity membership
-      const accessibleEntityIds = req.user!.entityIds || [];
-      return accessibleEntityIds.includes(school.id) || accessibleEntityIds.includes(school.parentId || 0);
-    });
+    // With a franchise selected, only show schools directly under it
+    if (activeEntityId && req.user!.roles.includes('FRANCHISE_ADMIN')) {
+      filteredSchools = filteredSchools.filter(school => school.parentId === activeEntityId);
+    }
 
     // Flatten metadata fields for frontend compatibility
     const schoolsWithFlattenedData = filteredSchools.map(school => ({
@@ -2203,6 +3119,7 @@ router.get('/schools', authenticateToken, async (req: AuthenticatedRequest, res:
       // Flatten metadata fields to top level for frontend access
       address: school.metadata?.address,
       city: school.metadata?.city,
+      district: school.metadata?.district,
       state: school.metadata?.state,
       pincode: school.metadata?.pincode,
       contactPerson: school.metadata?.contactPerson,
@@ -2225,17 +3142,29 @@ router.get('/schools', authenticateToken, async (req: AuthenticatedRequest, res:
 // POST /api/schools - create SCHOOL entity
 router.post('/schools', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { metadata, parentId, ...entityData } = req.body;
+    const { metadata, parentId: requestedParentId, ...entityData } = req.body;
+
+    // Without a franchisee, the one whose territory covers the school's pincode is used
+    const parentId = await organizationService.resolveSchoolFranchisee(metadata, requestedParentId);
+
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, parentId)) {
+      return res.status(403).json({ error: 'Access denied. You can only create schools under your franchise.' });
+    }
+
+    const block = await entityLifecycleService.getWriteBlock(parentId);
+    if (block) {
+      return res.status(403).json(block);
+    }
 
-    // Extract principal/contact person details from metadata
-    const contactEmail = metadata?.principalEmail || metadata?.schoolContactEmail;
-    const contactPerson = metadata?.principalName || metadata?.schoolContactPerson;
+    // Extract principal/contact person details from metadata, whichever alias was sent
+    const { contactEmail, contactPerson } = normalizeEntityMetadata(metadata) as SchoolMetadata;
 
     if (!contactEmail || !contactPerson) {
       return res.status(400).json({ error: 'Principal email and name are required' });
     }
 
-    const { entity, principalUser } = await organizationService.createSchool(
+    const { entity, principalUser, suspectedDuplicates } = await organizationService.createSchool(
       req.user!.id,
       { ...entityData, metadata },
       contactPerson,
@@ -2262,20 +3191,29 @@ router.post('/schools', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADM
         email: principalUser.email,
         status: principalUser.status
       },
+      suspectedDuplicates,
       message: 'School created successfully. Agreement email will be sent to the principal.'
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid school data', details: error.errors });
+    }
+    if (error.message?.startsWith('Location is in the territory of') || error.message?.endsWith('already exists at this location')) {
+      return res.status(409).json({ error: error.message });
+    }
     console.error('Create school error:', error);
     res.status(500).json({ error: error.message || 'Failed to create school' });
   }
 });
 
 // PUT /api/schools/:id - update SCHOOL entity
-router.put('/schools/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/schools/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const entityId = parseInt(req.params.id);
+    // Status changes go through the lifecycle endpoints, franchisee changes through a transfer
+    const { status, statusReason, statusChangedAt, statusChangedBy, parentId, ...updates } = req.body;
     const entityData = {
-      ...req.body,
+      ...updates,
       type: 'SCHOOL' as const,
     };
 
@@ -2285,16 +3223,6 @@ router.put('/schools/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_
       return res.status(404).json({ error: 'School not found' });
     }
 
-    // For franchise admins, ensure they can only update schools under their franchise
-    if (req.user!.roles.includes('FRANCHISE_ADMIN') && !req.user!.roles.includes('SYSTEM_ADMIN') && !req.user!.roles.includes('ORG_ADMIN')) {
-      const userMemberships = await storage.getMembershipsByUser(req.user!.id);
-      const franchiseeMembership = userMemberships.find(m => m.role === 'FRANCHISE_ADMIN');
-
-      if (!franchiseeMembership || existingSchool.parentId !== franchiseeMembership.entityId) {
-        return res.status(403).json({ error: 'Access denied. You can only update schools under your franchise.' });
-      }
-    }
-
     const entity = await storage.updateEntity(entityId, entityData);
 
     await storage.createAuditLog({
@@ -2305,7 +3233,10 @@ router.put('/schools/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_
     });
 
     res.json({ message: 'School updated successfully', entity });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid school data', details: error.errors });
+    }
     console.error('Update school error:', error);
     res.status(500).json({ error: 'Failed to update school' });
   }
@@ -2333,6 +3264,404 @@ router.delete('/schools/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'O
   }
 });
 
+// Transfers of a school between franchisees, most recent first
+router.get('/schools/:id/transfers', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await transferService.getHistory(parseInt(req.params.id)));
+  } catch (error: any) {
+    if (error.message === 'School not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get school transfers error:', error);
+    res.status(500).json({ error: 'Failed to get school transfers' });
+  }
+});
+
+// Move a school, with everything under it, to another franchisee
+router.post('/schools/:id/transfer', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = transferSchoolSchema.parse(req.body);
+
+    // The franchisee being left may itself be suspended or archived as it closes
+    const block = await entityLifecycleService.getWriteBlock(input.targetFranchiseeId);
+    if (block) {
+      return res.status(403).json(block);
+    }
+
+    const transfer = await transferService.transferSchool(req.user!.id, parseInt(req.params.id), input);
+    res.json({ message: 'School transferred successfully', transfer });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid transfer data', details: error.errors });
+    }
+    if (error.message === 'School not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Location is in the territory of')) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message === 'Target must be a valid franchise' || error.message?.startsWith('School already belongs to') || error.message?.startsWith('Effective date')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Transfer school error:', error);
+    res.status(500).json({ error: 'Failed to transfer school' });
+  }
+});
+
+// ===== BRANCH ROUTES =====
+
+router.get('/schools/:id/branches', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await organizationService.getBranches(parseInt(req.params.id)));
+  } catch (error) {
+    console.error('Get branches error:', error);
+    res.status(500).json({ error: 'Failed to get branches' });
+  }
+});
+
+router.post('/schools/:id/branches', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = createBranchSchema.parse(req.body);
+    const branch = await organizationService.createBranch(req.user!.id, parseInt(req.params.id), input);
+    res.status(201).json(branch);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid branch data', details: error.errors });
+    }
+    if (error.message === 'School not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Branch named')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Create branch error:', error);
+    res.status(500).json({ error: 'Failed to create branch' });
+  }
+});
+
+router.put('/branches/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const updates = createBranchSchema.partial().parse(req.body);
+    res.json(await organizationService.updateBranch(req.user!.id, parseInt(req.params.id), updates));
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid branch data', details: error.errors });
+    }
+    if (error.message === 'Branch not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Update branch error:', error);
+    res.status(500).json({ error: 'Failed to update branch' });
+  }
+});
+
+router.delete('/branches/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await organizationService.deleteBranch(req.user!.id, parseInt(req.params.id));
+    res.json({ message: 'Branch deleted successfully' });
+  } catch (error: any) {
+    if (error.message === 'Branch not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Cannot delete branch')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Delete branch error:', error);
+    res.status(500).json({ error: 'Failed to delete branch' });
+  }
+});
+
+// ===== CLASS ROUTES =====
+
+router.get('/schools/:id/classes', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const academicYear = req.query.academicYear as string | undefined;
+    res.json(await classService.listForSchool(parseInt(req.params.id), academicYear));
+  } catch (error: any) {
+    if (error.message === 'School not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get classes error:', error);
+    res.status(500).json({ error: 'Failed to get classes' });
+  }
+});
+
+router.post('/schools/:id/classes', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = createClassSchema.parse(req.body);
+    res.status(201).json(await classService.create(req.user!.id, parseInt(req.params.id), input));
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid class data', details: error.errors });
+    }
+    if (error.message === 'School not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.endsWith('already exists')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Create class error:', error);
+    res.status(500).json({ error: 'Failed to create class' });
+  }
+});
+
+// Classes the signed-in teacher is assigned to
+router.get('/classes/mine', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await storage.getClassesByTeacher(req.user!.id));
+  } catch (error) {
+    console.error('Get my classes error:', error);
+    res.status(500).json({ error: 'Failed to get classes' });
+  }
+});
+
+router.delete('/classes/:id', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.classSchool('id')), entityLifecycleService.requireWritable(resolveEntity.classSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await classService.delete(req.user!.id, parseInt(req.params.id));
+    res.json({ message: 'Class deleted successfully' });
+  } catch (error) {
+    console.error('Delete class error:', error);
+    res.status(500).json({ error: 'Failed to delete class' });
+  }
+});
+
+router.get('/classes/:id/teachers', authenticateToken, accessService.requireEntityAccess(resolveEntity.classSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await classService.getTeachers(parseInt(req.params.id)));
+  } catch (error) {
+    console.error('Get class teachers error:', error);
+    res.status(500).json({ error: 'Failed to get class teachers' });
+  }
+});
+
+router.post('/classes/:id/teachers', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.classSchool('id')), entityLifecycleService.requireWritable(resolveEntity.classSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId } = assignTeacherSchema.parse(req.body);
+    res.status(201).json(await classService.assignTeacher(req.user!.id, parseInt(req.params.id), userId));
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid teacher assignment', details: error.errors });
+    }
+    if (error.message === 'User is not a teacher at this school') {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message === 'Teacher is already assigned to this class') {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Assign teacher error:', error);
+    res.status(500).json({ error: 'Failed to assign teacher' });
+  }
+});
+
+router.delete('/classes/:id/teachers/:userId', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.classSchool('id')), entityLifecycleService.requireWritable(resolveEntity.classSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await classService.unassignTeacher(req.user!.id, parseInt(req.params.id), parseInt(req.params.userId));
+    res.json({ message: 'Teacher removed from class' });
+  } catch (error) {
+    console.error('Unassign teacher error:', error);
+    res.status(500).json({ error: 'Failed to remove teacher from class' });
+  }
+});
+
+router.get('/classes/:id/students', authenticateToken, accessService.requireEntityAccess(resolveEntity.classSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = await accessService.getRequestScope(req);
+    res.json(accessService.filter(scope, await classService.getStudents(parseInt(req.params.id))));
+  } catch (error) {
+    console.error('Get class students error:', error);
+    res.status(500).json({ error: 'Failed to get class students' });
+  }
+});
+
+router.post('/classes/:id/students', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.classSchool('id')), entityLifecycleService.requireWritable(resolveEntity.classSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { studentIds } = assignStudentsSchema.parse(req.body);
+    await classService.assignStudents(req.user!.id, parseInt(req.params.id), studentIds);
+    res.json({ success: true, assigned: studentIds.length });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid student assignment', details: error.errors });
+    }
+    if (error.message?.endsWith('is not at this school')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Assign students error:', error);
+    res.status(500).json({ error: 'Failed to assign students to class' });
+  }
+});
+
+router.delete('/classes/:id/students/:studentId', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.classSchool('id')), entityLifecycleService.requireWritable(resolveEntity.classSchool('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await classService.removeStudent(req.user!.id, parseInt(req.params.id), parseInt(req.params.studentId));
+    res.json({ message: 'Student removed from class' });
+  } catch (error) {
+    console.error('Remove class student error:', error);
+    res.status(500).json({ error: 'Failed to remove student from class' });
+  }
+});
+
+// ===== ACADEMIC YEAR ROUTES =====
+
+router.get('/schools/:id/academic-years', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await academicYearService.list(parseInt(req.params.id)));
+  } catch (error: any) {
+    if (error.message === 'School not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get academic years error:', error);
+    res.status(500).json({ error: 'Failed to get academic years' });
+  }
+});
+
+// Shared by the preview and the rollover itself
+function handleRolloverError(error: any, res: Response) {
+  if (error.name === 'ZodError') {
+    return res.status(400).json({ error: 'Invalid rollover options', details: error.errors });
+  }
+  if (error.message === 'School not found') {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error.message?.endsWith('is not a recognized grade')) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error.message?.endsWith('already exists') || error.message?.endsWith('already been rolled over')) {
+    return res.status(409).json({ error: error.message });
+  }
+  console.error('Academic year rollover error:', error);
+  res.status(500).json({ error: 'Failed to roll over academic year' });
+}
+
+// Shows what a rollover would change without changing anything
+router.post('/schools/:id/rollover/preview', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = academicYearRolloverSchema.parse(req.body);
+    res.json(await academicYearService.preview(parseInt(req.params.id), input));
+  } catch (error: any) {
+    handleRolloverError(error, res);
+  }
+});
+
+router.post('/schools/:id/rollover', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN']), accessService.requireEntityAccess(resolveEntity.param('id')), entityLifecycleService.requireWritable(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = academicYearRolloverSchema.parse(req.body);
+    res.json(await academicYearService.rollover(req.user!.id, parseInt(req.params.id), input));
+  } catch (error: any) {
+    handleRolloverError(error, res);
+  }
+});
+
+// ===== CHANGE HISTORY ROUTES =====
+
+router.get('/entities/:id/history', authenticateToken, accessService.requireEntityAccess(resolveEntity.param('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await changeHistoryService.getEntityHistory(parseInt(req.params.id)));
+  } catch (error: any) {
+    if (error.message === 'Entity not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get entity history error:', error);
+    res.status(500).json({ error: 'Failed to get entity history' });
+  }
+});
+
+// Includes changes to the user's memberships
+router.get('/users/:id/history', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await changeHistoryService.getUserHistory(parseInt(req.params.id)));
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get user history error:', error);
+    res.status(500).json({ error: 'Failed to get user history' });
+  }
+});
+
+// ===== DUPLICATE REVIEW ROUTES =====
+
+router.get('/duplicates', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const reviews = await duplicateService.list((req.query.status as string) || 'PENDING');
+    const scope = await accessService.getRequestScope(req);
+    res.json(reviews.filter(review => accessService.canAccess(scope, review.scopeEntityId)));
+  } catch (error) {
+    console.error('Get duplicate reviews error:', error);
+    res.status(500).json({ error: 'Failed to get duplicate reviews' });
+  }
+});
+
+// Keep both records apart, or merge one into the other
+router.post('/duplicates/:id/resolve', authenticateToken, requireRole(['SYSTEM_ADMIN', 'ORG_ADMIN', 'FRANCHISE_ADMIN']), accessService.requireEntityAccess(resolveEntity.duplicateReview('id')), entityLifecycleService.requireWritable(resolveEntity.duplicateReview('id')), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const input = resolveDuplicateSchema.parse(req.body);
+    const reviewId = parseInt(req.params.id);
+
+    // Schools and parent accounts can span franchises, so only organization admins merge them
+    const review = await storage.getDuplicateReviewById(reviewId);
+    if (input.action === 'MERGE' && review?.recordType !== 'STUDENT' && !req.user!.roles.some(role => ['SYSTEM_ADMIN', 'ORG_ADMIN'].includes(role))) {
+      return res.status(403).json({ error: 'Only organization admins can merge schools or parent accounts' });
+    }
+
+    res.json(await duplicateService.resolve(req.user!.id, reviewId, input));
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid duplicate resolution', details: error.errors });
+    }
+    if (error.message === 'Duplicate review not found' || error.message === 'Record not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message === 'Duplicate review is already resolved' || error.message?.startsWith('keepId must be') || error.message === 'Cannot delete yourself') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Resolve duplicate review error:', error);
+    res.status(500).json({ error: 'Failed to resolve duplicate review' });
+  }
+});
+
+// ===== RECYCLE BIN ROUTES =====
+
+router.get('/recycle-bin', authenticateToken, requireRole(['SYSTEM_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await recycleBinService.list());
+  } catch (error) {
+    console.error('Get recycle bin error:', error);
+    res.status(500).json({ error: 'Failed to get recycle bin' });
+  }
+});
+
+router.post('/recycle-bin/entities/:id/restore', authenticateToken, requireRole(['SYSTEM_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const entity = await recycleBinService.restoreEntity(req.user!.id, parseInt(req.params.id));
+    res.json({ message: `${entity.name} restored`, entity });
+  } catch (error: any) {
+    if (error.message === 'Deleted entity not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Restore ')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Restore entity error:', error);
+    res.status(500).json({ error: 'Failed to restore entity' });
+  }
+});
+
+router.post('/recycle-bin/users/:id/restore', authenticateToken, requireRole(['SYSTEM_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await recycleBinService.restoreUser(req.user!.id, parseInt(req.params.id));
+    res.json({ message: `${user.name} restored; grant their roles again`, user: { id: user.id, name: user.name, email: user.email } });
+  } catch (error: any) {
+    if (error.message === 'Deleted user not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Another user now has')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Restore user error:', error);
+    res.status(500).json({ error: 'Failed to restore user' });
+  }
+});
+
 // Debug route to check database state
 router.get('/debug/entities', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -2359,71 +3688,23 @@ router.get('/debug/entities', authenticateToken, async (req: AuthenticatedReques
 // GET /api/students - return STUDENT entities
 router.get('/students', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { campId, franchiseeId, schoolId, page = '1', pageSize = '20', search } = req.query;
-    const students = await storage.getEntitiesByType('STUDENT');
-
-    // Debug logging (remove after testing)
-    console.log('DEBUG Students endpoint:');
-    console.log('- Total students in DB:', students.length);
-    console.log('- User roles:', req.user!.roles);
-    console.log('- User entityIds:', req.user!.entityIds);
-
-    // Filter based on user access and role
-    const accessibleEntityIds = req.user!.entityIds;
-    let filteredStudents = students;
-
-    if (req.user!.roles.includes('PARENT')) {
-      // Parents should only see their own children
-      const parentStudentLinks = await storage.getParentStudentLinksByParent(req.user!.id);
-      const parentStudentIds = parentStudentLinks.map(link => link.studentEntityId);
-      filteredStudents = students.filter(student => parentStudentIds.includes(student.id));
-    } else if (req.user!.roles.includes('SYSTEM_ADMIN') || req.user!.roles.includes('ORG_ADMIN')) {
-      // System/Org admins can see all students
-      filteredStudents = students;
-    } else {
-      // Other roles (franchise admin, school admin, etc.) see students based on entity access
-      if (req.user!.roles.includes('FRANCHISE_ADMIN')) {
-        // Franchise admins see students from all schools under their franchisee
-        const userMemberships = await storage.getMembershipsByUser(req.user!.id);
-        const franchiseeMemberships = userMemberships.filter(m => m.role === 'FRANCHISE_ADMIN');
-
-        if (franchiseeMemberships.length > 0) {
-          const franchiseeIds = franchiseeMemberships.map(m => m.entityId);
-          const allSchools = await storage.getEntitiesByType('SCHOOL');
-          const franchiseeSchools = allSchools.filter(school => franchiseeIds.includes(school.parentId || 0));
-          const franchiseeSchoolIds = franchiseeSchools.map(school => school.id);
-          filteredStudents = students.filter(student => franchiseeSchoolIds.includes(student.parentId || 0));
-
-          console.log('- Franchise filtering:');
-          console.log('  - Franchise memberships:', franchiseeMemberships.length);
-          console.log('  - Franchisee IDs:', franchiseeIds);
-          console.log('  - All schools:', allSchools.length);
-          console.log('  - Franchisee schools:', franchiseeSchools.length);
-          console.log('  - Franchisee school IDs:', franchiseeSchoolIds);
-          console.log('  - Filtered students:', filteredStudents.length);
-        } else {
-          filteredStudents = [];
-          console.log('- No franchise memberships found');
-        }
-      } else {
-        // School admins and other roles see students based on direct entity access
-        filteredStudents = students.filter(entity => {
-          return accessibleEntityIds.includes(entity.id) || accessibleEntityIds.includes(entity.parentId || 0);
-        });
-      }
-    }
-
-    // Apply additional filters
-    if (schoolId) {
-      filteredStudents = filteredStudents.filter(student => student.parentId === parseInt(schoolId as string));
-    }
-
-    if (franchiseeId) {
-      // Filter by franchisee through school's parent relationship
-      const allSchools = await storage.getEntitiesByType('SCHOOL');
-      const franchiseeSchools = allSchools.filter(school => school.parentId === parseInt(franchiseeId as string));
-      const franchiseeSchoolIds = franchiseeSchools.map(school => school.id);
-      filteredStudents = filteredStudents.filter(student => franchiseeSchoolIds.includes(student.parentId || 0));
+    const { campId, franchiseeId, schoolId, branchId, classId, page = '1', pageSize = '20', search } = req.query;
+    // Parents see their linked children, teachers the students of their classes;
+    // every other role sees its entity subtree
+    const scope = await accessService.getRequestScope(req);
+    // A class, branch, school or franchisee filter loads just those students instead of every student.
+    // A school's subtree takes in its branches, so school views roll up across them.
+    const rootId = branchId || schoolId || franchiseeId;
+    const students = classId
+      ? await storage.getStudentsByClasses([parseInt(classId as string)])
+      : rootId
+        ? await storage.getEntitySubtree(parseInt(rootId as string), { type: 'STUDENT' })
+        : await storage.getEntitiesByType('STUDENT');
+    let filteredStudents = accessService.filter(scope, students);
+
+    if (schoolId && franchiseeId) {
+      const school = await storage.getEntityById(parseInt(schoolId as string));
+      if (school?.parentId !== parseInt(franchiseeId as string)) filteredStudents = [];
     }
 
     // Transform student data to include metadata fields at top level and parent info
@@ -2506,8 +3787,7 @@ router.get('/students', authenticateToken, async (req: AuthenticatedRequest, res
 router.get('/schools/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
     // Get user's school membership to find which school they manage
-    const memberships = await storage.getMembershipsByUser(req.user!.id);
-    const schoolMembership = memberships.find(m => m.role === 'SCHOOL_ADMIN');
+    const schoolMembership = req.user!.memberships.find(m => m.role === 'SCHOOL_ADMIN');
 
     if (!schoolMembership) {
       return res.status(404).json({ error: 'No school found for this admin' });
@@ -2535,6 +3815,7 @@ router.get('/schools/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN']
       contactEmail: schoolEntity.metadata?.contactEmail,
       registrationNumber: schoolEntity.metadata?.registrationNumber,
       hasSubBranches: schoolEntity.metadata?.hasSubBranches,
+      branches: await organizationService.getBranches(schoolEntity.id),
       // Legacy field mappings for backward compatibility
       contactPersonName: schoolEntity.metadata?.contactPerson,
       isActive: schoolEntity.status === 'ACTIVE'
@@ -2551,8 +3832,7 @@ router.get('/schools/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN']
 router.get('/students/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
   try {
     // Get user's school membership to find which school they manage
-    const memberships = await storage.getMembershipsByUser(req.user!.id);
-    const schoolMembership = memberships.find(m => m.role === 'SCHOOL_ADMIN');
+    const schoolMembership = req.user!.memberships.find(m => m.role === 'SCHOOL_ADMIN');
 
     if (!schoolMembership) {
       return res.status(404).json({ error: 'No school found for this admin' });
@@ -2560,8 +3840,8 @@ router.get('/students/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN'
 
     const schoolEntityId = schoolMembership.entityId;
 
-    // Get students for this school using the existing method
-    const schoolStudents = await storage.getStudentsBySchool(schoolEntityId);
+    // Students of the school and of all its branches
+    const schoolStudents = await storage.getEntitySubtree(schoolEntityId, { type: 'STUDENT' });
 
     res.json(schoolStudents || []);
   } catch (error) {
@@ -2576,7 +3856,12 @@ router.get('/students/my-school', authenticateToken, requireRole(['SCHOOL_ADMIN'
 // Get all reports (for admin users)
 router.get('/reports', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const reports = await reportService.getReports();
+    const scope = await accessService.getRequestScope(req);
+    let reports = accessService.filter(scope, await reportService.getReports(), report => report.studentEntityId);
+
+    const unitIds = await getSchoolUnitFilter(req);
+    if (unitIds) reports = reports.filter(report => unitIds.has(report.studentEntityId));
+
     res.json(reports);
   } catch (error) {
     console.error('Get reports error:', error);
@@ -2593,6 +3878,16 @@ router.post('/reports', authenticateToken, requireRole(['DENTIST', 'SCHOOL_ADMIN
       return res.status(400).json({ error: "screeningId and studentId are required" });
     }
 
+    const scope = await accessService.getRequestScope(req);
+    if (!accessService.canAccess(scope, parseInt(studentId))) {
+      return res.status(403).json({ error: 'Access denied to this student' });
+    }
+
+    const block = await entityLifecycleService.getWriteBlock(parseInt(studentId));
+    if (block) {
+      return res.status(403).json(block);
+    }
+
     const report = await reportService.generateReport(parseInt(screeningId), parseInt(studentId), req.user!.id);
     res.json(report);
   } catch (error) {
@@ -2602,7 +3897,7 @@ router.post('/reports', authenticateToken, requireRole(['DENTIST', 'SCHOOL_ADMIN
 });
 
 // Download Report PDF
-router.get('/reports/:id/download', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/reports/:id/download', authenticateToken, accessService.requireEntityAccess(resolveEntity.reportStudent('id')), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const reportId = parseInt(req.params.id);
     const report = await reportService.getReportById(reportId);
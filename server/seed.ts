@@ -1,13 +1,8 @@
 import 'dotenv/config';
 import { storage } from './storage';
-import crypto from 'crypto';
+import { magicTokenService } from './services/magicToken';
 import bcrypt from 'bcrypt';
 
-// Generate random token for magic links
-function generateToken(): string {
-  return crypto.randomBytes(32).toString('hex');
-}
-
 // Generate magic link URL
 function generateMagicLink(token: string): string {
   const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
@@ -32,7 +27,7 @@ export async function seedDatabase() {
       status: 'ACTIVE',
       parentId: null,
       metadata: {
-        orgDescription: 'Leading dental care platform for school children across India'
+        description: 'Leading dental care platform for school children across India'
       }
     });
     console.log(`✅ Created organization: ${rootOrg.name}`);
@@ -46,13 +41,13 @@ export async function seedDatabase() {
       parentId: rootOrg.id,
       metadata: {
         region: 'South India',
-        franchiseContactPerson: 'Rajesh Kumar',
-        franchiseContactEmail: 'rajesh@happysmiles.com',
-        franchiseContactPhone: '+91-9876543210',
-        franchiseAddress: '123 Tech City Road',
-        franchiseCity: 'Hyderabad',
-        franchiseState: 'Telangana',
-        franchisePincode: '500032'
+        contactPerson: 'Rajesh Kumar',
+        contactEmail: 'rajesh@happysmiles.com',
+        contactPhone: '+91-9876543210',
+        address: '123 Tech City Road',
+        city: 'Hyderabad',
+        state: 'Telangana',
+        pincode: '500032'
       }
     });
     console.log(`✅ Created franchisee: ${franchisee.name}`);
@@ -65,13 +60,13 @@ export async function seedDatabase() {
       status: 'ACTIVE',
       parentId: franchisee.id,
       metadata: {
-        schoolAddress: '456 Education Lane',
-        schoolCity: 'Hyderabad',
-        schoolState: 'Telangana',
-        schoolPincode: '500035',
-        schoolContactPerson: 'Dr. Priya Sharma',
-        schoolContactPhone: '+91-9123456789',
-        schoolContactEmail: 'principal@sunriseschool.edu',
+        address: '456 Education Lane',
+        city: 'Hyderabad',
+        state: 'Telangana',
+        pincode: '500035',
+        contactPerson: 'Dr. Priya Sharma',
+        contactPhone: '+91-9123456789',
+        contactEmail: 'principal@sunriseschool.edu',
         registrationNumber: 'EDU-HYD-2019-0156',
         hasSubBranches: false
       }
@@ -89,11 +84,7 @@ export async function seedDatabase() {
         age: 12,
         gender: 'Male',
         grade: '7th',
-        rollNumber: 'SR-2024-001',
-        parentName: 'Suresh Patel',
-        parentPhone: '+91-9876543211',
-        parentEmail: 'suresh.patel@email.com',
-        parentOccupation: 'Software Engineer'
+        rollNumber: 'SR-2024-001'
       }
     });
 
@@ -106,11 +97,7 @@ export async function seedDatabase() {
         age: 11,
         gender: 'Female',
         grade: '6th',
-        rollNumber: 'SR-2024-002',
-        parentName: 'Suresh Patel',
-        parentPhone: '+91-9876543211',
-        parentEmail: 'suresh.patel@email.com',
-        parentOccupation: 'Software Engineer'
+        rollNumber: 'SR-2024-002'
       }
     });
 
@@ -123,11 +110,7 @@ export async function seedDatabase() {
         age: 13,
         gender: 'Female',
         grade: '8th',
-        rollNumber: 'SR-2024-003',
-        parentName: 'Vikram Singh',
-        parentPhone: '+91-9876543212',
-        parentEmail: 'vikram.singh@email.com',
-        parentOccupation: 'Business Owner'
+        rollNumber: 'SR-2024-003'
       }
     });
 
@@ -438,11 +421,9 @@ All staff must comply with institutional policies and applicable laws.`,
     console.log('========================================');
 
     for (const { user, role } of users) {
-      const token = generateToken();
       const expiresAt = new Date(Date.now() + 48 * 60 * 60 * 1000); // 48 hours
 
-      await storage.createMagicToken({
-        token,
+      const { token } = await magicTokenService.issue({
         email: user.email,
         expiresAt,
         purpose: 'INVITE',
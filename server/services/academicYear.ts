@@ -0,0 +1,230 @@
+import { storage, AcademicYearRolloverWrites } from "../storage";
+import { describeClass } from "./class";
+import { AcademicYear, AcademicYearRollover, Class, Entity, InsertClass } from "@shared/schema";
+
+// Academic years run from April to March
+const YEAR_START_MONTH = 3;
+
+// Grades below Grade 1, youngest first
+const PRE_PRIMARY_GRADES = ['Nursery', 'LKG', 'UKG'];
+const ROMAN_GRADES = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+// The academic year a date falls in, e.g. 2025-26 for any date from April 2025 to March 2026
+export function academicYearFor(date: Date): string {
+    const start = date.getMonth() >= YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+    return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+function nextAcademicYear(label: string): string {
+    const start = parseInt(label.slice(0, 4)) + 1;
+    return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Position of a free-text grade on the ladder Nursery, LKG, UKG, 1 ... 12,
+ * or null when it cannot be read. "Grade 5", "Class V", "5th" and "5" are
+ * all the same grade.
+ */
+function gradeRank(grade: string | undefined): number | null {
+    if (!grade) return null;
+    const text = grade.trim().toUpperCase().replace(/^(GRADE|CLASS|STD\.?|STANDARD)\s*/, '');
+
+    const prePrimary = PRE_PRIMARY_GRADES.findIndex(label => label.toUpperCase() === text);
+    if (prePrimary >= 0) return prePrimary;
+
+    const numeric = text.match(/^(\d{1,2})(ST|ND|RD|TH)?$/);
+    const number = numeric ? parseInt(numeric[1]) : ROMAN_GRADES.indexOf(text) + 1;
+    return number >= 1 && number <= ROMAN_GRADES.length ? PRE_PRIMARY_GRADES.length + number - 1 : null;
+}
+
+function gradeLabel(rank: number): string {
+    return rank < PRE_PRIMARY_GRADES.length ? PRE_PRIMARY_GRADES[rank] : String(rank - PRE_PRIMARY_GRADES.length + 1);
+}
+
+interface RolloverPlan {
+    current: AcademicYear;
+    toYear: string;
+    finalRank: number;
+    promotions: { student: Entity; rank: number }[];
+    leaving: Entity[];
+    unrecognized: Entity[];
+    classes: Class[]; // This year's classes that carry on into the next
+}
+
+export class AcademicYearService {
+    private async getSchool(schoolId: number): Promise<Entity> {
+        const school = await storage.getEntityById(schoolId);
+        if (!school || school.type !== 'SCHOOL') throw new Error('School not found');
+        return school;
+    }
+
+    // A school's current year, opened from today's date the first time it is asked for
+    async getCurrent(schoolId: number): Promise<AcademicYear> {
+        const current = await storage.getCurrentAcademicYear(schoolId);
+        if (current) return current;
+        return await storage.createAcademicYear({ schoolEntityId: schoolId, label: academicYearFor(new Date()), isCurrent: true });
+    }
+
+    async list(schoolId: number) {
+        await this.getSchool(schoolId);
+        await this.getCurrent(schoolId);
+        return await storage.getAcademicYears(schoolId);
+    }
+
+    // The current year of the school a student belongs to, through its branch if it has one
+    async getCurrentLabelForStudent(studentId: number): Promise<string | null> {
+        const lineage = await storage.getEntityAncestors(studentId);
+        const school = lineage.find(entity => entity.type === 'SCHOOL');
+        return school ? (await this.getCurrent(school.id)).label : null;
+    }
+
+    private async plan(schoolId: number, input: AcademicYearRollover): Promise<RolloverPlan> {
+        await this.getSchool(schoolId);
+
+        const finalRank = gradeRank(input.finalGrade);
+        if (finalRank === null) throw new Error(`${input.finalGrade} is not a recognized grade`);
+
+        const current = await this.getCurrent(schoolId);
+        const toYear = nextAcademicYear(current.label);
+        if ((await storage.getAcademicYears(schoolId)).some(year => year.label === toYear)) {
+            throw new Error(`Academic year ${toYear} already exists`);
+        }
+
+        const plan: RolloverPlan = { current, toYear, finalRank, promotions: [], leaving: [], unrecognized: [], classes: [] };
+
+        const students = await storage.getEntitySubtree(schoolId, { type: 'STUDENT' });
+        for (const student of students.filter(s => s.status !== 'ARCHIVED')) {
+            const rank = gradeRank(student.metadata?.grade);
+            if (rank === null) plan.unrecognized.push(student);
+            else if (rank >= finalRank) plan.leaving.push(student);
+            else plan.promotions.push({ student, rank });
+        }
+
+        const branches = await storage.getEntitySubtree(schoolId, { type: 'BRANCH' });
+        const classes = await storage.getClassesBySchools([schoolId, ...branches.map(b => b.id)], current.label);
+        plan.classes = classes.filter(c => {
+            const rank = gradeRank(c.grade);
+            return rank !== null && rank < finalRank;
+        });
+
+        return plan;
+    }
+
+    /**
+     * What a rollover would do, without changing anything: students moving up
+     * grouped by grade, the final grade leaving, students whose grade cannot
+     * be read (left as they are) and the classes opened for the next year.
+     */
+    async preview(schoolId: number, input: AcademicYearRollover) {
+        const plan = await this.plan(schoolId, input);
+
+        const byGrade = new Map<number, { fromGrade: string; toGrade: string; students: { id: number; name: string }[] }>();
+        for (const { student, rank } of plan.promotions) {
+            if (!byGrade.has(rank)) byGrade.set(rank, { fromGrade: gradeLabel(rank), toGrade: gradeLabel(rank + 1), students: [] });
+            byGrade.get(rank)!.students.push({ id: student.id, name: student.name });
+        }
+
+        return {
+            fromYear: plan.current.label,
+            toYear: plan.toYear,
+            promotions: Array.from(byGrade.entries()).sort(([a], [b]) => a - b).map(([, group]) => group),
+            leaving: {
+                grade: gradeLabel(plan.finalRank),
+                action: input.finalGradeAction,
+                students: plan.leaving.map(({ id, name, metadata }) => ({ id, name, grade: metadata?.grade }))
+            },
+            unrecognized: plan.unrecognized.map(({ id, name, metadata }) => ({ id, name, grade: metadata?.grade ?? null })),
+            classes: plan.classes.map(c => ({
+                from: describeClass(c),
+                to: describeClass({ ...c, grade: gradeLabel(gradeRank(c.grade)! + 1), academicYear: plan.toYear })
+            }))
+        };
+    }
+
+    /**
+     * Move a school and its branches on to the next academic year. Screenings
+     * keep the grade they were taken in, students move up a grade (into the
+     * matching section of next year's class when they had one), the final
+     * grade graduates or is archived, and the next year becomes current.
+     * Everything is written in one transaction.
+     */
+    async rollover(actorId: number, schoolId: number, input: AcademicYearRollover) {
+        const plan = await this.plan(schoolId, input);
+        const fromYear = plan.current.label;
+
+        // Next year's class for each of this year's, one per grade and section
+        const classWrites = new Map<string, { fromClassIds: number[]; nextClassId?: number; next: InsertClass }>();
+        for (const current of plan.classes) {
+            const grade = gradeLabel(gradeRank(current.grade)! + 1);
+            const key = `${current.schoolEntityId}:${grade}:${current.section ?? ''}`;
+            if (!classWrites.has(key)) {
+                const existing = (await storage.getClassesBySchools([current.schoolEntityId], plan.toYear))
+                    .find(c => gradeRank(c.grade) === gradeRank(grade) && (c.section ?? null) === (current.section ?? null));
+                classWrites.set(key, {
+                    fromClassIds: [],
+                    nextClassId: existing?.id,
+                    next: { schoolEntityId: current.schoolEntityId, academicYear: plan.toYear, grade, section: current.section, createdBy: actorId }
+                });
+            }
+            classWrites.get(key)!.fromClassIds.push(current.id);
+        }
+
+        const students: AcademicYearRolloverWrites['students'] = [];
+        for (const { student, rank } of plan.promotions) {
+            const placement = (await storage.getClassesByStudent(student.id)).find(c => c.academicYear === fromYear);
+            students.push({
+                studentId: student.id,
+                updates: { metadata: { ...student.metadata, grade: gradeLabel(rank + 1) } },
+                fromClassId: placement?.id
+            });
+        }
+        for (const student of plan.leaving) {
+            students.push({
+                studentId: student.id,
+                updates: input.finalGradeAction === 'GRADUATE'
+                    ? {
+                        status: 'ARCHIVED',
+                        statusReason: `Graduated in ${fromYear}`,
+                        statusChangedAt: new Date(),
+                        statusChangedBy: actorId,
+                        metadata: { ...student.metadata, graduatedYear: fromYear }
+                    }
+                    // Detached from the school, as archiving a student by hand does
+                    : { status: 'ARCHIVED', parentId: null }
+            });
+        }
+
+        const next = await storage.rollOverAcademicYear({
+            year: plan.current,
+            toYear: plan.toYear,
+            actorId,
+            gradeSnapshots: [...plan.promotions.map(p => p.student), ...plan.leaving].map(student => ({ studentId: student.id, grade: student.metadata!.grade! })),
+            classes: Array.from(classWrites.values()),
+            students
+        });
+        if (!next) throw new Error(`Academic year ${fromYear} has already been rolled over`);
+
+        const summary = {
+            fromYear,
+            toYear: plan.toYear,
+            promoted: plan.promotions.length,
+            graduated: input.finalGradeAction === 'GRADUATE' ? plan.leaving.length : 0,
+            archived: input.finalGradeAction === 'ARCHIVE' ? plan.leaving.length : 0,
+            unchanged: plan.unrecognized.length,
+            classesCarried: plan.classes.length
+        };
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'ACADEMIC_YEAR_ROLLED_OVER',
+            entityId: schoolId,
+            targetId: next.id,
+            targetType: 'ACADEMIC_YEAR',
+            metadata: { ...summary, finalGrade: input.finalGrade }
+        });
+
+        return summary;
+    }
+}
+
+export const academicYearService = new AcademicYearService();
@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { Membership } from "@shared/schema";
+
+// Roles whose reach is the whole organization, wherever their membership sits
+const UNRESTRICTED_ROLES = ['SYSTEM_ADMIN', 'ORG_ADMIN'];
+
+// Roles that administer their entity and everything beneath it
+const ADMIN_ROLES = [...UNRESTRICTED_ROLES, 'FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN'];
+
+export interface AccessScope {
+    unrestricted: boolean;
+    entityIds: Set<number>;
+}
+
+type ScopedRequest = Request & { user?: { id: number; memberships?: Membership[] } };
+
+// Maps a request to the entity it touches, or null when that record does not exist
+export type EntityResolver = (req: Request) => Promise<number | null> | number | null;
+
+export const resolveEntity = {
+    param: (name: string): EntityResolver => (req) => parseInt(req.params[name]),
+
+    campSchool: (name: string): EntityResolver => async (req) => {
+        const camp = await storage.getCampById(parseInt(req.params[name]));
+        return camp ? camp.schoolEntityId : null;
+    },
+
+    reportStudent: (name: string): EntityResolver => async (req) => {
+        const report = await storage.getReportById(parseInt(req.params[name]));
+        return report ? report.studentEntityId : null;
+    },
+
+    membership: (name: string): EntityResolver => async (req) => {
+        const membership = await storage.getMembershipById(parseInt(req.params[name]));
+        return membership ? membership.entityId : null;
+    },
+
+    invitation: (name: string): EntityResolver => async (req) => {
+        const invitation = await storage.getInvitationById(parseInt(req.params[name]));
+        return invitation ? invitation.entityId : null;
+    },
+
+    classSchool: (name: string): EntityResolver => async (req) => {
+        const found = await storage.getClassById(parseInt(req.params[name]));
+        return found ? found.schoolEntityId : null;
+    },
+
+    duplicateReview: (name: string): EntityResolver => async (req) => {
+        const review = await storage.getDuplicateReviewById(parseInt(req.params[name]));
+        return review ? review.scopeEntityId : null;
+    },
+};
+
+export class AccessService {
+    // Scopes are resolved once per request and shared by middleware and handler
+    private requestScopes = new WeakMap<Request, Promise<AccessScope>>();
+
+    /**
+     * Compute the entities a user may read or act on. A membership grants its
+     * entity and everything beneath it in the entities.parentId tree; a PARENT
+     * membership grants only the students linked to that parent, and a TEACHER
+     * membership grants its school and branches but only the students of the
+     * teacher's classes. Pass the memberships to restrict the scope to them,
+     * e.g. the request's active one.
+     */
+    async getScope(userId: number, memberships?: Membership[]): Promise<AccessScope> {
+        memberships = memberships ?? await storage.getMembershipsByUser(userId);
+
+        if (memberships.some(m => UNRESTRICTED_ROLES.includes(m.role))) {
+            return { unrestricted: true, entityIds: new Set() };
+        }
+
+        const rootIds = memberships.filter(m => m.role !== 'PARENT' && m.role !== 'TEACHER').map(m => m.entityId);
+        const entityIds = new Set(await storage.getEntitySubtreeIds(rootIds));
+
+        const teacherRootIds = memberships.filter(m => m.role === 'TEACHER').map(m => m.entityId);
+        if (teacherRootIds.length > 0) {
+            for (const rootId of teacherRootIds) {
+                entityIds.add(rootId);
+                const branches = await storage.getEntitySubtree(rootId, { type: 'BRANCH' });
+                branches.forEach(branch => entityIds.add(branch.id));
+            }
+            const classes = await storage.getClassesByTeacher(userId);
+            const students = await storage.getStudentsByClasses(classes.map(c => c.id));
+            students.forEach(student => entityIds.add(student.id));
+        }
+
+        if (memberships.some(m => m.role === 'PARENT')) {
+            const links = await storage.getParentStudentLinksByParent(userId);
+            links.forEach(link => entityIds.add(link.studentEntityId));
+        }
+
+        return { unrestricted: false, entityIds };
+    }
+
+    getRequestScope(req: ScopedRequest): Promise<AccessScope> {
+        let scope = this.requestScopes.get(req);
+        if (!scope) {
+            scope = this.getScope(req.user!.id, req.user!.memberships);
+            this.requestScopes.set(req, scope);
+        }
+        return scope;
+    }
+
+    canAccess(scope: AccessScope, entityId: number | null | undefined): boolean {
+        if (scope.unrestricted) return true;
+        return entityId !== null && entityId !== undefined && scope.entityIds.has(entityId);
+    }
+
+    // Whether one of the user's admin memberships covers the entity
+    async isEntityAdmin(userId: number, entityId: number): Promise<boolean> {
+        const memberships = await storage.getMembershipsByUser(userId);
+        const scope = await this.getScope(userId, memberships.filter(m => ADMIN_ROLES.includes(m.role)));
+        return this.canAccess(scope, entityId);
+    }
+
+    // Keep only the records whose owning entity is inside the scope
+    filter<T>(scope: AccessScope, items: T[], getEntityId: (item: T) => number | null = (item: any) => item.id): T[] {
+        if (scope.unrestricted) return items;
+        return items.filter(item => this.canAccess(scope, getEntityId(item)));
+    }
+
+    // Keep only users holding at least one membership inside the scope
+    async filterUsers<T extends { id: number }>(scope: AccessScope, users: T[]): Promise<T[]> {
+        if (scope.unrestricted) return users;
+
+        const visible = await Promise.all(users.map(async user => {
+            const memberships = await storage.getMembershipsByUser(user.id);
+            return memberships.some(m => this.canAccess(scope, m.entityId));
+        }));
+        return users.filter((_, index) => visible[index]);
+    }
+
+    // Express middleware rejecting requests for entities outside the caller's subtree
+    requireEntityAccess(resolveEntityId: EntityResolver) {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            try {
+                const entityId = await resolveEntityId(req);
+                if (entityId === null) {
+                    return res.status(404).json({ error: 'Not found' });
+                }
+
+                const scope = await this.getRequestScope(req as ScopedRequest);
+                if (!this.canAccess(scope, entityId)) {
+                    return res.status(403).json({ error: 'Access denied to this entity' });
+                }
+
+                next();
+            } catch (error) {
+                console.error('Access check error:', error);
+                res.status(500).json({ error: 'Failed to check access' });
+            }
+        };
+    }
+}
+
+export const accessService = new AccessService();
@@ -1,19 +1,23 @@
 import crypto from "crypto";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import { storage } from "../storage";
 import { MediaType } from "express";
 import { sendEmail } from "./email";
+import { isSmsConfigured, sendSms } from "./sms";
+import { mfaService } from "./mfa";
+import { sessionService, SessionContext } from "./session";
+import { throttleService, RATE_LIMITS } from "./throttle";
+import { invitationService } from "./invitation";
+import { passwordService } from "./password";
+import { magicTokenService } from "./magicToken";
 import { User, MagicToken } from "@shared/schema";
 
-const JWT_SECRET = process.env.JWT_SECRET || "dental-care-secret-key";
+const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_RESEND_INTERVAL_MS = 60 * 1000; // 1 minute
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000; // 30 minutes
 
 export class AuthService {
-    // Generate magic link token
-    generateToken(): string {
-        return crypto.randomBytes(32).toString('hex');
-    }
-
     // Generate magic link URL
     generateMagicLink(token: string): string {
         const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
@@ -21,17 +25,28 @@ export class AuthService {
     }
 
     // Request magic link
-    async requestMagicLink(email: string): Promise<void> {
+    async requestMagicLink(email: string, context?: SessionContext): Promise<void> {
+        // Per-address limit stops the endpoint being used to flood someone's inbox
+        const { allowed, firstRejection } = throttleService.hit(RATE_LIMITS.MAGIC_LINK_PER_EMAIL, email);
+        if (!allowed) {
+            if (firstRejection) {
+                await storage.createAuditLog({
+                    action: 'RATE_LIMIT_EXCEEDED',
+                    metadata: { policy: RATE_LIMITS.MAGIC_LINK_PER_EMAIL.name, email, ipAddress: context?.ipAddress }
+                });
+            }
+            throw new Error('Too many requests for this email');
+        }
+
+        // Service accounts sign in with API keys only
         const user = await storage.getUserByEmail(email);
-        if (!user) {
+        if (!user || user.isServiceAccount) {
             throw new Error('User not found');
         }
 
-        const token = this.generateToken();
         const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
 
-        await storage.createMagicToken({
-            token,
+        const { token } = await magicTokenService.issue({
             email,
             expiresAt,
             purpose: 'LOGIN'
@@ -50,9 +65,228 @@ export class AuthService {
         await sendEmail(email, 'Login to Smile Stars India', emailHtml);
     }
 
-    // Consume magic link
-    async consumeMagicLink(token: string): Promise<{ token: string, user: any, requiresAgreements: boolean, pendingAgreements: any[], tokenType?: string, franchisee?: any }> {
-        const magicToken = await storage.getMagicTokenByToken(token);
+    // Email a password reset link. Only the most recent link is valid.
+    async requestPasswordReset(email: string, context?: SessionContext): Promise<void> {
+        const { allowed, firstRejection } = throttleService.hit(RATE_LIMITS.PASSWORD_RESET_PER_EMAIL, email);
+        if (!allowed) {
+            if (firstRejection) {
+                await storage.createAuditLog({
+                    action: 'RATE_LIMIT_EXCEEDED',
+                    metadata: { policy: RATE_LIMITS.PASSWORD_RESET_PER_EMAIL.name, email, ipAddress: context?.ipAddress }
+                });
+            }
+            throw new Error('Too many requests for this email');
+        }
+
+        const user = await storage.getUserByEmail(email);
+        if (!user || user.status === 'SUSPENDED' || user.isServiceAccount) {
+            throw new Error('User not found');
+        }
+
+        await storage.invalidateMagicTokensByEmail(email, 'RESET');
+
+        const { token } = await magicTokenService.issue({
+            email,
+            expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+            purpose: 'RESET'
+        });
+
+        await storage.createAuditLog({
+            actorUserId: user.id,
+            action: 'PASSWORD_RESET_REQUESTED',
+            targetId: user.id,
+            targetType: 'USER',
+            metadata: { ipAddress: context?.ipAddress }
+        });
+
+        const resetLink = `${process.env.BASE_URL || 'http://localhost:5000'}/auth/reset-password?token=${token}`;
+        const emailHtml = `
+      <h2>Reset your Smile Stars India password</h2>
+      <p>Hello ${user.name},</p>
+      <p>Click the link below to choose a new password:</p>
+      <a href="${resetLink}" style="background: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">Reset Password</a>
+      <p>This link will expire in 30 minutes.</p>
+      <p>If you didn't request a password reset, you can ignore this email. Your password will not change.</p>
+    `;
+
+        await sendEmail(email, 'Reset your Smile Stars India password', emailHtml);
+    }
+
+    /**
+     * Set a new password from a reset link. Every existing session is
+     * revoked, so anyone holding the old password is signed out.
+     */
+    async resetPassword(token: string, password: string, context?: SessionContext): Promise<void> {
+        const resetToken = await magicTokenService.find(token, ['RESET']);
+        if (!resetToken || new Date() > resetToken.expiresAt) {
+            throw new Error('Invalid or expired token');
+        }
+
+        const user = await storage.getUserByEmail(resetToken.email);
+        if (!user) {
+            throw new Error('Invalid or expired token');
+        }
+
+        if (user.status === 'SUSPENDED') {
+            throw new Error('Account suspended');
+        }
+
+        // Policy failures throw before the link is used up, so the user can try another password
+        await passwordService.setPassword(user, password);
+        if (!(await magicTokenService.consume(resetToken))) {
+            throw new Error('Invalid or expired token');
+        }
+        await sessionService.revokeAllSessions(user.id, 'PASSWORD_RESET');
+
+        await storage.createAuditLog({
+            actorUserId: user.id,
+            action: 'PASSWORD_RESET',
+            targetId: user.id,
+            targetType: 'USER',
+            metadata: { ipAddress: context?.ipAddress, userAgent: context?.userAgent }
+        });
+
+        const emailHtml = `
+      <h2>Your password was changed</h2>
+      <p>Hello ${user.name},</p>
+      <p>The password for your Smile Stars India account was just reset and you have been signed out everywhere.</p>
+      <p>If you didn't do this, please contact admin@smilestarsindia.com immediately.</p>
+    `;
+
+        await sendEmail(user.email, 'Your Smile Stars India password was changed', emailHtml);
+    }
+
+    // Generate a 6-digit one-time passcode
+    generateOtpCode(): string {
+        return crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    }
+
+    // Salted with the token's hash, which is all that is stored
+    private hashOtpCode(tokenHash: string, code: string): string {
+        return crypto.createHash('sha256').update(`${tokenHash}:${code}`).digest('hex');
+    }
+
+    // Request a one-time passcode by email or SMS
+    async requestOtp(email: string, channel: 'EMAIL' | 'SMS' = 'EMAIL', context?: SessionContext): Promise<void> {
+        // Checked before the account so the answer is the same whether or not it exists
+        if (channel === 'SMS' && !isSmsConfigured()) {
+            throw new Error('SMS login codes are not available');
+        }
+
+        const { allowed, firstRejection } = throttleService.hit(RATE_LIMITS.OTP_REQUEST_PER_EMAIL, email);
+        if (!allowed) {
+            if (firstRejection) {
+                await storage.createAuditLog({
+                    action: 'RATE_LIMIT_EXCEEDED',
+                    metadata: { policy: RATE_LIMITS.OTP_REQUEST_PER_EMAIL.name, email, ipAddress: context?.ipAddress }
+                });
+            }
+            throw new Error('Too many requests for this email');
+        }
+
+        const user = await storage.getUserByEmail(email);
+        if (!user || user.isServiceAccount) {
+            throw new Error('User not found');
+        }
+
+        if (channel === 'SMS' && !user.phone) {
+            throw new Error('No phone number on file');
+        }
+
+        const previous = await storage.getLatestMagicTokenByEmail(email, 'OTP');
+        if (previous && Date.now() - previous.createdAt.getTime() < OTP_RESEND_INTERVAL_MS) {
+            throw new Error('Please wait before requesting another code');
+        }
+
+        // Only the most recent code is valid
+        await storage.invalidateMagicTokensByEmail(email, 'OTP');
+
+        const token = magicTokenService.generateToken();
+        const code = this.generateOtpCode();
+        const expiresAt = new Date(Date.now() + OTP_TTL_MS);
+
+        await magicTokenService.issue({
+            token,
+            email,
+            expiresAt,
+            purpose: 'OTP',
+            metadata: {
+                codeHash: this.hashOtpCode(magicTokenService.hashToken(token), code),
+                channel,
+                attempts: 0
+            }
+        });
+
+        if (channel === 'SMS') {
+            await sendSms(user.phone!, `${code} is your Smile Stars India login code. It expires in 10 minutes.`);
+            return;
+        }
+
+        const emailHtml = `
+      <h2>Your Smile Stars India login code</h2>
+      <p>Hello ${user.name},</p>
+      <p>Enter this code to log in to your account:</p>
+      <p style="font-size: 28px; font-weight: bold; letter-spacing: 6px;">${code}</p>
+      <p>This code will expire in 10 minutes.</p>
+      <p>If you didn't request this login, please ignore this email.</p>
+    `;
+
+        await sendEmail(email, 'Your Smile Stars India login code', emailHtml);
+    }
+
+    // Verify a one-time passcode
+    async verifyOtp(email: string, code: string, context?: SessionContext) {
+        const otpToken = await storage.getLatestMagicTokenByEmail(email, 'OTP');
+
+        if (!otpToken || !otpToken.metadata?.codeHash) {
+            throw new Error('Invalid or expired code');
+        }
+
+        if (new Date() > otpToken.expiresAt) {
+            throw new Error('Code has expired');
+        }
+
+        // The attempt is counted before the code is checked, so the budget holds under parallel guesses
+        const attempts = await storage.recordMagicTokenAttempt(otpToken.id, OTP_MAX_ATTEMPTS);
+        if (attempts === null) {
+            throw new Error('Too many attempts. Please request a new code');
+        }
+
+        const expected = Buffer.from(otpToken.metadata.codeHash, 'hex');
+        const actual = Buffer.from(this.hashOtpCode(otpToken.tokenHash, code), 'hex');
+
+        if (!crypto.timingSafeEqual(expected, actual)) {
+            if (attempts >= OTP_MAX_ATTEMPTS) {
+                // Burn the code once the attempt budget is spent
+                await storage.consumeMagicToken(otpToken.id);
+                throw new Error('Too many attempts. Please request a new code');
+            }
+            throw new Error('Invalid or expired code');
+        }
+
+        const user = await storage.getUserByEmail(email);
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.status === 'SUSPENDED') {
+            throw new Error('Account suspended');
+        }
+
+        if (!(await magicTokenService.consume(otpToken))) {
+            throw new Error('Invalid or expired code');
+        }
+
+        return await this.completeLogin(user, context);
+    }
+
+    /**
+     * Consume a login or invite link. Franchise agreement links are only
+     * previewed here so the agreements can be shown; accept-agreements is
+     * what uses them up.
+     */
+    async consumeMagicLink(token: string, context?: SessionContext): Promise<any> {
+        const magicToken = await magicTokenService.find(token, ['LOGIN', 'INVITE', 'FRANCHISE_AGREEMENT']);
 
         if (!magicToken) {
             throw new Error('Invalid or expired token');
@@ -72,7 +306,7 @@ export class AuthService {
         }
 
         // Handle FRANCHISE_AGREEMENT special flow
-        if (magicToken.type === 'FRANCHISE_AGREEMENT') {
+        if (magicToken.purpose === 'FRANCHISE_AGREEMENT') {
             const franchiseeId = magicToken.metadata?.franchiseeId;
             if (!franchiseeId) {
                 throw new Error('Invalid franchise agreement token');
@@ -83,13 +317,11 @@ export class AuthService {
                 throw new Error('Franchisee not found');
             }
 
-            if (!user.entityIds?.includes(franchiseeId)) {
+            const memberships = await storage.getMembershipsByUser(user.id);
+            if (!memberships.some(m => m.entityId === franchiseeId)) {
                 throw new Error('Access denied to this franchisee');
             }
 
-            await storage.markMagicTokenUsed(token);
-
-            const memberships = await storage.getMembershipsByUser(user.id);
             const roles = memberships.map(m => m.role);
 
             const userAgreements = await storage.getAgreementsByRole(roles);
@@ -125,15 +357,26 @@ export class AuthService {
         }
 
         // Standard flow
-        await storage.markMagicTokenUsed(token);
-        const result = await this.generateUserAuthResponse(user);
+        if (!(await magicTokenService.consume(magicToken))) {
+            throw new Error('Invalid or expired token');
+        }
+        if (magicToken.purpose === 'INVITE') {
+            await invitationService.markAccepted(magicToken.id);
+        }
+        const result = await this.completeLogin(user, context);
         return result;
     }
 
     // Login with password
-    async login(email: string, password: string): Promise<any> {
+    async login(email: string, password: string, context?: SessionContext): Promise<any> {
         const user = await storage.getUserByEmail(email);
+        if (throttleService.getLockoutRemaining(email, user) > 0) {
+            await throttleService.recordFailedLogin(email, user, 'ACCOUNT_LOCKED', context?.ipAddress);
+            throw new Error('Account temporarily locked');
+        }
+
         if (!user) {
+            await throttleService.recordFailedLogin(email, null, 'UNKNOWN_EMAIL', context?.ipAddress);
             throw new Error('Invalid email or password');
         }
 
@@ -147,17 +390,73 @@ export class AuthService {
 
         const isValidPassword = await bcrypt.compare(password, user.password);
         if (!isValidPassword) {
+            await throttleService.recordFailedLogin(email, user, 'INVALID_PASSWORD', context?.ipAddress);
             throw new Error('Invalid email or password');
         }
 
-        return await this.generateUserAuthResponse(user);
+        await throttleService.resetFailedLogins(user);
+        return await this.completeLogin(user, context);
+    }
+
+    // Gate JWT issuance behind MFA: challenge enrolled users, force enrollment where policy requires it
+    async completeLogin(user: User, context?: SessionContext) {
+        if (user.mfaEnabled) {
+            const mfaToken = await mfaService.createChallenge(user, 'MFA_CHALLENGE');
+            return { mfaRequired: true, mfaToken };
+        }
+
+        const memberships = await storage.getMembershipsByUser(user.id);
+        if (await mfaService.isRequiredFor(memberships.map(m => m.role))) {
+            const mfaToken = await mfaService.createChallenge(user, 'MFA_ENROLL');
+            return { mfaEnrollmentRequired: true, mfaToken };
+        }
+
+        return await this.generateUserAuthResponse(user, context);
+    }
+
+    // Second login step: exchange an MFA challenge and a TOTP/recovery code for a JWT
+    async verifyMfaChallenge(mfaToken: string, code: string, context?: SessionContext) {
+        const user = await mfaService.resolveChallenge(mfaToken, 'MFA_CHALLENGE');
+        const attempts = await mfaService.recordAttempt(mfaToken, 'MFA_CHALLENGE');
+
+        if (!(await mfaService.verifyCode(user, code))) {
+            await mfaService.rejectAttempt(mfaToken, 'MFA_CHALLENGE', attempts);
+            throw new Error('Invalid authentication code');
+        }
+
+        await mfaService.consumeChallenge(mfaToken, 'MFA_CHALLENGE');
+        return await this.generateUserAuthResponse(user, context);
+    }
+
+    // Forced enrollment during login, for users whose role requires MFA
+    async startMfaEnrollmentChallenge(mfaToken: string) {
+        const user = await mfaService.resolveChallenge(mfaToken, 'MFA_ENROLL');
+        return await mfaService.beginEnrollment(user.id);
+    }
+
+    async confirmMfaEnrollmentChallenge(mfaToken: string, code: string, context?: SessionContext) {
+        const user = await mfaService.resolveChallenge(mfaToken, 'MFA_ENROLL');
+        const attempts = await mfaService.recordAttempt(mfaToken, 'MFA_ENROLL');
+
+        let recoveryCodes: string[];
+        try {
+            ({ recoveryCodes } = await mfaService.confirmEnrollment(user.id, code));
+        } catch (error: any) {
+            if (error.message === 'Invalid authentication code') {
+                await mfaService.rejectAttempt(mfaToken, 'MFA_ENROLL', attempts);
+            }
+            throw error;
+        }
+
+        await mfaService.consumeChallenge(mfaToken, 'MFA_ENROLL');
+        const result = await this.generateUserAuthResponse(user, context);
+        return { ...result, recoveryCodes };
     }
 
     // Helper to generate standard auth response
-    private async generateUserAuthResponse(user: User) {
+    private async generateUserAuthResponse(user: User, context?: SessionContext) {
         const memberships = await storage.getMembershipsByUser(user.id);
         const roles = memberships.map(m => m.role);
-        const entityIds = memberships.map(m => m.entityId);
 
         let pendingAgreements = [];
         let requiresAgreements = false;
@@ -168,19 +467,11 @@ export class AuthService {
             requiresAgreements = true;
         }
 
-        const jwtToken = jwt.sign(
-            {
-                id: user.id,
-                email: user.email,
-                roles,
-                entityIds
-            },
-            JWT_SECRET,
-            { expiresIn: '24h' }
-        );
+        const { token, refreshToken } = await sessionService.createSession(user, context);
 
         return {
-            token: jwtToken,
+            token,
+            refreshToken,
             user: {
                 id: user.id,
                 name: user.name,
@@ -1,4 +1,5 @@
 import { storage } from "../storage";
+import { transferService } from "./transfer";
 import { insertCampSchema, Camp, campStatusEnum } from "@shared/schema";
 import { z } from "zod";
 
@@ -7,11 +8,12 @@ type CampStatus = typeof campStatusEnum.enumValues[number];
 export class CampService {
 
     /**
-     * Create a new camp in DRAFT status.
+     * Create a new camp in DRAFT status, credited to the school's franchisee.
      */
     async createCamp(data: z.infer<typeof insertCampSchema>) {
+        const franchisee = await transferService.getFranchiseeOf(data.schoolEntityId);
         // Force status to DRAFT on creation
-        const campData = { ...data, status: 'DRAFT' as const };
+        const campData = { ...data, status: 'DRAFT' as const, franchiseeEntityId: franchisee?.id ?? null };
         return await storage.createCamp(campData);
     }
 
@@ -0,0 +1,59 @@
+import { storage } from "../storage";
+import { ChangeHistory } from "@shared/schema";
+
+export class ChangeHistoryService {
+    async getEntityHistory(entityId: number) {
+        const entity = await storage.getEntityById(entityId);
+        if (!entity) throw new Error('Entity not found');
+
+        return await this.withActors(await storage.getChangeHistory('ENTITY', [entityId]));
+    }
+
+    /**
+     * A user's own field changes together with changes to their memberships,
+     * newest first. Membership entries are labelled with the role and entity
+     * so the timeline reads without looking them up.
+     */
+    async getUserHistory(userId: number) {
+        const user = await storage.getUserById(userId);
+        if (!user) throw new Error('User not found');
+
+        const memberships = await storage.getAllMembershipsByUser(userId);
+        const [userChanges, membershipChanges] = await Promise.all([
+            storage.getChangeHistory('USER', [userId]),
+            storage.getChangeHistory('MEMBERSHIP', memberships.map(m => m.id))
+        ]);
+
+        const labels = new Map<number, string>();
+        for (const membership of memberships) {
+            const entity = await storage.getEntityById(membership.entityId);
+            labels.set(membership.id, `${membership.role} at ${entity?.name ?? `entity #${membership.entityId}`}`);
+        }
+
+        const history = [...userChanges, ...membershipChanges]
+            .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime() || b.id - a.id);
+
+        return (await this.withActors(history)).map(entry => ({
+            ...entry,
+            label: entry.recordType === 'MEMBERSHIP' ? labels.get(entry.recordId) ?? null : null
+        }));
+    }
+
+    private async withActors(history: ChangeHistory[]) {
+        const actorIds = Array.from(new Set(history.map(entry => entry.actorUserId).filter((id): id is number => id !== null)));
+        const actors = new Map<number, string>();
+        for (const id of actorIds) {
+            const actor = await storage.getUserById(id);
+            if (actor) actors.set(id, actor.name);
+        }
+
+        return history.map(entry => ({
+            ...entry,
+            actor: entry.actorUserId === null
+                ? null
+                : { id: entry.actorUserId, name: actors.get(entry.actorUserId) ?? `User #${entry.actorUserId}` }
+        }));
+    }
+}
+
+export const changeHistoryService = new ChangeHistoryService();
@@ -0,0 +1,192 @@
+import { storage } from "../storage";
+import { Class, CreateClass, Entity } from "@shared/schema";
+
+// Classes belong to a school or to one of its branches
+const CLASS_UNIT_TYPES: Entity['type'][] = ['SCHOOL', 'BRANCH'];
+
+export function describeClass(found: Pick<Class, 'grade' | 'section' | 'academicYear'>): string {
+    return `Grade ${found.grade}${found.section ? ` ${found.section}` : ''} (${found.academicYear})`;
+}
+
+export class ClassService {
+    private async getUnit(schoolEntityId: number): Promise<Entity> {
+        const unit = await storage.getEntityById(schoolEntityId);
+        if (!unit || !CLASS_UNIT_TYPES.includes(unit.type)) throw new Error('School not found');
+        return unit;
+    }
+
+    async getClass(classId: number): Promise<Class> {
+        const found = await storage.getClassById(classId);
+        if (!found) throw new Error('Class not found');
+        return found;
+    }
+
+    // A school's classes include those of its branches
+    async listForSchool(schoolEntityId: number, academicYear?: string) {
+        await this.getUnit(schoolEntityId);
+        const branches = await storage.getEntitySubtree(schoolEntityId, { type: 'BRANCH' });
+        return await storage.getClassesBySchools([schoolEntityId, ...branches.map(b => b.id)], academicYear);
+    }
+
+    async create(actorId: number, schoolEntityId: number, input: CreateClass) {
+        await this.getUnit(schoolEntityId);
+
+        const existing = await storage.getClassesBySchools([schoolEntityId], input.academicYear);
+        const duplicate = existing.find(c => c.grade === input.grade && (c.section ?? null) === (input.section ?? null));
+        if (duplicate) {
+            throw new Error(`${describeClass(duplicate)} already exists`);
+        }
+
+        const created = await storage.createClass({
+            schoolEntityId,
+            academicYear: input.academicYear,
+            grade: input.grade,
+            section: input.section ?? null,
+            createdBy: actorId
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CLASS_CREATED',
+            entityId: schoolEntityId,
+            targetId: created.id,
+            targetType: 'CLASS',
+            metadata: { class: describeClass(created) }
+        });
+
+        return created;
+    }
+
+    async delete(actorId: number, classId: number) {
+        const found = await this.getClass(classId);
+        await storage.deleteClass(classId);
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CLASS_DELETED',
+            entityId: found.schoolEntityId,
+            targetId: classId,
+            targetType: 'CLASS',
+            metadata: { class: describeClass(found) }
+        });
+    }
+
+    async getTeachers(classId: number) {
+        await this.getClass(classId);
+        const teachers = await storage.getTeachersByClass(classId);
+        return teachers.map(({ id, name, email, phone }) => ({ id, name, email, phone }));
+    }
+
+    /**
+     * Assign a teacher to a class. They need a TEACHER membership at the
+     * class's school or branch, or at the school above its branch.
+     */
+    async assignTeacher(actorId: number, classId: number, teacherUserId: number) {
+        const found = await this.getClass(classId);
+
+        const lineage = await storage.getEntityAncestorIds(found.schoolEntityId);
+        const memberships = await storage.getMembershipsByUser(teacherUserId);
+        if (!memberships.some(m => m.role === 'TEACHER' && lineage.includes(m.entityId))) {
+            throw new Error('User is not a teacher at this school');
+        }
+
+        const current = await storage.getTeachersByClass(classId);
+        if (current.some(teacher => teacher.id === teacherUserId)) {
+            throw new Error('Teacher is already assigned to this class');
+        }
+
+        const assignment = await storage.assignTeacherToClass({ classId, teacherUserId, assignedBy: actorId });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CLASS_TEACHER_ASSIGNED',
+            entityId: found.schoolEntityId,
+            targetId: teacherUserId,
+            targetType: 'USER',
+            metadata: { classId, class: describeClass(found) }
+        });
+
+        return assignment;
+    }
+
+    async unassignTeacher(actorId: number, classId: number, teacherUserId: number) {
+        const found = await this.getClass(classId);
+        await storage.removeTeacherFromClass(classId, teacherUserId);
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CLASS_TEACHER_UNASSIGNED',
+            entityId: found.schoolEntityId,
+            targetId: teacherUserId,
+            targetType: 'USER',
+            metadata: { classId, class: describeClass(found) }
+        });
+    }
+
+    async getStudents(classId: number) {
+        await this.getClass(classId);
+        return await storage.getStudentsByClasses([classId]);
+    }
+
+    /**
+     * Place students in a class. A student sits in one class per academic
+     * year, so any other placement for the same year is replaced, and the
+     * student's grade is kept in step with the class.
+     */
+    async assignStudents(actorId: number, classId: number, studentIds: number[]) {
+        const found = await this.getClass(classId);
+        const unitIds = await storage.getEntitySubtreeIds([found.schoolEntityId]);
+
+        for (const studentId of studentIds) {
+            const student = await storage.getEntityById(studentId);
+            if (!student || student.type !== 'STUDENT' || !unitIds.includes(student.id)) {
+                throw new Error(`Student ${studentId} is not at this school`);
+            }
+        }
+
+        for (const studentId of studentIds) {
+            const placements = await storage.getClassesByStudent(studentId);
+            if (placements.some(p => p.id === classId)) continue;
+
+            for (const previous of placements.filter(p => p.academicYear === found.academicYear)) {
+                await storage.removeStudentFromClass(previous.id, studentId);
+            }
+
+            await storage.addStudentToClass({ classId, studentEntityId: studentId, assignedBy: actorId });
+
+            const student = await storage.getEntityById(studentId);
+            await storage.updateEntity(studentId, { metadata: { ...student!.metadata, grade: found.grade } });
+        }
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CLASS_STUDENTS_ASSIGNED',
+            entityId: found.schoolEntityId,
+            targetId: classId,
+            targetType: 'CLASS',
+            metadata: { class: describeClass(found), studentIds }
+        });
+    }
+
+    async removeStudent(actorId: number, classId: number, studentId: number) {
+        const found = await this.getClass(classId);
+        await storage.removeStudentFromClass(classId, studentId);
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CLASS_STUDENT_REMOVED',
+            entityId: found.schoolEntityId,
+            targetId: studentId,
+            targetType: 'STUDENT',
+            metadata: { classId, class: describeClass(found) }
+        });
+    }
+
+    // Students of the given classes, for enrolling whole classes in a camp
+    async getStudentIdsForClasses(classIds: number[]): Promise<number[]> {
+        const students = await storage.getStudentsByClasses(classIds);
+        return students.map(student => student.id);
+    }
+}
+
+export const classService = new ClassService();
@@ -0,0 +1,315 @@
+import { storage } from "../storage";
+import { recycleBinService } from "./recycleBin";
+import { DuplicateRecordType, DuplicateReview, Entity, ResolveDuplicate, User } from "@shared/schema";
+
+// Names at least this similar (0-1) are compared further
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+// Pairs scoring at least this (0-100) are queued for review
+const REVIEW_SCORE_THRESHOLD = 70;
+
+interface DuplicateMatch<T> {
+    match: T;
+    score: number;
+    reasons: string[];
+}
+
+function normalizeText(value: string | undefined | null): string {
+    return (value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// "The St. Mary's School" and "St Marys" compare equal
+function normalizeSchoolName(name: string): string {
+    return normalizeText(name.replace(/'/g, '')).split(' ').filter(word => !['the', 'school'].includes(word)).join(' ');
+}
+
+// Word order is ignored so "Sharma Priya" matches "Priya Sharma"
+function nameSimilarity(a: string, b: string): number {
+    const left = a.split(' ').sort().join(' ');
+    const right = b.split(' ').sort().join(' ');
+    const longest = Math.max(left.length, right.length);
+    return longest === 0 ? 0 : 1 - levenshtein(left, right) / longest;
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// +91 98765-43210, 098765 43210 and 9876543210 are the same number
+export function normalizePhone(phone: string | undefined | null): string | null {
+    const digits = (phone ?? '').replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+// Mailbox providers ignore case and +tags; Gmail also ignores dots
+export function normalizeEmail(email: string | undefined | null): string | null {
+    if (!email?.includes('@')) return null;
+    let [local, domain] = email.trim().toLowerCase().split('@');
+    local = local.split('+')[0];
+    if (domain === 'gmail.com' || domain === 'googlemail.com') {
+        local = local.replace(/\./g, '');
+        domain = 'gmail.com';
+    }
+    return `${local}@${domain}`;
+}
+
+export class DuplicateService {
+    /**
+     * Existing schools that look like the given one: a similar name, scored
+     * up by the same pincode, address or city. The same name at the same
+     * location is a certain duplicate and is refused when creating a school.
+     */
+    findSchoolMatches(school: { id?: number; name: string; metadata?: Entity['metadata'] }, candidates: Entity[]): DuplicateMatch<Entity>[] {
+        const name = normalizeSchoolName(school.name);
+        const matches: DuplicateMatch<Entity>[] = [];
+
+        for (const candidate of candidates) {
+            if (candidate.id === school.id) continue;
+
+            const similarity = nameSimilarity(name, normalizeSchoolName(candidate.name));
+            if (similarity < NAME_SIMILARITY_THRESHOLD) continue;
+
+            const reasons = [similarity === 1 ? 'Same name' : 'Similar name'];
+            let location = 0;
+            if (school.metadata?.pincode && school.metadata.pincode === candidate.metadata?.pincode) {
+                reasons.push('Same pincode');
+                location = 1;
+            } else if (school.metadata?.address && nameSimilarity(normalizeText(school.metadata.address), normalizeText(candidate.metadata?.address)) >= NAME_SIMILARITY_THRESHOLD) {
+                reasons.push('Similar address');
+                location = 0.8;
+            } else if (school.metadata?.city && normalizeText(school.metadata.city) === normalizeText(candidate.metadata?.city)) {
+                reasons.push('Same city');
+                location = 0.5;
+            }
+
+            matches.push({ match: candidate, score: Math.round(70 * similarity + 30 * location), reasons });
+        }
+
+        return matches.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Students of the same school that look like the given one. A shared name
+     * alone is not enough, since two children may have the same name; it has
+     * to be backed by the same grade, a close age or a parent's phone number.
+     */
+    async findStudentMatches(student: { id?: number; name: string; metadata?: Entity['metadata'] }, parentPhones: string[], candidates: Entity[]): Promise<DuplicateMatch<Entity>[]> {
+        const name = normalizeText(student.name);
+        const phones = new Set(parentPhones.map(normalizePhone).filter((phone): phone is string => phone !== null));
+        const matches: DuplicateMatch<Entity>[] = [];
+
+        for (const candidate of candidates) {
+            if (candidate.id === student.id) continue;
+
+            const similarity = nameSimilarity(name, normalizeText(candidate.name));
+            if (similarity < NAME_SIMILARITY_THRESHOLD) continue;
+
+            const reasons = [similarity === 1 ? 'Same name' : 'Similar name'];
+            let score = 50 * similarity;
+
+            if (student.metadata?.grade && normalizeText(student.metadata.grade) === normalizeText(candidate.metadata?.grade)) {
+                reasons.push('Same grade');
+                score += 20;
+            }
+            if (student.metadata?.age !== undefined && candidate.metadata?.age !== undefined && Math.abs(Number(student.metadata.age) - Number(candidate.metadata.age)) <= 1) {
+                reasons.push('Similar age');
+                score += 10;
+            }
+            if (phones.size > 0 && (await this.getParentPhones(candidate.id)).some(phone => phones.has(phone))) {
+                reasons.push('Same parent phone');
+                score += 20;
+            }
+
+            matches.push({ match: candidate, score: Math.round(score), reasons });
+        }
+
+        return matches.filter(m => m.score >= REVIEW_SCORE_THRESHOLD).sort((a, b) => b.score - a.score);
+    }
+
+    // Other accounts with the same phone number or a variant of the same email address
+    findParentMatches(parent: User, candidates: User[]): DuplicateMatch<User>[] {
+        const email = normalizeEmail(parent.email);
+        const phone = normalizePhone(parent.phone);
+        const matches: DuplicateMatch<User>[] = [];
+
+        for (const candidate of candidates) {
+            if (candidate.id === parent.id || candidate.isServiceAccount) continue;
+
+            const reasons: string[] = [];
+            if (email && normalizeEmail(candidate.email) === email) reasons.push('Same email address');
+            if (phone && normalizePhone(candidate.phone) === phone) reasons.push('Same phone');
+            if (reasons.length === 0) continue;
+
+            matches.push({ match: candidate, score: reasons.length === 2 ? 100 : 80, reasons });
+        }
+
+        return matches.sort((a, b) => b.score - a.score);
+    }
+
+    // Queue a review for each match worth a look; returns the ones queued
+    async flag(recordType: DuplicateRecordType, recordId: number, scopeEntityId: number, matches: DuplicateMatch<Entity | User>[]) {
+        const queued: DuplicateReview[] = [];
+        for (const { match, score, reasons } of matches) {
+            if (score < REVIEW_SCORE_THRESHOLD) continue;
+            const review = await storage.createDuplicateReview({ recordType, recordId, matchId: match.id, scopeEntityId, score, reasons, status: 'PENDING' });
+            if (review) queued.push(review);
+        }
+        return queued;
+    }
+
+    // Compare a newly registered student with the other students of its school and branches
+    async flagStudent(student: Entity, parentPhones: string[]) {
+        const schoolId = await this.getSchoolOf(student);
+        if (!schoolId) return [];
+
+        const candidates = await storage.getEntitySubtree(schoolId, { type: 'STUDENT' });
+        return await this.flag('STUDENT', student.id, schoolId, await this.findStudentMatches(student, parentPhones, candidates));
+    }
+
+    // Only accounts sharing the parent's normalised email or phone are loaded for comparison
+    async flagParent(parent: User, schoolId: number) {
+        const candidates = await storage.getUsersByContact(normalizeEmail(parent.email), normalizePhone(parent.phone));
+        return await this.flag('PARENT', parent.id, schoolId, this.findParentMatches(parent, candidates));
+    }
+
+    // Pending reviews, or those with the given status, with both records described side by side
+    async list(status = 'PENDING') {
+        const reviews = await storage.getDuplicateReviews(status);
+        return await Promise.all(reviews.map(async review => ({
+            ...review,
+            record: await this.describe(review.recordType as DuplicateRecordType, review.recordId),
+            match: await this.describe(review.recordType as DuplicateRecordType, review.matchId)
+        })));
+    }
+
+    /**
+     * Settle a review. DISTINCT keeps both records and stops the pair from
+     * being flagged again. MERGE folds the other record into keepId, moves
+     * it to the recycle bin and closes any other reviews of it.
+     */
+    async resolve(actorId: number, reviewId: number, input: ResolveDuplicate) {
+        const review = await storage.getDuplicateReviewById(reviewId);
+        if (!review) throw new Error('Duplicate review not found');
+        if (review.status !== 'PENDING') throw new Error('Duplicate review is already resolved');
+
+        const recordType = review.recordType as DuplicateRecordType;
+        let mergedId: number | null = null;
+
+        if (input.action === 'MERGE') {
+            if (input.keepId !== review.recordId && input.keepId !== review.matchId) {
+                throw new Error('keepId must be one of the two records under review');
+            }
+            const keepId = input.keepId;
+            mergedId = keepId === review.recordId ? review.matchId : review.recordId;
+
+            if (recordType === 'PARENT') {
+                await this.mergeParents(actorId, mergedId, keepId);
+            } else {
+                await this.mergeEntities(actorId, recordType, mergedId, keepId);
+            }
+            await storage.closeDuplicateReviewsOf(recordType, mergedId, actorId);
+        }
+
+        const resolved = await storage.updateDuplicateReview(reviewId, {
+            status: input.action === 'MERGE' ? 'MERGED' : 'DISTINCT',
+            resolvedBy: actorId,
+            resolvedAt: new Date()
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: input.action === 'MERGE' ? 'DUPLICATE_MERGED' : 'DUPLICATE_DISMISSED',
+            entityId: review.scopeEntityId,
+            targetId: review.id,
+            targetType: 'DUPLICATE_REVIEW',
+            metadata: { recordType, recordId: review.recordId, matchId: review.matchId, keepId: input.keepId, mergedId }
+        });
+
+        return resolved;
+    }
+
+    private async mergeEntities(actorId: number, recordType: DuplicateRecordType, dropId: number, keepId: number) {
+        const [drop, keep] = await Promise.all([storage.getEntityById(dropId), storage.getEntityById(keepId)]);
+        if (!drop || !keep) throw new Error('Record not found');
+
+        let removedMemberships: { userId: number; role: string }[] = [];
+        if (recordType === 'STUDENT') {
+            await storage.mergeStudents(dropId, keepId);
+        } else {
+            const result = await storage.mergeSchools(dropId, keepId);
+            removedMemberships = result.removedMemberships.map(({ userId, role }) => ({ userId, role }));
+            if (result.movedEntities.some(entity => entity.type === 'BRANCH')) {
+                keep.metadata = { ...keep.metadata, hasSubBranches: true };
+            }
+        }
+
+        // Fill in what only the merged record knew
+        const metadata = { ...drop.metadata, ...keep.metadata };
+        if (JSON.stringify(metadata) !== JSON.stringify(keep.metadata ?? {})) {
+            await storage.updateEntity(keepId, { metadata });
+        }
+
+        await recycleBinService.deleteEntity(actorId, drop);
+        if (removedMemberships.length > 0) {
+            await storage.createAuditLog({
+                actorUserId: actorId,
+                action: 'MEMBERSHIPS_REMOVED_BY_MERGE',
+                entityId: keepId,
+                targetId: dropId,
+                targetType: 'ENTITY',
+                metadata: { memberships: removedMemberships }
+            });
+        }
+    }
+
+    private async mergeParents(actorId: number, dropId: number, keepId: number) {
+        const [drop, keep] = await Promise.all([storage.getUserById(dropId), storage.getUserById(keepId)]);
+        if (!drop || !keep) throw new Error('Record not found');
+
+        await storage.mergeParentUsers(dropId, keepId);
+        if (!keep.phone && drop.phone) {
+            await storage.updateUser(keepId, { phone: drop.phone });
+        }
+        await recycleBinService.deleteUser(actorId, drop);
+    }
+
+    private async describe(recordType: DuplicateRecordType, id: number) {
+        if (recordType === 'PARENT') {
+            const user = await storage.getUserById(id);
+            return user ? { id, name: user.name, details: [user.email, user.phone].filter(Boolean) as string[] } : null;
+        }
+
+        const entity = await storage.getEntityById(id);
+        if (!entity) return null;
+        const parent = entity.parentId ? await storage.getEntityById(entity.parentId) : null;
+        const { metadata } = entity;
+        const details = recordType === 'STUDENT'
+            ? [parent?.name, metadata?.grade && `Grade ${metadata.grade}`, metadata?.age !== undefined && `Age ${metadata.age}`, metadata?.rollNumber && `Roll ${metadata.rollNumber}`]
+            : [parent?.name, metadata?.address, metadata?.city, metadata?.pincode];
+        return { id, name: entity.name, details: details.filter(Boolean) as string[] };
+    }
+
+    private async getParentPhones(studentId: number): Promise<string[]> {
+        const phones: string[] = [];
+        for (const link of await storage.getParentStudentLinksByStudent(studentId)) {
+            const phone = normalizePhone((await storage.getUserById(link.parentUserId))?.phone);
+            if (phone) phones.push(phone);
+        }
+        return phones;
+    }
+
+    // The SCHOOL a student belongs to, through its branch if it has one
+    private async getSchoolOf(student: Entity): Promise<number | null> {
+        const lineage = await storage.getEntityAncestors(student.id);
+        return lineage.find(entity => entity.type === 'SCHOOL')?.id ?? null;
+    }
+}
+
+export const duplicateService = new DuplicateService();
@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { sessionService } from "./session";
+import { EntityResolver } from "./access";
+import { Entity } from "@shared/schema";
+
+type EntityStatus = Entity['status'];
+
+export type EntityTransition = 'activate' | 'suspend' | 'reinstate' | 'archive' | 'restore';
+
+interface TransitionRule {
+    from: EntityStatus[];
+    to: EntityStatus;
+    action: string; // Audit log action
+    requiresReason: boolean;
+}
+
+const TRANSITIONS: Record<EntityTransition, TransitionRule> = {
+    activate: { from: ['DRAFT'], to: 'ACTIVE', action: 'ENTITY_ACTIVATED', requiresReason: false },
+    suspend: { from: ['ACTIVE'], to: 'SUSPENDED', action: 'ENTITY_SUSPENDED', requiresReason: true },
+    reinstate: { from: ['SUSPENDED'], to: 'ACTIVE', action: 'ENTITY_REINSTATED', requiresReason: false },
+    archive: { from: ['DRAFT', 'ACTIVE', 'SUSPENDED'], to: 'ARCHIVED', action: 'ENTITY_ARCHIVED', requiresReason: true },
+    restore: { from: ['ARCHIVED'], to: 'ACTIVE', action: 'ENTITY_RESTORED', requiresReason: false },
+};
+
+export const ENTITY_TRANSITIONS = Object.keys(TRANSITIONS) as EntityTransition[];
+
+// Statuses that, on an entity or any of its ancestors, stop writes to it
+const BLOCKING_STATUSES: EntityStatus[] = ['SUSPENDED', 'ARCHIVED'];
+
+export interface WriteBlock {
+    error: string;
+    code: 'ENTITY_SUSPENDED' | 'ENTITY_ARCHIVED';
+}
+
+export class EntityLifecycleService {
+    /**
+     * The nearest suspended or archived entity among this one and its
+     * ancestors, or null when none is. Suspending a franchisee therefore
+     * suspends every school and student beneath it without touching their rows.
+     */
+    async getBlockingEntity(entityId: number): Promise<Entity | null> {
+        const lineage = await storage.getEntityAncestors(entityId);
+        return lineage.find(entity => BLOCKING_STATUSES.includes(entity.status)) ?? null;
+    }
+
+    // Why writes to an entity are refused, or null when they are allowed
+    async getWriteBlock(entityId: number | null | undefined): Promise<WriteBlock | null> {
+        if (entityId === null || entityId === undefined) return null;
+
+        const blocking = await this.getBlockingEntity(entityId);
+        if (!blocking) return null;
+
+        return blocking.status === 'SUSPENDED'
+            ? { error: `${blocking.name} is suspended`, code: 'ENTITY_SUSPENDED' }
+            : { error: `${blocking.name} is archived and read-only`, code: 'ENTITY_ARCHIVED' };
+    }
+
+    // Express middleware refusing changes under a suspended or archived entity
+    requireWritable(resolveEntityId: EntityResolver) {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            try {
+                const block = await this.getWriteBlock(await resolveEntityId(req));
+                if (block) {
+                    return res.status(403).json(block);
+                }
+                next();
+            } catch (error) {
+                console.error('Entity status check error:', error);
+                res.status(500).json({ error: 'Failed to check entity status' });
+            }
+        };
+    }
+
+    /**
+     * Move an entity along its lifecycle. Suspending and archiving need a
+     * reason; bringing an entity back is refused while an ancestor is still
+     * suspended or archived, since it would stay blocked anyway.
+     */
+    async transition(actorId: number, entityId: number, transition: EntityTransition, reason?: string) {
+        const rule = TRANSITIONS[transition];
+
+        const entity = await storage.getEntityById(entityId);
+        if (!entity) throw new Error('Entity not found');
+
+        if (entity.type === 'ORGANIZATION' && BLOCKING_STATUSES.includes(rule.to)) {
+            throw new Error('The organization cannot be suspended or archived');
+        }
+        if (!rule.from.includes(entity.status)) {
+            throw new Error(`Cannot ${transition} an entity that is ${entity.status}`);
+        }
+        if (rule.requiresReason && !reason) {
+            throw new Error(`A reason is required to ${transition}`);
+        }
+
+        if (rule.to === 'ACTIVE' && entity.parentId) {
+            const blocking = await this.getBlockingEntity(entity.parentId);
+            if (blocking) {
+                throw new Error(`Cannot ${transition} while ${blocking.name} is ${blocking.status}`);
+            }
+        }
+
+        if (rule.to === 'ARCHIVED' && await this.hasCampInProgress(entityId)) {
+            throw new Error('Cannot archive while a camp is in progress');
+        }
+
+        const updated = await storage.updateEntity(entityId, {
+            status: rule.to,
+            statusReason: reason ?? null,
+            statusChangedAt: new Date(),
+            statusChangedBy: actorId
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: rule.action,
+            entityId,
+            targetId: entityId,
+            targetType: 'ENTITY',
+            metadata: { entityType: entity.type, entityName: entity.name, from: entity.status, to: rule.to, reason }
+        });
+
+        if (rule.to === 'SUSPENDED') {
+            await this.signOutSuspendedStaff(entityId);
+        }
+
+        return updated;
+    }
+
+    private async hasCampInProgress(entityId: number): Promise<boolean> {
+        const units = [
+            ...await storage.getEntitySubtree(entityId, { type: 'SCHOOL' }),
+            ...await storage.getEntitySubtree(entityId, { type: 'BRANCH' })
+        ];
+        for (const unit of units) {
+            const camps = await storage.getCampsBySchoolEntity(unit.id);
+            if (camps.some(camp => camp.status === 'ACTIVE')) return true;
+        }
+        return false;
+    }
+
+    // End the sessions of staff left without any membership outside the suspended subtree
+    private async signOutSuspendedStaff(entityId: number) {
+        const subtreeIds = await storage.getEntitySubtreeIds([entityId]);
+        const memberships = await storage.getMembershipsByEntities(subtreeIds);
+        const userIds = new Set(memberships.map(m => m.userId));
+
+        for (const userId of Array.from(userIds)) {
+            const usable = await storage.getMembershipsByUser(userId);
+            if (usable.length === 0) {
+                await sessionService.revokeAllSessions(userId, 'ENTITY_SUSPENDED');
+            }
+        }
+    }
+}
+
+export const entityLifecycleService = new EntityLifecycleService();
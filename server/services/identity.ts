@@ -1,19 +1,12 @@
-import crypto from "crypto";
-import bcrypt from "bcrypt";
 import { storage } from "../storage";
-import { sendEmail } from "./email";
-import { User, InsertUser } from "@shared/schema";
+import { sessionService } from "./session";
+import { recycleBinService } from "./recycleBin";
+import { invitationService } from "./invitation";
+import { passwordService } from "./password";
+import { membershipService } from "./membership";
+import { User, InsertUser, Membership } from "@shared/schema";
 
 export class IdentityService {
-    private generateToken(): string {
-        return crypto.randomBytes(32).toString('hex');
-    }
-
-    private generateMagicLink(token: string): string {
-        const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
-        return `${baseUrl}/auth/magic-link?token=${token}`;
-    }
-
     async getAllUsers() {
         return await storage.getAllUsers();
     }
@@ -22,7 +15,16 @@ export class IdentityService {
         return await storage.getUserById(id);
     }
 
-    async inviteUser(actorId: number, email: string, name: string, targetEntityId: number, role: string) {
+    // The fields one user may see of another: never the password, MFA secrets or lockout state
+    toPublicUser(user: User) {
+        const { id, name, email, phone, status, mfaEnabled, createdAt, updatedAt } = user;
+        return { id, name, email, phone, status, mfaEnabled, createdAt, updatedAt };
+    }
+
+    async inviteUser(actorId: number, email: string, name: string, targetEntityId: number, role: string, actorMemberships?: Membership[]) {
+        await membershipService.assertCanGrant(actorId, role, targetEntityId, actorMemberships);
+        await membershipService.assertPositionVacant(role, targetEntityId);
+
         // Check if user already exists
         let user = await storage.getUserByEmail(email);
 
@@ -36,7 +38,7 @@ export class IdentityService {
         }
 
         // Create membership
-        await storage.createMembership({
+        const membership = await storage.createMembership({
             userId: user.id,
             entityId: targetEntityId,
             role: role as any,
@@ -44,39 +46,21 @@ export class IdentityService {
             validFrom: new Date()
         });
 
-        // Generate magic token for invitation
-        const token = this.generateToken();
-        const expiresAt = new Date(Date.now() + 48 * 60 * 60 * 1000); // 48 hours
-
-        await storage.createMagicToken({
-            token,
+        await invitationService.create({
+            kind: 'INVITE',
             email,
-            expiresAt,
-            purpose: 'INVITE',
-            metadata: {
-                targetEntityId,
-                targetRole: role,
-                invitedBy: actorId
-            }
+            name,
+            userId: user.id,
+            entityId: targetEntityId,
+            membershipId: membership.id,
+            role: role as any,
+            invitedBy: actorId
         });
 
-        // Send invitation email
-        const magicLink = this.generateMagicLink(token);
-        const emailHtml = `
-      <h2>Welcome to Smile Stars India</h2>
-      <p>Hello ${name},</p>
-      <p>You have been invited to join Smile Stars India as a ${role}.</p>
-      <p>Click the link below to set up your account:</p>
-      <a href="${magicLink}" style="background: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">Set Up Account</a>
-      <p>This invitation will expire in 48 hours.</p>
-    `;
-
-        await sendEmail(email, 'Welcome to Smile Stars India', emailHtml);
-
         return user;
     }
 
-    async updateUser(actorId: number, userId: number, updates: any) {
+    async updateUser(actorId: number, userId: number, updates: any, actorMemberships?: Membership[]) {
         const existingUser = await storage.getUserById(userId);
         if (!existingUser) {
             throw new Error('User not found');
@@ -97,9 +81,19 @@ export class IdentityService {
             }
         }
 
-        // Hash password
+        // Work out where each role is granted and check the actor may grant it
+        const grants: { role: string; entityId: number }[] = [];
+        if (roles && roles.length > 0) {
+            for (const role of roles) {
+                grants.push({ role, entityId: await membershipService.resolveGrantEntity(role, { franchiseeId, schoolId }) });
+            }
+            await membershipService.assertCanReplaceMemberships(actorId, userId, grants, actorMemberships);
+        }
+
+        // Policy failures throw before anything else is changed
         if (password && password.trim()) {
-            userUpdates.password = await bcrypt.hash(password.trim(), 10);
+            await passwordService.setPassword(existingUser, password.trim());
+            await sessionService.revokeAllSessions(userId, 'PASSWORD_CHANGED');
         }
 
         const updatedUser = await storage.updateUser(userId, userUpdates);
@@ -107,12 +101,9 @@ export class IdentityService {
         // Update memberships
         if (roles && roles.length > 0) {
             await storage.deleteMembershipsByUser(userId);
+            await sessionService.revokeAllSessions(userId, 'MEMBERSHIP_CHANGED');
 
-            for (const role of roles) {
-                let entityId = 1; // Default
-                if (role === 'FRANCHISE_ADMIN' && franchiseeId) entityId = franchiseeId;
-                else if (['PRINCIPAL', 'SCHOOL_ADMIN', 'TEACHER', 'PARENT'].includes(role) && schoolId) entityId = schoolId;
-
+            for (const { role, entityId } of grants) {
                 await storage.createMembership({
                     userId: userId,
                     entityId: entityId,
@@ -130,19 +121,19 @@ export class IdentityService {
         if (actorId === userId && status === 'SUSPENDED') {
             throw new Error('Cannot suspend yourself');
         }
-        return await storage.updateUser(userId, { status: status as any });
+        const updatedUser = await storage.updateUser(userId, { status: status as any });
+        if (status === 'SUSPENDED') {
+            await sessionService.revokeAllSessions(userId, 'SUSPENDED');
+        }
+        return updatedUser;
     }
 
+    // Moves the user to the recycle bin; see RecycleBinService.deleteUser
     async deleteUser(actorId: number, userId: number) {
-        if (actorId === userId) {
-            throw new Error('Cannot delete yourself');
-        }
-
         const user = await storage.getUserById(userId);
         if (!user) throw new Error('User not found');
 
-        await storage.deleteMembershipsByUser(userId);
-        await storage.deleteUser(userId);
+        await recycleBinService.deleteUser(actorId, user);
     }
 }
 
@@ -0,0 +1,214 @@
+import { storage } from "../storage";
+import { sendEmail } from "./email";
+import { magicTokenService } from "./magicToken";
+import { Entity, Invitation, InsertInvitation } from "@shared/schema";
+
+type InvitationKind = Invitation['kind'];
+
+const INVITATION_TTL_MS: Record<InvitationKind, number> = {
+    INVITE: 48 * 60 * 60 * 1000, // 48 hours
+    FRANCHISE_AGREEMENT: 7 * 24 * 60 * 60 * 1000, // 7 days
+    SCHOOL_AGREEMENT: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+// Invitations that have not been acted on and can still be resent or revoked
+const OPEN_STATUSES = ['PENDING', 'EXPIRED'];
+
+export type CreateInvitation = Pick<InsertInvitation, 'kind' | 'email' | 'name' | 'userId' | 'entityId' | 'membershipId' | 'role' | 'invitedBy'>;
+
+export class InvitationService {
+    private buildLink(kind: InvitationKind, token: string): string {
+        switch (kind) {
+            case 'FRANCHISE_AGREEMENT':
+                return `${process.env.FRONTEND_URL || 'http://localhost:5000'}/franchise/agreement/${token}`;
+            case 'SCHOOL_AGREEMENT':
+                return `${process.env.FRONTEND_URL || 'http://localhost:5000'}/school/agreement/${token}`;
+            default:
+                return `${process.env.BASE_URL || 'http://localhost:5000'}/auth/magic-link?token=${token}`;
+        }
+    }
+
+    // Token metadata is rebuilt from the invitation so a resent link behaves exactly like the original
+    private buildTokenMetadata(invitation: CreateInvitation, entity: Entity) {
+        switch (invitation.kind) {
+            case 'FRANCHISE_AGREEMENT':
+                return { franchiseeId: entity.id, franchiseeName: entity.name, userId: invitation.userId };
+            case 'SCHOOL_AGREEMENT':
+                return { schoolId: entity.id, schoolName: entity.name, userId: invitation.userId };
+            default:
+                return { targetEntityId: entity.id, targetRole: invitation.role, invitedBy: invitation.invitedBy ?? undefined };
+        }
+    }
+
+    private async sendInvitationEmail(invitation: CreateInvitation, entity: Entity, token: string) {
+        const link = this.buildLink(invitation.kind, token);
+
+        switch (invitation.kind) {
+            case 'FRANCHISE_AGREEMENT':
+                return await sendEmail(invitation.email, 'Welcome to Smile Stars India - Complete Your Franchise Setup', `
+      <h2>Welcome to Smile Stars India!</h2>
+      <p>Hello ${invitation.name},</p>
+      <p>Congratulations! Your franchise application for <strong>${entity.name}</strong> has been created successfully.</p>
+      <p>Please click the link below to complete the agreement process:</p>
+      <p><a href="${link}" style="background-color: #0066cc; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">Accept Agreements & Activate Franchise</a></p>
+    `);
+            case 'SCHOOL_AGREEMENT':
+                return await sendEmail(invitation.email, 'Welcome to Smile Stars India - Complete Your Setup', `
+      <h2>Welcome to Smile Stars India School Program!</h2>
+      <p>Hello ${invitation.name},</p>
+      <p>Your school <strong>${entity.name}</strong> has been enrolled.</p>
+      <p><a href="${link}">Accept Agreements & Activate School</a></p>
+    `);
+            default:
+                return await sendEmail(invitation.email, 'Welcome to Smile Stars India', `
+      <h2>Welcome to Smile Stars India</h2>
+      <p>Hello ${invitation.name},</p>
+      <p>You have been invited to join Smile Stars India as a ${invitation.role}.</p>
+      <p>Click the link below to set up your account:</p>
+      <a href="${link}" style="background: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">Set Up Account</a>
+      <p>This invitation will expire in 48 hours.</p>
+    `);
+        }
+    }
+
+    // Create a fresh token for the invitation and email the link
+    private async issue(invitation: CreateInvitation) {
+        const entity = await storage.getEntityById(invitation.entityId);
+        if (!entity) throw new Error('Entity not found');
+
+        const expiresAt = new Date(Date.now() + INVITATION_TTL_MS[invitation.kind]);
+        const { token, magicToken } = await magicTokenService.issue({
+            email: invitation.email,
+            expiresAt,
+            purpose: invitation.kind,
+            metadata: this.buildTokenMetadata(invitation, entity)
+        });
+
+        await this.sendInvitationEmail(invitation, entity, token);
+        return magicToken;
+    }
+
+    async create(input: CreateInvitation): Promise<Invitation> {
+        const magicToken = await this.issue(input);
+
+        return await storage.createInvitation({
+            ...input,
+            status: 'PENDING',
+            magicTokenId: magicToken.id,
+            expiresAt: magicToken.expiresAt,
+            lastSentAt: new Date(),
+            sendCount: 1
+        });
+    }
+
+    /**
+     * All invitations with their inviter and entity, newest first. Pending
+     * invitations past their expiry are reported as EXPIRED even before the
+     * scheduled job has caught up with them.
+     */
+    async list() {
+        const invitations = await storage.getAllInvitations();
+        const now = new Date();
+
+        return await Promise.all(invitations.map(async invitation => {
+            const [inviter, entity] = await Promise.all([
+                invitation.invitedBy ? storage.getUserById(invitation.invitedBy) : null,
+                storage.getEntityById(invitation.entityId)
+            ]);
+
+            return {
+                ...invitation,
+                status: invitation.status === 'PENDING' && invitation.expiresAt <= now ? 'EXPIRED' : invitation.status,
+                inviter: inviter ? { id: inviter.id, name: inviter.name, email: inviter.email } : null,
+                entityName: entity?.name ?? null
+            };
+        }));
+    }
+
+    // Send a new link with a fresh expiry; the previous link stops working
+    async resend(actorId: number, invitationId: number) {
+        const invitation = await storage.getInvitationById(invitationId);
+        if (!invitation) throw new Error('Invitation not found');
+        if (!OPEN_STATUSES.includes(invitation.status)) {
+            throw new Error(`Cannot resend an invitation that is ${invitation.status.toLowerCase()}`);
+        }
+
+        await this.invalidateToken(invitation);
+        const magicToken = await this.issue(invitation);
+
+        const updated = await storage.updateInvitation(invitation.id, {
+            status: 'PENDING',
+            magicTokenId: magicToken.id,
+            expiresAt: magicToken.expiresAt,
+            lastSentAt: new Date(),
+            sendCount: invitation.sendCount + 1
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'INVITATION_RESENT',
+            entityId: invitation.entityId,
+            targetId: invitation.userId,
+            targetType: 'USER',
+            metadata: { invitationId: invitation.id, kind: invitation.kind, email: invitation.email, sendCount: updated.sendCount }
+        });
+
+        return updated;
+    }
+
+    /**
+     * Cancel an invitation. Its link stops working and the membership it
+     * created is removed, so an invite sent to the wrong address grants nothing.
+     */
+    async revoke(actorId: number, invitationId: number) {
+        const invitation = await storage.getInvitationById(invitationId);
+        if (!invitation) throw new Error('Invitation not found');
+        if (!OPEN_STATUSES.includes(invitation.status)) {
+            throw new Error(`Cannot revoke an invitation that is ${invitation.status.toLowerCase()}`);
+        }
+
+        await this.invalidateToken(invitation);
+        if (invitation.membershipId) {
+            await storage.deleteMembership(invitation.membershipId);
+        }
+
+        const updated = await storage.updateInvitation(invitation.id, {
+            status: 'REVOKED',
+            revokedAt: new Date(),
+            revokedBy: actorId,
+            membershipId: null
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'INVITATION_REVOKED',
+            entityId: invitation.entityId,
+            targetId: invitation.userId,
+            targetType: 'USER',
+            metadata: { invitationId: invitation.id, kind: invitation.kind, email: invitation.email, role: invitation.role }
+        });
+
+        return updated;
+    }
+
+    // Called once an invitation's token has been redeemed
+    async markAccepted(magicTokenId: number) {
+        const invitation = await storage.getInvitationByMagicTokenId(magicTokenId);
+        if (!invitation || invitation.status === 'ACCEPTED') return;
+
+        await storage.updateInvitation(invitation.id, { status: 'ACCEPTED', acceptedAt: new Date() });
+    }
+
+    async expireInvitations() {
+        const expired = await storage.expirePendingInvitations();
+        return expired.length;
+    }
+
+    private async invalidateToken(invitation: Invitation) {
+        if (invitation.magicTokenId) {
+            await storage.updateMagicToken(invitation.magicTokenId, { usedAt: new Date() });
+        }
+    }
+}
+
+export const invitationService = new InvitationService();
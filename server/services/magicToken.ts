@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { MagicToken } from "@shared/schema";
+
+export type MagicTokenPurpose =
+    'LOGIN' | 'INVITE' | 'OTP' | 'RESET' | 'MFA_CHALLENGE' | 'MFA_ENROLL' | 'FRANCHISE_AGREEMENT' | 'SCHOOL_AGREEMENT';
+
+export interface IssueMagicToken {
+    email: string;
+    purpose: MagicTokenPurpose;
+    expiresAt: Date;
+    metadata?: MagicToken['metadata'];
+    token?: string; // Pre-generated, for callers whose metadata is derived from the token
+}
+
+/**
+ * Magic links, reset links, OTP and MFA challenges all share the magic_tokens
+ * table. Only a SHA-256 hash of each token is stored, every lookup names the
+ * purposes it accepts, and a token can be consumed exactly once.
+ */
+export class MagicTokenService {
+    generateToken(): string {
+        return crypto.randomBytes(32).toString('hex');
+    }
+
+    hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    // Store a new token and hand back the plain value for the link; it cannot be recovered later
+    async issue(input: IssueMagicToken): Promise<{ token: string; magicToken: MagicToken }> {
+        const token = input.token ?? this.generateToken();
+
+        const magicToken = await storage.createMagicToken({
+            tokenHash: this.hashToken(token),
+            email: input.email,
+            expiresAt: input.expiresAt,
+            purpose: input.purpose,
+            metadata: input.metadata
+        });
+
+        return { token, magicToken };
+    }
+
+    /**
+     * The unused token with one of the given purposes, or null. Expiry is
+     * left to the caller so it can tell the user their link has expired.
+     */
+    async find(token: string, purposes: MagicTokenPurpose[]): Promise<MagicToken | null> {
+        const magicToken = await storage.getMagicTokenByHash(this.hashToken(token));
+        if (!magicToken || !purposes.includes(magicToken.purpose as MagicTokenPurpose)) {
+            return null;
+        }
+        return magicToken;
+    }
+
+    // Mark the token used. Returns false if a concurrent request got there first
+    async consume(magicToken: MagicToken): Promise<boolean> {
+        return await storage.consumeMagicToken(magicToken.id);
+    }
+
+    async cleanupExpiredTokens() {
+        return await storage.cleanupExpiredTokens();
+    }
+}
+
+export const magicTokenService = new MagicTokenService();
@@ -0,0 +1,324 @@
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import { sessionService } from "./session";
+import { Membership, MembershipWindow, CreateMembership, Entity } from "@shared/schema";
+
+type Role = Membership['role'];
+type EntityType = Entity['type'];
+
+const EXPIRY_NOTICE_DAYS = 14;
+
+// Roles told about expiring memberships on their own entity or anything beneath it
+const ENTITY_ADMIN_ROLES = ['FRANCHISE_ADMIN', 'PRINCIPAL', 'SCHOOL_ADMIN'];
+const GLOBAL_ADMIN_ROLES = ['SYSTEM_ADMIN', 'ORG_ADMIN'];
+
+// Positions a school has exactly one holder of, backed by a partial unique index
+const SINGLE_HOLDER_ROLES = ['PRINCIPAL', 'SCHOOL_ADMIN'];
+
+// Roles whose grants may target any entity in the organization
+const UNRESTRICTED_GRANTORS = ['SYSTEM_ADMIN', 'ORG_ADMIN'];
+
+const STAFF_GRANTS: Partial<Record<Role, EntityType[]>> = {
+    FRANCHISE_ADMIN: ['FRANCHISEE'],
+    FRANCHISE_STAFF: ['FRANCHISEE'],
+    PRINCIPAL: ['SCHOOL'],
+    SCHOOL_ADMIN: ['SCHOOL'],
+    TEACHER: ['SCHOOL', 'BRANCH'],
+    PARENT: ['SCHOOL', 'BRANCH'],
+    DENTIST: ['ORGANIZATION', 'FRANCHISEE'],
+    TECHNICIAN: ['ORGANIZATION', 'FRANCHISEE'],
+};
+
+/**
+ * Grant matrix: for each role held by the granting user, the roles they may
+ * assign and the entity types each may be assigned on. Apart from the
+ * organization-wide admins, the target entity must also sit inside the
+ * subtree of the membership that carries the grant.
+ */
+export const GRANT_MATRIX: Partial<Record<Role, Partial<Record<Role, EntityType[]>>>> = {
+    SYSTEM_ADMIN: { SYSTEM_ADMIN: ['ORGANIZATION'], ORG_ADMIN: ['ORGANIZATION'], ...STAFF_GRANTS },
+    ORG_ADMIN: STAFF_GRANTS,
+    FRANCHISE_ADMIN: {
+        FRANCHISE_STAFF: ['FRANCHISEE'],
+        PRINCIPAL: ['SCHOOL'],
+        SCHOOL_ADMIN: ['SCHOOL'],
+        TEACHER: ['SCHOOL', 'BRANCH'],
+        PARENT: ['SCHOOL', 'BRANCH'],
+        DENTIST: ['FRANCHISEE'],
+        TECHNICIAN: ['FRANCHISEE'],
+    },
+    PRINCIPAL: { SCHOOL_ADMIN: ['SCHOOL'], TEACHER: ['SCHOOL', 'BRANCH'], PARENT: ['SCHOOL', 'BRANCH'] },
+    SCHOOL_ADMIN: { TEACHER: ['SCHOOL', 'BRANCH'], PARENT: ['SCHOOL', 'BRANCH'] },
+};
+
+export function isMembershipActive(membership: Membership, at: Date = new Date()): boolean {
+    return (!membership.validFrom || membership.validFrom <= at) &&
+        (!membership.validTo || membership.validTo > at);
+}
+
+export class MembershipService {
+    /**
+     * Set or extend a membership's validity window. Clearing the warning
+     * marker lets a later expiry be announced again.
+     */
+    async updateWindow(actorId: number, membershipId: number, window: MembershipWindow) {
+        const membership = await storage.getMembershipById(membershipId);
+        if (!membership) throw new Error('Membership not found');
+
+        const updated = await storage.updateMembership(membershipId, {
+            validFrom: window.validFrom,
+            validTo: window.validTo,
+            expiryNotifiedAt: null
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'UPDATE_MEMBERSHIP_WINDOW',
+            entityId: membership.entityId,
+            targetId: membership.userId,
+            targetType: 'USER',
+            metadata: {
+                membershipId,
+                role: membership.role,
+                previousValidFrom: membership.validFrom,
+                previousValidTo: membership.validTo,
+                validFrom: window.validFrom,
+                validTo: window.validTo
+            }
+        });
+
+        return updated;
+    }
+
+    // Union of the roles, and the entity types for each, that these memberships may grant
+    getGrantableRoles(actorMemberships: Membership[]) {
+        const grantable: Partial<Record<Role, EntityType[]>> = {};
+        for (const membership of actorMemberships) {
+            const grants = GRANT_MATRIX[membership.role] || {};
+            for (const [role, types] of Object.entries(grants) as [Role, EntityType[]][]) {
+                grantable[role] = Array.from(new Set([...(grantable[role] || []), ...types]));
+            }
+        }
+        return grantable;
+    }
+
+    /**
+     * Throw unless one of the actor's memberships may grant the role on the
+     * entity. Pass the request's memberships so an active membership limits
+     * what can be granted; otherwise all of the actor's memberships count.
+     */
+    async assertCanGrant(actorId: number, role: string, entityId: number, actorMemberships?: Membership[]) {
+        const memberships = actorMemberships ?? await storage.getMembershipsByUser(actorId);
+
+        const entity = await storage.getEntityById(entityId);
+        if (!entity) throw new Error('Entity not found');
+
+        const ancestorIds = await storage.getEntityAncestorIds(entityId);
+        const allowed = memberships.some(membership => {
+            const entityTypes = GRANT_MATRIX[membership.role]?.[role as Role];
+            if (!entityTypes?.includes(entity.type)) return false;
+            return UNRESTRICTED_GRANTORS.includes(membership.role) || ancestorIds.includes(membership.entityId);
+        });
+
+        if (!allowed) {
+            throw new Error(`Cannot grant ${role} on ${entity.type.toLowerCase()} ${entity.name}`);
+        }
+    }
+
+    /**
+     * Pick the entity a role is granted on from the franchise or school chosen
+     * in the user form. Organization-level roles go on the root organization.
+     */
+    async resolveGrantEntity(role: string, { franchiseeId, schoolId }: { franchiseeId?: number; schoolId?: number }) {
+        const grantTypes = STAFF_GRANTS[role as Role] || ['ORGANIZATION'];
+
+        if (grantTypes.includes('SCHOOL')) {
+            if (!schoolId) throw new Error(`A school is required for ${role}`);
+            return schoolId;
+        }
+        if (franchiseeId && grantTypes.includes('FRANCHISEE')) return franchiseeId;
+        if (grantTypes.includes('ORGANIZATION')) {
+            const [organization] = await storage.getEntitiesByType('ORGANIZATION');
+            if (!organization) throw new Error('Entity not found');
+            return organization.id;
+        }
+        throw new Error(`A franchise is required for ${role}`);
+    }
+
+    /**
+     * Throw if a single-holder position on the entity is already taken.
+     * The user whose memberships are being rewritten does not count against
+     * themselves. Changing the holder goes through handOverRole instead.
+     */
+    async assertPositionVacant(role: string, entityId: number, exceptUserId?: number) {
+        if (!SINGLE_HOLDER_ROLES.includes(role)) return;
+
+        const holders = (await storage.getMembershipsByEntity(entityId))
+            .filter(m => m.role === role && m.userId !== exceptUserId);
+        if (holders.length > 0) {
+            throw new Error(`Position already filled: this school already has a ${role}. Hand the role over instead.`);
+        }
+    }
+
+    /**
+     * Replacing a user's memberships both grants the new set and takes away
+     * whatever is dropped, so the actor needs grant rights over both. New
+     * grants must not take a position someone else holds.
+     */
+    async assertCanReplaceMemberships(actorId: number, userId: number, grants: { role: string; entityId: number }[], actorMemberships?: Membership[]) {
+        const memberships = actorMemberships ?? await storage.getMembershipsByUser(actorId);
+        const existing = await storage.getAllMembershipsByUser(userId);
+        const removed = existing.filter(m => !grants.some(g => g.role === m.role && g.entityId === m.entityId));
+
+        for (const grant of [...grants, ...removed]) {
+            await this.assertCanGrant(actorId, grant.role, grant.entityId, memberships);
+        }
+        for (const grant of grants) {
+            await this.assertPositionVacant(grant.role, grant.entityId, userId);
+        }
+    }
+
+    async createMembership(actorId: number, input: CreateMembership, actorMemberships?: Membership[]) {
+        await this.assertCanGrant(actorId, input.role, input.entityId, actorMemberships);
+
+        const user = await storage.getUserById(input.userId);
+        if (!user) throw new Error('User not found');
+
+        const existing = await storage.getAllMembershipsByUser(input.userId);
+        if (existing.some(m => m.role === input.role && m.entityId === input.entityId)) {
+            throw new Error('User already has this role on this entity');
+        }
+        await this.assertPositionVacant(input.role, input.entityId);
+
+        const membership = await storage.createMembership({
+            userId: input.userId,
+            entityId: input.entityId,
+            role: input.role,
+            isPrimary: input.isPrimary ?? existing.length === 0,
+            validFrom: new Date()
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CREATE_MEMBERSHIP',
+            entityId: input.entityId,
+            targetId: input.userId,
+            targetType: 'USER',
+            metadata: { membershipId: membership.id, role: input.role }
+        });
+
+        return membership;
+    }
+
+    /**
+     * Move a membership to another user in one step, so the position is
+     * never empty or doubly held. The new holder starts a fresh window and
+     * the previous holder's sessions are revoked. If the school's contact
+     * details named the previous holder they are updated to the new one.
+     */
+    async handOverRole(actorId: number, membershipId: number, toUserId: number, actorMemberships?: Membership[]) {
+        const membership = await storage.getMembershipById(membershipId);
+        if (!membership) throw new Error('Membership not found');
+        if (membership.userId === toUserId) throw new Error('User already has this role on this entity');
+
+        await this.assertCanGrant(actorId, membership.role, membership.entityId, actorMemberships);
+
+        const [fromUser, toUser, entity] = await Promise.all([
+            storage.getUserById(membership.userId),
+            storage.getUserById(toUserId),
+            storage.getEntityById(membership.entityId)
+        ]);
+        if (!toUser) throw new Error('User not found');
+        if (toUser.status === 'SUSPENDED') throw new Error('Cannot hand over a role to a suspended user');
+
+        const toUserMemberships = await storage.getAllMembershipsByUser(toUserId);
+        if (toUserMemberships.some(m => m.role === membership.role && m.entityId === membership.entityId)) {
+            throw new Error('User already has this role on this entity');
+        }
+
+        const updated = await storage.handOverMembership(membershipId, {
+            userId: toUserId,
+            isPrimary: toUserMemberships.length === 0,
+            validFrom: new Date(),
+            validTo: null,
+            expiryNotifiedAt: null
+        }, {
+            actorUserId: actorId,
+            action: 'ROLE_HANDED_OVER',
+            entityId: membership.entityId,
+            targetId: toUserId,
+            targetType: 'USER',
+            metadata: { membershipId, role: membership.role, fromUserId: membership.userId, toUserId }
+        });
+
+        await sessionService.revokeAllSessions(membership.userId, 'MEMBERSHIP_CHANGED');
+
+        // The entity's contact follows the role when it named the outgoing holder
+        const metadata = entity?.metadata || {};
+        if (entity && fromUser && metadata.contactEmail === fromUser.email) {
+            await storage.updateEntity(entity.id, {
+                metadata: { ...metadata, contactPerson: toUser.name, contactEmail: toUser.email }
+            });
+        }
+
+        return updated;
+    }
+
+    // Active admins of the entity's lineage plus organization-wide admins
+    private async getAdminRecipients(entityId: number, excludeUserId: number) {
+        const ancestorIds = await storage.getEntityAncestorIds(entityId);
+
+        const candidates: Membership[] = [];
+        for (const id of ancestorIds) {
+            const entityMemberships = await storage.getMembershipsByEntity(id);
+            candidates.push(...entityMemberships.filter(m => ENTITY_ADMIN_ROLES.includes(m.role)));
+        }
+        for (const role of GLOBAL_ADMIN_ROLES) {
+            candidates.push(...await storage.getMembershipsByRole(role));
+        }
+
+        const userIds = new Set(
+            candidates.filter(m => isMembershipActive(m) && m.userId !== excludeUserId).map(m => m.userId)
+        );
+
+        const recipients = [];
+        for (const userId of Array.from(userIds)) {
+            const user = await storage.getUserById(userId);
+            if (user && user.status === 'ACTIVE') recipients.push(user);
+        }
+        return recipients;
+    }
+
+    /**
+     * Warn admins about memberships whose window closes within the notice
+     * period. Each membership is announced once per window.
+     */
+    async notifyExpiringMemberships() {
+        const cutoff = new Date(Date.now() + EXPIRY_NOTICE_DAYS * 24 * 60 * 60 * 1000);
+        const expiring = await storage.getMembershipsExpiringBy(cutoff);
+
+        for (const membership of expiring) {
+            const [member, entity] = await Promise.all([
+                storage.getUserById(membership.userId),
+                storage.getEntityById(membership.entityId)
+            ]);
+            if (!member || !entity) continue;
+
+            const recipients = await this.getAdminRecipients(membership.entityId, membership.userId);
+            notificationService.notifyMembershipExpiring({ membership, member, entity, recipients });
+
+            await storage.updateMembership(membership.id, { expiryNotifiedAt: new Date() });
+            await storage.createAuditLog({
+                action: 'MEMBERSHIP_EXPIRY_NOTIFIED',
+                entityId: membership.entityId,
+                targetId: membership.userId,
+                targetType: 'USER',
+                metadata: { membershipId: membership.id, role: membership.role, validTo: membership.validTo, recipientCount: recipients.length }
+            });
+        }
+
+        return expiring.length;
+    }
+}
+
+export const membershipService = new MembershipService();
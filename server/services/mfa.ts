@@ -0,0 +1,261 @@
+import crypto from "crypto";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import { magicTokenService } from "./magicToken";
+import { User } from "@shared/schema";
+
+const MFA_ISSUER = 'Smile Stars India';
+const MFA_POLICY_KEY = 'MFA_REQUIRED_ROLES';
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MFA_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+const SECRET_CIPHER_PREFIX = 'enc:';
+
+// TOTP secrets are encrypted at rest; MFA_ENCRYPTION_KEY should be set in production
+const SECRET_KEY = crypto.createHash('sha256')
+    .update(process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'dental-care-secret-key')
+    .digest();
+
+// Allow one step of clock drift between the server and the authenticator app
+authenticator.options = { window: 1 };
+
+export type MfaChallengePurpose = 'MFA_CHALLENGE' | 'MFA_ENROLL';
+
+export class MfaService {
+    private encryptSecret(secret: string): string {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', SECRET_KEY, iv);
+        const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+        return SECRET_CIPHER_PREFIX + [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+    }
+
+    // Secrets stored before encryption was introduced are read as they are
+    private decryptSecret(stored: string): string {
+        if (!stored.startsWith(SECRET_CIPHER_PREFIX)) return stored;
+        const [iv, tag, encrypted] = stored.slice(SECRET_CIPHER_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+        const decipher = crypto.createDecipheriv('aes-256-gcm', SECRET_KEY, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    }
+
+    private hashRecoveryCode(code: string): string {
+        const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+        return crypto.createHash('sha256').update(normalized).digest('hex');
+    }
+
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        });
+    }
+
+    // Roles that must have MFA before a JWT is issued
+    async getRequiredRoles(): Promise<string[]> {
+        const setting = await storage.getSetting(MFA_POLICY_KEY);
+        return Array.isArray(setting?.value) ? setting!.value : [];
+    }
+
+    async setRequiredRoles(actorId: number, roles: string[]): Promise<string[]> {
+        const unique = Array.from(new Set(roles));
+        await storage.upsertSetting(MFA_POLICY_KEY, unique, actorId);
+        return unique;
+    }
+
+    async isRequiredFor(roles: string[]): Promise<boolean> {
+        const requiredRoles = await this.getRequiredRoles();
+        return roles.some(role => requiredRoles.includes(role));
+    }
+
+    /**
+     * Start TOTP enrollment. The secret is stored but MFA stays disabled
+     * until the user proves their authenticator works.
+     */
+    async beginEnrollment(userId: number) {
+        const user = await storage.getUserById(userId);
+        if (!user) throw new Error('User not found');
+        if (user.mfaEnabled) throw new Error('MFA is already enabled');
+
+        const secret = authenticator.generateSecret();
+        await storage.updateUser(userId, { mfaSecret: this.encryptSecret(secret) });
+
+        const otpauthUrl = authenticator.keyuri(user.email, MFA_ISSUER, secret);
+        const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+        return { secret, otpauthUrl, qrCode };
+    }
+
+    /**
+     * Confirm enrollment with a code from the authenticator app.
+     * Returns the plaintext recovery codes; only their hashes are stored.
+     */
+    async confirmEnrollment(userId: number, code: string) {
+        const user = await storage.getUserById(userId);
+        if (!user) throw new Error('User not found');
+        if (user.mfaEnabled) throw new Error('MFA is already enabled');
+        if (!user.mfaSecret) throw new Error('MFA enrollment has not been started');
+
+        if (!authenticator.check(code.trim(), this.decryptSecret(user.mfaSecret))) {
+            throw new Error('Invalid authentication code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await storage.updateUser(userId, {
+            mfaEnabled: true,
+            mfaRecoveryCodes: recoveryCodes.map(c => this.hashRecoveryCode(c))
+        });
+
+        await storage.createAuditLog({
+            actorUserId: userId,
+            action: 'MFA_ENABLED',
+            targetId: userId,
+            targetType: 'USER'
+        });
+
+        return { recoveryCodes };
+    }
+
+    /**
+     * Verify a TOTP code or a recovery code. Recovery codes are single use.
+     */
+    async verifyCode(user: User, code: string): Promise<boolean> {
+        if (!user.mfaEnabled || !user.mfaSecret) return false;
+
+        const trimmed = code.trim();
+        if (/^\d{6}$/.test(trimmed)) {
+            return authenticator.check(trimmed, this.decryptSecret(user.mfaSecret));
+        }
+
+        const remainingCodes = await storage.consumeMfaRecoveryCode(user.id, this.hashRecoveryCode(trimmed));
+        if (remainingCodes === null) return false;
+
+        await storage.createAuditLog({
+            actorUserId: user.id,
+            action: 'MFA_RECOVERY_CODE_USED',
+            targetId: user.id,
+            targetType: 'USER',
+            metadata: { remainingCodes }
+        });
+
+        return true;
+    }
+
+    async regenerateRecoveryCodes(userId: number, code: string) {
+        const user = await storage.getUserById(userId);
+        if (!user) throw new Error('User not found');
+        if (!(await this.verifyCode(user, code))) {
+            throw new Error('Invalid authentication code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await storage.updateUser(userId, {
+            mfaRecoveryCodes: recoveryCodes.map(c => this.hashRecoveryCode(c))
+        });
+
+        return { recoveryCodes };
+    }
+
+    async disable(userId: number, code: string) {
+        const user = await storage.getUserById(userId);
+        if (!user) throw new Error('User not found');
+        if (!user.mfaEnabled) throw new Error('MFA is not enabled');
+
+        const memberships = await storage.getMembershipsByUser(userId);
+        if (await this.isRequiredFor(memberships.map(m => m.role))) {
+            throw new Error('MFA is required for your role and cannot be disabled');
+        }
+
+        if (!(await this.verifyCode(user, code))) {
+            throw new Error('Invalid authentication code');
+        }
+
+        await storage.updateUser(userId, {
+            mfaEnabled: false,
+            mfaSecret: null,
+            mfaRecoveryCodes: null
+        });
+
+        await storage.createAuditLog({
+            actorUserId: userId,
+            action: 'MFA_DISABLED',
+            targetId: userId,
+            targetType: 'USER'
+        });
+    }
+
+    async getStatus(userId: number) {
+        const user = await storage.getUserById(userId);
+        if (!user) throw new Error('User not found');
+
+        const memberships = await storage.getMembershipsByUser(userId);
+        return {
+            enabled: user.mfaEnabled,
+            required: await this.isRequiredFor(memberships.map(m => m.role)),
+            recoveryCodesRemaining: user.mfaRecoveryCodes?.length || 0
+        };
+    }
+
+    // Issue a short-lived token that stands in for the JWT until MFA is satisfied
+    async createChallenge(user: User, purpose: MfaChallengePurpose): Promise<string> {
+        const { token } = await magicTokenService.issue({
+            email: user.email,
+            expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MS),
+            purpose,
+            metadata: { userId: user.id, attempts: 0 }
+        });
+
+        return token;
+    }
+
+    // Look up the user behind a challenge token without consuming it
+    async resolveChallenge(token: string, purpose: MfaChallengePurpose): Promise<User> {
+        const challenge = await magicTokenService.find(token, [purpose]);
+
+        if (!challenge || !challenge.metadata?.userId) {
+            throw new Error('Invalid or expired MFA session');
+        }
+
+        if (new Date() > challenge.expiresAt) {
+            throw new Error('MFA session has expired. Please log in again');
+        }
+
+        const user = await storage.getUserById(challenge.metadata.userId);
+        if (!user) throw new Error('User not found');
+        if (user.status === 'SUSPENDED') throw new Error('Account suspended');
+
+        return user;
+    }
+
+    // Use up a challenge once it has been satisfied
+    async consumeChallenge(token: string, purpose: MfaChallengePurpose) {
+        const challenge = await magicTokenService.find(token, [purpose]);
+        if (!challenge || !(await magicTokenService.consume(challenge))) {
+            throw new Error('Invalid or expired MFA session');
+        }
+    }
+
+    /**
+     * Count an attempt against a challenge before its code is checked, so the
+     * budget holds under parallel guesses. Returns the attempts used so far.
+     */
+    async recordAttempt(token: string, purpose: MfaChallengePurpose): Promise<number> {
+        const challenge = await magicTokenService.find(token, [purpose]);
+        const attempts = challenge && await storage.recordMagicTokenAttempt(challenge.id, MFA_MAX_ATTEMPTS);
+        if (!attempts) {
+            throw new Error('Too many attempts. Please log in again');
+        }
+        return attempts;
+    }
+
+    // Burn the challenge once a wrong code has spent the last attempt
+    async rejectAttempt(token: string, purpose: MfaChallengePurpose, attempts: number) {
+        if (attempts < MFA_MAX_ATTEMPTS) return;
+
+        const challenge = await magicTokenService.find(token, [purpose]);
+        if (challenge) await storage.consumeMagicToken(challenge.id);
+        throw new Error('Too many attempts. Please log in again');
+    }
+}
+
+export const mfaService = new MfaService();
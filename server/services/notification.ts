@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import { sendEmail } from './email';
-import { Camp } from '@shared/schema';
+import { Camp, Entity, Membership, User } from '@shared/schema';
 import { storage } from '../storage';
 
 class NotificationService extends EventEmitter {
@@ -12,6 +12,7 @@ class NotificationService extends EventEmitter {
     private setupListeners() {
         this.on('CAMP_SCHEDULED', this.handleCampScheduled.bind(this));
         this.on('CONSENT_REQUESTED', this.handleConsentRequested.bind(this));
+        this.on('MEMBERSHIP_EXPIRING', this.handleMembershipExpiring.bind(this));
     }
 
     /* Event Handlers */
@@ -28,7 +29,7 @@ class NotificationService extends EventEmitter {
             // 2. We need to find the Principal or School Admin. 
             // Currently, we might rely on the School Metadata or Memberships.
             // For simpler POC, check metadata email.
-            const contactEmail = school.metadata?.principalEmail || school.metadata?.schoolContactEmail || school.metadata?.contactEmail;
+            const contactEmail = school.metadata?.contactEmail;
 
             if (contactEmail) {
                 const subject = `Camp Scheduled: ${camp.name}`;
@@ -52,6 +53,28 @@ class NotificationService extends EventEmitter {
         // Future: Send email/SMS to parent
     }
 
+    private async handleMembershipExpiring(payload: { membership: Membership, member: User, entity: Entity, recipients: User[] }) {
+        try {
+            const { membership, member, entity, recipients } = payload;
+            console.log(`[Notification] Processing MEMBERSHIP_EXPIRING for membership ${membership.id}`);
+
+            const subject = `Access Expiring: ${member.name} (${membership.role.replace('_', ' ')})`;
+            const html = `
+                <h2>Membership Expiring</h2>
+                <p>Hello,</p>
+                <p><strong>${member.name}</strong> (${member.email}) has the <strong>${membership.role.replace('_', ' ')}</strong> role at <strong>${entity.name}</strong>.</p>
+                <p>This access ends on <strong>${new Date(membership.validTo!).toLocaleDateString()}</strong>.</p>
+                <p>If it should continue, log in to the portal and extend the access window from the Users page.</p>
+            `;
+
+            for (const recipient of recipients) {
+                await sendEmail(recipient.email, subject, html);
+            }
+        } catch (error) {
+            console.error('[Notification] Error handling MEMBERSHIP_EXPIRING:', error);
+        }
+    }
+
     /* Public Trigger Methods */
 
     public notifyCampScheduled(camp: Camp) {
@@ -61,6 +84,10 @@ class NotificationService extends EventEmitter {
     public notifyConsentRequested(campId: number, studentId: number) {
         this.emit('CONSENT_REQUESTED', { campId, studentId });
     }
+
+    public notifyMembershipExpiring(payload: { membership: Membership, member: User, entity: Entity, recipients: User[] }) {
+        this.emit('MEMBERSHIP_EXPIRING', payload);
+    }
 }
 
 export const notificationService = new NotificationService();
@@ -1,8 +1,15 @@
 import { storage } from "../storage";
 import { identityService } from "./identity";
-import { authService } from "./auth";
-import { sendEmail } from "./email";
-import { Entity } from "@shared/schema";
+import { invitationService } from "./invitation";
+import { AccessScope, accessService } from "./access";
+import { territoryService } from "./territory";
+import { recycleBinService } from "./recycleBin";
+import { duplicateService } from "./duplicate";
+import { CreateBranch, Entity, EntityWithDepth, EntityTypeCounts, SchoolMetadata, normalizeEntityMetadata } from "@shared/schema";
+
+const MAX_TREE_DEPTH = 3;
+
+export type EntityTreeNode = EntityWithDepth & { counts: EntityTypeCounts; children: EntityTreeNode[] };
 
 export class OrganizationService {
 
@@ -14,6 +21,37 @@ export class OrganizationService {
         return await storage.getEntityById(id);
     }
 
+    /**
+     * An entity with its descendants nested up to `depth` levels down. Every
+     * node carries counts of everything beneath it by type, so a page can
+     * show "12 schools, 840 students" without loading them.
+     */
+    async getTree(entityId: number, depth: number): Promise<EntityTreeNode> {
+        const rows = await storage.getEntitySubtree(entityId, { maxDepth: Math.min(Math.max(depth, 0), MAX_TREE_DEPTH) });
+        if (rows.length === 0) throw new Error('Entity not found');
+
+        const nodes = new Map<number, EntityTreeNode>(rows.map(row => [row.id, { ...row, counts: {}, children: [] }]));
+        for (const { entityId: id, type, count } of await storage.countEntityDescendantsByType(rows.map(row => row.id))) {
+            nodes.get(id)!.counts[type] = count;
+        }
+
+        // Rows come ordered by depth then name, so children end up sorted by name
+        for (const row of rows) {
+            if (row.depth > 0 && row.parentId) nodes.get(row.parentId)?.children.push(nodes.get(row.id)!);
+        }
+
+        return nodes.get(entityId)!;
+    }
+
+    // Ancestors from the highest one the caller can see down to the entity itself
+    async getBreadcrumb(entityId: number, scope: AccessScope): Promise<Entity[]> {
+        const lineage = (await storage.getEntityAncestors(entityId)).reverse();
+        if (lineage.length === 0) throw new Error('Entity not found');
+
+        const firstVisible = lineage.findIndex(entity => accessService.canAccess(scope, entity.id));
+        return firstVisible === -1 ? [] : lineage.slice(firstVisible);
+    }
+
     // Orchestrated Franchise Creation
     async createFranchise(actorId: number, entityData: any, contactPerson: string, contactEmail: string) {
         // Create entity in DRAFT
@@ -24,8 +62,8 @@ export class OrganizationService {
             status: 'DRAFT',
             metadata: {
                 ...entityData.metadata,
-                franchiseContactPerson: contactPerson,
-                franchiseContactEmail: contactEmail
+                contactPerson,
+                contactEmail
             }
         };
 
@@ -50,7 +88,7 @@ export class OrganizationService {
         }
 
         // Create Membership
-        await storage.createMembership({
+        const membership = await storage.createMembership({
             userId: primaryContactUser.id,
             entityId: entity.id,
             role: 'FRANCHISE_ADMIN',
@@ -58,40 +96,46 @@ export class OrganizationService {
             validFrom: new Date()
         });
 
-        // Create AGREEMENT Token (Auth concern, but specific to this flow)
-        const token = authService.generateToken();
-        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-        const magicToken = await storage.createMagicToken({
+        // Agreement link doubles as the contact's invitation
+        await invitationService.create({
+            kind: 'FRANCHISE_AGREEMENT',
             email: contactEmail,
-            token: token,
-            purpose: 'FRANCHISE_AGREEMENT',
-            expiresAt,
-            metadata: {
-                franchiseeId: entity.id,
-                franchiseeName: entity.name,
-                userId: primaryContactUser.id
-            }
+            name: contactPerson,
+            userId: primaryContactUser.id,
+            entityId: entity.id,
+            membershipId: membership.id,
+            role: 'FRANCHISE_ADMIN',
+            invitedBy: actorId
         });
 
-        // Send Email
-        const agreementUrl = `${process.env.FRONTEND_URL || 'http://localhost:5000'}/franchise/agreement/${magicToken.token}`;
-        const emailHtml = `
-      <h2>Welcome to Smile Stars India!</h2>
-      <p>Hello ${contactPerson},</p>
-      <p>Congratulations! Your franchise application for <strong>${entity.name}</strong> has been created successfully.</p>
-      <p>Please click the link below to complete the agreement process:</p>
-      <p><a href="${agreementUrl}" style="background-color: #0066cc; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">Accept Agreements & Activate Franchise</a></p>
-    `;
+        return { entity, primaryContactUser };
+    }
 
-        await sendEmail(contactEmail, 'Welcome to Smile Stars India - Complete Your Franchise Setup', emailHtml);
+    /**
+     * The franchisee a new school belongs to. When the school's state,
+     * district and pincode fall inside a claimed territory that franchisee is
+     * suggested if none was given, and a different one is refused.
+     */
+    async resolveSchoolFranchisee(metadata: Record<string, unknown> | null | undefined, parentId?: number): Promise<number> {
+        const { state, district, pincode } = normalizeEntityMetadata(metadata) as SchoolMetadata;
+        const owner = state
+            ? await territoryService.resolve({ state, district: district || undefined, pincode: pincode || undefined })
+            : null;
+
+        if (!parentId) {
+            if (!owner) throw new Error('Parent ID required');
+            return owner.franchisee.id;
+        }
 
-        return { entity, primaryContactUser };
+        if (owner && owner.franchisee.id !== parentId) {
+            throw new Error(`Location is in the territory of ${owner.franchisee.name}`);
+        }
+        return parentId;
     }
 
     // Orchestrated School Creation
-    async createSchool(actorId: number, entityData: any, contactPerson: string, contactEmail: string, parentId: number) {
-        if (!parentId) throw new Error('Parent ID required');
+    async createSchool(actorId: number, entityData: any, contactPerson: string, contactEmail: string, requestedParentId?: number) {
+        const parentId = await this.resolveSchoolFranchisee(entityData.metadata, requestedParentId);
 
         // Validate Parent
         const parentEntity = await storage.getEntityById(parentId);
@@ -99,11 +143,12 @@ export class OrganizationService {
             throw new Error('Parent must be a valid franchise');
         }
 
-        // Duplicate Check
+        // Duplicate Check: the same name at the same pincode is refused, lookalikes are queued for review
         const existingSchools = await storage.getEntitiesByType('SCHOOL');
-        const duplicate = existingSchools.find(s => s.name.toLowerCase() === entityData.name.toLowerCase());
+        const matches = duplicateService.findSchoolMatches(entityData, existingSchools);
+        const duplicate = matches.find(m => m.score === 100);
         if (duplicate) {
-            throw new Error(`School named "${entityData.name}" already exists`);
+            throw new Error(`School named "${duplicate.match.name}" already exists at this location`);
         }
 
         const schoolData = {
@@ -113,8 +158,8 @@ export class OrganizationService {
             status: 'DRAFT',
             metadata: {
                 ...entityData.metadata,
-                principalName: contactPerson,
-                principalEmail: contactEmail
+                contactPerson,
+                contactEmail
             }
         };
 
@@ -130,7 +175,7 @@ export class OrganizationService {
             });
         }
 
-        await storage.createMembership({
+        const membership = await storage.createMembership({
             userId: principalUser.id,
             entityId: entity.id,
             role: 'SCHOOL_ADMIN',
@@ -138,80 +183,138 @@ export class OrganizationService {
             validFrom: new Date()
         });
 
-        // Create AGREEMENT Token
-        const token = authService.generateToken();
-        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
-
-        const magicToken = await storage.createMagicToken({
+        await invitationService.create({
+            kind: 'SCHOOL_AGREEMENT',
             email: contactEmail,
-            token: token,
-            purpose: 'SCHOOL_AGREEMENT',
-            expiresAt,
-            metadata: {
-                schoolId: entity.id,
-                schoolName: entity.name,
-                userId: principalUser.id
-            }
+            name: contactPerson,
+            userId: principalUser.id,
+            entityId: entity.id,
+            membershipId: membership.id,
+            role: 'SCHOOL_ADMIN',
+            invitedBy: actorId
         });
 
-        const agreementUrl = `${process.env.FRONTEND_URL || 'http://localhost:5000'}/school/agreement/${magicToken.token}`;
-        const emailHtml = `
-      <h2>Welcome to Smile Stars India School Program!</h2>
-      <p>Hello ${contactPerson},</p>
-      <p>Your school <strong>${entity.name}</strong> has been enrolled.</p>
-      <p><a href="${agreementUrl}">Accept Agreements & Activate School</a></p>
-    `;
+        const suspectedDuplicates = await duplicateService.flag('SCHOOL', entity.id, entity.id, matches);
 
-        await sendEmail(contactEmail, 'Welcome to Smile Stars India - Complete Your Setup', emailHtml);
-        return { entity, principalUser };
+        return { entity, principalUser, suspectedDuplicates };
     }
 
     async updateEntity(actorId: number, id: number, updates: any) {
         return await storage.updateEntity(id, updates);
     }
 
+    // Moves the franchise to the recycle bin; its staff are removed only when it is purged
     async deleteFranchise(actorId: number, id: number) {
+        const franchise = await storage.getEntityById(id);
+        if (!franchise || franchise.type !== 'FRANCHISEE') throw new Error('Franchise not found');
+
         const schools = await storage.getEntitiesByParent(id);
-        if (schools.length > 0) throw new Error(`Cannot delete franchise. Has ${schools.length} schools.`);
+        if (schools.length > 0) throw new Error(`Cannot delete franchise. Has ${schools.length} schools; transfer them to another franchisee first.`);
 
-        // Get all memberships for this entity to find associated users
-        const memberships = await storage.getMembershipsByEntity(id);
-        const associatedUserIds = memberships.map(m => m.userId);
+        await recycleBinService.deleteEntity(actorId, franchise);
+    }
 
-        // Delete all memberships for this entity
-        for (const m of memberships) await storage.deleteMembership(m.id);
+    // Moves the school to the recycle bin; its staff are removed only when it is purged
+    async deleteSchool(actorId: number, id: number) {
+        const school = await storage.getEntityById(id);
+        if (!school || school.type !== 'SCHOOL') throw new Error('School not found');
 
-        // For each user, check if they have other memberships. If not, delete user.
-        for (const userId of associatedUserIds) {
-            const userMemberships = await storage.getMembershipsByUser(userId);
-            if (userMemberships.length === 0) {
-                await storage.deleteUser(userId);
-            }
+        const children = await storage.getEntitiesByParent(id);
+        const branches = children.filter(child => child.type === 'BRANCH');
+        if (branches.length > 0) throw new Error(`Cannot delete school. Has ${branches.length} branches.`);
+        if (children.length > 0) throw new Error(`Cannot delete school. Has ${children.length} students.`);
+
+        await recycleBinService.deleteEntity(actorId, school);
+    }
+
+    async getBranches(schoolId: number) {
+        const children = await storage.getEntitiesByParent(schoolId);
+        return children.filter(child => child.type === 'BRANCH');
+    }
+
+    /**
+     * Add a campus to a school. It has its own address, students and camps,
+     * and everything under it rolls up to the school through the hierarchy.
+     */
+    async createBranch(actorId: number, schoolId: number, input: CreateBranch) {
+        const school = await storage.getEntityById(schoolId);
+        if (!school || school.type !== 'SCHOOL') throw new Error('School not found');
+
+        const { name, ...location } = input;
+        const branches = await this.getBranches(schoolId);
+        if (branches.some(branch => branch.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(`Branch named "${name}" already exists`);
         }
 
-        await storage.deleteEntity(id);
+        const branch = await storage.createEntity({
+            type: 'BRANCH',
+            name,
+            parentId: schoolId,
+            status: 'ACTIVE',
+            metadata: location
+        });
+
+        if (!school.metadata?.hasSubBranches) {
+            await storage.updateEntity(schoolId, { metadata: { ...school.metadata, hasSubBranches: true } });
+        }
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'CREATE_ENTITY',
+            entityId: branch.id,
+            metadata: { entityType: branch.type, entityName: branch.name, schoolId }
+        });
+
+        return branch;
     }
 
-    async deleteSchool(actorId: number, id: number) {
+    async updateBranch(actorId: number, id: number, updates: Partial<CreateBranch>) {
+        const branch = await storage.getEntityById(id);
+        if (!branch || branch.type !== 'BRANCH') throw new Error('Branch not found');
+
+        const { name, ...location } = updates;
+        const updated = await storage.updateEntity(id, {
+            ...(name && { name }),
+            metadata: { ...branch.metadata, ...location }
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'UPDATE_ENTITY',
+            entityId: id,
+            metadata: { entityType: updated.type, entityName: updated.name }
+        });
+
+        return updated;
+    }
+
+    // Only an empty branch can go; move its students elsewhere first
+    async deleteBranch(actorId: number, id: number) {
+        const branch = await storage.getEntityById(id);
+        if (!branch || branch.type !== 'BRANCH') throw new Error('Branch not found');
+
         const students = await storage.getEntitiesByParent(id);
-        if (students.length > 0) throw new Error(`Cannot delete school. Has ${students.length} students.`);
+        if (students.length > 0) throw new Error(`Cannot delete branch. Has ${students.length} students.`);
 
-        // Get all memberships for this entity to find associated users
-        const memberships = await storage.getMembershipsByEntity(id);
-        const associatedUserIds = memberships.map(m => m.userId);
+        const camps = await storage.getCampsBySchoolEntity(id);
+        if (camps.length > 0) throw new Error(`Cannot delete branch. Has ${camps.length} camps.`);
 
-        // Delete all memberships for this entity
-        for (const m of memberships) await storage.deleteMembership(m.id);
+        const classes = await storage.getClassesBySchools([id]);
+        if (classes.length > 0) throw new Error(`Cannot delete branch. Has ${classes.length} classes.`);
 
-        // For each user, check if they have other memberships. If not, delete user.
-        for (const userId of associatedUserIds) {
-            const userMemberships = await storage.getMembershipsByUser(userId);
-            if (userMemberships.length === 0) {
-                await storage.deleteUser(userId);
-            }
+        await recycleBinService.deleteEntity(actorId, branch);
+
+        if (branch.parentId && (await this.getBranches(branch.parentId)).length === 0) {
+            const school = await storage.getEntityById(branch.parentId);
+            if (school) await storage.updateEntity(school.id, { metadata: { ...school.metadata, hasSubBranches: false } });
         }
 
-        await storage.deleteEntity(id);
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'DELETE_ENTITY',
+            entityId: id,
+            metadata: { entityType: branch.type, entityName: branch.name, schoolId: branch.parentId }
+        });
     }
 }
 
@@ -0,0 +1,105 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { storage } from "../storage";
+import { User } from "@shared/schema";
+
+const PASSWORD_MIN_LENGTH = 10;
+const PASSWORD_MAX_LENGTH = 128; // bcrypt ignores input past 72 bytes; anything longer is a mistake
+const PASSWORD_HISTORY_SIZE = 5; // Previous passwords that may not be reused
+const BREACH_CHECK_TIMEOUT_MS = 3000;
+
+export class PasswordService {
+    /**
+     * Complexity rules. Returns every rule the password breaks so the user
+     * can fix them all at once; an empty list means the password is acceptable.
+     */
+    getPolicyViolations(password: string, user?: Pick<User, 'email' | 'name'>): string[] {
+        const violations: string[] = [];
+
+        if (password.length < PASSWORD_MIN_LENGTH) violations.push(`at least ${PASSWORD_MIN_LENGTH} characters`);
+        if (password.length > PASSWORD_MAX_LENGTH) violations.push(`at most ${PASSWORD_MAX_LENGTH} characters`);
+        if (!/[a-z]/.test(password)) violations.push('a lowercase letter');
+        if (!/[A-Z]/.test(password)) violations.push('an uppercase letter');
+        if (!/[0-9]/.test(password)) violations.push('a number');
+
+        const lowered = password.toLowerCase();
+        const personal = [user?.email?.split('@')[0], ...(user?.name?.split(/\s+/) || [])]
+            .filter((part): part is string => !!part && part.length >= 3)
+            .map(part => part.toLowerCase());
+        if (personal.some(part => lowered.includes(part))) violations.push('no part of your name or email');
+
+        return violations;
+    }
+
+    /**
+     * Check the password against the Have I Been Pwned range API. Only the
+     * first five characters of the SHA-1 hash leave the server. If the
+     * service cannot be reached the check passes rather than blocking resets.
+     */
+    async isBreached(password: string): Promise<boolean> {
+        const hash = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+        const prefix = hash.slice(0, 5);
+        const suffix = hash.slice(5);
+
+        try {
+            const response = await fetch(`https://api.pwnedpasswords.com/range/${prefix}`, {
+                headers: { 'Add-Padding': 'true' },
+                signal: AbortSignal.timeout(BREACH_CHECK_TIMEOUT_MS)
+            });
+            if (!response.ok) throw new Error(`Breach check returned ${response.status}`);
+
+            const body = await response.text();
+            return body.split('\n').some(line => {
+                const [candidate, count] = line.trim().split(':');
+                return candidate === suffix && parseInt(count) > 0;
+            });
+        } catch (error) {
+            console.error('Password breach check error:', error);
+            return false;
+        }
+    }
+
+    private async wasUsedRecently(user: User, password: string): Promise<boolean> {
+        const history = await storage.getPasswordHistory(user.id, PASSWORD_HISTORY_SIZE);
+        const hashes = [user.password, ...history.map(entry => entry.passwordHash)].filter((hash): hash is string => !!hash);
+
+        for (const hash of hashes) {
+            if (await bcrypt.compare(password, hash)) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Check a new password against the policy, breach list and history
+     * without storing it. Errors all start with "Password" so routes can
+     * answer 400.
+     */
+    async validatePassword(user: User, password: string) {
+        const violations = this.getPolicyViolations(password, user);
+        if (violations.length > 0) {
+            throw new Error(`Password must contain ${violations.join(', ')}`);
+        }
+
+        if (await this.isBreached(password)) {
+            throw new Error('Password has appeared in a known data breach. Please choose a different password.');
+        }
+
+        if (await this.wasUsedRecently(user, password)) {
+            throw new Error(`Password was used recently. Please choose one you have not used in your last ${PASSWORD_HISTORY_SIZE} passwords.`);
+        }
+    }
+
+    /**
+     * Validate a new password, then store it. A successful change also
+     * clears any login lockout.
+     */
+    async setPassword(user: User, password: string) {
+        await this.validatePassword(user, password);
+
+        const passwordHash = await bcrypt.hash(password, 10);
+        await storage.updateUser(user.id, { password: passwordHash, failedLoginAttempts: 0, lockedUntil: null });
+        await storage.addPasswordHistory({ userId: user.id, passwordHash });
+    }
+}
+
+export const passwordService = new PasswordService();
@@ -0,0 +1,166 @@
+import { storage } from "../storage";
+import { sessionService } from "./session";
+import { Entity, User } from "@shared/schema";
+
+// How long deleted users and entities can be restored before they are purged
+export const RECYCLE_BIN_RETENTION_DAYS = 30;
+
+// Children are purged before their parents; a parent with anything left under it waits
+const PURGE_ORDER: Entity['type'][] = ['STUDENT', 'BRANCH', 'SCHOOL', 'FRANCHISEE'];
+
+function purgeDate(deletedAt: Date | null): Date | null {
+    return deletedAt ? new Date(deletedAt.getTime() + RECYCLE_BIN_RETENTION_DAYS * 24 * 60 * 60 * 1000) : null;
+}
+
+export class RecycleBinService {
+    /**
+     * Move an entity to the recycle bin. It and everything beneath it drop
+     * out of every view and memberships on it stop granting access, but its
+     * rows, history and staff stay in place until it is restored or purged.
+     */
+    async deleteEntity(actorId: number, entity: Entity) {
+        await storage.softDeleteEntity(entity.id, actorId);
+
+        const memberships = await storage.getMembershipsByEntity(entity.id);
+        for (const userId of Array.from(new Set(memberships.map(m => m.userId)))) {
+            await sessionService.revokeAllSessions(userId, 'MEMBERSHIP_CHANGED');
+        }
+    }
+
+    /**
+     * Move a user to the recycle bin and sign them out. Their memberships are
+     * removed so roles such as PRINCIPAL can be handed to someone else; they
+     * are kept in the audit log and must be granted again after a restore.
+     */
+    async deleteUser(actorId: number, user: User) {
+        if (actorId === user.id) throw new Error('Cannot delete yourself');
+
+        const memberships = await storage.getAllMembershipsByUser(user.id);
+        await storage.deleteMembershipsByUser(user.id);
+        await sessionService.revokeAllSessions(user.id, 'USER_DELETED');
+        await storage.softDeleteUser(user.id, actorId);
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'DELETE_USER',
+            targetId: user.id,
+            targetType: 'USER',
+            metadata: {
+                deletedUserEmail: user.email,
+                deletedUserName: user.name,
+                memberships: memberships.map(({ entityId, role }) => ({ entityId, role }))
+            }
+        });
+    }
+
+    async list() {
+        const [entities, users] = await Promise.all([storage.getDeletedEntities(), storage.getDeletedUsers()]);
+        return {
+            retentionDays: RECYCLE_BIN_RETENTION_DAYS,
+            entities: entities.map(entity => ({ ...entity, purgeAt: purgeDate(entity.deletedAt) })),
+            users: users.map(({ id, name, email, deletedAt, deletedBy }) => ({ id, name, email, deletedAt, deletedBy, purgeAt: purgeDate(deletedAt) }))
+        };
+    }
+
+    // An entity can come back only under a parent that is not itself in the recycle bin
+    async restoreEntity(actorId: number, entityId: number) {
+        const entity = await storage.getDeletedEntityById(entityId);
+        if (!entity) throw new Error('Deleted entity not found');
+
+        if (entity.parentId) {
+            const parent = await storage.getDeletedEntityById(entity.parentId);
+            if (parent) throw new Error(`Restore ${parent.name} first`);
+        }
+
+        const restored = await storage.restoreEntity(entityId);
+        if (restored.type === 'BRANCH' && restored.parentId) {
+            const school = await storage.getEntityById(restored.parentId);
+            if (school && !school.metadata?.hasSubBranches) {
+                await storage.updateEntity(school.id, { metadata: { ...school.metadata, hasSubBranches: true } });
+            }
+        }
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'RESTORE_ENTITY',
+            entityId,
+            targetId: entityId,
+            targetType: 'ENTITY',
+            metadata: { entityType: entity.type, entityName: entity.name, deletedAt: entity.deletedAt }
+        });
+
+        return restored;
+    }
+
+    async restoreUser(actorId: number, userId: number) {
+        const user = await storage.getDeletedUserById(userId);
+        if (!user) throw new Error('Deleted user not found');
+
+        // The email may have been taken by a new account since the user was deleted
+        if (await storage.getUserByEmail(user.email)) {
+            throw new Error(`Another user now has the email ${user.email}`);
+        }
+
+        const restored = await storage.restoreUser(userId);
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'RESTORE_USER',
+            targetId: userId,
+            targetType: 'USER',
+            metadata: { email: user.email, deletedAt: user.deletedAt }
+        });
+
+        return restored;
+    }
+
+    /**
+     * Permanently remove what has been in the recycle bin longer than the
+     * retention period. A purged student takes its screenings and reports
+     * with it; staff of a purged entity left without any other membership
+     * are removed too.
+     */
+    async purgeExpired() {
+        const cutoff = new Date(Date.now() - RECYCLE_BIN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        let entitiesPurged = 0;
+        let usersPurged = 0;
+
+        const expired = await storage.getDeletedEntities(cutoff);
+        for (const type of PURGE_ORDER) {
+            for (const entity of expired.filter(e => e.type === type)) {
+                if (await storage.hasChildEntities(entity.id)) continue;
+
+                if (entity.type === 'STUDENT') {
+                    await storage.deleteStudent(entity.id);
+                } else {
+                    usersPurged += await this.purgeStaff(entity.id);
+                    await storage.deleteEntity(entity.id);
+                }
+                entitiesPurged++;
+            }
+        }
+
+        for (const user of await storage.getDeletedUsers(cutoff)) {
+            await storage.deleteUser(user.id);
+            usersPurged++;
+        }
+
+        return { entitiesPurged, usersPurged };
+    }
+
+    private async purgeStaff(entityId: number): Promise<number> {
+        const memberships = await storage.getMembershipsByEntity(entityId);
+        for (const m of memberships) await storage.deleteMembership(m.id);
+
+        let purged = 0;
+        for (const userId of Array.from(new Set(memberships.map(m => m.userId)))) {
+            if ((await storage.getAllMembershipsByUser(userId)).length === 0) {
+                await storage.deleteUser(userId);
+                purged++;
+            }
+        }
+        return purged;
+    }
+}
+
+export const recycleBinService = new RecycleBinService();
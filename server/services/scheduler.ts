@@ -0,0 +1,50 @@
+interface ScheduledJob {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>;
+    running: boolean;
+}
+
+/**
+ * In-process interval scheduler for housekeeping jobs. A job that is still
+ * running when its next tick arrives is skipped rather than stacked.
+ */
+export class SchedulerService {
+    private jobs: ScheduledJob[] = [];
+    private started = false;
+
+    register(name: string, intervalMs: number, run: () => Promise<unknown>) {
+        const job = { name, intervalMs, run, running: false };
+        this.jobs.push(job);
+
+        if (this.started) this.schedule(job);
+    }
+
+    start() {
+        if (this.started) return;
+        this.started = true;
+        this.jobs.forEach(job => this.schedule(job));
+    }
+
+    private schedule(job: ScheduledJob) {
+        setInterval(() => this.execute(job), job.intervalMs).unref();
+        // Run once shortly after boot instead of waiting a full interval
+        setTimeout(() => this.execute(job), 30 * 1000).unref();
+    }
+
+    private async execute(job: ScheduledJob) {
+        if (job.running) return;
+        job.running = true;
+
+        try {
+            const result = await job.run();
+            console.log(`[Scheduler] ${job.name} completed`, result ?? '');
+        } catch (error) {
+            console.error(`[Scheduler] ${job.name} failed:`, error);
+        } finally {
+            job.running = false;
+        }
+    }
+}
+
+export const schedulerService = new SchedulerService();
@@ -1,4 +1,5 @@
 import { storage } from "../storage";
+import { academicYearService } from "./academicYear";
 import { insertScreeningSchema, Screening } from "@shared/schema";
 import { z } from "zod";
 
@@ -26,8 +27,12 @@ export class ScreeningService {
         // The schema has campId, ensure it matches student.campId if applicable, 
         // or arguably the screening is TIED to the camp the student is in.
 
-        // 3. Create Screening
-        return await storage.createScreening(data);
+        // 3. Create Screening, recording the grade the student is in now
+        return await storage.createScreening({
+            ...data,
+            grade: student.metadata?.grade ?? null,
+            academicYear: await academicYearService.getCurrentLabelForStudent(student.id)
+        });
     }
 
     /**
@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { membershipService } from "./membership";
+import { ApiKey, CreateApiKey, CreateServiceAccount, Membership, User } from "@shared/schema";
+
+// Keys look like ssk_<48 hex chars>; the prefix lets authentication tell them apart from JWTs
+export const API_KEY_PREFIX = 'ssk_';
+const KEY_PREFIX_DISPLAY_LENGTH = 12;
+
+// Skip the last-used write when the key was used this recently
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Service accounts never receive mail; the reserved .invalid domain guarantees it
+const SERVICE_ACCOUNT_EMAIL_DOMAIN = 'service-accounts.invalid';
+
+export class ServiceAccountService {
+    private hashKey(key: string): string {
+        return crypto.createHash('sha256').update(key).digest('hex');
+    }
+
+    // The hash never leaves the server
+    private toPublicKey({ keyHash, ...apiKey }: ApiKey) {
+        return apiKey;
+    }
+
+    isApiKey(token: string): boolean {
+        return token.startsWith(API_KEY_PREFIX);
+    }
+
+    // Service accounts with their memberships and keys, for the admin screen
+    async list() {
+        const accounts = await storage.getServiceAccounts();
+
+        return await Promise.all(accounts.map(async account => {
+            const [memberships, keys] = await Promise.all([
+                storage.getAllMembershipsByUser(account.id),
+                storage.getApiKeysByUser(account.id)
+            ]);
+            return {
+                id: account.id,
+                name: account.name,
+                status: account.status,
+                createdAt: account.createdAt,
+                memberships,
+                keys: keys.map(key => this.toPublicKey(key))
+            };
+        }));
+    }
+
+    /**
+     * Create a service account holding one role on an entity. The role and
+     * entity decide what the account can see, exactly as for a person, so the
+     * actor must be allowed to grant that role there.
+     */
+    async create(actorId: number, input: CreateServiceAccount, actorMemberships?: Membership[]) {
+        await membershipService.assertCanGrant(actorId, input.role, input.entityId, actorMemberships);
+
+        const account = await storage.createUser({
+            name: input.name,
+            email: `${crypto.randomBytes(8).toString('hex')}@${SERVICE_ACCOUNT_EMAIL_DOMAIN}`,
+            status: 'ACTIVE',
+            isServiceAccount: true
+        });
+
+        const membership = await storage.createMembership({
+            userId: account.id,
+            entityId: input.entityId,
+            role: input.role,
+            isPrimary: true,
+            validFrom: new Date()
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'SERVICE_ACCOUNT_CREATED',
+            entityId: input.entityId,
+            targetId: account.id,
+            targetType: 'USER',
+            metadata: { name: input.name, role: input.role, membershipId: membership.id }
+        });
+
+        return account;
+    }
+
+    // Issue a key for a service account. The plain key is returned once and cannot be recovered
+    async createKey(actorId: number, serviceAccountId: number, input: CreateApiKey) {
+        const account = await storage.getUserById(serviceAccountId);
+        if (!account || !account.isServiceAccount) throw new Error('Service account not found');
+
+        const key = API_KEY_PREFIX + crypto.randomBytes(24).toString('hex');
+        const apiKey = await storage.createApiKey({
+            userId: account.id,
+            name: input.name,
+            keyPrefix: key.slice(0, KEY_PREFIX_DISPLAY_LENGTH),
+            keyHash: this.hashKey(key),
+            permissions: input.permissions,
+            expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+            createdBy: actorId
+        });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'API_KEY_CREATED',
+            targetId: account.id,
+            targetType: 'USER',
+            metadata: { apiKeyId: apiKey.id, name: input.name, permissions: input.permissions, expiresAt: apiKey.expiresAt }
+        });
+
+        return { key, apiKey: this.toPublicKey(apiKey) };
+    }
+
+    async revokeKey(actorId: number, apiKeyId: number) {
+        const apiKey = await storage.getApiKeyById(apiKeyId);
+        if (!apiKey) throw new Error('API key not found');
+        if (apiKey.revokedAt) throw new Error('API key already revoked');
+
+        const updated = await storage.updateApiKey(apiKeyId, { revokedAt: new Date(), revokedBy: actorId });
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'API_KEY_REVOKED',
+            targetId: apiKey.userId,
+            targetType: 'USER',
+            metadata: { apiKeyId, name: apiKey.name }
+        });
+
+        return this.toPublicKey(updated);
+    }
+
+    /**
+     * Resolve a presented key to its service account. Revoked, expired and
+     * unknown keys all fail the same way so callers learn nothing about which.
+     */
+    async authenticate(key: string, ipAddress?: string): Promise<{ apiKey: ApiKey; user: User }> {
+        const apiKey = await storage.getApiKeyByHash(this.hashKey(key));
+        if (!apiKey || apiKey.revokedAt || apiKey.expiresAt <= new Date()) {
+            throw new Error('Invalid API key');
+        }
+
+        const user = await storage.getUserById(apiKey.userId);
+        if (!user || !user.isServiceAccount || user.status !== 'ACTIVE') {
+            throw new Error('Invalid API key');
+        }
+
+        if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+            storage.updateApiKey(apiKey.id, { lastUsedAt: new Date(), lastUsedIp: ipAddress || null })
+                .catch(error => console.error('API key last-used update error:', error));
+        }
+
+        return { apiKey, user };
+    }
+}
+
+export const serviceAccountService = new ServiceAccountService();
@@ -0,0 +1,233 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { storage } from "../storage";
+import { Session, User } from "@shared/schema";
+
+const JWT_SECRET = process.env.JWT_SECRET || "dental-care-secret-key";
+
+const ACCESS_TOKEN_TTL = '15m';
+const IMPERSONATION_TOKEN_TTL = '30m'; // Not refreshable; the admin's own refresh token ends the view
+const IMPERSONATION_TTL_MS = 30 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface SessionContext {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+export interface AccessTokenClaims {
+    id: number;
+    email: string;
+    roles: string[];
+    entityIds: number[];
+    sid: number;
+    impersonatorId?: number;
+}
+
+export class SessionService {
+    private hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    private generateRefreshToken(): string {
+        return crypto.randomBytes(48).toString('hex');
+    }
+
+    private async signAccessToken(user: User, sessionId: number, impersonatorId?: number): Promise<string> {
+        const memberships = await storage.getMembershipsByUser(user.id);
+
+        return jwt.sign(
+            {
+                id: user.id,
+                email: user.email,
+                roles: memberships.map(m => m.role),
+                entityIds: memberships.map(m => m.entityId),
+                sid: sessionId,
+                ...(impersonatorId && { impersonatorId })
+            },
+            JWT_SECRET,
+            { expiresIn: impersonatorId ? IMPERSONATION_TOKEN_TTL : ACCESS_TOKEN_TTL }
+        );
+    }
+
+    // True when every membership the user holds sits under a suspended entity
+    private async isSuspendedByEntity(userId: number): Promise<boolean> {
+        const [usable, all] = await Promise.all([
+            storage.getMembershipsByUser(userId),
+            storage.getMembershipsByUser(userId, true)
+        ]);
+        return usable.length === 0 && all.length > 0;
+    }
+
+    // Open a new session and issue its first access/refresh token pair
+    async createSession(user: User, context: SessionContext = {}) {
+        if (await this.isSuspendedByEntity(user.id)) throw new Error('Organization suspended');
+
+        const refreshToken = this.generateRefreshToken();
+
+        const session = await storage.createSession({
+            userId: user.id,
+            refreshTokenHash: this.hashToken(refreshToken),
+            userAgent: context.userAgent || null,
+            ipAddress: context.ipAddress || null,
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+        });
+
+        const token = await this.signAccessToken(user, session.id);
+        return { token, refreshToken };
+    }
+
+    // A rotated-out refresh token was presented again: end the session it belongs to
+    private async revokeForReuse(session: Session, context: SessionContext): Promise<never> {
+        await storage.updateSession(session.id, { revokedAt: new Date(), revokedReason: 'TOKEN_REUSE' });
+        await storage.createAuditLog({
+            actorUserId: session.userId,
+            action: 'REFRESH_TOKEN_REUSE',
+            targetId: session.id,
+            targetType: 'SESSION',
+            metadata: { ipAddress: context.ipAddress }
+        });
+        throw new Error('Invalid refresh token');
+    }
+
+    /**
+     * Exchange a refresh token for a new token pair. The refresh token is
+     * rotated on every use; presenting a rotated-out token means it was
+     * copied, so the whole session is revoked.
+     */
+    async refresh(refreshToken: string, context: SessionContext = {}) {
+        const hash = this.hashToken(refreshToken);
+        const session = await storage.getSessionByRefreshTokenHash(hash);
+
+        if (!session || session.revokedAt) {
+            throw new Error('Invalid refresh token');
+        }
+
+        if (session.refreshTokenHash !== hash) {
+            await this.revokeForReuse(session, context);
+        }
+
+        if (new Date() > session.expiresAt) {
+            throw new Error('Session expired');
+        }
+
+        const user = await storage.getUserById(session.userId);
+        if (!user || user.status === 'SUSPENDED') {
+            await storage.updateSession(session.id, { revokedAt: new Date(), revokedReason: 'SUSPENDED' });
+            throw new Error('Invalid refresh token');
+        }
+
+        if (await this.isSuspendedByEntity(user.id)) {
+            await storage.updateSession(session.id, { revokedAt: new Date(), revokedReason: 'ENTITY_SUSPENDED' });
+            throw new Error('Invalid refresh token');
+        }
+
+        // Conditional on the presented token, so of two concurrent refreshes only one rotates
+        const nextRefreshToken = this.generateRefreshToken();
+        const rotated = await storage.rotateSessionRefreshToken(session.id, hash, {
+            refreshTokenHash: this.hashToken(nextRefreshToken),
+            previousRefreshTokenHash: hash,
+            lastUsedAt: new Date(),
+            userAgent: context.userAgent || session.userAgent,
+            ipAddress: context.ipAddress || session.ipAddress
+        });
+        if (!rotated) {
+            await this.revokeForReuse(session, context);
+        }
+
+        const token = await this.signAccessToken(user, session.id);
+        return { token, refreshToken: nextRefreshToken };
+    }
+
+    /**
+     * Issue an access token that acts as the target user. It gets a session
+     * of its own under the admin's, so stopping the impersonation revokes it
+     * and revoking the admin's session ends it too.
+     */
+    async impersonate(impersonatorId: number, sessionId: number, targetUserId: number) {
+        if (impersonatorId === targetUserId) throw new Error('Cannot impersonate yourself');
+
+        const target = await storage.getUserById(targetUserId);
+        if (!target) throw new Error('User not found');
+        if (target.status === 'SUSPENDED') throw new Error('Cannot impersonate a suspended user');
+
+        const memberships = await storage.getMembershipsByUser(targetUserId);
+        if (memberships.some(m => m.role === 'SYSTEM_ADMIN')) {
+            throw new Error('Cannot impersonate another system admin');
+        }
+
+        // No refresh token is ever handed out for the view; the hash only fills the column
+        const view = await storage.createSession({
+            userId: impersonatorId,
+            refreshTokenHash: this.hashToken(this.generateRefreshToken()),
+            parentSessionId: sessionId,
+            expiresAt: new Date(Date.now() + IMPERSONATION_TTL_MS)
+        });
+
+        const token = await this.signAccessToken(target, view.id, impersonatorId);
+
+        await storage.createAuditLog({
+            actorUserId: impersonatorId,
+            action: 'IMPERSONATION_STARTED',
+            targetId: targetUserId,
+            targetType: 'USER',
+            metadata: { email: target.email, sessionId }
+        });
+
+        return { token, user: target };
+    }
+
+    async stopImpersonation(impersonatorId: number, targetUserId: number, sessionId: number) {
+        await this.revokeSession(impersonatorId, sessionId, 'IMPERSONATION_ENDED');
+
+        await storage.createAuditLog({
+            actorUserId: impersonatorId,
+            action: 'IMPERSONATION_ENDED',
+            targetId: targetUserId,
+            targetType: 'USER'
+        });
+    }
+
+    private isLive(session: Session | null, ownerId: number): boolean {
+        return !!session && !session.revokedAt && session.userId === ownerId && new Date() <= session.expiresAt;
+    }
+
+    // Verify an access token's signature and that its session is still live
+    async verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+        const decoded = jwt.verify(token, JWT_SECRET) as AccessTokenClaims;
+
+        // Impersonation tokens belong to the admin's session, not the target's
+        const sessionOwnerId = decoded.impersonatorId ?? decoded.id;
+        const session = decoded.sid ? await storage.getSessionById(decoded.sid) : null;
+        if (!this.isLive(session, sessionOwnerId)) {
+            throw new Error('Session revoked');
+        }
+
+        if (session!.parentSessionId && !this.isLive(await storage.getSessionById(session!.parentSessionId), sessionOwnerId)) {
+            throw new Error('Session revoked');
+        }
+
+        return decoded;
+    }
+
+    async getActiveSessions(userId: number) {
+        return await storage.getActiveSessionsByUser(userId);
+    }
+
+    async revokeSession(userId: number, sessionId: number, reason: string = 'LOGOUT') {
+        const session = await storage.getSessionById(sessionId);
+        if (!session || session.userId !== userId) {
+            throw new Error('Session not found');
+        }
+
+        if (!session.revokedAt) {
+            await storage.updateSession(sessionId, { revokedAt: new Date(), revokedReason: reason });
+        }
+    }
+
+    async revokeAllSessions(userId: number, reason: string) {
+        await storage.revokeSessionsByUser(userId, reason);
+    }
+}
+
+export const sessionService = new SessionService();
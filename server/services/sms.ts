@@ -0,0 +1,32 @@
+// SMS gateway
+// Messages are POSTed as JSON to SMS_GATEWAY_URL with SMS_API_KEY as a bearer
+// token. Without both, SMS is unavailable and callers must not offer it.
+const smsGatewayUrl = process.env.SMS_GATEWAY_URL || null;
+const smsApiKey = process.env.SMS_API_KEY || null;
+
+export function isSmsConfigured(): boolean {
+  return !!smsGatewayUrl && !!smsApiKey;
+}
+
+export async function sendSms(to: string, message: string, senderId?: string) {
+  if (!isSmsConfigured()) {
+    throw new Error('SMS is not configured');
+  }
+
+  const sender = senderId || process.env.SMS_SENDER_ID || 'SMILES';
+  const response = await fetch(smsGatewayUrl!, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${smsApiKey}`
+    },
+    body: JSON.stringify({ to, sender, message })
+  });
+
+  // The message can carry a login code, so only the recipient and status are logged
+  if (!response.ok) {
+    console.error(`SMS to ${to} failed with status ${response.status}`);
+    throw new Error('Failed to send SMS');
+  }
+  return true;
+}
@@ -0,0 +1,102 @@
+import { storage } from "../storage";
+import { Entity, Territory, TerritoryClaim, TerritoryLookup } from "@shared/schema";
+
+type Area = Pick<Territory, 'state' | 'district' | 'pincode'>;
+
+// Names are typed by hand, so "tamil  nadu" and "Tamil Nadu" must compare equal
+function normalizeName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+function describeArea(area: Area): string {
+    if (area.pincode) return `pincode ${area.pincode}`;
+    if (area.district) return `${area.district} district, ${area.state}`;
+    return area.state;
+}
+
+// More specific claims win when resolving a location: pincode, then district, then state
+function specificity(area: Area): number {
+    return area.pincode ? 2 : area.district ? 1 : 0;
+}
+
+export class TerritoryService {
+    private normalize(claim: TerritoryClaim): Area {
+        return {
+            state: normalizeName(claim.state),
+            district: claim.district ? normalizeName(claim.district) : null,
+            pincode: claim.pincode ?? null
+        };
+    }
+
+    private async getFranchisee(franchiseeId: number): Promise<Entity> {
+        const franchisee = await storage.getEntityById(franchiseeId);
+        if (!franchisee || franchisee.type !== 'FRANCHISEE') throw new Error('Franchisee not found');
+        return franchisee;
+    }
+
+    async listForFranchisee(franchiseeId: number) {
+        await this.getFranchisee(franchiseeId);
+        return await storage.getTerritoriesByFranchisee(franchiseeId);
+    }
+
+    /**
+     * Add an area to a franchisee's territory. Rejected when it overlaps any
+     * existing claim, including the franchisee's own, so coverage has exactly
+     * one owner and one row per area.
+     */
+    async claim(actorId: number, franchiseeId: number, claim: TerritoryClaim) {
+        const franchisee = await this.getFranchisee(franchiseeId);
+        const area = this.normalize(claim);
+
+        const { territory, conflict } = await storage.claimTerritory({ franchiseeId, ...area, createdBy: actorId });
+        if (!territory) {
+            const owner = conflict!.franchiseeId === franchiseeId ? franchisee : await storage.getEntityById(conflict!.franchiseeId);
+            throw new Error(`Territory overlaps ${describeArea(conflict!)}, already claimed by ${owner?.name ?? `franchisee #${conflict!.franchiseeId}`}`);
+        }
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'TERRITORY_CLAIMED',
+            entityId: franchiseeId,
+            targetId: territory.id,
+            targetType: 'TERRITORY',
+            metadata: { area: describeArea(area) }
+        });
+
+        return territory;
+    }
+
+    async release(actorId: number, territoryId: number) {
+        const territory = await storage.getTerritoryById(territoryId);
+        if (!territory) throw new Error('Territory not found');
+
+        await storage.deleteTerritory(territoryId);
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'TERRITORY_RELEASED',
+            entityId: territory.franchiseeId,
+            targetId: territory.id,
+            targetType: 'TERRITORY',
+            metadata: { area: describeArea(territory) }
+        });
+    }
+
+    // The franchisee whose territory covers a location, or null when nobody has claimed it
+    async resolve(lookup: TerritoryLookup): Promise<{ territory: Territory; franchisee: Entity } | null> {
+        const point = this.normalize(lookup);
+
+        const covering = (await storage.getTerritoriesInState(point.state))
+            .filter(territory => territory.pincode
+                ? territory.pincode === point.pincode
+                : !territory.district || territory.district === point.district)
+            .sort((a, b) => specificity(b) - specificity(a));
+
+        if (covering.length === 0) return null;
+
+        const franchisee = await storage.getEntityById(covering[0].franchiseeId);
+        return franchisee ? { territory: covering[0], franchisee } : null;
+    }
+}
+
+export const territoryService = new TerritoryService();
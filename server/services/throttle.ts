@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { User } from "@shared/schema";
+
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+const CAPTCHA_THRESHOLD = 3; // Failed logins before a CAPTCHA is demanded
+const UNKNOWN_EMAIL_TTL_MS = 24 * 60 * 60 * 1000; // How long failures against unknown emails are remembered
+
+export interface RateLimitPolicy {
+    name: string;
+    limit: number;
+    windowMs: number;
+}
+
+export interface CaptchaVerifier {
+    verify(captchaToken: string, ipAddress?: string): Promise<boolean>;
+}
+
+// reCAPTCHA, hCaptcha and Turnstile all accept the same siteverify form post
+class SiteVerifyCaptchaVerifier implements CaptchaVerifier {
+    constructor(private secret: string, private verifyUrl: string) {}
+
+    async verify(captchaToken: string, ipAddress?: string): Promise<boolean> {
+        const body = new URLSearchParams({ secret: this.secret, response: captchaToken });
+        if (ipAddress) body.set('remoteip', ipAddress);
+
+        const response = await fetch(this.verifyUrl, { method: 'POST', body });
+        if (!response.ok) return false;
+        const result = await response.json();
+        return result.success === true;
+    }
+}
+
+// Failed login state, either from the user row or tracked in memory for unknown emails
+interface LoginFailureState {
+    failedLoginAttempts: number;
+    lockedUntil: Date | null;
+}
+
+export const RATE_LIMITS = {
+    LOGIN_PER_IP: { name: 'login-ip', limit: 20, windowMs: 15 * 60 * 1000 },
+    MAGIC_LINK_PER_IP: { name: 'magic-link-ip', limit: 10, windowMs: 15 * 60 * 1000 },
+    MAGIC_LINK_PER_EMAIL: { name: 'magic-link-email', limit: 5, windowMs: 60 * 60 * 1000 },
+    PASSWORD_RESET_PER_IP: { name: 'password-reset-ip', limit: 10, windowMs: 15 * 60 * 1000 },
+    PASSWORD_RESET_PER_EMAIL: { name: 'password-reset-email', limit: 3, windowMs: 60 * 60 * 1000 },
+    OTP_REQUEST_PER_IP: { name: 'otp-request-ip', limit: 10, windowMs: 15 * 60 * 1000 },
+    OTP_REQUEST_PER_EMAIL: { name: 'otp-request-email', limit: 5, windowMs: 60 * 60 * 1000 },
+    OTP_VERIFY_PER_IP: { name: 'otp-verify-ip', limit: 20, windowMs: 15 * 60 * 1000 },
+    MFA_VERIFY_PER_IP: { name: 'mfa-verify-ip', limit: 20, windowMs: 15 * 60 * 1000 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export class ThrottleService {
+    // Sliding-window hit timestamps keyed by policy and subject (IP or email)
+    private hits = new Map<string, number[]>();
+    // Keys already audited as blocked, until their window clears
+    private blockedUntil = new Map<string, number>();
+    // Failures against emails with no account, so their responses match real accounts
+    private unknownEmailLogins = new Map<string, LoginFailureState & { lastFailedAt: number }>();
+    // Set from CAPTCHA_SECRET (and optionally CAPTCHA_VERIFY_URL); null means no CAPTCHA provider
+    private captchaVerifier: CaptchaVerifier | null = process.env.CAPTCHA_SECRET
+        ? new SiteVerifyCaptchaVerifier(process.env.CAPTCHA_SECRET, process.env.CAPTCHA_VERIFY_URL || 'https://www.google.com/recaptcha/api/siteverify')
+        : null;
+
+    constructor() {
+        // Drop idle keys so the map does not grow without bound
+        setInterval(() => this.prune(), 5 * 60 * 1000).unref();
+    }
+
+    private prune() {
+        const cutoff = Date.now() - Math.max(...Object.values(RATE_LIMITS).map(p => p.windowMs));
+        this.hits.forEach((timestamps, key) => {
+            if (timestamps[timestamps.length - 1] < cutoff) this.hits.delete(key);
+        });
+        this.blockedUntil.forEach((until, key) => {
+            if (until < Date.now()) this.blockedUntil.delete(key);
+        });
+        this.unknownEmailLogins.forEach((state, email) => {
+            if (state.lastFailedAt < Date.now() - UNKNOWN_EMAIL_TTL_MS) this.unknownEmailLogins.delete(email);
+        });
+    }
+
+    /**
+     * Record a hit against a policy. Returns whether it is allowed and,
+     * if not, how long until the oldest hit leaves the window.
+     */
+    hit(policy: RateLimitPolicy, subject: string) {
+        const key = `${policy.name}:${subject.toLowerCase()}`;
+        const now = Date.now();
+        const timestamps = (this.hits.get(key) || []).filter(t => t > now - policy.windowMs);
+
+        this.hits.set(key, timestamps);
+
+        if (timestamps.length >= policy.limit) {
+            const retryAfterMs = timestamps[0] + policy.windowMs - now;
+            const firstRejection = (this.blockedUntil.get(key) || 0) < now;
+            this.blockedUntil.set(key, now + retryAfterMs);
+            return { allowed: false, firstRejection, retryAfterMs };
+        }
+
+        timestamps.push(now);
+        return { allowed: true, firstRejection: false, retryAfterMs: 0 };
+    }
+
+    // Express middleware limiting a route per client IP
+    limitByIp(policy: RateLimitPolicy) {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            const ip = req.ip || 'unknown';
+            const result = this.hit(policy, ip);
+
+            if (!result.allowed) {
+                // Audit once per blocked window so a flood does not flood the audit log too
+                if (result.firstRejection) {
+                    await storage.createAuditLog({
+                        action: 'RATE_LIMIT_EXCEEDED',
+                        metadata: { policy: policy.name, ipAddress: ip, path: req.path }
+                    }).catch(error => console.error('Rate limit audit error:', error));
+                }
+
+                const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+                res.set('Retry-After', String(retryAfter));
+                return res.status(429).json({ error: 'Too many requests. Please try again later.', retryAfter });
+            }
+
+            next();
+        };
+    }
+
+    private getLoginFailureState(email: string, user: User | null): LoginFailureState {
+        if (user) return user;
+        return this.unknownEmailLogins.get(email.toLowerCase()) || { failedLoginAttempts: 0, lockedUntil: null };
+    }
+
+    // Seconds left on an account lockout, or 0 when the account is not locked
+    getLockoutRemaining(email: string, user: User | null): number {
+        const { lockedUntil } = this.getLoginFailureState(email, user);
+        if (!lockedUntil || lockedUntil <= new Date()) return 0;
+        return Math.ceil((lockedUntil.getTime() - Date.now()) / 1000);
+    }
+
+    // A CAPTCHA is only demanded when a provider is configured to check it
+    isCaptchaRequired(email: string, user: User | null): boolean {
+        return !!this.captchaVerifier && this.getLoginFailureState(email, user).failedLoginAttempts >= CAPTCHA_THRESHOLD;
+    }
+
+    setCaptchaVerifier(verifier: CaptchaVerifier | null) {
+        this.captchaVerifier = verifier;
+    }
+
+    // Fails closed: no provider, no token or a provider error all count as unsolved
+    async verifyCaptcha(captchaToken?: string, ipAddress?: string): Promise<boolean> {
+        if (!this.captchaVerifier || !captchaToken) return false;
+
+        try {
+            return await this.captchaVerifier.verify(captchaToken, ipAddress);
+        } catch (error) {
+            console.error('CAPTCHA verification error:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Count a failed password login. The account locks once the limit is
+     * reached, and every further failure after the lock expires re-locks it
+     * until a successful login resets the counter. Emails without an account
+     * are counted in memory the same way, so responses do not reveal which
+     * emails exist.
+     */
+    async recordFailedLogin(email: string, user: User | null, reason: string, ipAddress?: string) {
+        await storage.createAuditLog({
+            actorUserId: user?.id ?? null,
+            action: 'LOGIN_FAILED',
+            targetId: user?.id ?? null,
+            targetType: 'USER',
+            metadata: { email, reason, ipAddress }
+        });
+
+        // Attempts against a locked account are logged but do not extend the lock
+        if (reason === 'ACCOUNT_LOCKED') return;
+
+        if (!user) {
+            const state = this.getLoginFailureState(email, null);
+            const attempts = state.failedLoginAttempts + 1;
+            this.unknownEmailLogins.set(email.toLowerCase(), {
+                failedLoginAttempts: attempts,
+                lockedUntil: attempts >= MAX_FAILED_LOGINS ? new Date(Date.now() + LOCKOUT_MS) : state.lockedUntil,
+                lastFailedAt: Date.now()
+            });
+            return;
+        }
+
+        // The increment is one statement, so parallel failures each count
+        const attempts = await storage.incrementFailedLogins(user.id);
+        if (attempts < MAX_FAILED_LOGINS) return;
+
+        await storage.updateUser(user.id, { lockedUntil: new Date(Date.now() + LOCKOUT_MS) });
+        await storage.createAuditLog({
+            action: 'ACCOUNT_LOCKED',
+            targetId: user.id,
+            targetType: 'USER',
+            metadata: { email, failedAttempts: attempts, lockedForMinutes: LOCKOUT_MS / 60000, ipAddress }
+        });
+    }
+
+    async resetFailedLogins(user: User) {
+        if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+            await storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+        }
+    }
+}
+
+export const throttleService = new ThrottleService();
@@ -0,0 +1,108 @@
+import { storage } from "../storage";
+import { AccessScope, accessService } from "./access";
+import { organizationService } from "./organization";
+import { Camp, Entity, Screening, TransferSchool } from "@shared/schema";
+
+export class TransferService {
+    // The franchisee an entity currently sits under, if any
+    async getFranchiseeOf(entityId: number): Promise<Entity | null> {
+        const lineage = await storage.getEntityAncestors(entityId);
+        return lineage.find(entity => entity.type === 'FRANCHISEE') ?? null;
+    }
+
+    async getHistory(schoolId: number) {
+        const school = await storage.getEntityById(schoolId);
+        if (!school || school.type !== 'SCHOOL') throw new Error('School not found');
+        return await storage.getEntityTransfers(schoolId);
+    }
+
+    /**
+     * Move a school to another franchisee. Its branches, students, camps and
+     * staff memberships hang off the school and follow it. Camps that started
+     * before the effective date stay credited to the franchisee it left, so
+     * that franchisee's reports do not change; later ones move with it.
+     */
+    async transferSchool(actorId: number, schoolId: number, input: TransferSchool) {
+        const school = await storage.getEntityById(schoolId);
+        if (!school || school.type !== 'SCHOOL') throw new Error('School not found');
+
+        const target = await storage.getEntityById(input.targetFranchiseeId);
+        if (!target || target.type !== 'FRANCHISEE') throw new Error('Target must be a valid franchise');
+        if (school.parentId === target.id) throw new Error(`School already belongs to ${target.name}`);
+
+        const effectiveAt = input.effectiveAt ?? new Date();
+        if (effectiveAt > new Date()) throw new Error('Effective date cannot be in the future');
+
+        const [lastTransfer] = await storage.getEntityTransfers(schoolId);
+        if (lastTransfer && effectiveAt < lastTransfer.effectiveAt) {
+            throw new Error(`Effective date must be after the last transfer on ${lastTransfer.effectiveAt.toISOString().slice(0, 10)}`);
+        }
+
+        // Same rule as creating a school: a location inside another franchisee's territory stays theirs
+        await organizationService.resolveSchoolFranchisee(school.metadata, target.id);
+
+        const fromParentId = school.parentId!;
+        const units = [schoolId, ...(await storage.getEntitySubtree(schoolId, { type: 'BRANCH' })).map(branch => branch.id)];
+
+        const { transfer, campsMoved } = await storage.transferSchool({
+            entityId: schoolId,
+            fromParentId,
+            toParentId: target.id,
+            effectiveAt,
+            reason: input.reason ?? null,
+            transferredBy: actorId
+        }, units);
+
+        await storage.createAuditLog({
+            actorUserId: actorId,
+            action: 'SCHOOL_TRANSFERRED',
+            entityId: schoolId,
+            targetId: transfer.id,
+            targetType: 'ENTITY_TRANSFER',
+            metadata: { schoolName: school.name, fromParentId, toParentId: target.id, effectiveAt, reason: input.reason, campsMoved }
+        });
+
+        return transfer;
+    }
+
+    /**
+     * Keep the camps a caller should count in reports. A camp counts towards
+     * the franchisee credited with it: a franchisee that took over a school
+     * does not count the camps it ran before, while the franchisee that ran
+     * them still does. Staff of the school itself count all of its camps.
+     */
+    async filterCreditedCamps(scope: AccessScope, camps: Camp[]): Promise<Camp[]> {
+        if (scope.unrestricted) return camps;
+
+        const currentFranchisee = new Map<number, number | null>();
+        const credited: Camp[] = [];
+
+        for (const camp of camps) {
+            if (!accessService.canAccess(scope, camp.schoolEntityId)) {
+                if (accessService.canAccess(scope, camp.franchiseeEntityId)) credited.push(camp);
+                continue;
+            }
+
+            if (!currentFranchisee.has(camp.schoolEntityId)) {
+                currentFranchisee.set(camp.schoolEntityId, (await this.getFranchiseeOf(camp.schoolEntityId))?.id ?? null);
+            }
+            const current = currentFranchisee.get(camp.schoolEntityId)!;
+            const creditedTo = camp.franchiseeEntityId ?? current;
+
+            if (creditedTo === current || !accessService.canAccess(scope, current) || accessService.canAccess(scope, creditedTo)) {
+                credited.push(camp);
+            }
+        }
+
+        return credited;
+    }
+
+    // Screenings count towards whoever is credited with the camp they were taken at
+    filterCreditedScreenings(scope: AccessScope, screenings: Screening[], creditedCamps: Camp[]): Screening[] {
+        if (scope.unrestricted) return screenings;
+        const campIds = new Set(creditedCamps.map(camp => camp.id));
+        return screenings.filter(screening => campIds.has(screening.campId));
+    }
+}
+
+export const transferService = new TransferService();
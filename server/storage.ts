@@ -1,14 +1,32 @@
 import {
-  User, InsertUser, Entity, InsertEntity, Membership, InsertMembership,
+  User, InsertUser, Entity, InsertEntity, EntityWithDepth, Membership, InsertMembership,
   ParentStudentLink, InsertParentStudentLink, Agreement, InsertAgreement,
   AgreementAcceptance, InsertAgreementAcceptance, AuditLog, InsertAuditLog,
   MagicToken, InsertMagicToken, Camp, InsertCamp, CampEnrollment, InsertCampEnrollment,
   Screening, InsertScreening, Report, InsertReport, Consent, InsertConsent, ContentItem, InsertContentItem,
+  SystemSetting, Session, InsertSession, Invitation, InsertInvitation,
+  PasswordHistory, InsertPasswordHistory, ApiKey, InsertApiKey, Territory, InsertTerritory, EntityTransfer, InsertEntityTransfer,
+  Class, InsertClass, TeacherClass, InsertTeacherClass, StudentClass, InsertStudentClass,
   users, entities, memberships, parentStudentLinks, agreements, agreementAcceptances,
-  auditLogs, magicTokens, camps, campEnrollments, screenings, reports, consents, contentItems
+  auditLogs, magicTokens, camps, campEnrollments, screenings, reports, consents, contentItems, systemSettings, sessions, invitations, passwordHistory, apiKeys, territories, entityTransfers,
+  classes, teacherClasses, studentClasses, parseEntityMetadata,
+  ChangeHistory, InsertChangeHistory, ChangeRecordType, changeHistory,
+  DuplicateReview, InsertDuplicateReview, DuplicateRecordType, duplicateReviews,
+  AcademicYear, InsertAcademicYear, academicYears
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, inArray, isNull, or } from "drizzle-orm";
+import { getRequestActorId } from "./requestContext";
+import { eq, and, desc, asc, inArray, isNull, isNotNull, or, gt, gte, lt, lte, sql } from "drizzle-orm";
+
+// Everything one academic year rollover changes, worked out beforehand by the academic year service
+export interface AcademicYearRolloverWrites {
+  year: AcademicYear; // The current year, closed by the rollover
+  toYear: string;
+  actorId: number;
+  gradeSnapshots: { studentId: number; grade: string }[]; // Grade each student's screenings so far were taken in
+  classes: { fromClassIds: number[]; nextClassId?: number; next: InsertClass }[]; // nextClassId when next year's class already exists
+  students: { studentId: number; updates: Partial<InsertEntity>; fromClassId?: number }[]; // fromClassId places them in the class it carries into
+}
 
 export interface IStorage {
   // Users
@@ -16,7 +34,10 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | null>;
   getUserById(id: number): Promise<User | null>;
   getAllUsers(): Promise<User[]>;
+  getUsersByContact(emailKey: string | null, phoneKey: string | null): Promise<User[]>;
   updateUser(id: number, updates: Partial<InsertUser>): Promise<User>;
+  consumeMfaRecoveryCode(userId: number, codeHash: string): Promise<number | null>;
+  incrementFailedLogins(id: number): Promise<number>;
 
   // Student Actions
   deleteStudent(id: number): Promise<void>;
@@ -32,17 +53,38 @@ export interface IStorage {
   updateEntity(id: number, updates: Partial<InsertEntity>): Promise<Entity>;
   deleteEntity(id: number): Promise<void>;
 
+  // Recycle bin: deleted users and entities are hidden from every other query until restored or purged
+  softDeleteEntity(id: number, deletedBy: number): Promise<void>;
+  softDeleteUser(id: number, deletedBy: number): Promise<void>;
+  getDeletedEntities(deletedBefore?: Date): Promise<Entity[]>;
+  getDeletedUsers(deletedBefore?: Date): Promise<User[]>;
+  getDeletedEntityById(id: number): Promise<Entity | null>;
+  getDeletedUserById(id: number): Promise<User | null>;
+  restoreEntity(id: number): Promise<Entity>;
+  restoreUser(id: number): Promise<User>;
+  hasChildEntities(id: number): Promise<boolean>;
+
   // Entity relationship helpers
   getSchoolsByFranchisee(franchiseeId: number): Promise<Entity[]>;
   getStudentsBySchool(schoolId: number): Promise<Entity[]>;
+  getEntitySubtreeIds(rootIds: number[]): Promise<number[]>;
+  getEntityAncestorIds(entityId: number): Promise<number[]>;
+  getEntitySubtree(rootId: number, options?: { maxDepth?: number; type?: string }): Promise<EntityWithDepth[]>;
+  getEntityAncestors(entityId: number): Promise<Entity[]>;
+  countEntityDescendantsByType(rootIds: number[]): Promise<{ entityId: number; type: Entity['type']; count: number }[]>;
 
   // Memberships
   createMembership(membership: InsertMembership): Promise<Membership>;
-  getMembershipsByUser(userId: number): Promise<Membership[]>;
+  getMembershipsByUser(userId: number, includeSuspended?: boolean): Promise<Membership[]>;
+  getAllMembershipsByUser(userId: number): Promise<Membership[]>;
+  getMembershipById(id: number): Promise<Membership | null>;
+  getMembershipsExpiringBy(cutoff: Date): Promise<Membership[]>;
   getMembershipsByEntity(entityId: number): Promise<Membership[]>;
+  getMembershipsByEntities(entityIds: number[]): Promise<Membership[]>;
   getMembershipsByRole(role: string): Promise<Membership[]>;
   updateMembership(id: number, updates: Partial<InsertMembership>): Promise<Membership>;
   deleteMembership(id: number): Promise<void>;
+  handOverMembership(id: number, updates: Partial<InsertMembership>, auditLog: InsertAuditLog): Promise<Membership>;
 
   // Parent-Student Links
   createParentStudentLink(link: InsertParentStudentLink): Promise<ParentStudentLink>;
@@ -63,9 +105,90 @@ export interface IStorage {
 
   // Magic Tokens
   createMagicToken(token: InsertMagicToken): Promise<MagicToken>;
-  getMagicTokenByToken(token: string): Promise<MagicToken | null>;
-  markMagicTokenUsed(token: string): Promise<void>;
-  cleanupExpiredTokens(): Promise<void>;
+  getMagicTokenByHash(tokenHash: string): Promise<MagicToken | null>;
+  getLatestMagicTokenByEmail(email: string, purpose: string): Promise<MagicToken | null>;
+  updateMagicToken(id: number, updates: Partial<InsertMagicToken>): Promise<MagicToken>;
+  recordMagicTokenAttempt(id: number, maxAttempts: number): Promise<number | null>;
+  invalidateMagicTokensByEmail(email: string, purpose: string): Promise<void>;
+  consumeMagicToken(id: number): Promise<boolean>;
+  cleanupExpiredTokens(): Promise<number>;
+
+  // Password history
+  addPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory>;
+  getPasswordHistory(userId: number, limit: number): Promise<PasswordHistory[]>;
+
+  // Invitations
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  getInvitationById(id: number): Promise<Invitation | null>;
+  getInvitationByMagicTokenId(magicTokenId: number): Promise<Invitation | null>;
+  getAllInvitations(): Promise<Invitation[]>;
+  updateInvitation(id: number, updates: Partial<InsertInvitation>): Promise<Invitation>;
+  expirePendingInvitations(): Promise<Invitation[]>;
+
+  // Sessions
+  createSession(session: InsertSession): Promise<Session>;
+  getSessionById(id: number): Promise<Session | null>;
+  getSessionByRefreshTokenHash(hash: string): Promise<Session | null>;
+  getActiveSessionsByUser(userId: number): Promise<Session[]>;
+  updateSession(id: number, updates: Partial<InsertSession>): Promise<Session>;
+  rotateSessionRefreshToken(id: number, currentHash: string, updates: Partial<InsertSession>): Promise<Session | null>;
+  revokeSessionsByUser(userId: number, reason: string): Promise<void>;
+
+  // API keys
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeyById(id: number): Promise<ApiKey | null>;
+  getApiKeyByHash(hash: string): Promise<ApiKey | null>;
+  getApiKeysByUser(userId: number): Promise<ApiKey[]>;
+  updateApiKey(id: number, updates: Partial<InsertApiKey>): Promise<ApiKey>;
+  getServiceAccounts(): Promise<User[]>;
+
+  // Territories
+  claimTerritory(territory: InsertTerritory): Promise<{ territory: Territory | null; conflict: Territory | null }>;
+  getTerritoryById(id: number): Promise<Territory | null>;
+  getTerritoriesByFranchisee(franchiseeId: number): Promise<Territory[]>;
+  getTerritoriesInState(state: string): Promise<Territory[]>;
+  deleteTerritory(id: number): Promise<void>;
+
+  // Entity Transfers
+  transferSchool(transfer: InsertEntityTransfer, unitIds: number[]): Promise<{ transfer: EntityTransfer; campsMoved: number }>;
+  getEntityTransfers(entityId: number): Promise<EntityTransfer[]>;
+
+  // Change history: recorded automatically by every update to a user, entity or membership
+  getChangeHistory(recordType: ChangeRecordType, recordIds: number[]): Promise<ChangeHistory[]>;
+
+  // Duplicate Reviews
+  createDuplicateReview(review: InsertDuplicateReview): Promise<DuplicateReview | null>;
+  getDuplicateReviews(status?: string): Promise<DuplicateReview[]>;
+  getDuplicateReviewById(id: number): Promise<DuplicateReview | null>;
+  updateDuplicateReview(id: number, updates: Partial<InsertDuplicateReview>): Promise<DuplicateReview>;
+  closeDuplicateReviewsOf(recordType: DuplicateRecordType, recordId: number, resolvedBy: number): Promise<void>;
+  mergeStudents(dropId: number, keepId: number): Promise<void>;
+  mergeSchools(dropId: number, keepId: number): Promise<{ movedEntities: Entity[]; removedMemberships: Membership[] }>;
+  mergeParentUsers(dropId: number, keepId: number): Promise<{ removedMemberships: Membership[] }>;
+
+  // Classes
+  createClass(classData: InsertClass): Promise<Class>;
+  getClassById(id: number): Promise<Class | null>;
+  getClassesBySchools(schoolEntityIds: number[], academicYear?: string): Promise<Class[]>;
+  deleteClass(id: number): Promise<void>;
+  assignTeacherToClass(assignment: InsertTeacherClass): Promise<TeacherClass>;
+  removeTeacherFromClass(classId: number, teacherUserId: number): Promise<void>;
+  getTeachersByClass(classId: number): Promise<User[]>;
+  getClassesByTeacher(teacherUserId: number): Promise<Class[]>;
+  addStudentToClass(placement: InsertStudentClass): Promise<StudentClass>;
+  removeStudentFromClass(classId: number, studentEntityId: number): Promise<void>;
+  getStudentsByClasses(classIds: number[]): Promise<Entity[]>;
+  getClassesByStudent(studentEntityId: number): Promise<Class[]>;
+
+  // Academic Years
+  createAcademicYear(year: InsertAcademicYear): Promise<AcademicYear>;
+  getAcademicYears(schoolEntityId: number): Promise<AcademicYear[]>;
+  getCurrentAcademicYear(schoolEntityId: number): Promise<AcademicYear | null>;
+  rollOverAcademicYear(writes: AcademicYearRolloverWrites): Promise<AcademicYear | null>;
+
+  // System Settings
+  getSetting(key: string): Promise<SystemSetting | null>;
+  upsertSetting(key: string, value: any, updatedBy?: number): Promise<SystemSetting>;
 
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
@@ -120,6 +243,46 @@ export interface IStorage {
 }
 
 // Database Storage Implementation
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Bookkeeping columns that change on their own and would only clutter change history
+const UNTRACKED_FIELDS = new Set(['updatedAt', 'failedLoginAttempts', 'expiryNotifiedAt']);
+// Secrets are noted as changed without keeping either value
+const REDACTED_FIELDS = new Set(['password', 'mfaSecret', 'mfaRecoveryCodes']);
+
+// Entity metadata is compared field by field so a history entry names metadata.city rather than the whole blob
+function flattenForHistory(row: Record<string, any>): Record<string, any> {
+  const flat: Record<string, any> = {};
+  for (const [field, value] of Object.entries(row)) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    if (field === 'metadata' && value && typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) flat[`metadata.${key}`] = nested;
+    } else {
+      flat[field] = value;
+    }
+  }
+  return flat;
+}
+
+// The history entry for an update, or null when nothing tracked changed
+function changeEntry(recordType: ChangeRecordType, before: Record<string, any> | undefined, after: Record<string, any> | undefined): InsertChangeHistory | null {
+  if (!before || !after) return null;
+
+  const from = flattenForHistory(before);
+  const to = flattenForHistory(after);
+  const changes: Record<string, { from: any; to: any }> = {};
+
+  for (const field of Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))) {
+    if (JSON.stringify(from[field] ?? null) === JSON.stringify(to[field] ?? null)) continue;
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { from: '[redacted]', to: '[redacted]' }
+      : { from: from[field] ?? null, to: to[field] ?? null };
+  }
+
+  if (Object.keys(changes).length === 0) return null;
+  return { recordType, recordId: after.id, actorUserId: getRequestActorId(), changes };
+}
+
 export class DatabaseStorage implements IStorage {
   // Users
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -131,60 +294,117 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await db.select().from(users).where(and(eq(users.email, email), isNull(users.deletedAt)));
     return user || null;
   }
 
   async getUserById(id: number): Promise<User | null> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await db.select().from(users).where(and(eq(users.id, id), isNull(users.deletedAt)));
     return user || null;
   }
 
   async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(asc(users.name));
+    return await db.select().from(users).where(isNull(users.deletedAt)).orderBy(asc(users.name));
+  }
+
+  // Users whose email or phone normalises to the given keys. The expressions mirror
+  // normalizeEmail and normalizePhone in services/duplicate.ts.
+  async getUsersByContact(emailKey: string | null, phoneKey: string | null): Promise<User[]> {
+    if (!emailKey && !phoneKey) return [];
+
+    const email = sql`lower(trim(${users.email}))`;
+    const local = sql`split_part(split_part(${email}, '@', 1), '+', 1)`;
+    const domain = sql`split_part(${email}, '@', 2)`;
+    const normalizedEmail = sql`case when ${domain} in ('gmail.com', 'googlemail.com')
+      then replace(${local}, '.', '') || '@gmail.com' else ${local} || '@' || ${domain} end`;
+    const normalizedPhone = sql`right(regexp_replace(coalesce(${users.phone}, ''), '\\D', '', 'g'), 10)`;
+
+    return await db.select().from(users).where(and(
+      isNull(users.deletedAt),
+      or(
+        emailKey ? sql`${normalizedEmail} = ${emailKey}` : undefined,
+        phoneKey ? sql`${normalizedPhone} = ${phoneKey}` : undefined
+      )
+    ));
   }
 
   async updateUser(id: number, updates: Partial<InsertUser>): Promise<User> {
+    const [before] = await db.select().from(users).where(eq(users.id, id));
     const [user] = await db
       .update(users)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(users.id, id))
       .returning();
+    await this.recordChanges('USER', before, user);
     return user;
   }
 
+  // Counts a failed login in one statement and returns the new total
+  async incrementFailedLogins(id: number): Promise<number> {
+    const [user] = await db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, id))
+      .returning({ failedLoginAttempts: users.failedLoginAttempts });
+    return user.failedLoginAttempts;
+  }
+
+  // Removes the code only while it is still unused, so it cannot be spent twice; null if it was not there
+  async consumeMfaRecoveryCode(userId: number, codeHash: string): Promise<number | null> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, userId));
+      const [user] = await tx
+        .update(users)
+        .set({ mfaRecoveryCodes: sql`(${users.mfaRecoveryCodes}::jsonb - ${codeHash}::text)::json`, updatedAt: new Date() })
+        .where(and(eq(users.id, userId), sql`${users.mfaRecoveryCodes}::jsonb @> jsonb_build_array(${codeHash}::text)`))
+        .returning();
+      if (!user) return null;
+
+      await this.recordChangesIn(tx, 'USER', [[before, user]]);
+      return user.mfaRecoveryCodes!.length;
+    });
+  }
+
   // Entities
+  // Metadata is normalised to the type's canonical fields and validated; invalid metadata throws a ZodError
   async createEntity(insertEntity: InsertEntity): Promise<Entity> {
     const [entity] = await db
       .insert(entities)
-      .values(insertEntity)
+      .values({ ...insertEntity, metadata: parseEntityMetadata(insertEntity.type, insertEntity.metadata) })
       .returning();
     return entity;
   }
 
   async getEntityById(id: number): Promise<Entity | null> {
-    const [entity] = await db.select().from(entities).where(eq(entities.id, id));
+    const [entity] = await db.select().from(entities).where(and(eq(entities.id, id), isNull(entities.deletedAt)));
     return entity || null;
   }
 
   async getEntitiesByType(type: string): Promise<Entity[]> {
-    return await db.select().from(entities).where(eq(entities.type, type as any));
+    return await db.select().from(entities).where(and(eq(entities.type, type as any), isNull(entities.deletedAt)));
   }
 
   async getEntitiesByParent(parentId: number): Promise<Entity[]> {
-    return await db.select().from(entities).where(eq(entities.parentId, parentId));
+    return await db.select().from(entities).where(and(eq(entities.parentId, parentId), isNull(entities.deletedAt)));
   }
 
   async getAllEntities(): Promise<Entity[]> {
-    return await db.select().from(entities).orderBy(asc(entities.name));
+    return await db.select().from(entities).where(isNull(entities.deletedAt)).orderBy(asc(entities.name));
   }
 
   async updateEntity(id: number, updates: Partial<InsertEntity>): Promise<Entity> {
+    if (updates.metadata !== undefined) {
+      const type = updates.type ?? (await this.getEntityById(id))?.type;
+      if (type) updates = { ...updates, metadata: parseEntityMetadata(type, updates.metadata) };
+    }
+
+    const [before] = await db.select().from(entities).where(eq(entities.id, id));
     const [entity] = await db
       .update(entities)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(entities.id, id))
       .returning();
+    await this.recordChanges('ENTITY', before, entity);
     return entity;
   }
 
@@ -192,6 +412,70 @@ export class DatabaseStorage implements IStorage {
     await db.delete(entities).where(eq(entities.id, id));
   }
 
+  // Recycle bin
+  async softDeleteEntity(id: number, deletedBy: number): Promise<void> {
+    const [before] = await db.select().from(entities).where(eq(entities.id, id));
+    const [entity] = await db.update(entities).set({ deletedAt: new Date(), deletedBy }).where(eq(entities.id, id)).returning();
+    await this.recordChanges('ENTITY', before, entity);
+  }
+
+  async softDeleteUser(id: number, deletedBy: number): Promise<void> {
+    const [before] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await db.update(users).set({ deletedAt: new Date(), deletedBy }).where(eq(users.id, id)).returning();
+    await this.recordChanges('USER', before, user);
+  }
+
+  // Most recently deleted first
+  async getDeletedEntities(deletedBefore?: Date): Promise<Entity[]> {
+    return await db.select().from(entities)
+      .where(deletedBefore ? lt(entities.deletedAt, deletedBefore) : isNotNull(entities.deletedAt))
+      .orderBy(desc(entities.deletedAt));
+  }
+
+  async getDeletedUsers(deletedBefore?: Date): Promise<User[]> {
+    return await db.select().from(users)
+      .where(deletedBefore ? lt(users.deletedAt, deletedBefore) : isNotNull(users.deletedAt))
+      .orderBy(desc(users.deletedAt));
+  }
+
+  async getDeletedEntityById(id: number): Promise<Entity | null> {
+    const [entity] = await db.select().from(entities).where(and(eq(entities.id, id), isNotNull(entities.deletedAt)));
+    return entity || null;
+  }
+
+  async getDeletedUserById(id: number): Promise<User | null> {
+    const [user] = await db.select().from(users).where(and(eq(users.id, id), isNotNull(users.deletedAt)));
+    return user || null;
+  }
+
+  async restoreEntity(id: number): Promise<Entity> {
+    const [before] = await db.select().from(entities).where(eq(entities.id, id));
+    const [entity] = await db
+      .update(entities)
+      .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+      .where(eq(entities.id, id))
+      .returning();
+    await this.recordChanges('ENTITY', before, entity);
+    return entity;
+  }
+
+  async restoreUser(id: number): Promise<User> {
+    const [before] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await db
+      .update(users)
+      .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    await this.recordChanges('USER', before, user);
+    return user;
+  }
+
+  // Whether any entity, deleted or not, still hangs off this one
+  async hasChildEntities(id: number): Promise<boolean> {
+    const [child] = await db.select({ id: entities.id }).from(entities).where(eq(entities.parentId, id)).limit(1);
+    return !!child;
+  }
+
   // Student Actions Implementation
   async deleteStudent(id: number): Promise<void> {
     // Transactional delete of student and all related records
@@ -214,33 +498,130 @@ export class DatabaseStorage implements IStorage {
   }
 
   async archiveStudent(id: number): Promise<void> {
-    await db
+    const [before] = await db.select().from(entities).where(eq(entities.id, id));
+    const [student] = await db
       .update(entities)
       .set({
         status: 'ARCHIVED',
         parentId: null, // Remove association with current school
         updatedAt: new Date()
       })
-      .where(and(eq(entities.id, id), eq(entities.type, 'STUDENT')));
+      .where(and(eq(entities.id, id), eq(entities.type, 'STUDENT')))
+      .returning();
+    await this.recordChanges('ENTITY', before, student);
   }
 
   async moveStudent(id: number, targetSchoolId: number): Promise<void> {
-    await db
+    const [before] = await db.select().from(entities).where(eq(entities.id, id));
+    const [student] = await db
       .update(entities)
       .set({
         parentId: targetSchoolId,
         updatedAt: new Date()
       })
-      .where(and(eq(entities.id, id), eq(entities.type, 'STUDENT')));
+      .where(and(eq(entities.id, id), eq(entities.type, 'STUDENT')))
+      .returning();
+    await this.recordChanges('ENTITY', before, student);
   }
 
   // Entity relationship helpers
   async getSchoolsByFranchisee(franchiseeId: number): Promise<Entity[]> {
-    return await db.select().from(entities).where(and(eq(entities.type, 'SCHOOL'), eq(entities.parentId, franchiseeId)));
+    return await db.select().from(entities).where(and(eq(entities.type, 'SCHOOL'), eq(entities.parentId, franchiseeId), isNull(entities.deletedAt)));
   }
 
   async getStudentsBySchool(schoolId: number): Promise<Entity[]> {
-    return await db.select().from(entities).where(and(eq(entities.type, 'STUDENT'), eq(entities.parentId, schoolId)));
+    return await db.select().from(entities).where(and(eq(entities.type, 'STUDENT'), eq(entities.parentId, schoolId), isNull(entities.deletedAt)));
+  }
+
+  // Ids of the given entities and all of their descendants
+  async getEntitySubtreeIds(rootIds: number[]): Promise<number[]> {
+    if (rootIds.length === 0) return [];
+
+    const result = await db.execute(sql`
+      WITH RECURSIVE subtree AS (
+        SELECT id FROM entities WHERE id IN (${sql.join(rootIds.map(id => sql`${id}`), sql`, `)}) AND deleted_at IS NULL
+        UNION
+        SELECT e.id FROM entities e JOIN subtree s ON e.parent_id = s.id WHERE e.deleted_at IS NULL
+      )
+      SELECT id FROM subtree
+    `);
+
+    return result.rows.map((row: any) => Number(row.id));
+  }
+
+  // Ids of the entity and every entity above it, nearest first
+  async getEntityAncestorIds(entityId: number): Promise<number[]> {
+    const result = await db.execute(sql`
+      WITH RECURSIVE lineage AS (
+        SELECT id, parent_id, 0 AS depth FROM entities WHERE id = ${entityId}
+        UNION
+        SELECT e.id, e.parent_id, l.depth + 1 FROM entities e JOIN lineage l ON e.id = l.parent_id
+      )
+      SELECT id FROM lineage ORDER BY depth
+    `);
+
+    return result.rows.map((row: any) => Number(row.id));
+  }
+
+  // The entity and its descendants, optionally limited to maxDepth levels down or to one type
+  async getEntitySubtree(rootId: number, options: { maxDepth?: number; type?: string } = {}): Promise<EntityWithDepth[]> {
+    const subtree = sql`(
+      WITH RECURSIVE subtree AS (
+        SELECT id, 0 AS depth FROM entities WHERE id = ${rootId} AND deleted_at IS NULL
+        UNION
+        SELECT e.id, s.depth + 1 FROM entities e JOIN subtree s ON e.parent_id = s.id
+        WHERE e.deleted_at IS NULL ${options.maxDepth !== undefined ? sql`AND s.depth < ${options.maxDepth}` : sql``}
+      )
+      SELECT id, depth FROM subtree
+    ) AS subtree`;
+
+    const rows = await db
+      .select({ entity: entities, depth: sql<number>`subtree.depth` })
+      .from(entities)
+      .innerJoin(subtree, sql`subtree.id = ${entities.id}`)
+      .where(options.type ? eq(entities.type, options.type as any) : undefined)
+      .orderBy(sql`subtree.depth`, asc(entities.name));
+
+    return rows.map(({ entity, depth }) => ({ ...entity, depth: Number(depth) }));
+  }
+
+  // The entity and every entity above it, nearest first
+  async getEntityAncestors(entityId: number): Promise<Entity[]> {
+    const lineage = sql`(
+      WITH RECURSIVE lineage AS (
+        SELECT id, parent_id, 0 AS depth FROM entities WHERE id = ${entityId}
+        UNION
+        SELECT e.id, e.parent_id, l.depth + 1 FROM entities e JOIN lineage l ON e.id = l.parent_id
+      )
+      SELECT id, depth FROM lineage
+    ) AS lineage`;
+
+    const rows = await db
+      .select({ entity: entities })
+      .from(entities)
+      .innerJoin(lineage, sql`lineage.id = ${entities.id}`)
+      .orderBy(sql`lineage.depth`);
+
+    return rows.map(({ entity }) => entity);
+  }
+
+  // For each given entity, how many entities of each type sit anywhere beneath it
+  async countEntityDescendantsByType(rootIds: number[]): Promise<{ entityId: number; type: Entity['type']; count: number }[]> {
+    if (rootIds.length === 0) return [];
+
+    const result = await db.execute(sql`
+      WITH RECURSIVE closure AS (
+        SELECT id AS root_id, id FROM entities WHERE id IN (${sql.join(rootIds.map(id => sql`${id}`), sql`, `)})
+        UNION ALL
+        SELECT c.root_id, e.id FROM entities e JOIN closure c ON e.parent_id = c.id WHERE e.deleted_at IS NULL
+      )
+      SELECT c.root_id, e.type, count(*) AS count
+      FROM closure c JOIN entities e ON e.id = c.id
+      WHERE c.id <> c.root_id
+      GROUP BY c.root_id, e.type
+    `);
+
+    return result.rows.map((row: any) => ({ entityId: Number(row.root_id), type: row.type, count: Number(row.count) }));
   }
 
   // Memberships
@@ -252,8 +633,53 @@ export class DatabaseStorage implements IStorage {
     return membership;
   }
 
-  async getMembershipsByUser(userId: number): Promise<Membership[]> {
-    return await db.select().from(memberships).where(eq(memberships.userId, userId));
+  // Only memberships whose validFrom/validTo window contains the current time
+  /**
+   * Memberships in force now. Unless includeSuspended is set, memberships on
+   * a suspended entity, or anywhere beneath one, are left out: they grant
+   * nothing until the entity is reinstated. Memberships under a deleted
+   * entity are always left out.
+   */
+  async getMembershipsByUser(userId: number, includeSuspended = false): Promise<Membership[]> {
+    const now = new Date();
+    return await db
+      .select()
+      .from(memberships)
+      .where(and(
+        eq(memberships.userId, userId),
+        or(isNull(memberships.validFrom), lte(memberships.validFrom, now)),
+        or(isNull(memberships.validTo), gt(memberships.validTo, now)),
+        sql`NOT EXISTS (
+          WITH RECURSIVE lineage AS (
+            SELECT id, parent_id, status, deleted_at FROM entities WHERE id = ${memberships.entityId}
+            UNION
+            SELECT e.id, e.parent_id, e.status, e.deleted_at FROM entities e JOIN lineage l ON e.id = l.parent_id
+          )
+          SELECT 1 FROM lineage WHERE deleted_at IS NOT NULL ${includeSuspended ? sql`` : sql`OR status = 'SUSPENDED'`}
+        )`
+      ));
+  }
+
+  // Every membership for the user, including expired and not-yet-started ones
+  async getAllMembershipsByUser(userId: number): Promise<Membership[]> {
+    return await db.select().from(memberships).where(eq(memberships.userId, userId)).orderBy(asc(memberships.id));
+  }
+
+  async getMembershipById(id: number): Promise<Membership | null> {
+    const [membership] = await db.select().from(memberships).where(eq(memberships.id, id));
+    return membership || null;
+  }
+
+  // Live memberships ending on or before the cutoff whose admins have not been warned yet
+  async getMembershipsExpiringBy(cutoff: Date): Promise<Membership[]> {
+    return await db
+      .select()
+      .from(memberships)
+      .where(and(
+        gt(memberships.validTo, new Date()),
+        lte(memberships.validTo, cutoff),
+        isNull(memberships.expiryNotifiedAt)
+      ));
   }
 
   async deleteMembershipsByUser(userId: number): Promise<void> {
@@ -268,16 +694,23 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(memberships).where(eq(memberships.entityId, entityId));
   }
 
+  async getMembershipsByEntities(entityIds: number[]): Promise<Membership[]> {
+    if (entityIds.length === 0) return [];
+    return await db.select().from(memberships).where(inArray(memberships.entityId, entityIds));
+  }
+
   async getMembershipsByRole(role: string): Promise<Membership[]> {
     return await db.select().from(memberships).where(eq(memberships.role, role as any));
   }
 
   async updateMembership(id: number, updates: Partial<InsertMembership>): Promise<Membership> {
+    const [before] = await db.select().from(memberships).where(eq(memberships.id, id));
     const [membership] = await db
       .update(memberships)
       .set(updates)
       .where(eq(memberships.id, id))
       .returning();
+    await this.recordChanges('MEMBERSHIP', before, membership);
     return membership;
   }
 
@@ -285,6 +718,21 @@ export class DatabaseStorage implements IStorage {
     await db.delete(memberships).where(eq(memberships.id, id));
   }
 
+  // Reassign a membership and record the audit entry in one transaction
+  async handOverMembership(id: number, updates: Partial<InsertMembership>, auditLog: InsertAuditLog): Promise<Membership> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(memberships).where(eq(memberships.id, id));
+      const [membership] = await tx
+        .update(memberships)
+        .set(updates)
+        .where(eq(memberships.id, id))
+        .returning();
+      await tx.insert(auditLogs).values([auditLog]);
+      await this.recordChangesIn(tx, 'MEMBERSHIP', [[before, membership]]);
+      return membership;
+    });
+  }
+
   // Parent-Student Links
   async createParentStudentLink(insertLink: InsertParentStudentLink): Promise<ParentStudentLink> {
     const [link] = await db
@@ -365,31 +813,675 @@ export class DatabaseStorage implements IStorage {
     return token;
   }
 
-  async getMagicTokenByToken(token: string): Promise<MagicToken | null> {
+  async getMagicTokenByHash(tokenHash: string): Promise<MagicToken | null> {
     const [magicToken] = await db.select()
       .from(magicTokens)
       .where(and(
-        eq(magicTokens.token, token),
+        eq(magicTokens.tokenHash, tokenHash),
         isNull(magicTokens.usedAt)
       ));
     return magicToken || null;
   }
 
-  async markMagicTokenUsed(token: string): Promise<void> {
+  async getLatestMagicTokenByEmail(email: string, purpose: string): Promise<MagicToken | null> {
+    const [magicToken] = await db.select()
+      .from(magicTokens)
+      .where(and(
+        eq(magicTokens.email, email),
+        eq(magicTokens.purpose, purpose),
+        isNull(magicTokens.usedAt)
+      ))
+      .orderBy(desc(magicTokens.createdAt))
+      .limit(1);
+    return magicToken || null;
+  }
+
+  async updateMagicToken(id: number, updates: Partial<InsertMagicToken>): Promise<MagicToken> {
+    const [magicToken] = await db
+      .update(magicTokens)
+      .set(updates as any)
+      .where(eq(magicTokens.id, id))
+      .returning();
+    return magicToken;
+  }
+
+  // Counts a guess in one statement so parallel guesses cannot share a count; null once the budget is spent
+  async recordMagicTokenAttempt(id: number, maxAttempts: number): Promise<number | null> {
+    const attempts = sql`coalesce((${magicTokens.metadata}->>'attempts')::int, 0)`;
+    const [token] = await db
+      .update(magicTokens)
+      .set({ metadata: sql`jsonb_set(${magicTokens.metadata}::jsonb, '{attempts}', to_jsonb(${attempts} + 1))::json` })
+      .where(and(eq(magicTokens.id, id), isNull(magicTokens.usedAt), sql`${attempts} < ${maxAttempts}`))
+      .returning();
+    return token ? token.metadata!.attempts! : null;
+  }
+
+  async invalidateMagicTokensByEmail(email: string, purpose: string): Promise<void> {
     await db
       .update(magicTokens)
       .set({ usedAt: new Date() })
-      .where(eq(magicTokens.token, token));
+      .where(and(
+        eq(magicTokens.email, email),
+        eq(magicTokens.purpose, purpose),
+        isNull(magicTokens.usedAt)
+      ));
   }
 
-  async cleanupExpiredTokens(): Promise<void> {
-    await db
+  // Marks the token used only if nothing else has; false means it was already consumed
+  async consumeMagicToken(id: number): Promise<boolean> {
+    const consumed = await db
+      .update(magicTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(magicTokens.id, id), isNull(magicTokens.usedAt)))
+      .returning({ id: magicTokens.id });
+    return consumed.length > 0;
+  }
+
+  async cleanupExpiredTokens(): Promise<number> {
+    const deleted = await db
       .delete(magicTokens)
+      // Delete tokens that expired more than 48 hours ago
+      .where(lt(magicTokens.expiresAt, new Date(Date.now() - 48 * 60 * 60 * 1000)))
+      .returning({ id: magicTokens.id });
+    return deleted.length;
+  }
+
+  // Password history
+  async addPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory> {
+    const [record] = await db
+      .insert(passwordHistory)
+      .values(entry)
+      .returning();
+    return record;
+  }
+
+  async getPasswordHistory(userId: number, limit: number): Promise<PasswordHistory[]> {
+    return await db.select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+  }
+
+  // Invitations
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const [invitation] = await db
+      .insert(invitations)
+      .values(insertInvitation)
+      .returning();
+    return invitation;
+  }
+
+  async getInvitationById(id: number): Promise<Invitation | null> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.id, id));
+    return invitation || null;
+  }
+
+  async getInvitationByMagicTokenId(magicTokenId: number): Promise<Invitation | null> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.magicTokenId, magicTokenId));
+    return invitation || null;
+  }
+
+  async getAllInvitations(): Promise<Invitation[]> {
+    return await db.select().from(invitations).orderBy(desc(invitations.createdAt));
+  }
+
+  async updateInvitation(id: number, updates: Partial<InsertInvitation>): Promise<Invitation> {
+    const [invitation] = await db
+      .update(invitations)
+      .set(updates)
+      .where(eq(invitations.id, id))
+      .returning();
+    return invitation;
+  }
+
+  async expirePendingInvitations(): Promise<Invitation[]> {
+    return await db
+      .update(invitations)
+      .set({ status: 'EXPIRED' })
       .where(and(
-        isNull(magicTokens.usedAt),
-        // Delete tokens older than 48 hours
-        eq(magicTokens.expiresAt, new Date(Date.now() - 48 * 60 * 60 * 1000))
+        eq(invitations.status, 'PENDING'),
+        lte(invitations.expiresAt, new Date())
+      ))
+      .returning();
+  }
+
+  // Sessions
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await db
+      .insert(sessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getSessionById(id: number): Promise<Session | null> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+    return session || null;
+  }
+
+  // Matches either the current or the previous (rotated-out) refresh token
+  async getSessionByRefreshTokenHash(hash: string): Promise<Session | null> {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(or(
+        eq(sessions.refreshTokenHash, hash),
+        eq(sessions.previousRefreshTokenHash, hash)
       ));
+    return session || null;
+  }
+
+  async getActiveSessionsByUser(userId: number): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        isNull(sessions.parentSessionId), // Impersonation views are not devices
+        gt(sessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async updateSession(id: number, updates: Partial<InsertSession>): Promise<Session> {
+    const [session] = await db
+      .update(sessions)
+      .set(updates)
+      .where(eq(sessions.id, id))
+      .returning();
+    return session;
+  }
+
+  // Swaps the refresh token only if it is still the one presented; null means another refresh got there first
+  async rotateSessionRefreshToken(id: number, currentHash: string, updates: Partial<InsertSession>): Promise<Session | null> {
+    const [session] = await db
+      .update(sessions)
+      .set(updates)
+      .where(and(eq(sessions.id, id), eq(sessions.refreshTokenHash, currentHash), isNull(sessions.revokedAt)))
+      .returning();
+    return session || null;
+  }
+
+  async revokeSessionsByUser(userId: number, reason: string): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+  }
+
+  // API keys
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values(insertApiKey)
+      .returning();
+    return apiKey;
+  }
+
+  async getApiKeyById(id: number): Promise<ApiKey | null> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey || null;
+  }
+
+  async getApiKeyByHash(hash: string): Promise<ApiKey | null> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, hash));
+    return apiKey || null;
+  }
+
+  async getApiKeysByUser(userId: number): Promise<ApiKey[]> {
+    return await db.select().from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(desc(apiKeys.createdAt));
+  }
+
+  async updateApiKey(id: number, updates: Partial<InsertApiKey>): Promise<ApiKey> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set(updates)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return apiKey;
+  }
+
+  async getServiceAccounts(): Promise<User[]> {
+    return await db.select().from(users).where(and(eq(users.isServiceAccount, true), isNull(users.deletedAt))).orderBy(asc(users.name));
+  }
+
+  // Territories
+  // Inserts the area unless it overlaps an existing claim: one area contains the other when
+  // every level either matches or is left open. Claims in the same state are serialised by
+  // an advisory lock, so two overlapping claims cannot both pass the check.
+  async claimTerritory(territory: InsertTerritory): Promise<{ territory: Territory | null; conflict: Territory | null }> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`territory:${territory.state}`}))`);
+
+      const [conflict] = await tx.select().from(territories).where(and(
+        eq(territories.state, territory.state),
+        territory.district ? or(isNull(territories.district), eq(territories.district, territory.district)) : undefined,
+        territory.pincode ? or(isNull(territories.pincode), eq(territories.pincode, territory.pincode)) : undefined
+      )).limit(1);
+      if (conflict) return { territory: null, conflict };
+
+      const [created] = await tx.insert(territories).values(territory).returning();
+      return { territory: created, conflict: null };
+    });
+  }
+
+  async getTerritoryById(id: number): Promise<Territory | null> {
+    const [territory] = await db.select().from(territories).where(eq(territories.id, id));
+    return territory || null;
+  }
+
+  async getTerritoriesByFranchisee(franchiseeId: number): Promise<Territory[]> {
+    return await db.select().from(territories)
+      .where(eq(territories.franchiseeId, franchiseeId))
+      .orderBy(asc(territories.state), asc(territories.district), asc(territories.pincode));
+  }
+
+  async getTerritoriesInState(state: string): Promise<Territory[]> {
+    return await db.select().from(territories).where(eq(territories.state, state));
+  }
+
+  async deleteTerritory(id: number): Promise<void> {
+    await db.delete(territories).where(eq(territories.id, id));
+  }
+
+  // Entity Transfers
+  // Re-credit the camps of the school and its branches (unitIds), move the school
+  // and record the transfer together. Camps that started before the effective
+  // date are pinned to the franchisee it left; later ones move with it.
+  async transferSchool(transfer: InsertEntityTransfer, unitIds: number[]): Promise<{ transfer: EntityTransfer; campsMoved: number }> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(camps)
+        .set({ franchiseeEntityId: transfer.fromParentId })
+        .where(and(inArray(camps.schoolEntityId, unitIds), lt(camps.startDate, transfer.effectiveAt), isNull(camps.franchiseeEntityId)));
+      const moved = await tx
+        .update(camps)
+        .set({ franchiseeEntityId: transfer.toParentId })
+        .where(and(inArray(camps.schoolEntityId, unitIds), gte(camps.startDate, transfer.effectiveAt)))
+        .returning({ id: camps.id });
+
+      const [before] = await tx.select().from(entities).where(eq(entities.id, transfer.entityId));
+      const [school] = await tx
+        .update(entities)
+        .set({ parentId: transfer.toParentId, updatedAt: new Date() })
+        .where(eq(entities.id, transfer.entityId))
+        .returning();
+      await this.recordChangesIn(tx, 'ENTITY', [[before, school]]);
+
+      const [created] = await tx.insert(entityTransfers).values(transfer).returning();
+      return { transfer: created, campsMoved: moved.length };
+    });
+  }
+
+  // Most recent first
+  async getEntityTransfers(entityId: number): Promise<EntityTransfer[]> {
+    return await db.select().from(entityTransfers)
+      .where(eq(entityTransfers.entityId, entityId))
+      .orderBy(desc(entityTransfers.effectiveAt), desc(entityTransfers.id));
+  }
+
+  // Duplicate Reviews
+  // A pair already queued, whatever its status, is not queued again
+  async createDuplicateReview(review: InsertDuplicateReview): Promise<DuplicateReview | null> {
+    const [created] = await db
+      .insert(duplicateReviews)
+      .values([review])
+      .onConflictDoNothing()
+      .returning();
+    return created || null;
+  }
+
+  async getDuplicateReviews(status?: string): Promise<DuplicateReview[]> {
+    return await db.select().from(duplicateReviews)
+      .where(status ? eq(duplicateReviews.status, status) : undefined)
+      .orderBy(desc(duplicateReviews.score), desc(duplicateReviews.createdAt));
+  }
+
+  async getDuplicateReviewById(id: number): Promise<DuplicateReview | null> {
+    const [review] = await db.select().from(duplicateReviews).where(eq(duplicateReviews.id, id));
+    return review || null;
+  }
+
+  async updateDuplicateReview(id: number, updates: Partial<InsertDuplicateReview>): Promise<DuplicateReview> {
+    const [review] = await db
+      .update(duplicateReviews)
+      .set(updates)
+      .where(eq(duplicateReviews.id, id))
+      .returning();
+    return review;
+  }
+
+  // Pending reviews of a record that has been merged away have nothing left to decide
+  async closeDuplicateReviewsOf(recordType: DuplicateRecordType, recordId: number, resolvedBy: number): Promise<void> {
+    await db
+      .update(duplicateReviews)
+      .set({ status: 'MERGED', resolvedBy, resolvedAt: new Date() })
+      .where(and(
+        eq(duplicateReviews.recordType, recordType),
+        eq(duplicateReviews.status, 'PENDING'),
+        or(eq(duplicateReviews.recordId, recordId), eq(duplicateReviews.matchId, recordId))
+      ));
+  }
+
+  // Repoint everything hanging off one student to another. Rows the kept
+  // student already has an equivalent of (same parent, camp or class) are dropped.
+  async mergeStudents(dropId: number, keepId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const keptParents = (await tx.select().from(parentStudentLinks).where(eq(parentStudentLinks.studentEntityId, keepId))).map(l => l.parentUserId);
+      if (keptParents.length > 0) {
+        await tx.delete(parentStudentLinks).where(and(eq(parentStudentLinks.studentEntityId, dropId), inArray(parentStudentLinks.parentUserId, keptParents)));
+      }
+      await tx.update(parentStudentLinks).set({ studentEntityId: keepId }).where(eq(parentStudentLinks.studentEntityId, dropId));
+
+      const keptEnrollments = (await tx.select().from(campEnrollments).where(eq(campEnrollments.studentEntityId, keepId))).map(e => e.campId);
+      if (keptEnrollments.length > 0) {
+        await tx.delete(campEnrollments).where(and(eq(campEnrollments.studentEntityId, dropId), inArray(campEnrollments.campId, keptEnrollments)));
+      }
+      await tx.update(campEnrollments).set({ studentEntityId: keepId }).where(eq(campEnrollments.studentEntityId, dropId));
+
+      const keptConsents = (await tx.select().from(consents).where(eq(consents.studentEntityId, keepId))).map(c => c.campId);
+      if (keptConsents.length > 0) {
+        await tx.delete(consents).where(and(eq(consents.studentEntityId, dropId), inArray(consents.campId, keptConsents)));
+      }
+      await tx.update(consents).set({ studentEntityId: keepId }).where(eq(consents.studentEntityId, dropId));
+
+      const keptClasses = (await tx.select().from(studentClasses).where(eq(studentClasses.studentEntityId, keepId))).map(c => c.classId);
+      if (keptClasses.length > 0) {
+        await tx.delete(studentClasses).where(and(eq(studentClasses.studentEntityId, dropId), inArray(studentClasses.classId, keptClasses)));
+      }
+      await tx.update(studentClasses).set({ studentEntityId: keepId }).where(eq(studentClasses.studentEntityId, dropId));
+
+      await tx.update(screenings).set({ studentEntityId: keepId }).where(eq(screenings.studentEntityId, dropId));
+      await tx.update(reports).set({ studentEntityId: keepId }).where(eq(reports.studentEntityId, dropId));
+    });
+  }
+
+  // Move branches, students, camps, classes and staff of one school to another.
+  // A class the kept school already has takes over the other's students and
+  // teachers; a membership the kept school already has, or a second PRINCIPAL
+  // or SCHOOL_ADMIN, is removed and returned for the audit log.
+  async mergeSchools(dropId: number, keepId: number): Promise<{ movedEntities: Entity[]; removedMemberships: Membership[] }> {
+    return await db.transaction(async (tx) => {
+      const movedEntities = await tx
+        .update(entities)
+        .set({ parentId: keepId, updatedAt: new Date() })
+        .where(eq(entities.parentId, dropId))
+        .returning();
+      await this.recordChangesIn(tx, 'ENTITY', movedEntities.map(entity => [{ ...entity, parentId: dropId }, entity]));
+
+      await tx.update(camps).set({ schoolEntityId: keepId }).where(eq(camps.schoolEntityId, dropId));
+
+      const keptClasses = await tx.select().from(classes).where(eq(classes.schoolEntityId, keepId));
+      for (const moving of await tx.select().from(classes).where(eq(classes.schoolEntityId, dropId))) {
+        const same = keptClasses.find(c => c.academicYear === moving.academicYear && c.grade === moving.grade && (c.section ?? null) === (moving.section ?? null));
+        if (!same) {
+          await tx.update(classes).set({ schoolEntityId: keepId }).where(eq(classes.id, moving.id));
+          continue;
+        }
+
+        const placed = (await tx.select().from(studentClasses).where(eq(studentClasses.classId, same.id))).map(p => p.studentEntityId);
+        if (placed.length > 0) {
+          await tx.delete(studentClasses).where(and(eq(studentClasses.classId, moving.id), inArray(studentClasses.studentEntityId, placed)));
+        }
+        await tx.update(studentClasses).set({ classId: same.id }).where(eq(studentClasses.classId, moving.id));
+
+        const teaching = (await tx.select().from(teacherClasses).where(eq(teacherClasses.classId, same.id))).map(t => t.teacherUserId);
+        if (teaching.length > 0) {
+          await tx.delete(teacherClasses).where(and(eq(teacherClasses.classId, moving.id), inArray(teacherClasses.teacherUserId, teaching)));
+        }
+        await tx.update(teacherClasses).set({ classId: same.id }).where(eq(teacherClasses.classId, moving.id));
+
+        await tx.delete(classes).where(eq(classes.id, moving.id));
+      }
+
+      const kept = await tx.select().from(memberships).where(eq(memberships.entityId, keepId));
+      const removedMemberships: Membership[] = [];
+      for (const membership of await tx.select().from(memberships).where(eq(memberships.entityId, dropId))) {
+        const clash = kept.some(k => k.role === membership.role && (k.userId === membership.userId || ['PRINCIPAL', 'SCHOOL_ADMIN'].includes(k.role)));
+        if (clash) {
+          await tx.delete(memberships).where(eq(memberships.id, membership.id));
+          removedMemberships.push(membership);
+          continue;
+        }
+        const [moved] = await tx.update(memberships).set({ entityId: keepId }).where(eq(memberships.id, membership.id)).returning();
+        await this.recordChangesIn(tx, 'MEMBERSHIP', [[membership, moved]]);
+      }
+
+      return { movedEntities, removedMemberships };
+    });
+  }
+
+  // Move one parent account's children and memberships to another; links and
+  // memberships the kept account already has are dropped
+  async mergeParentUsers(dropId: number, keepId: number): Promise<{ removedMemberships: Membership[] }> {
+    return await db.transaction(async (tx) => {
+      const keptStudents = (await tx.select().from(parentStudentLinks).where(eq(parentStudentLinks.parentUserId, keepId))).map(l => l.studentEntityId);
+      if (keptStudents.length > 0) {
+        await tx.delete(parentStudentLinks).where(and(eq(parentStudentLinks.parentUserId, dropId), inArray(parentStudentLinks.studentEntityId, keptStudents)));
+      }
+      await tx.update(parentStudentLinks).set({ parentUserId: keepId }).where(eq(parentStudentLinks.parentUserId, dropId));
+
+      const kept = await tx.select().from(memberships).where(eq(memberships.userId, keepId));
+      const removedMemberships: Membership[] = [];
+      for (const membership of await tx.select().from(memberships).where(eq(memberships.userId, dropId))) {
+        if (kept.some(k => k.entityId === membership.entityId && k.role === membership.role)) {
+          await tx.delete(memberships).where(eq(memberships.id, membership.id));
+          removedMemberships.push(membership);
+          continue;
+        }
+        const [moved] = await tx.update(memberships).set({ userId: keepId }).where(eq(memberships.id, membership.id)).returning();
+        await this.recordChangesIn(tx, 'MEMBERSHIP', [[membership, moved]]);
+      }
+
+      return { removedMemberships };
+    });
+  }
+
+  // Change History
+  // Newest first
+  async getChangeHistory(recordType: ChangeRecordType, recordIds: number[]): Promise<ChangeHistory[]> {
+    if (recordIds.length === 0) return [];
+    return await db.select().from(changeHistory)
+      .where(and(eq(changeHistory.recordType, recordType), inArray(changeHistory.recordId, recordIds)))
+      .orderBy(desc(changeHistory.changedAt), desc(changeHistory.id));
+  }
+
+  private async recordChanges(recordType: ChangeRecordType, before: Record<string, any> | undefined, after: Record<string, any> | undefined): Promise<void> {
+    const change = changeEntry(recordType, before, after);
+    if (change) await db.insert(changeHistory).values([change]);
+  }
+
+  private async recordChangesIn(tx: Transaction, recordType: ChangeRecordType, pairs: [Record<string, any>, Record<string, any>][]): Promise<void> {
+    const changes = pairs.map(([before, after]) => changeEntry(recordType, before, after)).filter((change): change is InsertChangeHistory => change !== null);
+    if (changes.length > 0) await tx.insert(changeHistory).values(changes);
+  }
+
+  // Classes
+  async createClass(classData: InsertClass): Promise<Class> {
+    const [created] = await db.insert(classes).values(classData).returning();
+    return created;
+  }
+
+  async getClassById(id: number): Promise<Class | null> {
+    const [found] = await db.select().from(classes).where(eq(classes.id, id));
+    return found || null;
+  }
+
+  async getClassesBySchools(schoolEntityIds: number[], academicYear?: string): Promise<Class[]> {
+    if (schoolEntityIds.length === 0) return [];
+    return await db.select().from(classes)
+      .where(and(
+        inArray(classes.schoolEntityId, schoolEntityIds),
+        academicYear ? eq(classes.academicYear, academicYear) : undefined
+      ))
+      .orderBy(desc(classes.academicYear), asc(classes.grade), asc(classes.section));
+  }
+
+  // Removes the class along with its teacher and student assignments
+  async deleteClass(id: number): Promise<void> {
+    await db.delete(teacherClasses).where(eq(teacherClasses.classId, id));
+    await db.delete(studentClasses).where(eq(studentClasses.classId, id));
+    await db.delete(classes).where(eq(classes.id, id));
+  }
+
+  async assignTeacherToClass(assignment: InsertTeacherClass): Promise<TeacherClass> {
+    const [created] = await db.insert(teacherClasses).values(assignment).returning();
+    return created;
+  }
+
+  async removeTeacherFromClass(classId: number, teacherUserId: number): Promise<void> {
+    await db.delete(teacherClasses)
+      .where(and(eq(teacherClasses.classId, classId), eq(teacherClasses.teacherUserId, teacherUserId)));
+  }
+
+  async getTeachersByClass(classId: number): Promise<User[]> {
+    const rows = await db
+      .select({ user: users })
+      .from(teacherClasses)
+      .innerJoin(users, eq(users.id, teacherClasses.teacherUserId))
+      .where(and(eq(teacherClasses.classId, classId), isNull(users.deletedAt)))
+      .orderBy(asc(users.name));
+    return rows.map(row => row.user);
+  }
+
+  async getClassesByTeacher(teacherUserId: number): Promise<Class[]> {
+    const rows = await db
+      .select({ class: classes })
+      .from(teacherClasses)
+      .innerJoin(classes, eq(classes.id, teacherClasses.classId))
+      .where(eq(teacherClasses.teacherUserId, teacherUserId))
+      .orderBy(desc(classes.academicYear), asc(classes.grade), asc(classes.section));
+    return rows.map(row => row.class);
+  }
+
+  async addStudentToClass(placement: InsertStudentClass): Promise<StudentClass> {
+    const [created] = await db.insert(studentClasses).values(placement).returning();
+    return created;
+  }
+
+  async removeStudentFromClass(classId: number, studentEntityId: number): Promise<void> {
+    await db.delete(studentClasses)
+      .where(and(eq(studentClasses.classId, classId), eq(studentClasses.studentEntityId, studentEntityId)));
+  }
+
+  async getStudentsByClasses(classIds: number[]): Promise<Entity[]> {
+    if (classIds.length === 0) return [];
+    const rows = await db
+      .select({ entity: entities })
+      .from(studentClasses)
+      .innerJoin(entities, eq(entities.id, studentClasses.studentEntityId))
+      .where(and(inArray(studentClasses.classId, classIds), isNull(entities.deletedAt)))
+      .orderBy(asc(entities.name));
+    // A student appears once even when placed in several of the classes
+    return Array.from(new Map(rows.map(row => [row.entity.id, row.entity])).values());
+  }
+
+  async getClassesByStudent(studentEntityId: number): Promise<Class[]> {
+    const rows = await db
+      .select({ class: classes })
+      .from(studentClasses)
+      .innerJoin(classes, eq(classes.id, studentClasses.classId))
+      .where(eq(studentClasses.studentEntityId, studentEntityId))
+      .orderBy(desc(classes.academicYear));
+    return rows.map(row => row.class);
+  }
+
+  // Academic Years
+  async createAcademicYear(insertYear: InsertAcademicYear): Promise<AcademicYear> {
+    const [year] = await db
+      .insert(academicYears)
+      .values([insertYear])
+      .returning();
+    return year;
+  }
+
+  // Latest first
+  async getAcademicYears(schoolEntityId: number): Promise<AcademicYear[]> {
+    return await db.select().from(academicYears)
+      .where(eq(academicYears.schoolEntityId, schoolEntityId))
+      .orderBy(desc(academicYears.label));
+  }
+
+  async getCurrentAcademicYear(schoolEntityId: number): Promise<AcademicYear | null> {
+    const [year] = await db.select().from(academicYears)
+      .where(and(eq(academicYears.schoolEntityId, schoolEntityId), eq(academicYears.isCurrent, true)));
+    return year || null;
+  }
+
+  // Apply a rollover as one transaction, returning the new current year. The
+  // year is claimed first, so a second run or a retry after this one committed
+  // gets null and changes nothing.
+  async rollOverAcademicYear(writes: AcademicYearRolloverWrites): Promise<AcademicYear | null> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(academicYears)
+        .set({ isCurrent: false, rolledOverAt: new Date(), rolledOverBy: writes.actorId })
+        .where(and(eq(academicYears.id, writes.year.id), eq(academicYears.isCurrent, true)))
+        .returning();
+      if (!claimed) return null;
+
+      const [next] = await tx
+        .insert(academicYears)
+        .values([{ schoolEntityId: claimed.schoolEntityId, label: writes.toYear, isCurrent: true }])
+        .returning();
+
+      // Only screenings that predate grade tracking are stamped
+      for (const { studentId, grade } of writes.gradeSnapshots) {
+        await tx
+          .update(screenings)
+          .set({ grade, academicYear: claimed.label })
+          .where(and(eq(screenings.studentEntityId, studentId), isNull(screenings.grade)));
+      }
+
+      const nextClasses = new Map<number, number>();
+      for (const { fromClassIds, nextClassId, next: nextClass } of writes.classes) {
+        const id = nextClassId ?? (await tx.insert(classes).values(nextClass).returning())[0].id;
+        fromClassIds.forEach(fromClassId => nextClasses.set(fromClassId, id));
+      }
+
+      const changed: [Entity, Entity][] = [];
+      for (const { studentId, updates, fromClassId } of writes.students) {
+        const values = updates.metadata !== undefined ? { ...updates, metadata: parseEntityMetadata('STUDENT', updates.metadata) } : updates;
+        const [before] = await tx.select().from(entities).where(eq(entities.id, studentId));
+        const [updated] = await tx
+          .update(entities)
+          .set({ ...values, updatedAt: new Date() } as any)
+          .where(eq(entities.id, studentId))
+          .returning();
+        changed.push([before, updated]);
+
+        const nextClassId = fromClassId && nextClasses.get(fromClassId);
+        if (nextClassId) {
+          await tx
+            .insert(studentClasses)
+            .values({ classId: nextClassId, studentEntityId: studentId, assignedBy: writes.actorId })
+            .onConflictDoNothing();
+        }
+      }
+      await this.recordChangesIn(tx, 'ENTITY', changed);
+
+      return next;
+    });
+  }
+
+  // System Settings
+  async getSetting(key: string): Promise<SystemSetting | null> {
+    const [setting] = await db.select().from(systemSettings).where(eq(systemSettings.key, key));
+    return setting || null;
+  }
+
+  async upsertSetting(key: string, value: any, updatedBy?: number): Promise<SystemSetting> {
+    const [setting] = await db
+      .insert(systemSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: systemSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() }
+      })
+      .returning();
+    return setting;
   }
 
   // Audit Logs
@@ -475,7 +1567,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(entities)
-      .where(inArray(entities.id, studentIds));
+      .where(and(inArray(entities.id, studentIds), isNull(entities.deletedAt)));
   }
 
   async getAvailableStudentsForCamp(campId: number): Promise<Entity[]> {
@@ -1,11 +1,11 @@
-import { pgTable, text, integer, boolean, timestamp, json, serial, varchar, pgEnum, unique, index } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, boolean, timestamp, json, serial, varchar, pgEnum, unique, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
 
 // Enums
 export const userStatusEnum = pgEnum("user_status", ["INVITED", "PENDING", "ACTIVE", "SUSPENDED", "ARCHIVED"]);
-export const entityTypeEnum = pgEnum("entity_type", ["ORGANIZATION", "FRANCHISEE", "SCHOOL", "STUDENT"]);
+export const entityTypeEnum = pgEnum("entity_type", ["ORGANIZATION", "FRANCHISEE", "SCHOOL", "BRANCH", "STUDENT"]);
 export const entityStatusEnum = pgEnum("entity_status", ["DRAFT", "ACTIVE", "SUSPENDED", "ARCHIVED"]);
 export const roleEnum = pgEnum("role", [
   "SYSTEM_ADMIN",
@@ -22,6 +22,134 @@ export const roleEnum = pgEnum("role", [
 export const relationshipEnum = pgEnum("relationship", ["MOTHER", "FATHER", "GUARDIAN", "OTHER"]);
 export const campStatusEnum = pgEnum("camp_status", ["DRAFT", "SCHEDULED", "CONSENT_COLLECTION", "ACTIVE", "COMPLETED", "CANCELLED"]);
 export const consentStatusEnum = pgEnum("consent_status", ["REQUESTED", "GRANTED", "DENIED", "REVOKED"]);
+export const invitationKindEnum = pgEnum("invitation_kind", ["INVITE", "FRANCHISE_AGREEMENT", "SCHOOL_AGREEMENT"]);
+export const invitationStatusEnum = pgEnum("invitation_status", ["PENDING", "ACCEPTED", "REVOKED", "EXPIRED"]);
+
+// Entity metadata
+// Each entity type carries its own metadata fields. Writes go through
+// parseEntityMetadata, which maps legacy aliases to the canonical names
+// below and rejects fields the type does not declare.
+
+const pincodeField = z.string().regex(/^\d{6}$/, "Pincode must be 6 digits");
+
+const locationMetadataFields = {
+  address: z.string().optional(),
+  city: z.string().optional(),
+  district: z.string().optional(), // Matched against district-level territory claims
+  state: z.string().optional(),
+  pincode: pincodeField.optional(),
+  contactPerson: z.string().optional(),
+  contactPhone: z.string().optional(),
+  contactEmail: z.string().email().optional(),
+};
+
+export const organizationMetadataSchema = z.object({
+  description: z.string().optional(),
+});
+
+export const franchiseeMetadataSchema = z.object({
+  ...locationMetadataFields,
+  region: z.string().optional(),
+});
+
+export const schoolMetadataSchema = z.object({
+  ...locationMetadataFields,
+  registrationNumber: z.string().optional(),
+  hasSubBranches: z.boolean().optional(), // Kept in step with its BRANCH children
+});
+
+export const branchMetadataSchema = z.object({
+  ...locationMetadataFields,
+  branchCode: z.string().optional(),
+});
+
+export const studentMetadataSchema = z.object({
+  age: z.coerce.number().int().min(0).optional(),
+  gender: z.string().optional(),
+  grade: z.string().optional(), // Follows the student's class once they are placed in one
+  rollNumber: z.string().optional(),
+  graduatedYear: z.string().optional(), // Academic year the student finished the school's final grade, e.g. 2025-26
+  // Parent contact captured with the student, e.g. at a screening; linked parent accounts live in parent_student_links
+  parentName: z.string().optional(),
+  parentPhone: z.string().optional(),
+  parentEmail: z.string().optional(),
+  parentOccupation: z.string().optional(),
+});
+
+export const entityMetadataSchemas = {
+  ORGANIZATION: organizationMetadataSchema,
+  FRANCHISEE: franchiseeMetadataSchema,
+  SCHOOL: schoolMetadataSchema,
+  BRANCH: branchMetadataSchema,
+  STUDENT: studentMetadataSchema,
+} as const;
+
+export const entityMetadataSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ORGANIZATION"), metadata: organizationMetadataSchema.strict() }),
+  z.object({ type: z.literal("FRANCHISEE"), metadata: franchiseeMetadataSchema.strict() }),
+  z.object({ type: z.literal("SCHOOL"), metadata: schoolMetadataSchema.strict() }),
+  z.object({ type: z.literal("BRANCH"), metadata: branchMetadataSchema.strict() }),
+  z.object({ type: z.literal("STUDENT"), metadata: studentMetadataSchema.strict() }),
+]);
+
+export type EntityType = keyof typeof entityMetadataSchemas;
+export type OrganizationMetadata = z.infer<typeof organizationMetadataSchema>;
+export type FranchiseeMetadata = z.infer<typeof franchiseeMetadataSchema>;
+export type SchoolMetadata = z.infer<typeof schoolMetadataSchema>;
+export type BranchMetadata = z.infer<typeof branchMetadataSchema>;
+export type StudentMetadata = z.infer<typeof studentMetadataSchema>;
+// Every canonical field, so code handling any entity can read what its type declares
+export type EntityMetadata = OrganizationMetadata & FranchiseeMetadata & SchoolMetadata & BranchMetadata & StudentMetadata;
+
+// Older clients and rows spell the same field several ways
+export const ENTITY_METADATA_ALIASES: Record<string, keyof EntityMetadata> = {
+  orgDescription: "description",
+  franchiseAddress: "address",
+  franchiseCity: "city",
+  franchiseState: "state",
+  franchisePincode: "pincode",
+  franchiseContactPerson: "contactPerson",
+  franchiseContactPhone: "contactPhone",
+  franchiseContactEmail: "contactEmail",
+  schoolAddress: "address",
+  schoolCity: "city",
+  schoolState: "state",
+  schoolPincode: "pincode",
+  schoolContactPerson: "contactPerson",
+  schoolContactPhone: "contactPhone",
+  schoolContactEmail: "contactEmail",
+  principalName: "contactPerson",
+  principalEmail: "contactEmail",
+};
+
+/**
+ * Rename aliases to their canonical field and drop empty values. The
+ * canonical spelling wins when both are present. Fields the type does not
+ * declare are kept, so validation can report them.
+ */
+export function normalizeEntityMetadata(metadata: Record<string, unknown> | null | undefined): Record<string, unknown> {
+  const canonical: Record<string, unknown> = {};
+  const aliased: Record<string, unknown> = {};
+
+  for (const [key, raw] of Object.entries(metadata ?? {})) {
+    const value = typeof raw === "string" ? raw.trim() : raw;
+    if (value === null || value === undefined || value === "") continue;
+
+    if (Object.prototype.hasOwnProperty.call(ENTITY_METADATA_ALIASES, key)) {
+      const field = ENTITY_METADATA_ALIASES[key];
+      if (!(field in aliased)) aliased[field] = value;
+    } else {
+      canonical[key] = value;
+    }
+  }
+
+  return { ...aliased, ...canonical };
+}
+
+// Normalise and validate metadata for an entity of the given type; throws a ZodError
+export function parseEntityMetadata(type: EntityType, metadata: Record<string, unknown> | null | undefined): EntityMetadata {
+  return entityMetadataSchema.parse({ type, metadata: normalizeEntityMetadata(metadata) }).metadata;
+}
 
 // Core Tables
 
@@ -29,77 +157,51 @@ export const consentStatusEnum = pgEnum("consent_status", ["REQUESTED", "GRANTED
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  email: text("email").notNull().unique(),
+  email: text("email").notNull(), // Unique among users not in the recycle bin
   password: text("password"), // Optional for magic-link users, required after first login
   phone: text("phone"),
   status: userStatusEnum("status").notNull().default("INVITED"),
   mfaEnabled: boolean("mfa_enabled").notNull().default(false),
+  mfaSecret: text("mfa_secret"), // TOTP shared secret, set during enrollment; AES-GCM encrypted with MFA_ENCRYPTION_KEY
+  mfaRecoveryCodes: json("mfa_recovery_codes").$type<string[]>(), // SHA-256 hashes of unused recovery codes
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0), // Consecutive failed password logins
+  lockedUntil: timestamp("locked_until"), // Password login refused until this time
+  isServiceAccount: boolean("is_service_account").notNull().default(false), // Integration account that signs in with API keys only
+  deletedAt: timestamp("deleted_at"), // In the recycle bin since; purged once the retention period has passed
+  deletedBy: integer("deleted_by"), // FK to users
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   emailIdx: index("users_email_idx").on(table.email),
+  deletedIdx: index("users_deleted_idx").on(table.deletedAt),
+  // A deleted user frees their email, so it can be invited or registered again while they sit in the recycle bin
+  emailActiveUnique: uniqueIndex("users_email_active_unique").on(table.email).where(sql`${table.deletedAt} is null`),
 }));
 
-// Entity hierarchy table - represents organizations, franchisees, schools, students
+// Entity hierarchy table - represents organizations, franchisees, schools, branches, students.
+// A BRANCH is a campus under a SCHOOL; students and camps sit under either one.
 export const entities = pgTable("entities", {
   id: serial("id").primaryKey(),
   type: entityTypeEnum("type").notNull(),
   name: text("name").notNull(),
   parentId: integer("parent_id"), // Self-referencing FK for hierarchy
-  status: entityStatusEnum("status").notNull().default("DRAFT"),
+  status: entityStatusEnum("status").notNull().default("DRAFT"), // Changed only through the lifecycle transitions
+  statusReason: text("status_reason"), // Why the entity was last suspended or archived
+  statusChangedAt: timestamp("status_changed_at"),
+  statusChangedBy: integer("status_changed_by"), // FK to users
 
   // Additional fields for different entity types
-  metadata: json("metadata").$type<{
-    // For ORGANIZATION
-    orgDescription?: string;
-
-    // For FRANCHISEE
-    region?: string;
-    franchiseContactPerson?: string;
-    franchiseContactEmail?: string;
-    franchiseContactPhone?: string;
-    franchiseAddress?: string;
-    franchiseCity?: string;
-    franchiseState?: string;
-    franchisePincode?: string;
-
-    // For SCHOOL
-    schoolAddress?: string;
-    schoolCity?: string;
-    schoolState?: string;
-    schoolPincode?: string;
-    schoolContactPerson?: string;
-    schoolContactPhone?: string;
-    schoolContactEmail?: string;
-    registrationNumber?: string;
-    hasSubBranches?: boolean;
-
-    // For STUDENT
-    age?: number;
-    gender?: string;
-    grade?: string;
-    rollNumber?: string;
-    parentName?: string;
-    parentPhone?: string;
-    parentEmail?: string;
-    parentOccupation?: string;
-
-    // Generic aliases (used in some places)
-    address?: string;
-    city?: string;
-    state?: string;
-    pincode?: string;
-    contactPerson?: string;
-    contactPhone?: string;
-    contactEmail?: string;
-  }>(),
+  metadata: json("metadata").$type<EntityMetadata>(), // Canonical fields for the type; see entityMetadataSchemas
 
+  deletedAt: timestamp("deleted_at"), // In the recycle bin since; purged once the retention period has passed
+  deletedBy: integer("deleted_by"), // FK to users
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   typeIdx: index("entities_type_idx").on(table.type),
   parentIdx: index("entities_parent_idx").on(table.parentId),
   statusIdx: index("entities_status_idx").on(table.status),
+  deletedIdx: index("entities_deleted_idx").on(table.deletedAt),
 }));
 
 // Membership table - links users to entities with roles
@@ -111,11 +213,16 @@ export const memberships = pgTable("memberships", {
   isPrimary: boolean("is_primary").notNull().default(false),
   validFrom: timestamp("valid_from"),
   validTo: timestamp("valid_to"),
+  expiryNotifiedAt: timestamp("expiry_notified_at"), // Set once admins have been warned about validTo
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   userIdx: index("memberships_user_idx").on(table.userId),
   entityIdx: index("memberships_entity_idx").on(table.entityId),
   roleIdx: index("memberships_role_idx").on(table.role),
+  // A school has exactly one PRINCIPAL and one SCHOOL_ADMIN; use a handover to change the holder
+  schoolHeadUnique: uniqueIndex("memberships_school_head_unique")
+    .on(table.entityId, table.role)
+    .where(sql`${table.role} in ('PRINCIPAL', 'SCHOOL_ADMIN')`),
 }));
 
 // Parent-Student relationships (many-to-many)
@@ -185,11 +292,11 @@ export const auditLogs = pgTable("audit_logs", {
 // Magic link tokens for passwordless auth
 export const magicTokens = pgTable("magic_tokens", {
   id: serial("id").primaryKey(),
-  token: text("token").notNull().unique(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token; the token itself is only ever in the link or response
   email: text("email").notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   usedAt: timestamp("used_at"),
-  purpose: text("purpose").notNull().default("LOGIN"), // LOGIN, INVITE
+  purpose: text("purpose").notNull().default("LOGIN"), // LOGIN, INVITE, OTP, RESET, MFA_CHALLENGE, MFA_ENROLL, FRANCHISE_AGREEMENT, SCHOOL_AGREEMENT
   metadata: json("metadata").$type<{
     targetEntityId?: number;
     targetRole?: string;
@@ -201,14 +308,216 @@ export const magicTokens = pgTable("magic_tokens", {
     schoolId?: number;
     schoolName?: string;
     userId?: number;
+    // For OTP
+    codeHash?: string;
+    channel?: string;
+    attempts?: number;
   }>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
-  tokenIdx: index("magic_tokens_token_idx").on(table.token),
+  tokenIdx: index("magic_tokens_token_idx").on(table.tokenHash),
   emailIdx: index("magic_tokens_email_idx").on(table.email),
   expiresIdx: index("magic_tokens_expires_idx").on(table.expiresAt),
 }));
 
+// Previous password hashes, checked so a reset cannot reuse a recent password
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // FK to users
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("password_history_user_idx").on(table.userId),
+}));
+
+// Invitations sent to users and entity contacts, tracked through to acceptance
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  kind: invitationKindEnum("kind").notNull(),
+  email: text("email").notNull(),
+  name: text("name").notNull(),
+  userId: integer("user_id").notNull(), // FK to users - the invitee
+  entityId: integer("entity_id").notNull(), // FK to entities - where the invitee is being granted access
+  membershipId: integer("membership_id"), // FK to memberships created by the invitation, removed on revoke
+  role: roleEnum("role").notNull(),
+  invitedBy: integer("invited_by"), // FK to users
+  status: invitationStatusEnum("status").notNull().default("PENDING"),
+  magicTokenId: integer("magic_token_id"), // FK to magic_tokens - the currently valid link
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSentAt: timestamp("last_sent_at").defaultNow().notNull(),
+  sendCount: integer("send_count").notNull().default(1),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: integer("revoked_by"), // FK to users
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  statusIdx: index("invitations_status_idx").on(table.status),
+  entityIdx: index("invitations_entity_idx").on(table.entityId),
+  tokenIdx: index("invitations_token_idx").on(table.magicTokenId),
+}));
+
+// Login sessions backing short-lived access tokens and rotating refresh tokens
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // FK to users
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(), // SHA-256 of the current refresh token
+  previousRefreshTokenHash: text("previous_refresh_token_hash"), // Kept after rotation to detect replay of a stolen token
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: text("revoked_reason"), // LOGOUT, LOGOUT_ALL, SUSPENDED, ENTITY_SUSPENDED, MEMBERSHIP_CHANGED, TOKEN_REUSE, PASSWORD_RESET, PASSWORD_CHANGED, IMPERSONATION_ENDED
+  parentSessionId: integer("parent_session_id"), // Set on an impersonation view: the admin session it was opened from, and ends with
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("sessions_user_idx").on(table.userId),
+}));
+
+// API keys for service accounts. Only a hash of the key is stored; the key itself is shown once on creation
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // FK to users - the service account
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // Leading characters of the key, to tell keys apart
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the key
+  permissions: json("permissions").$type<("READ" | "WRITE")[]>().notNull(), // READ allows GET requests, WRITE everything else
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: integer("revoked_by"), // FK to users
+  createdBy: integer("created_by"), // FK to users
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("api_keys_user_idx").on(table.userId),
+}));
+
+// Areas a franchisee claims. A row covers a whole state, a district within
+// a state, or a single pincode within a district; claims never overlap.
+export const territories = pgTable("territories", {
+  id: serial("id").primaryKey(),
+  franchiseeId: integer("franchisee_id").notNull(), // FK to entities where type=FRANCHISEE
+  state: text("state").notNull(), // Stored upper-cased, e.g. KARNATAKA
+  district: text("district"), // Null claims the whole state
+  pincode: text("pincode"), // Null claims the whole district; requires district
+  createdBy: integer("created_by"), // FK to users
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  franchiseeIdx: index("territories_franchisee_idx").on(table.franchiseeId),
+  stateIdx: index("territories_state_idx").on(table.state),
+  pincodeIdx: index("territories_pincode_idx").on(table.pincode),
+}));
+
+// Moves of a school from one franchisee to another. Its branches, students,
+// camps and staff follow it; camps that started before effectiveAt stay
+// credited to the franchisee it left.
+export const entityTransfers = pgTable("entity_transfers", {
+  id: serial("id").primaryKey(),
+  entityId: integer("entity_id").notNull(), // FK to entities where type=SCHOOL
+  fromParentId: integer("from_parent_id").notNull(), // FK to entities where type=FRANCHISEE
+  toParentId: integer("to_parent_id").notNull(), // FK to entities where type=FRANCHISEE
+  effectiveAt: timestamp("effective_at").notNull(),
+  reason: text("reason"),
+  transferredBy: integer("transferred_by"), // FK to users
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  entityIdx: index("entity_transfers_entity_idx").on(table.entityId),
+}));
+
+// A class/section of a school or branch for one academic year, e.g. Grade 5 B in 2025-26
+export const classes = pgTable("classes", {
+  id: serial("id").primaryKey(),
+  schoolEntityId: integer("school_entity_id").notNull(), // FK to entities where type=SCHOOL or BRANCH
+  academicYear: text("academic_year").notNull(), // e.g. 2025-26
+  grade: text("grade").notNull(), // e.g. 5
+  section: text("section"), // e.g. B; null when the grade has a single section
+  createdBy: integer("created_by"), // FK to users
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  schoolIdx: index("classes_school_idx").on(table.schoolEntityId),
+  uniqueClass: unique("classes_school_year_grade_section_unique").on(table.schoolEntityId, table.academicYear, table.grade, table.section),
+}));
+
+// A school's academic years; branches follow their school. Exactly one is current, and
+// rolling over closes it, promotes the students and opens the next one.
+export const academicYears = pgTable("academic_years", {
+  id: serial("id").primaryKey(),
+  schoolEntityId: integer("school_entity_id").notNull(), // FK to entities where type=SCHOOL
+  label: text("label").notNull(), // e.g. 2025-26
+  isCurrent: boolean("is_current").notNull().default(false),
+  rolledOverAt: timestamp("rolled_over_at"), // Set when the school moved on to the next year
+  rolledOverBy: integer("rolled_over_by"), // FK to users
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  schoolIdx: index("academic_years_school_idx").on(table.schoolEntityId),
+  uniqueYear: unique("academic_years_school_label_unique").on(table.schoolEntityId, table.label),
+}));
+
+// Teachers assigned to a class; a TEACHER sees only the students of their classes
+export const teacherClasses = pgTable("teacher_classes", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").notNull(), // FK to classes
+  teacherUserId: integer("teacher_user_id").notNull(), // FK to users with a TEACHER membership
+  assignedBy: integer("assigned_by"), // FK to users
+  assignedAt: timestamp("assigned_at").defaultNow().notNull(),
+}, (table) => ({
+  teacherIdx: index("teacher_classes_teacher_idx").on(table.teacherUserId),
+  uniqueAssignment: unique("teacher_class_unique").on(table.classId, table.teacherUserId),
+}));
+
+// Students placed in a class; at most one class per student per academic year
+export const studentClasses = pgTable("student_classes", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").notNull(), // FK to classes
+  studentEntityId: integer("student_entity_id").notNull(), // FK to entities where type=STUDENT
+  assignedBy: integer("assigned_by"), // FK to users
+  assignedAt: timestamp("assigned_at").defaultNow().notNull(),
+}, (table) => ({
+  classIdx: index("student_classes_class_idx").on(table.classId),
+  studentIdx: index("student_classes_student_idx").on(table.studentEntityId),
+  uniquePlacement: unique("student_class_unique").on(table.classId, table.studentEntityId),
+}));
+
+// Field-level before/after diffs of every update to an entity, user or membership
+export const changeHistory = pgTable("change_history", {
+  id: serial("id").primaryKey(),
+  recordType: text("record_type").notNull(), // ENTITY, USER, MEMBERSHIP
+  recordId: integer("record_id").notNull(),
+  actorUserId: integer("actor_user_id"), // Null for system jobs and unauthenticated flows
+  changes: json("changes").$type<Record<string, { from: any; to: any }>>().notNull(), // Keyed by field; metadata fields as metadata.<key>
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => ({
+  recordIdx: index("change_history_record_idx").on(table.recordType, table.recordId),
+}));
+
+// Suspected duplicates found by similarity matching, queued for staff to keep apart or merge
+export const duplicateReviews = pgTable("duplicate_reviews", {
+  id: serial("id").primaryKey(),
+  recordType: text("record_type").notNull(), // SCHOOL, STUDENT (entity ids) or PARENT (user ids)
+  recordId: integer("record_id").notNull(), // The newly created record
+  matchId: integer("match_id").notNull(), // The existing record it resembles
+  scopeEntityId: integer("scope_entity_id").notNull(), // FK to entities; decides who may review it
+  score: integer("score").notNull(), // Similarity, 0-100
+  reasons: json("reasons").$type<string[]>().notNull(), // e.g. "Similar name", "Same pincode"
+  status: text("status").notNull().default("PENDING"), // PENDING, DISTINCT, MERGED
+  resolvedBy: integer("resolved_by"), // FK to users
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  statusIdx: index("duplicate_reviews_status_idx").on(table.status),
+  uniquePair: unique("duplicate_reviews_pair_unique").on(table.recordType, table.recordId, table.matchId),
+}));
+
+// System-wide settings (e.g. security policies)
+export const systemSettings = pgTable("system_settings", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // e.g., 'MFA_REQUIRED_ROLES'
+  value: json("value").$type<any>().notNull(),
+  updatedBy: integer("updated_by"), // FK to users
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Dental-specific tables (keeping the core functionality)
 
 // Camps table
@@ -222,6 +531,7 @@ export const camps = pgTable("camps", {
   status: campStatusEnum("status").notNull().default("DRAFT"), // State machine managed
   description: text("description"),
   assignedDentistId: integer("assigned_dentist_id"), // FK to users with DENTIST role
+  franchiseeEntityId: integer("franchisee_entity_id"), // Franchisee credited with the camp; kept when the school is transferred
   createdBy: integer("created_by").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
@@ -328,6 +638,10 @@ export const screenings = pgTable("screenings", {
   // Recommendations
   preventiveMeasures: text("preventive_measures"),
 
+  // The student's grade when screened, so promotions do not rewrite history
+  grade: text("grade"),
+  academicYear: text("academic_year"), // e.g. 2025-26
+
   // Status
   isCompleted: boolean("is_completed").default(false),
   completedAt: timestamp("completed_at"),
@@ -374,14 +688,35 @@ export const contentItems = pgTable("content_items", {
 }));
 
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertEntitySchema = createInsertSchema(entities).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertUserSchema = createInsertSchema(users, {
+  mfaRecoveryCodes: z.array(z.string()).nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true, deletedAt: true, deletedBy: true });
+export const insertEntitySchema = createInsertSchema(entities).omit({ id: true, createdAt: true, updatedAt: true, deletedAt: true, deletedBy: true });
 export const insertMembershipSchema = createInsertSchema(memberships).omit({ id: true, createdAt: true });
 export const insertParentStudentLinkSchema = createInsertSchema(parentStudentLinks).omit({ id: true, createdAt: true });
 export const insertAgreementSchema = createInsertSchema(agreements).omit({ id: true, createdAt: true });
 export const insertAgreementAcceptanceSchema = createInsertSchema(agreementAcceptances).omit({ id: true });
-export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true });
+export const insertAuditLogSchema = createInsertSchema(auditLogs, {
+  metadata: z.record(z.any()).nullable().optional(),
+}).omit({ id: true });
 export const insertMagicTokenSchema = createInsertSchema(magicTokens).omit({ id: true, createdAt: true });
+export const insertPasswordHistorySchema = createInsertSchema(passwordHistory).omit({ id: true, createdAt: true });
+export const insertInvitationSchema = createInsertSchema(invitations).omit({ id: true, createdAt: true });
+export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, createdAt: true });
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  permissions: z.array(z.enum(["READ", "WRITE"])),
+}).omit({ id: true, createdAt: true });
+export const insertTerritorySchema = createInsertSchema(territories).omit({ id: true, createdAt: true });
+export const insertEntityTransferSchema = createInsertSchema(entityTransfers).omit({ id: true, createdAt: true });
+export const insertClassSchema = createInsertSchema(classes).omit({ id: true, createdAt: true });
+export const insertAcademicYearSchema = createInsertSchema(academicYears).omit({ id: true, createdAt: true });
+export const insertTeacherClassSchema = createInsertSchema(teacherClasses).omit({ id: true, assignedAt: true });
+export const insertStudentClassSchema = createInsertSchema(studentClasses).omit({ id: true, assignedAt: true });
+export const insertChangeHistorySchema = createInsertSchema(changeHistory).omit({ id: true, changedAt: true });
+export const insertDuplicateReviewSchema = createInsertSchema(duplicateReviews, {
+  reasons: z.array(z.string()),
+}).omit({ id: true, createdAt: true });
+export const insertSystemSettingSchema = createInsertSchema(systemSettings).omit({ id: true, updatedAt: true });
 export const insertCampSchema = createInsertSchema(camps).omit({ id: true, createdAt: true });
 export const insertCampEnrollmentSchema = createInsertSchema(campEnrollments).omit({ id: true, enrolledAt: true });
 export const insertConsentSchema = createInsertSchema(consents).omit({ id: true, createdAt: true, updatedAt: true });
@@ -397,6 +732,46 @@ export const magicLinkConsumeSchema = z.object({
   token: z.string().min(1),
 });
 
+export const otpRequestSchema = z.object({
+  email: z.string().email(),
+  channel: z.enum(["EMAIL", "SMS"]).default("EMAIL"),
+});
+
+export const otpVerifySchema = z.object({
+  email: z.string().email(),
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const mfaCodeSchema = z.object({
+  code: z.string().min(6).max(32),
+});
+
+export const mfaChallengeSchema = z.object({
+  mfaToken: z.string().min(1),
+  code: z.string().min(6).max(32),
+});
+
+export const mfaPolicySchema = z.object({
+  requiredRoles: z.array(z.enum(["SYSTEM_ADMIN", "ORG_ADMIN", "FRANCHISE_ADMIN", "FRANCHISE_STAFF", "PRINCIPAL", "SCHOOL_ADMIN", "TEACHER", "PARENT", "DENTIST", "TECHNICIAN"])),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const impersonateSchema = z.object({
+  userId: z.number(),
+});
+
 export const acceptAgreementsSchema = z.object({
   agreementIds: z.array(z.number()),
 });
@@ -408,6 +783,82 @@ export const createUserSchema = z.object({
   phone: z.string().optional(),
 });
 
+export const createServiceAccountSchema = z.object({
+  name: z.string().min(1),
+  entityId: z.number(),
+  role: z.enum(["ORG_ADMIN", "FRANCHISE_ADMIN", "FRANCHISE_STAFF", "PRINCIPAL", "SCHOOL_ADMIN", "TEACHER", "DENTIST", "TECHNICIAN"]),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1),
+  permissions: z.array(z.enum(["READ", "WRITE"])).min(1),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+export const createBranchSchema = z.object({
+  name: z.string().trim().min(1),
+  branchCode: z.string().trim().optional(),
+  address: z.string().trim().optional(),
+  city: z.string().trim().optional(),
+  state: z.string().trim().optional(),
+  pincode: z.string().regex(/^\d{6}$/, "Pincode must be 6 digits").optional(),
+});
+
+export const createClassSchema = z.object({
+  academicYear: z.string().regex(/^\d{4}-\d{2}$/, "Academic year must look like 2025-26"),
+  grade: z.string().trim().min(1),
+  section: z.string().trim().toUpperCase().min(1).optional(),
+});
+
+// Students in finalGrade leave the school at rollover: GRADUATE keeps them on its books as
+// alumni, ARCHIVE detaches them like archiving a student by hand
+export const academicYearRolloverSchema = z.object({
+  finalGrade: z.string().trim().min(1),
+  finalGradeAction: z.enum(["GRADUATE", "ARCHIVE"]),
+});
+
+export const assignTeacherSchema = z.object({
+  userId: z.number(),
+});
+
+export const assignStudentsSchema = z.object({
+  studentIds: z.array(z.number()).min(1),
+});
+
+export const entityTransitionSchema = z.object({
+  reason: z.string().trim().min(1).optional(),
+});
+
+export const territoryClaimSchema = z.object({
+  state: z.string().trim().min(1),
+  district: z.string().trim().min(1).optional(),
+  pincode: z.string().regex(/^\d{6}$/, "Pincode must be 6 digits").optional(),
+}).refine(claim => !claim.pincode || claim.district, {
+  message: "A pincode claim needs its district",
+  path: ["district"],
+});
+
+export const transferSchoolSchema = z.object({
+  targetFranchiseeId: z.number(),
+  effectiveAt: z.coerce.date().optional(), // Defaults to now
+  reason: z.string().trim().min(1).optional(),
+});
+
+// Merging folds the other record of the pair into keepId and moves it to the recycle bin
+export const resolveDuplicateSchema = z.object({
+  action: z.enum(["DISTINCT", "MERGE"]),
+  keepId: z.number().int().optional(),
+}).refine(input => input.action !== "MERGE" || input.keepId !== undefined, {
+  message: "keepId is required to merge",
+  path: ["keepId"],
+});
+
+export const territoryLookupSchema = z.object({
+  state: z.string().trim().min(1),
+  district: z.string().trim().min(1).optional(),
+  pincode: z.string().regex(/^\d{6}$/, "Pincode must be 6 digits").optional(),
+});
+
 export const createMembershipSchema = z.object({
   userId: z.number(),
   entityId: z.number(),
@@ -415,6 +866,18 @@ export const createMembershipSchema = z.object({
   isPrimary: z.boolean().optional(),
 });
 
+export const handOverRoleSchema = z.object({
+  userId: z.number(),
+});
+
+export const membershipWindowSchema = z.object({
+  validFrom: z.coerce.date().nullable(),
+  validTo: z.coerce.date().nullable(),
+}).refine(window => !window.validFrom || !window.validTo || window.validTo > window.validFrom, {
+  message: "validTo must be after validFrom",
+  path: ["validTo"],
+});
+
 export const inviteUserSchema = z.object({
   email: z.string().email(),
   name: z.string().min(1),
@@ -427,6 +890,8 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Entity = typeof entities.$inferSelect;
 export type InsertEntity = z.infer<typeof insertEntitySchema>;
+export type EntityWithDepth = Entity & { depth: number }; // Levels below the root of a subtree query
+export type EntityTypeCounts = Partial<Record<Entity['type'], number>>;
 export type Membership = typeof memberships.$inferSelect;
 export type InsertMembership = z.infer<typeof insertMembershipSchema>;
 export type ParentStudentLink = typeof parentStudentLinks.$inferSelect;
@@ -439,6 +904,34 @@ export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type MagicToken = typeof magicTokens.$inferSelect;
 export type InsertMagicToken = z.infer<typeof insertMagicTokenSchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type InsertPasswordHistory = z.infer<typeof insertPasswordHistorySchema>;
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type Territory = typeof territories.$inferSelect;
+export type InsertTerritory = z.infer<typeof insertTerritorySchema>;
+export type EntityTransfer = typeof entityTransfers.$inferSelect;
+export type InsertEntityTransfer = z.infer<typeof insertEntityTransferSchema>;
+export type Class = typeof classes.$inferSelect;
+export type InsertClass = z.infer<typeof insertClassSchema>;
+export type AcademicYear = typeof academicYears.$inferSelect;
+export type InsertAcademicYear = z.infer<typeof insertAcademicYearSchema>;
+export type TeacherClass = typeof teacherClasses.$inferSelect;
+export type InsertTeacherClass = z.infer<typeof insertTeacherClassSchema>;
+export type StudentClass = typeof studentClasses.$inferSelect;
+export type InsertStudentClass = z.infer<typeof insertStudentClassSchema>;
+export type ChangeHistory = typeof changeHistory.$inferSelect;
+export type InsertChangeHistory = z.infer<typeof insertChangeHistorySchema>;
+export type ChangeRecordType = 'ENTITY' | 'USER' | 'MEMBERSHIP';
+export type DuplicateReview = typeof duplicateReviews.$inferSelect;
+export type InsertDuplicateReview = z.infer<typeof insertDuplicateReviewSchema>;
+export type DuplicateRecordType = 'SCHOOL' | 'STUDENT' | 'PARENT';
+export type SystemSetting = typeof systemSettings.$inferSelect;
+export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
 export type Camp = typeof camps.$inferSelect;
 export type InsertCamp = z.infer<typeof insertCampSchema>;
 export type CampEnrollment = typeof campEnrollments.$inferSelect;
@@ -453,9 +946,31 @@ export type InsertConsent = z.infer<typeof insertConsentSchema>;
 // Auth types
 export type MagicLinkRequest = z.infer<typeof magicLinkRequestSchema>;
 export type MagicLinkConsume = z.infer<typeof magicLinkConsumeSchema>;
+export type OtpRequest = z.infer<typeof otpRequestSchema>;
+export type OtpVerify = z.infer<typeof otpVerifySchema>;
+export type PasswordResetRequest = z.infer<typeof passwordResetRequestSchema>;
+export type PasswordReset = z.infer<typeof passwordResetSchema>;
+export type MfaChallenge = z.infer<typeof mfaChallengeSchema>;
+export type MfaPolicy = z.infer<typeof mfaPolicySchema>;
+export type RefreshToken = z.infer<typeof refreshTokenSchema>;
+export type Impersonate = z.infer<typeof impersonateSchema>;
 export type AcceptAgreements = z.infer<typeof acceptAgreementsSchema>;
 export type CreateUser = z.infer<typeof createUserSchema>;
 export type CreateMembership = z.infer<typeof createMembershipSchema>;
+export type MembershipWindow = z.infer<typeof membershipWindowSchema>;
+export type HandOverRole = z.infer<typeof handOverRoleSchema>;
+export type CreateServiceAccount = z.infer<typeof createServiceAccountSchema>;
+export type CreateApiKey = z.infer<typeof createApiKeySchema>;
+export type CreateBranch = z.infer<typeof createBranchSchema>;
+export type CreateClass = z.infer<typeof createClassSchema>;
+export type AcademicYearRollover = z.infer<typeof academicYearRolloverSchema>;
+export type AssignTeacher = z.infer<typeof assignTeacherSchema>;
+export type AssignStudents = z.infer<typeof assignStudentsSchema>;
+export type EntityTransitionRequest = z.infer<typeof entityTransitionSchema>;
+export type TerritoryClaim = z.infer<typeof territoryClaimSchema>;
+export type TerritoryLookup = z.infer<typeof territoryLookupSchema>;
+export type TransferSchool = z.infer<typeof transferSchoolSchema>;
+export type ResolveDuplicate = z.infer<typeof resolveDuplicateSchema>;
 export type InviteUser = z.infer<typeof inviteUserSchema>;
 
 // Content Schemas